@@ -1,25 +1,15 @@
 import express from 'express';
 const router = express.Router();
-import fs from 'fs';
-import path from 'path';
-import { atomicWrite } from './utils';
 import { getSession, validateSessionBinding } from './sessionStore';
+import { commentsRepository, commentUpvotesRepository, usersRepository, withTransaction, UserRecord } from '../server/storage';
+import {
+    ModeratedComment, REPORT_REASONS, announceHeldComment, checkComment, deleteCommentThread,
+    getMutedUntil, initialStatus, isStaff, isVisibleTo, reportComment
+} from '../server/moderation';
+import { rateLimit } from './rateLimiter';
+import { getClientIp } from './utils';
+import { needsTwoFactorSetup } from '../server/twoFactor';
 
-// --- DB HELPERS & CONFIG ---
-// Use process.cwd() for VPS compatibility instead of relative paths
-const COMMENTS_PATH = path.join(process.cwd(), 'data', 'comments.json');
-const USERS_PATH = path.join(process.cwd(), 'data', 'users.json');
-
-const readJsonFile = (filePath: string, defaultValue: any) => {
-    try {
-        if (!fs.existsSync(filePath)) return defaultValue;
-        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    } catch { return defaultValue; }
-};
-const writeCommentsDb = (data: any) => atomicWrite(COMMENTS_PATH, JSON.stringify(data, null, 2));
-
-const readCommentsDb = () => readJsonFile(COMMENTS_PATH, { comments: {}, upvotes: {} });
-const getUsers = () => readJsonFile(USERS_PATH, []);
 const sanitize = (str: string) => str.replace(/</g, "&lt;").replace(/>/g, "&gt;");
 
 // SECURITY FIX: Proper session validation using server-side session store
@@ -41,7 +31,7 @@ const validateAuthToken = (authHeader: string | undefined, req: express.Request)
     }
     
     // Validate session binding to prevent session hijacking
-    const clientIp = req.headers['x-forwarded-for']?.toString().split(',')[0].trim() || req.socket.remoteAddress || 'unknown';
+    const clientIp = getClientIp(req);
     const clientUserAgent = req.headers['user-agent'] || 'unknown';
     
     if (!validateSessionBinding(session, clientIp, clientUserAgent)) {
@@ -50,7 +40,7 @@ const validateAuthToken = (authHeader: string | undefined, req: express.Request)
     }
     
     // Verify user exists
-    const user = getUsers().find((u: any) => u.id === session.userId);
+    const user = usersRepository.get(session.userId);
     if (!user) {
         return { valid: false, error: 'User not found' };
     }
@@ -58,52 +48,190 @@ const validateAuthToken = (authHeader: string | undefined, req: express.Request)
     return { valid: true, userId: session.userId };
 };
 
+/**
+ * What a reader gets to know about a comment's moderation. Authors see that their comment
+ * is waiting or hidden, but never that they are shadow-banned; staff also see why.
+ */
+const toPublicComment = (comment: ModeratedComment, viewer: UserRecord | undefined) => {
+    const { status, flags, reports, reviewedBy, reviewedAt, ...rest } = comment;
+    const publicComment: any = { ...rest };
+    if (viewer) publicComment.reportedByMe = (reports || []).some(report => report.userId === viewer.id);
+
+    if (isStaff(viewer) && status !== 'shadow') {
+        if (status) publicComment.status = status;
+        if (flags) publicComment.flags = flags;
+        if (reports) publicComment.reportCount = reports.length;
+    } else if (viewer && viewer.id === comment.userId && status && status !== 'shadow' && status !== 'flagged') {
+        publicComment.status = status;
+    }
+    return publicComment;
+};
+
+type SortMode = 'newest' | 'top' | 'rating';
+const SORT_MODES: SortMode[] = ['newest', 'top', 'rating'];
+
+const THREAD_PAGE_SIZE = 20;
+const REPLY_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+const MAX_REVISIONS = 20;
+// Authors can fix their comment for this long after posting it
+const EDIT_WINDOW_MS = (parseInt(process.env.COMMENT_EDIT_WINDOW_MINUTES || '15', 10) || 15) * 60 * 1000;
+
+/** [sort value, date, id]: threads are ordered by these, newest first, and cursors point at one */
+type CursorKey = [number, number, string];
+
+const encodeCursor = (key: CursorKey) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+const decodeCursor = (cursor: unknown): CursorKey | null => {
+    if (typeof cursor !== 'string' || !cursor) return null;
+    try {
+        const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        return Array.isArray(key) && key.length === 3 && typeof key[0] === 'number' && typeof key[1] === 'number' && typeof key[2] === 'string'
+            ? key as CursorKey
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+const compareKeys = (a: CursorKey, b: CursorKey) => (b[0] - a[0]) || (b[1] - a[1]) || (a[2] < b[2] ? 1 : a[2] > b[2] ? -1 : 0);
+
+const parseLimit = (value: unknown, fallback: number) =>
+    Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(value ?? ''), 10) || fallback));
+
+/**
+ * One page of `items` after `cursor`. Keys compare newest-first; `ascending` flips that for replies.
+ * A cursor keeps its place even when comments are added or removed ahead of it.
+ */
+const paginate = <T>(items: T[], keyOf: (item: T) => CursorKey, cursor: unknown, limit: number, ascending = false) => {
+    const compare = (a: CursorKey, b: CursorKey) => ascending ? -compareKeys(a, b) : compareKeys(a, b);
+    const after = decodeCursor(cursor);
+    const sorted = items.map(item => ({ item, key: keyOf(item) })).sort((a, b) => compare(a.key, b.key));
+    const remaining = after ? sorted.filter(entry => compare(entry.key, after) > 0) : sorted;
+    const page = remaining.slice(0, limit);
+    return {
+        items: page.map(entry => entry.item),
+        nextCursor: remaining.length > limit ? encodeCursor(page[page.length - 1].key) : null,
+    };
+};
+
+const getViewer = (req: express.Request): UserRecord | undefined => {
+    if (!req.headers.authorization) return undefined;
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    return authResult.valid ? usersRepository.get(authResult.userId!) : undefined;
+};
+
+/**
+ * The comments of a movie the viewer may see, grouped by parent (`null` for root threads).
+ * Replies under a comment the viewer can't see are left out with it.
+ */
+const loadVisibleComments = (movieId: string, viewer: UserRecord | undefined) => {
+    const stored = commentsRepository.get(movieId) as ModeratedComment[];
+    const byId = new Map(stored.map(c => [c.id, c]));
+    const shown = new Map<string, boolean>();
+    const isShown = (comment: ModeratedComment): boolean => {
+        if (!shown.has(comment.id)) {
+            shown.set(comment.id, false);
+            const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+            shown.set(comment.id, isVisibleTo(comment, viewer) && (!parent || isShown(parent)));
+        }
+        return shown.get(comment.id)!;
+    };
+
+    const byParent = new Map<string | null, ModeratedComment[]>();
+    stored.filter(isShown).forEach(comment => {
+        // Replies whose parent no longer exists are shown as threads of their own
+        const parentId = comment.parentId && byId.has(comment.parentId) ? comment.parentId : null;
+        if (!byParent.has(parentId)) byParent.set(parentId, []);
+        byParent.get(parentId)!.push(comment);
+    });
+    return { byId, byParent, isShown };
+};
+
+/** A comment as the site renders it; replies are fetched separately from /replies */
+const presentComment = (comment: ModeratedComment, viewer: UserRecord | undefined, byParent: Map<string | null, ModeratedComment[]>) => {
+    const user = usersRepository.get(comment.userId);
+    const { revisions, ...publicComment } = toPublicComment(comment, viewer);
+    return {
+        ...publicComment,
+        reviewer: user ? user.name : 'Anonymous',
+        userProfilePic: user ? user.profilePic || undefined : undefined,
+        userRole: user ? user.role || 'user' : 'user',
+        replies: [],
+        replyCount: (byParent.get(comment.id) || []).length,
+        revisionCount: (revisions || []).length,
+        ...(viewer && viewer.id === comment.userId ? { editableUntil: new Date(Date.parse(comment.date) + EDIT_WINDOW_MS).toISOString() } : {}),
+    };
+};
+
+const upvotesFor = (comments: ModeratedComment[]) =>
+    Object.fromEntries(comments.map(c => [c.id, commentUpvotesRepository.get(c.id)]).filter(([, userIds]) => userIds.length > 0));
+
+// Every write below shares one budget per reader (and per IP)
+const commentLimit = rateLimit('comments', 'You are commenting too fast. Please wait a moment and try again.');
+
 // --- ROUTES ---
 
-// GET /api/comments?movieId=...
+// GET /api/comments?movieId=...&sort=newest|top|rating&limit=20&cursor=... - one page of root threads
+// Signed-in readers also see their own held comments; staff see the whole queue
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
 router.get('/', (req: express.Request, res: express.Response) => {
-    const { movieId } = req.query;
+    const { movieId, cursor } = req.query;
     if (!movieId) return res.status(400).json({ error: 'Movie ID is required' });
+    const sort = (req.query.sort || 'newest') as SortMode;
+    if (!SORT_MODES.includes(sort)) return res.status(400).json({ error: `Sort must be one of: ${SORT_MODES.join(', ')}` });
 
-    const db = readCommentsDb();
-    const movieComments = db.comments[movieId as string] || [];
+    const viewer = getViewer(req);
+    const { byParent } = loadVisibleComments(movieId as string, viewer);
+    const threads = byParent.get(null) || [];
 
-    const commentMap = new Map();
-    movieComments.forEach((c: any) => { c.replies = []; commentMap.set(c.id, c); });
+    const sortValue = (comment: ModeratedComment) =>
+        sort === 'top' ? commentUpvotesRepository.get(comment.id).length : sort === 'rating' ? (comment.rating || 0) : 0;
+    const page = paginate(threads, c => [sortValue(c), Date.parse(c.date) || 0, c.id], cursor, parseLimit(req.query.limit, THREAD_PAGE_SIZE));
 
-    const rootComments: any[] = [];
-    movieComments.forEach((c: any) => {
-        if (c.parentId && commentMap.has(c.parentId)) {
-            commentMap.get(c.parentId).replies.push(c);
-        } else {
-            rootComments.push(c);
-        }
+    res.status(200).json({
+        comments: page.items.map(c => presentComment(c, viewer, byParent)),
+        upvotes: upvotesFor(page.items),
+        nextCursor: page.nextCursor,
+        total: threads.length,
     });
+});
+
+// GET /api/comments/replies?movieId=...&parentId=...&limit=10&cursor=... - direct replies, oldest first
+router.get('/replies', (req: express.Request, res: express.Response) => {
+    const { movieId, parentId, cursor } = req.query;
+    if (!movieId || !parentId) return res.status(400).json({ error: 'Movie ID and parent ID are required' });
+
+    const viewer = getViewer(req);
+    const { byParent } = loadVisibleComments(movieId as string, viewer);
+    const replies = byParent.get(parentId as string) || [];
+    const page = paginate(replies, c => [0, Date.parse(c.date) || 0, c.id], cursor, parseLimit(req.query.limit, REPLY_PAGE_SIZE), true);
 
-    const upvotesForMovie = Object.fromEntries(
-        Object.entries(db.upvotes).filter(([commentId]) => commentMap.has(commentId))
-    );
-
-    // Enhance comments with user details
-    const commentsWithUserDetails = rootComments.map((comment) => {
-        const user = getUsers().find((u: any) => u.id === comment.userId);
-        return {
-            ...comment,
-            reviewer: user ? user.name : 'Anonymous',
-            userProfilePic: user ? user.profilePic || undefined : undefined,
-            userRole: user ? user.role || 'user' : 'user',
-        };
+    res.status(200).json({
+        replies: page.items.map(c => presentComment(c, viewer, byParent)),
+        upvotes: upvotesFor(page.items),
+        nextCursor: page.nextCursor,
+        total: replies.length,
     });
+});
+
+// GET /api/comments/revisions?movieId=...&commentId=... - earlier versions of an edited comment
+router.get('/revisions', (req: express.Request, res: express.Response) => {
+    const { movieId, commentId } = req.query;
+    if (!movieId || !commentId) return res.status(400).json({ error: 'Movie ID and comment ID are required' });
+
+    const { byId, isShown } = loadVisibleComments(movieId as string, getViewer(req));
+    const comment = byId.get(commentId as string);
+    if (!comment || !isShown(comment)) return res.status(404).json({ error: 'Comment not found' });
 
-    res.status(200).json({ comments: commentsWithUserDetails.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()), upvotes: upvotesForMovie });
+    res.status(200).json({ revisions: [...(comment.revisions || [])].reverse() });
 });
 
 // POST /api/comments (add new comment) - SECURITY: Now uses proper server-side validation
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
-router.post('/', (req: express.Request, res: express.Response) => {
+router.post('/', commentLimit, (req: express.Request, res: express.Response) => {
     const { movieId, commentData } = req.body;
     
     // SECURITY FIX: Validate session token against server-side session store
@@ -112,33 +240,136 @@ router.post('/', (req: express.Request, res: express.Response) => {
         return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
     }
 
-    const user = getUsers().find((u: any) => u.id === authResult.userId);
+    const user = usersRepository.get(authResult.userId!);
     if (!user) return res.status(404).json({ error: 'User not found' });
 
-    const db = readCommentsDb();
-    const newComment = {
+    if (!commentData || typeof commentData.comment !== 'string' || !commentData.comment.trim()) {
+        return res.status(400).json({ error: 'Comment text is required' });
+    }
+    // Replies never carry a rating; a review's is optional but must be 1 to 5 stars
+    const rating = commentData.parentId ? undefined : commentData.rating ?? undefined;
+    if (rating !== undefined && !(Number.isInteger(rating) && rating >= 1 && rating <= 5)) {
+        return res.status(400).json({ error: 'Rating must be a whole number from 1 to 5' });
+    }
+
+    const mutedUntil = getMutedUntil(user);
+    if (mutedUntil) {
+        return res.status(403).json({ error: `You can't comment until ${mutedUntil.toISOString()}`, mutedUntil: mutedUntil.toISOString() });
+    }
+
+    const text = sanitize(commentData.comment);
+    const flags = checkComment(user.id, text);
+    const status = initialStatus(user, flags);
+
+    const newComment: ModeratedComment = {
         id: `comment_${Date.now()}`,
         parentId: commentData.parentId || null,
         reviewer: user.name,
         userId: user.id,
-        comment: sanitize(commentData.comment),
+        comment: text,
         date: new Date().toISOString(),
-        rating: commentData.parentId ? undefined : commentData.rating,
+        rating,
         userProfilePic: user.profilePic || undefined,
         userRole: user.role || 'user',
+        ...(status ? { status } : {}),
+        ...(status === 'held' ? { flags } : {}),
       };
 
-    if (!db.comments[movieId]) db.comments[movieId] = [];
-    db.comments[movieId].push(newComment);
-    writeCommentsDb(db);
+    withTransaction(() => {
+        const movieComments = commentsRepository.get(movieId);
+        movieComments.push(newComment);
+        commentsRepository.set(movieId, movieComments);
+    });
+    announceHeldComment(movieId, newComment);
+
+    res.status(201).json({ success: true, comment: toPublicComment(newComment, user) });
+});
+
+// POST /api/comments/report - any signed-in reader can report someone else's comment once
+router.post('/report', commentLimit, (req: express.Request, res: express.Response) => {
+    const { movieId, commentId, reason } = req.body;
+
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    if (!authResult.valid) {
+        return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
+    }
+    if (!movieId || !commentId) return res.status(400).json({ error: 'Movie ID and comment ID are required' });
+    if (!REPORT_REASONS.includes(reason)) {
+        return res.status(400).json({ error: `Reason must be one of: ${REPORT_REASONS.join(', ')}` });
+    }
+
+    const result = reportComment(movieId, commentId, authResult.userId!, reason);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+
+    res.status(200).json({ success: true });
+});
+
+// PATCH /api/comments (edit own comment) - allowed for COMMENT_EDIT_WINDOW_MINUTES after posting
+router.patch('/', commentLimit, (req: express.Request, res: express.Response) => {
+    const { movieId, commentId, commentData } = req.body;
+
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    if (!authResult.valid) {
+        return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
+    }
+
+    const user = usersRepository.get(authResult.userId!);
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (!movieId || !commentId) return res.status(400).json({ error: 'Movie ID and comment ID are required' });
+    if (!commentData || typeof commentData.comment !== 'string' || !commentData.comment.trim()) {
+        return res.status(400).json({ error: 'Comment text is required' });
+    }
+
+    const mutedUntil = getMutedUntil(user);
+    if (mutedUntil) {
+        return res.status(403).json({ error: `You can't comment until ${mutedUntil.toISOString()}`, mutedUntil: mutedUntil.toISOString() });
+    }
+
+    const text = sanitize(commentData.comment);
+    const result = withTransaction(() => {
+        const movieComments = commentsRepository.get(movieId) as ModeratedComment[];
+        const comment = movieComments.find(c => c.id === commentId);
+        if (!comment) return { status: 404, error: 'Comment not found' };
+        if (comment.userId !== user.id) return { status: 403, error: 'You can only edit your own comments' };
+        if (Date.now() - Date.parse(comment.date) > EDIT_WINDOW_MS) {
+            return { status: 403, error: `Comments can only be edited for ${EDIT_WINDOW_MS / 60000} minutes after posting` };
+        }
+
+        const rating = !comment.parentId && Number.isInteger(commentData.rating) && commentData.rating >= 1 && commentData.rating <= 5
+            ? commentData.rating
+            : comment.rating;
+        if (text === comment.comment && rating === comment.rating) return { comment };
+
+        comment.revisions = [
+            ...(comment.revisions || []),
+            { comment: comment.comment, rating: comment.rating, date: comment.editedAt || comment.date },
+        ].slice(-MAX_REVISIONS);
+        comment.comment = text;
+        comment.rating = rating;
+        comment.editedAt = new Date().toISOString();
+
+        // An edit goes through the same rules as a new post, so it can't sneak past them
+        const flags = checkComment(user.id, text, comment.id);
+        const becameHeld = flags.length > 0 && (!comment.status || comment.status === 'flagged');
+        if (becameHeld) {
+            comment.status = 'held';
+            comment.flags = flags;
+        }
+        commentsRepository.set(movieId, movieComments);
+        return { comment, becameHeld };
+    });
+
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    if (result.becameHeld) announceHeldComment(movieId, result.comment);
 
-    res.status(201).json({ success: true, comment: newComment });
+    const { revisions, ...comment } = toPublicComment(result.comment, user);
+    res.status(200).json({ success: true, comment: { ...comment, revisionCount: (revisions || []).length } });
 });
 
 // PUT /api/comments (toggle upvote) - SECURITY: Now uses proper server-side validation
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
-router.put('/', (req: express.Request, res: express.Response) => {
+router.put('/', commentLimit, (req: express.Request, res: express.Response) => {
     const { commentId } = req.body;
     
     // SECURITY FIX: Validate session token against server-side session store
@@ -147,15 +378,13 @@ router.put('/', (req: express.Request, res: express.Response) => {
         return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
     }
 
-    const db = readCommentsDb();
-    let upvoteUserIds = db.upvotes[commentId] || [];
+    let upvoteUserIds = commentUpvotesRepository.get(commentId);
     if (upvoteUserIds.includes(authResult.userId!)) {
         upvoteUserIds = upvoteUserIds.filter((id: string) => id !== authResult.userId);
     } else {
         upvoteUserIds.push(authResult.userId!);
     }
-    db.upvotes[commentId] = upvoteUserIds;
-    writeCommentsDb(db);
+    commentUpvotesRepository.set(commentId, upvoteUserIds);
 
     res.status(200).json({ success: true, upvotes: upvoteUserIds });
 });
@@ -163,7 +392,7 @@ router.put('/', (req: express.Request, res: express.Response) => {
 // DELETE /api/comments - SECURITY: Admin-only with proper server-side validation
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
-router.delete('/', (req: express.Request, res: express.Response) => {
+router.delete('/', commentLimit, (req: express.Request, res: express.Response) => {
     const { movieId, commentId } = req.body;
     
     // SECURITY FIX: Validate session token against server-side session store
@@ -172,24 +401,10 @@ router.delete('/', (req: express.Request, res: express.Response) => {
         return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
     }
 
-    const user = getUsers().find((u: any) => u.id === authResult.userId);
-    if (!user || user.role !== 'admin') return res.status(403).json({ error: 'Forbidden' });
-
-    const db = readCommentsDb();
-    let movieComments = db.comments[movieId] || [];
-
-    const commentsToDelete = new Set([commentId]);
-    let changed = true;
-    while(changed) {
-        changed = false;
-        const currentSize = commentsToDelete.size;
-        movieComments.forEach((c: any) => { if(c.parentId && commentsToDelete.has(c.parentId)) commentsToDelete.add(c.id); });
-        if(commentsToDelete.size > currentSize) changed = true;
-    }
+    const user = usersRepository.get(authResult.userId!);
+    if (!user || user.role !== 'admin' || needsTwoFactorSetup(user)) return res.status(403).json({ error: 'Forbidden' });
 
-    db.comments[movieId] = movieComments.filter((c: any) => !commentsToDelete.has(c.id));
-    commentsToDelete.forEach(id => delete db.upvotes[id]);
-    writeCommentsDb(db);
+    deleteCommentThread(movieId, commentId);
 
     res.status(200).json({ success: true });
 });
@@ -70,7 +70,16 @@ function constantTimeCompare(a: string, b: string): boolean {
 
 const CSRF_EXEMPT_PATHS = [
     '/api/users/signup',
-    '/api/users/login'
+    '/api/users/login',
+    // Second sign-in step; the challenge token stands in for the session
+    '/api/users/login/2fa',
+    // Whoever forgot their password has no session yet
+    '/api/users/forgot-password',
+    '/api/users/forgot-password/confirm',
+    // Anonymous visitors send analytics beacons without a session
+    '/api/events',
+    // Anonymous viewers are counted too; a heartbeat changes nothing but a counter
+    '/api/livetv/heartbeat'
 ];
 
 export function csrfProtection(req: express.Request, res: express.Response, next: express.NextFunction) {
@@ -0,0 +1,48 @@
+import express from 'express';
+const router = express.Router();
+import { getAnalyticsSummary, parseAnalyticsEvent, recordAnalyticsEvents, AnalyticsEvent } from '../server/analytics';
+import { rateLimit } from './rateLimiter';
+
+const MAX_EVENTS_PER_BATCH = 50;
+const MAX_SUMMARY_DAYS = 30;
+
+// --- ROUTES ---
+
+// POST /api/events - a batch of visit/signup/movie-click events from the site's beacon.
+// Anonymous and CSRF-exempt, so throttled per IP to keep scripted clicks out of trending.
+router.post('/', rateLimit('events'), (req: express.Request, res: express.Response) => {
+    const batch = Array.isArray(req.body?.events) ? req.body.events : null;
+    if (!batch) {
+        return res.status(400).json({ error: 'Expected { events: [...] }' });
+    }
+    if (batch.length > MAX_EVENTS_PER_BATCH) {
+        return res.status(413).json({ error: `At most ${MAX_EVENTS_PER_BATCH} events per batch` });
+    }
+
+    try {
+        const context = { userAgent: req.get('user-agent'), host: req.get('host') };
+        const events = batch
+            .map((raw: any) => parseAnalyticsEvent(raw, context))
+            .filter((event: AnalyticsEvent | null): event is AnalyticsEvent => event !== null);
+        const accepted = recordAnalyticsEvents(events);
+        res.status(202).json({ accepted, dropped: batch.length - accepted });
+    } catch (error) {
+        console.error('Error recording analytics events:', error);
+        res.status(500).json({ error: 'Failed to record events' });
+    }
+});
+
+// GET /api/events/summary?days=1 - the most clicked movies, for trending. Visitor and signup counts stay in the bot.
+router.get('/summary', (req: express.Request, res: express.Response) => {
+    const days = Math.min(MAX_SUMMARY_DAYS, Math.max(1, parseInt(String(req.query.days || '1'), 10) || 1));
+    try {
+        const { timeframeDays, mostClicked } = getAnalyticsSummary(days);
+        res.header('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
+        res.status(200).json({ timeframeDays, mostClicked });
+    } catch (error) {
+        console.error('Error reading analytics summary:', error);
+        res.status(500).json({ error: 'Failed to load analytics summary' });
+    }
+});
+
+export default router;
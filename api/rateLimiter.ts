@@ -1,66 +1,66 @@
+import express from 'express';
+import { getSession } from './sessionStore';
+import { getClientIp } from './utils';
+import { consumeRateLimit, getRateLimitPolicy, pruneRateLimitBuckets } from '../server/rateLimit';
+
 /**
- * A simple in-memory rate limiter for the serverless function environment.
- * It tracks request timestamps for each user ID in a map.
- * NOTE: In a distributed serverless environment (with multiple instances), a shared
- * store like Redis or Memcached would be necessary for a consistent global rate limit.
- * For a single-instance or low-traffic scenario, this in-memory approach is sufficient.
+ * Rate limiting middleware for the named policies in server/rateLimit.ts.
+ *
+ * Buckets live in the store picked by RATE_LIMIT_STORE (memory, or the SQLite file shared with
+ * the bot), so the same limits hold across processes. Every response carries the standard
+ * RateLimit-Policy / RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers, and a
+ * blocked request gets a 429 with Retry-After. Blocked counts show up in the bot's 🚦 Rate Limits menu.
  */
 
-const userRequests = new Map<string, number[]>();
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 20; // Allow up to 20 AI requests per minute per user
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // Clean up every 5 minutes
 
 // Periodic cleanup to prevent memory growth
 setInterval(() => {
-    const now = Date.now();
-    let cleaned = 0;
-    
-    for (const [userId, timestamps] of userRequests.entries()) {
-        const recentTimestamps = timestamps.filter(
-            timestamp => now - timestamp < RATE_LIMIT_WINDOW_MS
-        );
-        
-        if (recentTimestamps.length === 0) {
-            userRequests.delete(userId);
-            cleaned++;
-        } else if (recentTimestamps.length < timestamps.length) {
-            userRequests.set(userId, recentTimestamps);
+    try {
+        const pruned = pruneRateLimitBuckets();
+        if (pruned > 0) {
+            console.log(`🧹 Rate limiter: Cleaned up ${pruned} idle bucket(s)`);
         }
-    }
-    
-    if (cleaned > 0) {
-        console.log(`🧹 Rate limiter: Cleaned up ${cleaned} inactive user(s)`);
+    } catch (error) {
+        console.error('❌ Rate limiter cleanup failed:', error);
     }
 }, CLEANUP_INTERVAL_MS);
 
 /**
- * Checks if a user has exceeded the request rate limit.
- * NOTE: This is an in-memory solution suitable for single-instance deployments only.
- * For multi-instance production environments, use Redis or a similar distributed store.
- * @param userId The unique identifier for the user.
- * @returns An object indicating if the user is limited and an optional retry-after duration in seconds.
+ * Only used to pick a bucket; the route's own auth check still decides who gets in
  */
-export function checkRateLimit(userId: string): { limited: boolean; retryAfter?: number } {
-    const now = Date.now();
-    const userTimestamps = userRequests.get(userId) || [];
+const getSessionUserId = (req: express.Request): string | undefined => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return undefined;
+    return getSession(authHeader.substring(7))?.userId;
+};
 
-    // Filter out timestamps that are older than our time window
-    const recentTimestamps = userTimestamps.filter(
-        timestamp => now - timestamp < RATE_LIMIT_WINDOW_MS
-    );
+/**
+ * Throttle a route with a named policy, e.g. `router.post('/login', rateLimit('login'), ...)`
+ * @param policyName A key of RATE_LIMIT_POLICIES.
+ * @param message Shown to the client when the limit is hit.
+ */
+export const rateLimit = (policyName: string, message = 'Too many requests. Please wait a moment and try again.') => {
+    // Fail at startup rather than on the first request if a route names a policy that doesn't exist
+    const policy = getRateLimitPolicy(policyName);
 
-    if (recentTimestamps.length >= MAX_REQUESTS_PER_WINDOW) {
-        // User has exceeded the limit
-        const oldestRequest = recentTimestamps[0];
-        const retryAfter = Math.ceil((RATE_LIMIT_WINDOW_MS - (now - oldestRequest)) / 1000);
-        console.warn(`Rate limit exceeded for user: ${userId}`);
-        return { limited: true, retryAfter };
-    }
+    return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const subject = {
+            ip: getClientIp(req),
+            userId: policy.keyBy === 'ip' ? undefined : getSessionUserId(req),
+        };
+        const { allowed, bucket } = consumeRateLimit(policy.name, subject);
 
-    // Add the current request's timestamp and update the map
-    recentTimestamps.push(now);
-    userRequests.set(userId, recentTimestamps);
+        res.setHeader('RateLimit-Policy', `${policy.limit};w=${policy.windowSeconds}`);
+        res.setHeader('RateLimit-Limit', String(policy.limit));
+        res.setHeader('RateLimit-Remaining', String(bucket.remaining));
+        res.setHeader('RateLimit-Reset', String(Math.ceil(bucket.resetMs / 1000)));
 
-    return { limited: false };
-}
+        if (!allowed) {
+            const retryAfter = Math.max(1, Math.ceil(bucket.retryAfterMs / 1000));
+            res.setHeader('Retry-After', String(retryAfter));
+            return res.status(429).json({ error: message, retryAfter });
+        }
+        next();
+    };
+};
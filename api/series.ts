@@ -0,0 +1,40 @@
+import express from 'express';
+const router = express.Router();
+import { getAllSeries, getSeries, getSeriesParts } from '../services/seriesService';
+
+const setPublicHeaders = (res: express.Response) => {
+    res.header('Access-Control-Allow-Origin', '*');
+    res.header('Access-Control-Allow-Methods', 'GET');
+    res.header('Access-Control-Allow-Headers', 'Content-Type');
+    res.header('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
+};
+
+// --- ROUTES ---
+
+// GET /api/series - every series with its parts in viewing order
+router.get('/', (req: express.Request, res: express.Response) => {
+    try {
+        const series = getAllSeries().map(s => ({ ...s, parts: getSeriesParts(s) }));
+        setPublicHeaders(res);
+        res.status(200).json(series);
+    } catch (error) {
+        console.error('Error reading series:', error);
+        res.status(500).json({ error: 'Failed to load series' });
+    }
+});
+
+// GET /api/series/:id - one series with its parts in viewing order
+router.get('/:id', (req: express.Request, res: express.Response) => {
+    try {
+        const series = getSeries(req.params.id);
+        if (!series) return res.status(404).json({ error: 'Series not found' });
+
+        setPublicHeaders(res);
+        res.status(200).json({ ...series, parts: getSeriesParts(series) });
+    } catch (error) {
+        console.error('Error reading series:', error);
+        res.status(500).json({ error: 'Failed to load series' });
+    }
+});
+
+export default router;
@@ -1,59 +1,10 @@
-import path from 'path';
-import fs from 'fs';
-import { randomBytes } from 'crypto';
-import { atomicWrite } from './utils';
-import { encryptData, decryptData } from './encryption';
+import { createHash, randomBytes } from 'crypto';
+// Imported for its startup check that SESSION_ENCRYPTION_KEY can decrypt existing sessions
+import './encryption';
+import { sessionsRepository, withTransaction, StoredSession as Session } from '../server/storage';
 
-const SESSIONS_PATH = path.join(process.cwd(), 'data', 'sessions.json');
 const SESSION_DURATION = 3 * 24 * 60 * 60 * 1000; // 3 days in milliseconds
 
-interface Session {
-    userId: string;
-    createdAt: number;
-    expiresAt: number;
-    lastActivity: number;
-    ipAddress?: string;
-    userAgent?: string;
-}
-
-interface SessionStore {
-    [sessionId: string]: Session;
-}
-
-/**
- * Read sessions from the sessions.json file with decryption
- */
-const readSessions = (): SessionStore => {
-    try {
-        if (!fs.existsSync(SESSIONS_PATH)) {
-            console.log('📁 Sessions file not found, creating new one');
-            return {};
-        }
-        const content = fs.readFileSync(SESSIONS_PATH, 'utf-8');
-        const fileData = JSON.parse(content);
-        
-        if (!fileData.encrypted || !fileData.iv || !fileData.authTag) {
-            console.log('📁 Legacy unencrypted session file detected, returning empty store');
-            return {};
-        }
-        
-        const decrypted = decryptData(fileData);
-        return JSON.parse(decrypted);
-    } catch (error) {
-        console.error('📁 Error reading sessions file:', error);
-        return {};
-    }
-};
-
-/**
- * Write sessions to the sessions.json file atomically with encryption
- */
-const writeSessions = (sessions: SessionStore): void => {
-    const plaintext = JSON.stringify(sessions);
-    const encrypted = encryptData(plaintext);
-    atomicWrite(SESSIONS_PATH, JSON.stringify(encrypted, null, 2));
-};
-
 /**
  * Generate a cryptographically secure random session token
  * Uses 32 bytes (256 bits) of entropy, base64url encoded
@@ -70,24 +21,22 @@ export const generateSessionToken = (): string => {
  * @param userAgent - Optional user agent for session binding
  */
 export const createSession = (userId: string, ipAddress?: string, userAgent?: string): string => {
-    const sessions = readSessions();
-    
-    // Clean up expired sessions for this user
-    cleanupExpiredSessionsForUser(sessions, userId);
-    
     const sessionToken = generateSessionToken();
     const now = Date.now();
     
-    sessions[sessionToken] = {
-        userId,
-        createdAt: now,
-        expiresAt: now + SESSION_DURATION,
-        lastActivity: now,
-        ipAddress,
-        userAgent
-    };
-    
-    writeSessions(sessions);
+    withTransaction(() => {
+        // Clean up expired sessions for this user
+        cleanupExpiredSessionsForUser(userId);
+        
+        sessionsRepository.set(sessionToken, {
+            userId,
+            createdAt: now,
+            expiresAt: now + SESSION_DURATION,
+            lastActivity: now,
+            ipAddress,
+            userAgent
+        });
+    });
     console.log(`✅ Created new session for user ${userId} from IP: ${ipAddress || 'unknown'}`);
     
     return sessionToken;
@@ -103,14 +52,12 @@ export const getSession = (sessionToken: string): Session | null => {
         return null;
     }
     
-    const sessions = readSessions();
-    
     // Use constant-time comparison to find matching session
     // This prevents timing attacks that could reveal valid session tokens
     let foundSession: Session | null = null;
     let foundToken: string | null = null;
     
-    for (const [storedToken, session] of Object.entries(sessions)) {
+    for (const [storedToken, session] of sessionsRepository.entries()) {
         if (constantTimeCompare(sessionToken, storedToken)) {
             foundSession = session;
             foundToken = storedToken;
@@ -137,8 +84,7 @@ export const getSession = (sessionToken: string): Session | null => {
  * Optionally extends expiration (rolling session)
  */
 export const touchSession = (sessionToken: string, extendExpiry: boolean = false): boolean => {
-    const sessions = readSessions();
-    const session = sessions[sessionToken];
+    const session = sessionsRepository.get(sessionToken);
     
     if (!session) {
         return false;
@@ -151,7 +97,7 @@ export const touchSession = (sessionToken: string, extendExpiry: boolean = false
         session.expiresAt = now + SESSION_DURATION;
     }
     
-    writeSessions(sessions);
+    sessionsRepository.set(sessionToken, session);
     return true;
 };
 
@@ -159,44 +105,67 @@ export const touchSession = (sessionToken: string, extendExpiry: boolean = false
  * Delete a specific session
  */
 export const deleteSession = (sessionToken: string): void => {
-    const sessions = readSessions();
-    
-    if (sessions[sessionToken]) {
-        delete sessions[sessionToken];
-        writeSessions(sessions);
+    if (sessionsRepository.remove(sessionToken)) {
         console.log(`🗑️ Deleted session: ${sessionToken.substring(0, 10)}...`);
     }
 };
 
+/**
+ * Stable public id for a session. The token itself never leaves the server after login,
+ * so device lists refer to sessions by a short digest of it.
+ */
+export const getSessionId = (sessionToken: string): string =>
+    createHash('sha256').update(sessionToken).digest('hex').slice(0, 16);
+
+/**
+ * A user's live sessions, most recently active first
+ */
+export const listUserSessions = (userId: string): { id: string; token: string; session: Session }[] => {
+    const now = Date.now();
+    return sessionsRepository.entries()
+        .filter(([, session]) => session?.userId === userId && session.expiresAt > now)
+        .map(([token, session]) => ({ id: getSessionId(token), token, session: session! }))
+        .sort((a, b) => b.session.lastActivity - a.session.lastActivity);
+};
+
+/**
+ * Revoke one of a user's sessions by its public id
+ * @returns The revoked session, or null if the user has no such session
+ */
+export const deleteUserSession = (userId: string, sessionId: string): Session | null => {
+    const found = listUserSessions(userId).find(entry => entry.id === sessionId);
+    if (!found) return null;
+    deleteSession(found.token);
+    return found.session;
+};
+
 /**
  * Delete all sessions for a specific user
  * Useful for logout all devices or account security
  */
 export const deleteAllUserSessions = (userId: string): void => {
-    const sessions = readSessions();
-    const initialCount = Object.keys(sessions).length;
-    
-    Object.keys(sessions).forEach(token => {
-        if (sessions[token].userId === userId) {
-            delete sessions[token];
-        }
+    const deletedCount = withTransaction(() => {
+        let deleted = 0;
+        sessionsRepository.entries().forEach(([token, session]) => {
+            if (session?.userId === userId && sessionsRepository.remove(token)) {
+                deleted++;
+            }
+        });
+        return deleted;
     });
-    
-    writeSessions(sessions);
-    const deletedCount = initialCount - Object.keys(sessions).length;
     console.log(`🗑️ Deleted ${deletedCount} session(s) for user ${userId}`);
 };
 
 /**
  * Clean up expired sessions for a specific user
  */
-const cleanupExpiredSessionsForUser = (sessions: SessionStore, userId: string): void => {
+const cleanupExpiredSessionsForUser = (userId: string): void => {
     const now = Date.now();
     let cleaned = 0;
     
-    Object.keys(sessions).forEach(token => {
-        if (sessions[token].userId === userId && sessions[token].expiresAt <= now) {
-            delete sessions[token];
+    sessionsRepository.entries().forEach(([token, session]) => {
+        if (session?.userId === userId && session.expiresAt <= now) {
+            sessionsRepository.remove(token);
             cleaned++;
         }
     });
@@ -211,20 +180,12 @@ const cleanupExpiredSessionsForUser = (sessions: SessionStore, userId: string):
  * Should be called periodically or on each mutation for amortized maintenance
  */
 export const cleanupExpiredSessions = (): void => {
-    const sessions = readSessions();
     const now = Date.now();
-    let cleaned = 0;
+    const expired = sessionsRepository.entries().filter(([, session]) => !session || session.expiresAt <= now);
     
-    Object.keys(sessions).forEach(token => {
-        if (sessions[token].expiresAt <= now) {
-            delete sessions[token];
-            cleaned++;
-        }
-    });
-    
-    if (cleaned > 0) {
-        writeSessions(sessions);
-        console.log(`🧹 Cleaned up ${cleaned} expired session(s)`);
+    if (expired.length > 0) {
+        withTransaction(() => expired.forEach(([token]) => sessionsRepository.remove(token)));
+        console.log(`🧹 Cleaned up ${expired.length} expired session(s)`);
     }
 };
 
@@ -0,0 +1,36 @@
+import express from 'express';
+const router = express.Router();
+import { createHash } from 'crypto';
+import { getTrending, isTrendingWindow } from '../server/trending';
+
+const MAX_LIMIT = 100;
+
+// --- ROUTES ---
+
+// GET /api/trending?window=24h|7d|30d&limit=10 - the shared trending ranking, revalidated with ETag
+router.get('/', (req: express.Request, res: express.Response) => {
+    const window = req.query.window || '24h';
+    if (!isTrendingWindow(window)) {
+        return res.status(400).json({ error: 'window must be one of 24h, 7d or 30d' });
+    }
+    const limit = req.query.limit ? Math.min(MAX_LIMIT, Math.max(1, parseInt(String(req.query.limit), 10) || MAX_LIMIT)) : undefined;
+
+    try {
+        const trending = getTrending(window);
+        const movies = limit ? trending.movies.slice(0, limit) : trending.movies;
+        // Hash the ranking only, so a recompute with the same result keeps its ETag
+        const etag = `"${createHash('sha1').update(JSON.stringify(movies)).digest('base64url')}"`;
+
+        res.header('ETag', etag);
+        res.header('Cache-Control', 'public, max-age=60');
+        if (req.headers['if-none-match'] === etag) {
+            return res.status(304).end();
+        }
+        res.status(200).json({ window, generatedAt: trending.generatedAt, movies });
+    } catch (error) {
+        console.error('Error computing trending movies:', error);
+        res.status(500).json({ error: 'Failed to load trending movies' });
+    }
+});
+
+export default router;
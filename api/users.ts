@@ -1,10 +1,8 @@
 
 import express from 'express';
 const router = express.Router();
-import path from 'path';
 import bcrypt from 'bcrypt';
-import { atomicWrite, validateGmail } from './utils';
-import fs from 'fs';
+import { getClientIp, validateGmail } from './utils';
 import { 
     createSession, 
     getSession, 
@@ -12,39 +10,23 @@ import {
     deleteAllUserSessions,
     cleanupExpiredSessions,
     touchSession,
-    validateSessionBinding
+    validateSessionBinding,
+    listUserSessions,
+    deleteUserSession,
+    getSessionId
 } from './sessionStore';
 import { generateCsrfToken } from './csrf';
-
-// --- DATABASE HELPERS ---
-// Use process.cwd() for VPS compatibility instead of relative paths
-const USERS_PATH = path.join(process.cwd(), 'data', 'users.json');
-const WATCHLISTS_PATH = path.join(process.cwd(), 'data', 'watchlists.json');
-const HISTORY_PATH = path.join(process.cwd(), 'data', 'viewingHistory.json');
-
-const readJsonFile = (filePath: string, defaultValue: any) => {
-    try {
-        console.log(`📁 Reading file: ${filePath}`);
-        if (!fs.existsSync(filePath)) {
-            console.log(`📁 File not found: ${filePath}, using default value`);
-            return defaultValue;
-        }
-        const content = fs.readFileSync(filePath, 'utf-8');
-        console.log(`📁 File content length: ${content.length}`);
-        return JSON.parse(content);
-    } catch (error) {
-        console.error(`📁 Error reading file ${filePath}:`, error);
-        return defaultValue; 
-    }
-};
-
-const getUsers = () => readJsonFile(USERS_PATH, []);
-const getWatchlists = () => readJsonFile(WATCHLISTS_PATH, {});
-const getHistories = () => readJsonFile(HISTORY_PATH, {});
-
-const saveUsers = (users: any) => atomicWrite(USERS_PATH, JSON.stringify(users, null, 2));
-const saveWatchlists = (watchlists: any) => atomicWrite(WATCHLISTS_PATH, JSON.stringify(watchlists, null, 2));
-const saveHistories = (histories: any) => atomicWrite(HISTORY_PATH, JSON.stringify(histories, null, 2));
+import { rateLimit } from './rateLimiter';
+import { usersRepository, watchlistsRepository, historyRepository } from '../server/storage';
+import { recordMovieActivity } from '../server/analytics';
+import { checkLoginAllowed, getLoginActivity, recordLoginFailure, recordLoginSuccess, releaseLoginAttempt, setAccountThrottle } from '../server/loginSecurity';
+import { consumePasswordReset, getResetSiteUrl, issuePasswordReset } from '../server/passwordReset';
+import { describeLastSeen, describeUserAgent } from '../server/userAgent';
+import {
+    clearLoginChallenge, createLoginChallenge, disableTwoFactor, enableTwoFactor, getLoginChallenge,
+    getRecoveryCodesLeft, isTwoFactorEnabled, isTwoFactorRequired, needsTwoFactorSetup,
+    recordChallengeFailure, regenerateRecoveryCodes, startTwoFactorSetup, verifyTwoFactorCode
+} from '../server/twoFactor';
 
 // --- SECURITY & HELPERS ---
 const SALT_ROUNDS = 12;
@@ -58,19 +40,10 @@ async function verifyPassword(password: string, hash: string): Promise<boolean>
 }
 
 const sanitize = (str: string) => str.replace(/</g, "&lt;").replace(/>/g, "&gt;");
-function toPublicUser(user: any) { const { passwordHash, ...publicData } = user; return publicData; }
-
-/**
- * Extract client IP address from request
- * Handles proxies and load balancers
- */
-const getClientIp = (req: express.Request): string => {
-    const forwarded = req.headers['x-forwarded-for'];
-    if (typeof forwarded === 'string') {
-        return forwarded.split(',')[0].trim();
-    }
-    return req.socket.remoteAddress || 'unknown';
-};
+function toPublicUser(user: any) {
+    const { passwordHash, twoFactor, twoFactorPending, ...publicData } = user;
+    return { ...publicData, twoFactorEnabled: !!twoFactor, twoFactorSetupRequired: needsTwoFactorSetup(user) };
+}
 
 /**
  * Extract user agent from request
@@ -119,7 +92,7 @@ const authMiddleware = (req: express.Request, res: express.Response, next: expre
     }
     
     // Verify the user still exists
-    const user = getUsers().find((u: any) => u.id === session.userId);
+    const user = usersRepository.get(session.userId);
     if (!user) {
         // User was deleted, clean up the session
         deleteSession(sessionToken);
@@ -141,7 +114,7 @@ const authMiddleware = (req: express.Request, res: express.Response, next: expre
 // Signup
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
-router.post('/signup', async (req: express.Request, res: express.Response) => {
+router.post('/signup', rateLimit('signup', 'Too many accounts created from this network. Please try again later.'), async (req: express.Request, res: express.Response) => {
     const { name, email, password, username } = req.body;
     if (!name || !email || !password || !username) return res.status(400).json({ error: 'Missing required fields.' });
 
@@ -149,9 +122,8 @@ router.post('/signup', async (req: express.Request, res: express.Response) => {
         return res.status(400).json({ error: 'Please use a valid Gmail address without "." or "+" aliases.' });
     }
 
-    const users = getUsers();
-    if (users.some((u: any) => u.email.toLowerCase() === email.toLowerCase())) return res.status(409).json({ error: 'An account with this email already exists.' });
-    if (users.some((u: any) => u.username.toLowerCase() === username.toLowerCase())) return res.status(409).json({ error: 'This username is already taken.' });
+    if (usersRepository.findOneBy('email', email, { ignoreCase: true })) return res.status(409).json({ error: 'An account with this email already exists.' });
+    if (usersRepository.findOneBy('username', username, { ignoreCase: true })) return res.status(409).json({ error: 'This username is already taken.' });
     
     const passwordHash = await hashPassword(password);
     const newUser = {
@@ -159,7 +131,7 @@ router.post('/signup', async (req: express.Request, res: express.Response) => {
         name: sanitize(name), email, username: sanitize(username),
         passwordHash, role: 'user'
     };
-    saveUsers([...users, newUser]);
+    usersRepository.save(newUser);
     
     // Create secure server-side session with device binding
     const clientIp = getClientIp(req);
@@ -173,7 +145,7 @@ router.post('/signup', async (req: express.Request, res: express.Response) => {
 // Login with automatic password migration from SHA-256 to bcrypt
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
-router.post('/login', async (req: express.Request, res: express.Response) => {
+router.post('/login', rateLimit('login', 'Too many sign-in attempts. Please wait a few minutes and try again.'), async (req: express.Request, res: express.Response) => {
     try {
         const { email, password } = req.body;
         console.log(`🔐 Login attempt for email: ${email}`);
@@ -182,16 +154,25 @@ router.post('/login', async (req: express.Request, res: express.Response) => {
             return res.status(400).json({ error: 'Email and password are required.' });
         }
         
-        const users = getUsers();
-        console.log(`🔐 Found ${users.length} users in database`);
-        
-        const userIndex = users.findIndex((u: any) => u.email.toLowerCase() === email.toLowerCase());
-        if (userIndex === -1) {
+        const clientIp = getClientIp(req);
+        const clientUserAgent = getUserAgent(req);
+        const user = usersRepository.findOneBy('email', email, { ignoreCase: true });
+
+        // Progressive delays and lockouts apply before any password is checked. An allowed attempt
+        // counts as a failure until it succeeds, so parallel guesses can't all get through the check.
+        const loginCheck = checkLoginAllowed(clientIp, clientUserAgent, user);
+        if ('error' in loginCheck) {
+            console.log(`🔐 Login refused (${loginCheck.reason}) for email: ${email}`);
+            res.setHeader('Retry-After', String(loginCheck.retryAfter));
+            return res.status(loginCheck.status).json({ error: loginCheck.error, retryAfter: loginCheck.retryAfter });
+        }
+
+        if (!user) {
             console.log(`🔐 User not found for email: ${email}`);
+            recordLoginFailure(clientIp, clientUserAgent, undefined);
             return res.status(401).json({ error: 'Invalid email or password. Please try again.' });
         }
         
-        const user = users[userIndex];
         console.log(`🔐 User found: ${user.username}, verifying password...`);
         
         let isPasswordValid = false;
@@ -213,31 +194,82 @@ router.post('/login', async (req: express.Request, res: express.Response) => {
         
         if (!isPasswordValid) {
             console.log(`🔐 Password mismatch for user: ${email}`);
+            recordLoginFailure(clientIp, clientUserAgent, user);
             return res.status(401).json({ error: 'Invalid email or password. Please try again.' });
         }
 
         if (needsMigration) {
             console.log(`🔐 MIGRATING password from SHA-256 to bcrypt for user: ${email}`);
-            users[userIndex].passwordHash = await hashPassword(password);
-            saveUsers(users);
+            user.passwordHash = await hashPassword(password);
+            usersRepository.save(user);
             console.log(`✅ Password migration complete for user: ${email}`);
         }
 
+        // The password alone isn't enough; the client must come back to /login/2fa with a code
+        if (isTwoFactorEnabled(user)) {
+            console.log(`🔐 Password accepted for user: ${email}, waiting for authentication code`);
+            releaseLoginAttempt(clientIp, user);
+            const challengeToken = createLoginChallenge(user.id, clientIp, clientUserAgent);
+            return res.status(200).json({ twoFactorRequired: true, challengeToken });
+        }
+
         console.log(`🔐 Login successful for user: ${email}`);
+        recordLoginSuccess(clientIp, clientUserAgent, user);
         
         // Create secure server-side session with device binding
-        const clientIp = getClientIp(req);
-        const clientUserAgent = getUserAgent(req);
         const token = createSession(user.id, clientIp, clientUserAgent);
         const csrfToken = generateCsrfToken(token);
         
-        res.status(200).json({ user: toPublicUser(users[userIndex]), token, csrfToken: csrfToken.token });
+        res.status(200).json({ user: toPublicUser(user), token, csrfToken: csrfToken.token });
     } catch (error) {
         console.error('🔐 Login error:', error);
         res.status(500).json({ error: 'Login failed. Please try again.' });
     }
 });
 
+// Login, second step - a code from the authenticator app or a recovery code
+router.post('/login/2fa', rateLimit('login', 'Too many sign-in attempts. Please wait a few minutes and try again.'), (req: express.Request, res: express.Response) => {
+    try {
+        const { challengeToken, code } = req.body;
+        if (!challengeToken || !code) {
+            return res.status(400).json({ error: 'Authentication code is required.' });
+        }
+
+        const clientIp = getClientIp(req);
+        const clientUserAgent = getUserAgent(req);
+        const userId = getLoginChallenge(String(challengeToken), clientIp, clientUserAgent);
+        const user = userId ? usersRepository.get(userId) : undefined;
+        if (!user) {
+            return res.status(401).json({ error: 'Your sign-in has expired. Please enter your password again.' });
+        }
+
+        const loginCheck = checkLoginAllowed(clientIp, clientUserAgent, user);
+        if ('error' in loginCheck) {
+            res.setHeader('Retry-After', String(loginCheck.retryAfter));
+            return res.status(loginCheck.status).json({ error: loginCheck.error, retryAfter: loginCheck.retryAfter });
+        }
+
+        const method = verifyTwoFactorCode(user.id, String(code));
+        if (!method) {
+            console.log(`🔐 Wrong authentication code for user: ${user.email}`);
+            recordChallengeFailure(String(challengeToken));
+            recordLoginFailure(clientIp, clientUserAgent, user, 'two-factor');
+            return res.status(401).json({ error: 'Invalid authentication code. Please try again.' });
+        }
+        clearLoginChallenge(String(challengeToken));
+
+        console.log(`🔐 Login successful for user: ${user.email} (${method === 'recovery' ? 'recovery code' : 'authenticator app'})`);
+        recordLoginSuccess(clientIp, clientUserAgent, user);
+
+        const token = createSession(user.id, clientIp, clientUserAgent);
+        const csrfToken = generateCsrfToken(token);
+        res.status(200).json({ user: toPublicUser(usersRepository.get(user.id)), token, csrfToken: csrfToken.token });
+    } catch (error) {
+        console.error('🔐 Two-factor login error:', error);
+        res.status(500).json({ error: 'Login failed. Please try again.' });
+    }
+});
+
 // Logout - Revoke current session
 router.post('/logout', authMiddleware, (req: express.Request, res: express.Response) => {
     const sessionToken = (req as any).sessionToken;
@@ -257,31 +289,166 @@ router.post('/logout-all', authMiddleware, (req: express.Request, res: express.R
 // Get User Data (Watchlist & History)
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
 router.get('/data', authMiddleware, (req: express.Request, res: express.Response) => {
-    const watchlist = getWatchlists()[(req as any).userId] || [];
-    const history = getHistories()[(req as any).userId] || [];
+    const watchlist = watchlistsRepository.get((req as any).userId);
+    const history = historyRepository.get((req as any).userId);
     res.status(200).json({ watchlist, history });
 });
 
+// Recent successful and failed sign-ins to the current account, newest first
+router.get('/login-activity', authMiddleware, (req: express.Request, res: express.Response) => {
+    const activity = getLoginActivity((req as any).userId)
+        .map(entry => ({ ...entry, device: describeUserAgent(entry.userAgent).label }));
+    res.status(200).json({ activity });
+});
+
+// Devices signed in to the current account, most recently active first
+router.get('/sessions', authMiddleware, (req: express.Request, res: express.Response) => {
+    const currentId = getSessionId((req as any).sessionToken);
+    const sessions = listUserSessions((req as any).userId).map(({ id, session }) => {
+        const { browser, os, type, label } = describeUserAgent(session.userAgent);
+        return {
+            id,
+            device: label,
+            browser,
+            os,
+            type,
+            ipAddress: session.ipAddress || 'unknown',
+            createdAt: new Date(session.createdAt).toISOString(),
+            lastSeen: describeLastSeen(session.lastActivity),
+            current: id === currentId
+        };
+    });
+    res.status(200).json({ sessions });
+});
+
+// Sign out one device. Revoking the current session is the same as logging out.
+router.delete('/sessions/:id', authMiddleware, (req: express.Request, res: express.Response) => {
+    const userId = (req as any).userId;
+    if (!deleteUserSession(userId, req.params.id)) {
+        return res.status(404).json({ error: 'Session not found. It may already have been signed out.' });
+    }
+    console.log(`🔒 User ${userId} revoked session ${req.params.id}`);
+    res.status(200).json({ success: true });
+});
+
+// Two-factor authentication status for the profile page
+router.get('/2fa', authMiddleware, (req: express.Request, res: express.Response) => {
+    const user = usersRepository.get((req as any).userId);
+    if (!user) return res.status(404).json({ error: 'User not found.' });
+    res.status(200).json({
+        enabled: isTwoFactorEnabled(user),
+        required: isTwoFactorRequired(user),
+        enabledAt: user.twoFactor?.enabledAt || null,
+        recoveryCodesLeft: getRecoveryCodesLeft(user)
+    });
+});
+
+// Two-factor setup, step one - a new secret to scan into an authenticator app
+router.post('/2fa/setup', authMiddleware, (req: express.Request, res: express.Response) => {
+    const user = usersRepository.get((req as any).userId);
+    if (!user) return res.status(404).json({ error: 'User not found.' });
+    if (isTwoFactorEnabled(user)) {
+        return res.status(409).json({ error: 'Two-factor authentication is already on. Turn it off first to use a new device.' });
+    }
+    res.status(200).json(startTwoFactorSetup(user));
+});
+
+// Two-factor setup, step two - confirm a code from the app. Recovery codes are only ever shown here.
+router.post('/2fa/enable', authMiddleware, (req: express.Request, res: express.Response) => {
+    const userId = (req as any).userId;
+    const { code } = req.body;
+    if (!code) return res.status(400).json({ error: 'Authentication code is required.' });
+
+    const recoveryCodes = enableTwoFactor(userId, String(code));
+    if (!recoveryCodes) {
+        return res.status(400).json({ error: 'That code is not right. Check the time on your phone is correct and try again.' });
+    }
+    console.log(`🔐 Two-factor authentication turned on for user: ${userId}`);
+    res.status(200).json({ recoveryCodes, user: toPublicUser(usersRepository.get(userId)) });
+});
+
+// Checking a code on a signed-in session counts against the sign-in lockout, so a stolen session can't guess codes
+const twoFactorLimit = rateLimit('two-factor', 'Too many authentication code attempts. Please wait a few minutes and try again.');
+
+// Turn two-factor authentication off. Needs the password and a current code.
+router.post('/2fa/disable', authMiddleware, twoFactorLimit, async (req: express.Request, res: express.Response) => {
+    const { password, code } = req.body;
+    if (!password || !code) return res.status(400).json({ error: 'Password and authentication code are required.' });
+
+    const user = usersRepository.get((req as any).userId);
+    if (!user) return res.status(404).json({ error: 'User not found.' });
+    if (!isTwoFactorEnabled(user)) return res.status(400).json({ error: 'Two-factor authentication is not on.' });
+    if (isTwoFactorRequired(user)) {
+        return res.status(403).json({ error: 'Two-factor authentication is required for staff accounts and cannot be turned off.' });
+    }
+
+    const clientIp = getClientIp(req);
+    const clientUserAgent = getUserAgent(req);
+    const loginCheck = checkLoginAllowed(clientIp, clientUserAgent, user);
+    if ('error' in loginCheck) {
+        res.setHeader('Retry-After', String(loginCheck.retryAfter));
+        return res.status(loginCheck.status).json({ error: loginCheck.error, retryAfter: loginCheck.retryAfter });
+    }
+    if (!await verifyPassword(password, user.passwordHash)) {
+        recordLoginFailure(clientIp, clientUserAgent, user, 'password');
+        return res.status(401).json({ error: 'Password is incorrect.' });
+    }
+    if (!verifyTwoFactorCode(user.id, String(code))) {
+        recordLoginFailure(clientIp, clientUserAgent, user, 'two-factor');
+        return res.status(401).json({ error: 'Invalid authentication code.' });
+    }
+    releaseLoginAttempt(clientIp, user);
+
+    disableTwoFactor(user.id);
+    console.log(`🔐 Two-factor authentication turned off for user: ${user.id}`);
+    res.status(200).json({ user: toPublicUser(usersRepository.get(user.id)) });
+});
+
+// Replace all recovery codes, e.g. after using some or losing the printout
+router.post('/2fa/recovery-codes', authMiddleware, twoFactorLimit, (req: express.Request, res: express.Response) => {
+    const { code } = req.body;
+    if (!code) return res.status(400).json({ error: 'Authentication code is required.' });
+
+    const user = usersRepository.get((req as any).userId);
+    if (!user) return res.status(404).json({ error: 'User not found.' });
+    if (!isTwoFactorEnabled(user)) return res.status(400).json({ error: 'Two-factor authentication is not on.' });
+
+    const clientIp = getClientIp(req);
+    const clientUserAgent = getUserAgent(req);
+    const loginCheck = checkLoginAllowed(clientIp, clientUserAgent, user);
+    if ('error' in loginCheck) {
+        res.setHeader('Retry-After', String(loginCheck.retryAfter));
+        return res.status(loginCheck.status).json({ error: loginCheck.error, retryAfter: loginCheck.retryAfter });
+    }
+    if (!verifyTwoFactorCode(user.id, String(code))) {
+        recordLoginFailure(clientIp, clientUserAgent, user, 'two-factor');
+        return res.status(401).json({ error: 'Invalid authentication code.' });
+    }
+    releaseLoginAttempt(clientIp, user);
+
+    const recoveryCodes = regenerateRecoveryCodes(user.id);
+    if (!recoveryCodes) return res.status(400).json({ error: 'Two-factor authentication is not on.' });
+    res.status(200).json({ recoveryCodes });
+});
+
 // Update Profile
 // FIX: Changed type annotations to use express.Request and express.Response to resolve type conflicts.
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
 router.put('/profile', authMiddleware, (req: express.Request, res: express.Response) => {
     const updates = req.body;
-    const users = getUsers();
-    const userIndex = users.findIndex((u: any) => u.id === (req as any).userId);
-    if (userIndex === -1) return res.status(404).json({ error: 'User not found.' });
+    const updatedUser = usersRepository.get((req as any).userId);
+    if (!updatedUser) return res.status(404).json({ error: 'User not found.' });
 
-    if (updates.name) users[userIndex].name = sanitize(updates.name);
+    if (updates.name) updatedUser.name = sanitize(updates.name);
     if (updates.username) {
-        if (users.some((u: any) => u.id !== (req as any).userId && u.username.toLowerCase() === updates.username.toLowerCase())) {
+        if (usersRepository.findBy('username', updates.username, { ignoreCase: true }).some(u => u.id !== updatedUser.id)) {
             return res.status(409).json({ error: 'Username is already taken.' });
         }
-        users[userIndex].username = sanitize(updates.username);
+        updatedUser.username = sanitize(updates.username);
     }
-    if (updates.profilePic) users[userIndex].profilePic = updates.profilePic;
+    if (updates.profilePic) updatedUser.profilePic = updates.profilePic;
 
-    saveUsers(users);
-    const updatedUser = users[userIndex];
+    usersRepository.save(updatedUser);
     
     // Create new secure server-side session with device binding
     const clientIp = getClientIp(req);
@@ -297,15 +464,14 @@ router.put('/profile', authMiddleware, (req: express.Request, res: express.Respo
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
 router.post('/watchlist', authMiddleware, (req: express.Request, res: express.Response) => {
     const { movieId } = req.body;
-    const watchlists = getWatchlists();
-    let userWatchlist = watchlists[(req as any).userId] || [];
+    let userWatchlist = watchlistsRepository.get((req as any).userId);
     if (userWatchlist.includes(movieId)) {
         userWatchlist = userWatchlist.filter((id: string) => id !== movieId);
     } else {
         userWatchlist.push(movieId);
+        recordMovieActivity('WATCHLIST_ADD', movieId);
     }
-    watchlists[(req as any).userId] = userWatchlist;
-    saveWatchlists(watchlists);
+    watchlistsRepository.set((req as any).userId, userWatchlist);
     res.status(200).json({ watchlist: userWatchlist });
 });
 
@@ -314,13 +480,12 @@ router.post('/watchlist', authMiddleware, (req: express.Request, res: express.Re
 // @FIX: Use express.Request and express.Response for proper type inference on request handlers.
 router.post('/history', authMiddleware, (req: express.Request, res: express.Response) => {
     const { movieId } = req.body;
-    const histories = getHistories();
-    let userHistory = histories[(req as any).userId] || [];
+    let userHistory = historyRepository.get((req as any).userId);
     userHistory = userHistory.filter((item: any) => item.movieId !== movieId);
     userHistory.unshift({ movieId, viewedAt: new Date().toISOString() });
     if (userHistory.length > 50) userHistory = userHistory.slice(0, 50);
-    histories[(req as any).userId] = userHistory;
-    saveHistories(histories);
+    historyRepository.set((req as any).userId, userHistory);
+    recordMovieActivity('WATCH_START', movieId);
     res.status(200).json({ success: true });
 });
 
@@ -331,19 +496,61 @@ router.post('/reset-password', authMiddleware, async (req: express.Request, res:
         return res.status(400).json({ error: 'Current and new passwords are required.' });
     }
     
-    const users = getUsers();
-    const userIndex = users.findIndex((u: any) => u.id === (req as any).userId);
-    if (userIndex === -1) return res.status(404).json({ error: 'User not found.' });
+    const user = usersRepository.get((req as any).userId);
+    if (!user) return res.status(404).json({ error: 'User not found.' });
     
     // Verify current password
-    const isCurrentPasswordValid = await verifyPassword(currentPassword, users[userIndex].passwordHash);
+    const isCurrentPasswordValid = await verifyPassword(currentPassword, user.passwordHash);
     if (!isCurrentPasswordValid) {
         return res.status(401).json({ error: 'Current password is incorrect.' });
     }
     
     // Update to new password
-    users[userIndex].passwordHash = await hashPassword(newPassword);
-    saveUsers(users);
+    user.passwordHash = await hashPassword(newPassword);
+    usersRepository.save(user);
+    res.status(200).json({ success: true });
+});
+
+// Forgot password - email a one-time reset link. The reply is the same whether or not the account exists.
+router.post('/forgot-password', rateLimit('password-reset', 'Too many reset requests. Please try again later.'), (req: express.Request, res: express.Response) => {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') return res.status(400).json({ error: 'Email is required.' });
+
+    // Checked before the account lookup so the reply still doesn't reveal whether the account exists
+    const siteUrl = getResetSiteUrl(`${req.protocol}://${req.get('host')}`);
+    if (!siteUrl) {
+        console.error('❌ Password reset refused: PUBLIC_SITE_URL must be set in production.');
+        return res.status(503).json({ error: 'Password reset is not available right now. Please contact support.' });
+    }
+
+    const user = usersRepository.findOneBy('email', email.trim(), { ignoreCase: true });
+    if (user) {
+        // Not awaited, so response time doesn't reveal whether the account exists
+        issuePasswordReset(user, siteUrl).catch(error => {
+            console.error(`❌ Could not send password reset email to ${user.email}:`, error);
+        });
+    }
+    res.status(200).json({ success: true, message: 'If an account exists for that email, a reset link is on its way.' });
+});
+
+// Forgot password - choose a new password with the emailed token. Signs the account out everywhere.
+router.post('/forgot-password/confirm', rateLimit('password-reset', 'Too many reset attempts. Please try again later.'), async (req: express.Request, res: express.Response) => {
+    const { token, newPassword } = req.body;
+    if (!token || !newPassword) return res.status(400).json({ error: 'Reset token and new password are required.' });
+    if (typeof newPassword !== 'string' || newPassword.length < 6) {
+        return res.status(400).json({ error: 'New password must be at least 6 characters long.' });
+    }
+
+    const userId = consumePasswordReset(String(token));
+    const user = userId ? usersRepository.get(userId) : undefined;
+    if (!user) return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+
+    user.passwordHash = await hashPassword(newPassword);
+    usersRepository.save(user);
+    deleteAllUserSessions(user.id);
+    // Proving access to the mailbox is enough to lift a sign-in lockout
+    setAccountThrottle(user.id, undefined);
+    console.log(`🔑 Password reset by email link for user: ${user.id}`);
     res.status(200).json({ success: true });
 });
 
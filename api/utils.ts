@@ -1,4 +1,25 @@
 import fs from 'fs';
+import express from 'express';
+
+/**
+ * The client's IP address. X-Forwarded-For is only honoured for the proxies server.ts trusts
+ * (TRUST_PROXY); taken straight from the header, anyone could claim any address and get a
+ * fresh rate-limit bucket or lockout counter with every request.
+ */
+export const getClientIp = (req: express.Request): string => req.ip || req.socket.remoteAddress || 'unknown';
+
+/**
+ * Express's "trust proxy" setting from TRUST_PROXY: true/false, a hop count, or a comma-separated
+ * list of addresses and subnets (e.g. "loopback, 10.0.0.0/8").
+ */
+export const parseTrustProxy = (value: string | undefined, fallback: boolean | number | string): boolean | number | string => {
+    if (!value || !value.trim()) return fallback;
+    const trimmed = value.trim();
+    if (trimmed === 'true') return true;
+    if (trimmed === 'false') return false;
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+    return trimmed;
+};
 
 /**
  * Performs an atomic write to a file to prevent data corruption.
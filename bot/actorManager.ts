@@ -7,6 +7,9 @@ import path from 'path';
 import { Actor } from './types';
 import { setUserState, getUserState, clearUserState, atomicWrite } from './utils';
 import { generateActorProfile } from './aiHandler';
+import { recordAudit } from './auditManager';
+import { moveToTrash, registerTrashType, getTrashRetentionDays } from './trashManager';
+import { registerConversation } from './conversationManager';
 
 const ACTORS_PATH = path.join(process.cwd(), 'data', 'actors.json');
 
@@ -20,6 +23,25 @@ const readActors = (): Actor[] => {
 
 const writeActors = (actors: Actor[]) => atomicWrite(ACTORS_PATH, JSON.stringify(actors, null, 2));
 
+const findActorIndex = (actors: Actor[], name: string) => actors.findIndex(a => a.name.toLowerCase() === name.toLowerCase());
+
+registerTrashType('actor', {
+    label: 'Actor',
+    exists: (name) => findActorIndex(readActors(), name) > -1,
+    restore: (actor: Actor) => writeActors([...readActors(), actor])
+});
+
+registerConversation('actor_', {
+    label: 'adding an actor',
+    resume: (bot, chatId, state) => {
+        if (state.command === 'actor_get_name') {
+            bot.sendMessage(chatId, "▶️ Enter the full name of the actor to add or update:");
+        } else {
+            bot.sendMessage(chatId, `▶️ Adding actor "${state.actorData?.name}". Send your reply to continue, or /cancel to stop.`);
+        }
+    }
+});
+
 export const startAddActorFlow = (bot: TelegramBot, chatId: number) => {
     setUserState(chatId, { command: 'actor_get_name' });
     bot.sendMessage(chatId, "Enter the full name of the actor to add or update:");
@@ -79,3 +101,41 @@ export const handleActorResponse = async (bot: TelegramBot, msg: TelegramBot.Mes
         clearUserState(userId);
     }
 };
+
+// --- DELETE FLOW ---
+export const showActorsForDeletion = (bot: TelegramBot, chatId: number) => {
+    const actors = readActors();
+    if (actors.length === 0) {
+        bot.sendMessage(chatId, "There are no actor profiles to delete.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back", callback_data: "manage_actors" }]] }
+        });
+        return;
+    }
+
+    const keyboard = actors.map(actor => ([{ text: `${actor.name} 🗑️`, callback_data: `actor_delete_${actor.name}` }]));
+    keyboard.push([{ text: "⬅️ Back", callback_data: "manage_actors" }]);
+    bot.sendMessage(chatId, `🗑️ Select an actor profile to move to the trash (restorable for ${getTrashRetentionDays()} days):`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+export const handleDeleteActorCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const name = query.data.replace('actor_delete_', '');
+
+    const actors = readActors();
+    const index = findActorIndex(actors, name);
+    if (index === -1) {
+        bot.sendMessage(chatId, `Error: No actor profile named "${name}".`);
+        return;
+    }
+
+    const [actor] = actors.splice(index, 1);
+    moveToTrash('actor', actor.name, actor.name, actor, query.from.id);
+    writeActors(actors);
+    recordAudit({ adminId: query.from.id, action: 'actor.delete', entityType: 'actor', entityId: actor.name, before: actor, after: null, reversible: false });
+    bot.sendMessage(chatId, `🗑️ Moved "${actor.name}" to the trash.`, {
+        reply_markup: { inline_keyboard: [[{ text: "⬅️ Back", callback_data: "manage_actors" }]] }
+    });
+};
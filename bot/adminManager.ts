@@ -0,0 +1,271 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { BotAdmin, BotAdminRole } from './types';
+import { setUserState, getUserState, clearUserState } from './utils';
+import { botAdminsRepository } from '../server/storage';
+import { recordAudit, registerAuditEntity } from './auditManager';
+
+export type NotificationTopic = 'finder' | 'broadcast' | 'digest' | 'release' | 'moderation' | 'security';
+
+interface RoleDefinition {
+    label: string;
+    /** callback_data prefixes this role may trigger; '*' allows everything */
+    prefixes: string[];
+    /** Background notifications this role receives */
+    notifications: NotificationTopic[];
+}
+
+export const ADMIN_ROLES: Record<BotAdminRole, RoleDefinition> = {
+    'owner': {
+        label: '👑 Owner',
+        prefixes: ['*'],
+        notifications: ['finder', 'broadcast', 'digest', 'release', 'moderation', 'security']
+    },
+    'editor': {
+        label: '✍️ Editor',
+        prefixes: [
+            'manage_movies', 'add_movie', 'edit_movie_', 'delete_movie_', 'youtube_movie_', 'series_',
+            'bulk_import_', 'export_catalogue', 'manage_collections', 'collection_', 'manage_actors', 'add_actor',
+            'actor_delete_', 'trash_', 'publish_', 'automation_', 'ai_'
+        ],
+        notifications: ['finder', 'release']
+    },
+    'livetv-operator': {
+        label: '📺 Live TV Operator',
+        prefixes: ['manage_livetv', 'livetv_'],
+        notifications: ['broadcast']
+    },
+    'moderator': {
+        label: '🛡️ Moderator',
+        prefixes: ['manage_users', 'user_lookup', 'user_unlock_', 'user_sessions_', 'user_kill', 'moderation_'],
+        notifications: ['moderation', 'security']
+    },
+};
+
+// Reachable by every admin regardless of role
+const SHARED_PREFIXES = ['main_menu', 'conversation_'];
+
+/**
+ * The Telegram id from ADMIN_TELEGRAM_USER_ID is always an owner and cannot be
+ * edited from the bot, so a bad roster change can never lock everyone out.
+ */
+const getEnvOwnerId = () => process.env.ADMIN_TELEGRAM_USER_ID;
+
+export const getBotAdmin = (telegramId: number | string | undefined): BotAdmin | undefined => {
+    if (telegramId === undefined) return undefined;
+    const id = String(telegramId);
+    if (id === getEnvOwnerId()) {
+        return { id, name: 'Owner (ADMIN_TELEGRAM_USER_ID)', role: 'owner', addedBy: 'env', addedAt: '' };
+    }
+    return botAdminsRepository.get(id);
+};
+
+export const getBotAdmins = (): BotAdmin[] => {
+    const roster = botAdminsRepository.all().filter(admin => admin.id !== getEnvOwnerId());
+    const envOwner = getBotAdmin(getEnvOwnerId());
+    return envOwner ? [envOwner, ...roster] : roster;
+};
+
+/**
+ * With no env owner and an empty roster the bot stays open to anyone, as it always has
+ */
+export const isAccessRestricted = () => !!getEnvOwnerId() || botAdminsRepository.all().length > 0;
+
+export const isBotAdmin = (telegramId: number | string | undefined) => !isAccessRestricted() || !!getBotAdmin(telegramId);
+
+export const canUseCallback = (telegramId: number | string | undefined, data: string) => {
+    if (!isAccessRestricted()) return true;
+    const admin = getBotAdmin(telegramId);
+    if (!admin) return false;
+    const prefixes = [...SHARED_PREFIXES, ...ADMIN_ROLES[admin.role].prefixes];
+    return prefixes.some(prefix => prefix === '*' || data.startsWith(prefix));
+};
+
+/**
+ * Drop the buttons an admin's role can't use, and any rows left empty
+ */
+export const visibleButtons = (telegramId: number | string | undefined, rows: TelegramBot.InlineKeyboardButton[][]) =>
+    rows
+        .map(row => row.filter(button => !button.callback_data || canUseCallback(telegramId, button.callback_data)))
+        .filter(row => row.length > 0);
+
+export const getNotificationRecipients = (topic: NotificationTopic): string[] =>
+    getBotAdmins()
+        .filter(admin => ADMIN_ROLES[admin.role].notifications.includes(topic))
+        .map(admin => admin.id);
+
+/**
+ * Send a background notification to every admin whose role subscribes to the topic.
+ * `exceptId` skips the admin who triggered it, since they already see the result.
+ */
+export const notifyAdmins = (bot: TelegramBot, topic: NotificationTopic, text: string, options: TelegramBot.SendMessageOptions = {}, exceptId?: number | string) => {
+    getNotificationRecipients(topic)
+        .filter(id => exceptId === undefined || id !== String(exceptId))
+        .forEach(id => {
+            bot.sendMessage(id, text, options).catch(error => {
+                console.error(`Could not notify admin ${id} (${topic}):`, error.message || error);
+            });
+        });
+};
+
+registerAuditEntity('botAdmin', {
+    label: 'Bot admin',
+    read: (adminId) => botAdminsRepository.get(adminId) || null,
+    write: (adminId, snapshot) => {
+        if (snapshot) {
+            botAdminsRepository.save(snapshot);
+        } else {
+            botAdminsRepository.remove(adminId);
+        }
+    }
+});
+
+// --- BOT MENU (owner only, see ADMIN_ROLES) ---
+
+const isLastOwner = (adminId: string) =>
+    getBotAdmins().filter(admin => admin.role === 'owner').every(admin => admin.id === adminId);
+
+export const showBotAdminsMenu = (bot: TelegramBot, chatId: number) => {
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = getBotAdmins().map(admin => ([{
+        text: `${ADMIN_ROLES[admin.role].label} · ${admin.name} (${admin.id})`,
+        callback_data: `bot_admin_view_${admin.id}`
+    }]));
+    keyboard.push([{ text: "➕ Add Admin", callback_data: "bot_admin_add" }]);
+    keyboard.push([{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]);
+
+    const roleHelp = (Object.keys(ADMIN_ROLES) as BotAdminRole[])
+        .map(role => `${ADMIN_ROLES[role].label}: ${role === 'owner' ? 'everything' : ADMIN_ROLES[role].prefixes.join(', ')}`)
+        .join('\n');
+
+    bot.sendMessage(chatId, `🛡️ Bot Admins\n\nEach admin only sees the menus their role allows:\n${roleHelp}`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+const roleKeyboard = (adminId: string): TelegramBot.InlineKeyboardButton[][] => {
+    const roles = Object.keys(ADMIN_ROLES) as BotAdminRole[];
+    const rows: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < roles.length; i += 2) {
+        rows.push(roles.slice(i, i + 2).map(role => ({ text: ADMIN_ROLES[role].label, callback_data: `bot_admin_setrole_${role}_${adminId}` })));
+    }
+    return rows;
+};
+
+const showBotAdmin = (bot: TelegramBot, chatId: number, adminId: string) => {
+    const admin = getBotAdmin(adminId);
+    if (!admin) {
+        bot.sendMessage(chatId, "Error: That admin no longer exists.");
+        return;
+    }
+
+    const back = [{ text: "⬅️ Back", callback_data: "bot_admins" }];
+    if (admin.addedBy === 'env') {
+        bot.sendMessage(chatId, `${ADMIN_ROLES.owner.label} ${admin.id}\n\nThis owner is set by ADMIN_TELEGRAM_USER_ID and can only be changed in the server environment.`, {
+            reply_markup: { inline_keyboard: [back] }
+        });
+        return;
+    }
+
+    bot.sendMessage(chatId, `${ADMIN_ROLES[admin.role].label} · ${admin.name}\n\nTelegram ID: ${admin.id}\nAdded by: ${admin.addedBy}\nAdded: ${admin.addedAt.slice(0, 10)}\n\nChoose a new role or remove access:`, {
+        reply_markup: {
+            inline_keyboard: [
+                ...roleKeyboard(admin.id),
+                [{ text: "🗑️ Remove Admin", callback_data: `bot_admin_remove_${admin.id}` }],
+                back
+            ]
+        }
+    });
+};
+
+export const handleBotAdminCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const userId = query.from.id;
+    const data = query.data;
+
+    if (data === 'bot_admins') {
+        showBotAdminsMenu(bot, chatId);
+    } else if (data === 'bot_admin_add') {
+        setUserState(userId, { command: 'bot_admin_add_id' });
+        bot.sendMessage(chatId, "Send the new admin's numeric Telegram user ID, optionally followed by a name (e.g. `123456789 Ada`).\n\nThey can get their ID from @userinfobot.", { parse_mode: 'Markdown' });
+    } else if (data.startsWith('bot_admin_view_')) {
+        showBotAdmin(bot, chatId, data.replace('bot_admin_view_', ''));
+    } else if (data.startsWith('bot_admin_setrole_')) {
+        const [role, ...idParts] = data.replace('bot_admin_setrole_', '').split('_');
+        const adminId = idParts.join('_');
+        if (!(role in ADMIN_ROLES)) return;
+
+        const existing = botAdminsRepository.get(adminId);
+        const state = getUserState(userId);
+        const pending = state?.command === 'bot_admin_add_role' && state.adminId === adminId ? state : undefined;
+
+        if (!existing && !pending) {
+            bot.sendMessage(chatId, "This action has expired. Please start again.");
+            return;
+        }
+        if (existing && existing.role === 'owner' && role !== 'owner' && isLastOwner(adminId)) {
+            bot.sendMessage(chatId, "❌ You can't demote the last owner.");
+            return;
+        }
+
+        const updated: BotAdmin = existing
+            ? { ...existing, role: role as BotAdminRole }
+            : { id: adminId, name: pending!.name, role: role as BotAdminRole, addedBy: String(userId), addedAt: new Date().toISOString() };
+        botAdminsRepository.save(updated);
+        clearUserState(userId);
+        recordAudit({
+            adminId: userId,
+            action: existing ? 'botAdmin.setRole' : 'botAdmin.add',
+            entityType: 'botAdmin',
+            entityId: adminId,
+            before: existing || null,
+            after: updated
+        });
+
+        bot.sendMessage(adminId, `👋 You now have ${ADMIN_ROLES[updated.role].label} access to the Yoruba Cinemax admin bot. Send /start to begin.`)
+            .catch(() => console.log(`Could not message new admin ${adminId}; they need to /start the bot first.`));
+        showBotAdmin(bot, chatId, adminId);
+    } else if (data.startsWith('bot_admin_remove_')) {
+        const adminId = data.replace('bot_admin_remove_', '');
+        const existing = botAdminsRepository.get(adminId);
+        if (!existing) {
+            bot.sendMessage(chatId, "Error: That admin no longer exists.");
+            return;
+        }
+        if (existing.role === 'owner' && isLastOwner(adminId)) {
+            bot.sendMessage(chatId, "❌ You can't remove the last owner.");
+            return;
+        }
+        botAdminsRepository.remove(adminId);
+        clearUserState(Number(adminId));
+        recordAudit({ adminId: userId, action: 'botAdmin.remove', entityType: 'botAdmin', entityId: adminId, before: existing, after: null });
+        bot.sendMessage(chatId, `✅ Removed ${existing.name} (${adminId}) from the bot admins.`, {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Bot Admins", callback_data: "bot_admins" }]] }
+        });
+    }
+};
+
+export const handleBotAdminResponse = (bot: TelegramBot, msg: TelegramBot.Message) => {
+    const userId = msg.from?.id;
+    const text = msg.text?.trim();
+    if (!userId || !text) return;
+
+    const match = text.match(/^(\d{3,15})\s*(.*)$/);
+    if (!match) {
+        bot.sendMessage(userId, "❌ That doesn't look like a Telegram user ID. Send the numeric ID, e.g. `123456789 Ada`.", { parse_mode: 'Markdown' });
+        return;
+    }
+
+    const [, adminId, name] = match;
+    if (getBotAdmin(adminId)) {
+        clearUserState(userId);
+        bot.sendMessage(userId, `${adminId} is already an admin.`, {
+            reply_markup: { inline_keyboard: [[{ text: "Open", callback_data: `bot_admin_view_${adminId}` }]] }
+        });
+        return;
+    }
+
+    setUserState(userId, { command: 'bot_admin_add_role', adminId, name: name || `Admin ${adminId}` });
+    bot.sendMessage(userId, `Pick a role for ${name || adminId}:`, {
+        reply_markup: { inline_keyboard: [...roleKeyboard(adminId), [{ text: "⬅️ Cancel", callback_data: "bot_admins" }]] }
+    });
+};
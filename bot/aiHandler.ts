@@ -2,15 +2,17 @@
 declare const __dirname: string;
 
 import TelegramBot from 'node-telegram-bot-api';
-import { getAnalyticsSummary } from './analyticsService';
+import { getAnalyticsSummary } from '../server/analytics';
+import { getTrending } from '../server/trending';
 import { setUserState, clearUserState } from './utils';
 import fs from 'fs';
 import path from 'path';
 import { Movie, Actor } from './types';
 import { atomicWrite } from './utils';
 import CinemaxAIService from '../src/ai/services/CinemaxAIService';
+import { moviesRepository } from '../server/storage';
+import { getNotificationRecipients, notifyAdmins } from './adminManager';
 
-const MOVIES_PATH = path.join(process.cwd(), 'data', 'movies.json');
 const ACTORS_PATH = path.join(process.cwd(), 'data', 'actors.json');
 
 // --- Cinemax AI Setup ---
@@ -19,8 +21,7 @@ console.log('🤖 Telegram Bot AI initialized with Cinemax AI');
 
 const readMovies = (): Movie[] => {
     try {
-        const data = fs.readFileSync(MOVIES_PATH, 'utf-8');
-        return JSON.parse(data);
+        return moviesRepository.all();
     } catch {
         return [];
     }
@@ -100,12 +101,17 @@ export const suggestNewMovies = async (bot: TelegramBot, chatId: number) => {
     await bot.sendChatAction(chatId, 'typing');
     try {
         const currentMovies = readMovies();
+        // What viewers engaged with this week steers the suggestions towards similar titles
+        const trending = getTrending('7d').movies.filter(entry => Object.values(entry.signals).some(count => count > 0)).slice(0, 5);
         
         console.log('💡 Telegram Bot generating movie suggestions...');
 
-        const responseText = await cinemaxAI.suggestNewMovies(currentMovies as any);
+        const responseText = await cinemaxAI.suggestNewMovies(currentMovies as any, trending.map(entry => entry.title));
 
-        bot.sendMessage(chatId, `🧠 *Cinemax AI Suggestions:*\n\n${responseText}`, { parse_mode: 'Markdown' });
+        const trendingText = trending.length > 0
+            ? `🔥 *Trending this week:*\n${trending.map((entry, i) => `${i + 1}. ${entry.title}`).join('\n')}\n\n`
+            : '';
+        bot.sendMessage(chatId, `${trendingText}🧠 *Cinemax AI Suggestions:*\n\n${responseText}`, { parse_mode: 'Markdown' });
 
     } catch(e) {
         bot.sendMessage(chatId, "Could not fetch suggestions at this time.");
@@ -114,25 +120,25 @@ export const suggestNewMovies = async (bot: TelegramBot, chatId: number) => {
 };
 
 export const getWeeklyDigest = async (bot: TelegramBot) => {
-    const adminId = process.env.ADMIN_TELEGRAM_USER_ID;
-    if (!adminId) {
-        console.log("Weekly Digest skipped: No Admin ID.");
+    const recipients = getNotificationRecipients('digest');
+    if (recipients.length === 0) {
+        console.log("Weekly Digest skipped: No admin subscribed to the digest.");
         return;
     }
 
     console.log("📊 Generating weekly digest with Cinemax AI...");
-    await bot.sendChatAction(parseInt(adminId, 10), 'typing');
+    await Promise.all(recipients.map(id => bot.sendChatAction(id, 'typing').catch(() => undefined)));
     try {
         const analytics = getAnalyticsSummary(7);
         
         const responseText = await cinemaxAI.generateWeeklyReport(analytics);
 
         const reportHeader = "📊 *Your Weekly Performance Report - Powered by Cinemax AI* 📊\n\n";
-        bot.sendMessage(adminId, reportHeader + responseText, { parse_mode: 'Markdown' });
+        notifyAdmins(bot, 'digest', reportHeader + responseText, { parse_mode: 'Markdown' });
 
     } catch (e) {
         console.error("❌ Failed to generate weekly digest:", e);
-        bot.sendMessage(adminId, "Sorry, I couldn't generate the weekly report this time.");
+        notifyAdmins(bot, 'digest', "Sorry, I couldn't generate the weekly report this time.");
     }
 };
 
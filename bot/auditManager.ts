@@ -0,0 +1,242 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { auditLogRepository, AuditEntry } from '../server/storage';
+
+const PAGE_SIZE = 10;
+
+/**
+ * How to read and restore one kind of audited entity. Managers register one for each
+ * entity type whose changes can be undone.
+ */
+interface AuditEntityHandler {
+    label: string;
+    /** Current snapshot, in the same shape that was recorded */
+    read: (entityId: string) => any;
+    /** Put a snapshot back; `null` means the entity should not exist */
+    write: (entityId: string, snapshot: any) => void;
+}
+
+const entityHandlers: { [entityType: string]: AuditEntityHandler } = {};
+
+const ENTITY_FILTERS: { type: string; label: string }[] = [
+    { type: 'movie', label: '🎬 Movies' },
+    { type: 'user', label: '👤 Users' },
+    { type: 'comment', label: '💬 Comments' },
+    { type: 'userModeration', label: '🔇 Mutes & Bans' },
+    { type: 'chatMessage', label: '📺 Live Chat' },
+    { type: 'loginLock', label: '🔒 Sign-in Locks' },
+    { type: 'siteConfig', label: '⚙️ Site' },
+    { type: 'announcement', label: '📢 Broadcast' },
+    { type: 'collection', label: '📚 Collections' },
+    { type: 'actor', label: '🎭 Actors' },
+    { type: 'botAdmin', label: '🛡️ Bot Admins' },
+];
+
+export const registerAuditEntity = (entityType: string, handler: AuditEntityHandler) => {
+    entityHandlers[entityType] = handler;
+};
+
+const clone = <T>(value: T): T => value === undefined || value === null ? value : JSON.parse(JSON.stringify(value));
+
+/**
+ * Append an entry to the audit trail. Never throws: a failed audit write is logged
+ * but must not undo the admin's change.
+ */
+export const recordAudit = (entry: {
+    adminId: number | string | undefined;
+    action: string;
+    entityType: string;
+    entityId: string;
+    before: any;
+    after: any;
+    reversible?: boolean;
+    undoOf?: string;
+}): AuditEntry | undefined => {
+    try {
+        const record: AuditEntry = {
+            id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+            adminId: String(entry.adminId ?? 'unknown'),
+            action: entry.action,
+            entityType: entry.entityType,
+            entityId: entry.entityId,
+            before: clone(entry.before) ?? null,
+            after: clone(entry.after) ?? null,
+            reversible: entry.reversible ?? true,
+            timestamp: new Date().toISOString(),
+            ...(entry.undoOf ? { undoOf: entry.undoOf } : {})
+        };
+        auditLogRepository.save(record);
+        return record;
+    } catch (error) {
+        console.error('📜 Failed to write audit entry:', error);
+        return undefined;
+    }
+};
+
+const isUndone = (entryId: string, entries: AuditEntry[]) => entries.some(e => e.undoOf === entryId);
+
+/**
+ * Roll an entity back to the entry's `before` snapshot. Refuses when the entity has
+ * changed again since, so an undo never silently discards a later edit.
+ */
+export const undoAuditEntry = (entryId: string, adminId: number | string): { ok: boolean; message: string } => {
+    const entries = auditLogRepository.all();
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) return { ok: false, message: 'Audit entry not found.' };
+    if (!entry.reversible || entry.undoOf) return { ok: false, message: 'This change cannot be undone.' };
+    if (isUndone(entry.id, entries)) return { ok: false, message: 'This change has already been undone.' };
+
+    const handler = entityHandlers[entry.entityType];
+    if (!handler) return { ok: false, message: `Undo is not supported for ${entry.entityType} changes.` };
+
+    const current = handler.read(entry.entityId) ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(entry.after)) {
+        return { ok: false, message: 'This item has changed since. Undo the newer changes first.' };
+    }
+
+    handler.write(entry.entityId, clone(entry.before));
+    recordAudit({
+        adminId,
+        action: `undo:${entry.action}`,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        before: entry.after,
+        after: entry.before,
+        reversible: false,
+        undoOf: entry.id
+    });
+    return { ok: true, message: `Undid "${entry.action}" on ${entry.entityId}.` };
+};
+
+// --- BOT MENU ---
+
+const formatTime = (iso: string) => iso.replace('T', ' ').slice(0, 16);
+
+/**
+ * Fields whose value differs between two snapshots, for the entry detail view
+ */
+const describeChange = (before: any, after: any): string[] => {
+    const show = (value: any) => {
+        const text = value === undefined || value === null ? '∅' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+    };
+    if (Array.isArray(before) || Array.isArray(after) || typeof before !== 'object' || typeof after !== 'object' || !before || !after) {
+        if (Array.isArray(before)) return [`${before.length} item(s) → ${Array.isArray(after) ? after.length : show(after)}`];
+        return [`${show(before)} → ${show(after)}`];
+    }
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys]
+        .filter(key => key !== 'updatedAt' && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => `${key}: ${show(before[key])} → ${show(after[key])}`);
+};
+
+export const showAuditMenu = (bot: TelegramBot, chatId: number) => {
+    const admins = [...new Set(auditLogRepository.all().map(e => e.adminId))];
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+        [{ text: "📜 All Changes", callback_data: "audit_list_all_0" }]
+    ];
+    for (let i = 0; i < ENTITY_FILTERS.length; i += 2) {
+        keyboard.push(ENTITY_FILTERS.slice(i, i + 2).map(f => ({ text: f.label, callback_data: `audit_list_${f.type}_0` })));
+    }
+    admins.forEach(adminId => keyboard.push([{ text: `🧑‍💼 By admin ${adminId}`, callback_data: `audit_list_admin-${adminId}_0` }]));
+    keyboard.push([{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]);
+
+    bot.sendMessage(chatId, "📜 *Audit Log*\n\nEvery change made through the bot, newest first. Pick a filter:", {
+        parse_mode: 'Markdown',
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+const showAuditList = (bot: TelegramBot, chatId: number, filter: string, page: number) => {
+    const all = auditLogRepository.all();
+    const matching = all
+        .filter(entry => {
+            if (filter === 'all') return true;
+            if (filter.startsWith('admin-')) return entry.adminId === filter.slice('admin-'.length);
+            return entry.entityType === filter;
+        })
+        .reverse();
+
+    const totalPages = Math.max(1, Math.ceil(matching.length / PAGE_SIZE));
+    const current = Math.min(page, totalPages - 1);
+    const pageEntries = matching.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+    if (pageEntries.length === 0) {
+        bot.sendMessage(chatId, "No audit entries match this filter yet.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back", callback_data: "audit_menu" }]] }
+        });
+        return;
+    }
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = pageEntries.map(entry => ([{
+        text: `${isUndone(entry.id, all) ? '↩️ ' : ''}${formatTime(entry.timestamp)} · ${entry.action} · ${entry.entityId}`.slice(0, 60),
+        callback_data: `audit_view_${entry.id}`
+    }]));
+
+    const nav: TelegramBot.InlineKeyboardButton[] = [];
+    if (current > 0) nav.push({ text: "⬅️ Newer", callback_data: `audit_list_${filter}_${current - 1}` });
+    if (current < totalPages - 1) nav.push({ text: "Older ➡️", callback_data: `audit_list_${filter}_${current + 1}` });
+    if (nav.length > 0) keyboard.push(nav);
+    keyboard.push([{ text: "⬅️ Back to Filters", callback_data: "audit_menu" }]);
+
+    bot.sendMessage(chatId, `📜 Audit log (${filter}) — page ${current + 1}/${totalPages}, ${matching.length} entries`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+const showAuditEntry = (bot: TelegramBot, chatId: number, entryId: string) => {
+    const all = auditLogRepository.all();
+    const entry = all.find(e => e.id === entryId);
+    if (!entry) {
+        bot.sendMessage(chatId, "Error: Audit entry not found.");
+        return;
+    }
+
+    const undone = isUndone(entry.id, all);
+    const canUndo = entry.reversible && !entry.undoOf && !undone && !!entityHandlers[entry.entityType];
+    const label = entityHandlers[entry.entityType]?.label || entry.entityType;
+    const text = [
+        `📜 ${entry.action}`,
+        ``,
+        `When: ${formatTime(entry.timestamp)} UTC`,
+        `Admin: ${entry.adminId}`,
+        `${label}: ${entry.entityId}`,
+        entry.undoOf ? `Undoes: ${entry.undoOf}` : '',
+        undone ? `Status: undone` : '',
+        ``,
+        `Changes:`,
+        ...describeChange(entry.before, entry.after).map(line => `• ${line}`)
+    ].filter((line, index, lines) => line !== '' || lines[index - 1] !== '').join('\n');
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    if (canUndo) keyboard.push([{ text: "↩️ Undo this change", callback_data: `audit_undo_${entry.id}` }]);
+    keyboard.push([{ text: "⬅️ Back to Filters", callback_data: "audit_menu" }]);
+
+    bot.sendMessage(chatId, text.slice(0, 4000), { reply_markup: { inline_keyboard: keyboard } });
+};
+
+export const handleAuditCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const data = query.data;
+
+    if (data === 'audit_menu') {
+        showAuditMenu(bot, chatId);
+    } else if (data.startsWith('audit_list_')) {
+        const rest = data.replace('audit_list_', '');
+        const separator = rest.lastIndexOf('_');
+        showAuditList(bot, chatId, rest.slice(0, separator), parseInt(rest.slice(separator + 1), 10) || 0);
+    } else if (data.startsWith('audit_view_')) {
+        showAuditEntry(bot, chatId, data.replace('audit_view_', ''));
+    } else if (data.startsWith('audit_undo_')) {
+        const entryId = data.replace('audit_undo_', '');
+        try {
+            const result = undoAuditEntry(entryId, query.from.id);
+            bot.sendMessage(chatId, `${result.ok ? '✅' : '❌'} ${result.message}`, {
+                reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Audit Log", callback_data: "audit_menu" }]] }
+            });
+        } catch (error: any) {
+            console.error('Undo failed:', error);
+            bot.sendMessage(chatId, `❌ Undo failed: ${error.message || error}`);
+        }
+    }
+};
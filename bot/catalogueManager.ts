@@ -0,0 +1,513 @@
+import TelegramBot from 'node-telegram-bot-api';
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { Movie } from './types';
+import { setUserState, getUserState, clearUserState } from './utils';
+import { moviesRepository } from '../server/storage';
+import { recordAudit } from './auditManager';
+import { registerConversation } from './conversationManager';
+import { groupMovieIntoSeries } from '../services/seriesService';
+import { foldText } from '../server/movieSearchIndex';
+
+// Bulk import/export of the movie catalogue as CSV or JSON documents
+
+const CATEGORIES = ['Drama', 'Comedy', 'Action', 'Romance', 'Thriller', 'Epic'];
+const REQUIRED_FIELDS: (keyof Movie)[] = ['title', 'poster', 'downloadLink', 'genre', 'category', 'releaseDate', 'description'];
+const CSV_COLUMNS: (keyof Movie)[] = [
+    'id', 'title', 'poster', 'downloadLink', 'genre', 'category', 'releaseDate', 'stars', 'runtime',
+    'rating', 'description', 'popularity', 'trailerId', 'status', 'publishAt', 'seriesTitle', 'partNumber'
+];
+// Text fields an upload may set; anything else in a row is ignored rather than stored
+const IMPORT_TEXT_FIELDS: (keyof Movie)[] = [
+    'poster', 'downloadLink', 'genre', 'category', 'releaseDate', 'description', 'trailerId', 'publishAt'
+];
+const POSTERS_DIR = path.join(process.cwd(), 'public', 'posters');
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const POSTER_CHECK_TIMEOUT_MS = 5000;
+const POSTER_CHECK_CONCURRENCY = 5;
+const MESSAGE_LIMIT = 3500;
+
+interface ImportRow {
+    /** 1-based row number in the upload, reported back to the admin */
+    line: number;
+    /** The uploaded row as parsed, kept so confirming can merge it over the catalogue as it is then */
+    record: any;
+    movie: Movie;
+    /** The movie this row replaces, when it matches an existing id or title */
+    existing?: Movie;
+    errors: string[];
+    warnings: string[];
+}
+
+const sanitizeForFilename = (title: string): string => {
+    return title
+        .toLowerCase()
+        .replace(/[\s\W]/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 50);
+};
+
+const titleKey = (title: string) => foldText(title).replace(/[^a-z0-9]+/g, ' ').trim();
+
+// --- PARSING ---
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(cell => cell.trim() !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    return rows;
+};
+
+const csvEscape = (value: any): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Turn an uploaded document into raw records. CSV headers map onto Movie fields;
+ * stars are separated by semicolons.
+ */
+const parseDocument = (fileName: string, content: string): any[] => {
+    const text = content.replace(/^\uFEFF/, '');
+    if (fileName.toLowerCase().endsWith('.json')) {
+        const parsed = JSON.parse(text);
+        const records = Array.isArray(parsed) ? parsed : parsed.movies;
+        if (!Array.isArray(records)) throw new Error('JSON must be an array of movies (or { "movies": [...] }).');
+        return records;
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('The CSV file is empty.');
+    const columns = header.map(column => column.trim());
+    return rows.map(cells => {
+        const record: any = {};
+        columns.forEach((column, index) => {
+            const value = (cells[index] ?? '').trim();
+            if (value !== '') record[column] = value;
+        });
+        if (typeof record.stars === 'string') record.stars = record.stars.split(';').map((s: string) => s.trim()).filter(Boolean);
+        return record;
+    });
+};
+
+// --- VALIDATION ---
+
+/**
+ * File behind a local /posters/ path, or null when the path climbs out of public/posters
+ */
+const localPosterPath = (poster: string): string | null => {
+    const resolved = path.resolve(POSTERS_DIR, poster.slice('/posters/'.length));
+    return resolved.startsWith(POSTERS_DIR + path.sep) ? resolved : null;
+};
+
+const isPosterReachable = async (poster: string): Promise<boolean> => {
+    if (poster.startsWith('/posters/')) {
+        const file = localPosterPath(poster);
+        return !!file && fs.existsSync(file);
+    }
+    try {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), POSTER_CHECK_TIMEOUT_MS);
+        const response = await fetch(poster, { method: 'HEAD', signal: controller.signal });
+        clearTimeout(timer);
+        return response.ok;
+    } catch {
+        return false;
+    }
+};
+
+const toMovie = (record: any, existing: Movie | undefined, index: number): Movie => {
+    const now = new Date().toISOString();
+    const title = String(record.title || '').trim();
+    const stars = Array.isArray(record.stars)
+        ? record.stars.map((s: any) => String(s).trim()).filter(Boolean)
+        : typeof record.stars === 'string' ? record.stars.split(/[;,]/).map((s: string) => s.trim()).filter(Boolean) : undefined;
+
+    const fields: Partial<Movie> = {};
+    IMPORT_TEXT_FIELDS.forEach(field => {
+        if (record[field] !== undefined && record[field] !== null) (fields as any)[field] = String(record[field]).trim();
+    });
+    if (record.status === 'coming-soon') fields.status = 'coming-soon';
+    if (record.announceOnPublish !== undefined) fields.announceOnPublish = record.announceOnPublish === true || record.announceOnPublish === 'true';
+
+    // Missing required fields are reported by validateRecords
+    const movie = {
+        ...(existing || {}),
+        ...fields,
+        id: existing?.id || record.id || `${sanitizeForFilename(foldText(title))}-${(Date.now() + index).toString().slice(-4)}`,
+        title,
+        stars: stars ?? existing?.stars ?? [],
+        runtime: record.runtime || existing?.runtime || 'Unknown',
+        rating: record.rating !== undefined ? parseFloat(record.rating) : existing?.rating ?? 0,
+        popularity: record.popularity !== undefined ? parseInt(record.popularity, 10) : existing?.popularity ?? 70,
+        seriesTitle: record.seriesTitle || existing?.seriesTitle || title,
+        partNumber: record.partNumber !== undefined ? parseInt(record.partNumber, 10) : existing?.partNumber ?? 1,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+    } as Movie;
+
+    if (movie.publishAt && Date.parse(movie.publishAt) > Date.now()) {
+        // Future publish times are released by the scheduler like ones set in the bot
+        movie.status = 'coming-soon';
+    } else if (!movie.publishAt) {
+        delete movie.publishAt;
+    }
+    return movie;
+};
+
+const validateRecords = async (records: any[]): Promise<ImportRow[]> => {
+    const catalogue = moviesRepository.all();
+    const byId = new Map(catalogue.map(movie => [movie.id, movie]));
+    const byTitle = new Map(catalogue.map(movie => [titleKey(movie.title), movie]));
+    const seenTitles = new Map<string, number>();
+    const seenIds = new Map<string, number>();
+
+    const rows: ImportRow[] = records.map((record, index) => {
+        // 1-based data row, not counting the CSV header
+        const line = index + 1;
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        if (!record || typeof record !== 'object') {
+            return { line, record, movie: {} as Movie, errors: ['Not a movie object'], warnings };
+        }
+
+        const existing = (record.id && byId.get(record.id)) || byTitle.get(titleKey(String(record.title || '')));
+        const movie = toMovie(record, existing, index);
+
+        REQUIRED_FIELDS.forEach(field => {
+            if (!movie[field] || String(movie[field]).trim() === '') errors.push(`Missing ${field}`);
+        });
+        if (movie.category && !CATEGORIES.includes(movie.category)) {
+            errors.push(`Bad category "${movie.category}" (use ${CATEGORIES.join(', ')})`);
+        }
+        if (movie.poster && movie.poster.startsWith('/posters/') && !localPosterPath(movie.poster)) {
+            errors.push(`Bad poster path "${movie.poster}" (local posters must be inside /posters/)`);
+        }
+        if (movie.releaseDate && isNaN(Date.parse(movie.releaseDate))) errors.push(`Bad releaseDate "${movie.releaseDate}"`);
+        if (movie.publishAt && isNaN(Date.parse(movie.publishAt))) errors.push(`Bad publishAt "${movie.publishAt}"`);
+        if (isNaN(movie.rating) || movie.rating < 0 || movie.rating > 10) errors.push('Rating must be a number from 0 to 10');
+        if (isNaN(movie.partNumber as number) || (movie.partNumber as number) < 1) errors.push('partNumber must be 1 or more');
+
+        const key = titleKey(movie.title);
+        if (key && seenTitles.has(key)) {
+            errors.push(`Duplicate title (same as row ${seenTitles.get(key)})`);
+        } else if (key) {
+            seenTitles.set(key, line);
+        }
+        if (seenIds.has(movie.id)) {
+            errors.push(`Duplicate id "${movie.id}" (same as row ${seenIds.get(movie.id)})`);
+        } else {
+            seenIds.set(movie.id, line);
+        }
+        if (record.id && existing && existing.id !== record.id) {
+            warnings.push(`Title matches existing movie "${existing.id}", it will be updated instead`);
+        }
+
+        return { line, record, movie, existing, errors, warnings };
+    });
+
+    // Check posters a few at a time so a big upload doesn't open hundreds of sockets
+    const toCheck = rows.filter(row => row.movie.poster && row.errors.length === 0);
+    for (let i = 0; i < toCheck.length; i += POSTER_CHECK_CONCURRENCY) {
+        const batch = toCheck.slice(i, i + POSTER_CHECK_CONCURRENCY);
+        const results = await Promise.all(batch.map(row => isPosterReachable(row.movie.poster)));
+        results.forEach((ok, j) => {
+            if (!ok) batch[j].warnings.push(`Poster unreachable: ${batch[j].movie.poster}`);
+        });
+    }
+
+    return rows;
+};
+
+const describeChanges = (before: Movie, after: Movie): string[] => {
+    const ignored = ['updatedAt', 'createdAt'];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys]
+        .filter(key => !ignored.includes(key) && JSON.stringify((before as any)[key]) !== JSON.stringify((after as any)[key]))
+        .map(key => {
+            const show = (value: any) => {
+                const text = value === undefined ? '∅' : Array.isArray(value) ? value.join(', ') : String(value);
+                return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+            };
+            return `${key}: ${show((before as any)[key])} → ${show((after as any)[key])}`;
+        });
+};
+
+const buildReport = (fileName: string, rows: ImportRow[]): string => {
+    const valid = rows.filter(row => row.errors.length === 0);
+    const invalid = rows.filter(row => row.errors.length > 0);
+    const additions = valid.filter(row => !row.existing);
+    const updates = valid.filter(row => row.existing);
+    const unchanged = updates.filter(row => describeChanges(row.existing!, row.movie).length === 0);
+
+    const lines: string[] = [
+        `Import report for ${fileName}`,
+        '',
+        `Rows: ${rows.length}`,
+        `New movies: ${additions.length}`,
+        `Updates: ${updates.length - unchanged.length} (${unchanged.length} unchanged)`,
+        `Invalid (will be skipped): ${invalid.length}`,
+        `Warnings: ${rows.reduce((sum, row) => sum + row.warnings.length, 0)}`
+    ];
+
+    if (invalid.length > 0) {
+        lines.push('', '❌ ERRORS');
+        invalid.forEach(row => lines.push(`Row ${row.line} "${row.movie.title || '?'}": ${row.errors.join('; ')}`));
+    }
+    const warned = rows.filter(row => row.warnings.length > 0);
+    if (warned.length > 0) {
+        lines.push('', '⚠️ WARNINGS');
+        warned.forEach(row => lines.push(`Row ${row.line} "${row.movie.title}": ${row.warnings.join('; ')}`));
+    }
+    if (additions.length > 0) {
+        lines.push('', '➕ NEW');
+        additions.forEach(row => lines.push(`+ ${row.movie.title} (${row.movie.category}, ${row.movie.releaseDate})`));
+    }
+    const changed = updates.filter(row => !unchanged.includes(row));
+    if (changed.length > 0) {
+        lines.push('', '✏️ CHANGES');
+        changed.forEach(row => {
+            lines.push(`~ ${row.existing!.title} [${row.existing!.id}]`);
+            describeChanges(row.existing!, row.movie).forEach(change => lines.push(`    ${change}`));
+        });
+    }
+    return lines.join('\n');
+};
+
+// --- IMPORT FLOW ---
+
+export const startBulkImport = (bot: TelegramBot, chatId: number) => {
+    setUserState(chatId, { command: 'bulk_import_upload' });
+    sendUploadPrompt(bot, chatId);
+};
+
+const sendUploadPrompt = (bot: TelegramBot, chatId: number) => {
+    bot.sendMessage(chatId,
+        "📥 *Bulk Import*\n\n" +
+        "Send a `.csv` or `.json` document with one movie per row.\n\n" +
+        "*Required:* title, poster, downloadLink, genre, category, releaseDate, description\n" +
+        "*Optional:* id, stars (separated by `;` in CSV), runtime, rating, popularity, trailerId, seriesTitle, partNumber\n\n" +
+        "Rows whose id or title match an existing movie update it. Tip: export the catalogue first to get a template.", {
+        parse_mode: 'Markdown',
+        reply_markup: { inline_keyboard: [[{ text: "⬅️ Cancel", callback_data: "bulk_import_cancel" }]] }
+    });
+};
+
+export const handleBulkImportResponse = async (bot: TelegramBot, msg: TelegramBot.Message) => {
+    const userId = msg.from?.id;
+    if (!userId) return;
+    const state = getUserState(userId);
+    if (!state || state.command !== 'bulk_import_upload') return;
+
+    const document = msg.document;
+    const fileName = document?.file_name || '';
+    if (!document || !/\.(csv|json)$/i.test(fileName)) {
+        bot.sendMessage(msg.chat.id, "Please send the catalogue as a `.csv` or `.json` document.", { parse_mode: 'Markdown' });
+        return;
+    }
+    if ((document.file_size || 0) > MAX_IMPORT_BYTES) {
+        bot.sendMessage(msg.chat.id, "❌ That file is too large (max 5 MB).");
+        return;
+    }
+
+    await bot.sendMessage(msg.chat.id, `🔍 Validating ${fileName}...`);
+
+    let rows: ImportRow[];
+    try {
+        const fileLink = await bot.getFileLink(document.file_id);
+        const response = await fetch(fileLink);
+        if (!response.ok) throw new Error(`Download failed (${response.status})`);
+        const records = parseDocument(fileName, await response.text());
+        if (records.length === 0) throw new Error('No movies found in the file.');
+        rows = await validateRecords(records);
+    } catch (error: any) {
+        console.error('Bulk import parse error:', error);
+        bot.sendMessage(msg.chat.id, `❌ Could not read ${fileName}: ${error.message || error}\n\nSend a corrected file to try again.`, {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Cancel", callback_data: "bulk_import_cancel" }]] }
+        });
+        return;
+    }
+
+    const valid = rows.filter(row => row.errors.length === 0);
+    const report = buildReport(fileName, rows);
+
+    if (report.length > MESSAGE_LIMIT) {
+        await bot.sendMessage(msg.chat.id, report.split('\n').slice(0, 8).join('\n') + '\n\nFull report attached.');
+        await bot.sendDocument(msg.chat.id, Buffer.from(report, 'utf-8'), {}, { filename: 'import-report.txt', contentType: 'text/plain' });
+    } else {
+        await bot.sendMessage(msg.chat.id, report);
+    }
+
+    if (valid.length === 0) {
+        clearUserState(userId);
+        bot.sendMessage(msg.chat.id, "Nothing to import. Fix the errors and start the import again.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back", callback_data: "manage_movies" }]] }
+        });
+        return;
+    }
+
+    // Only the rows are kept, with the id each one resolved to: a movie edited before the admin
+    // confirms keeps that edit wherever the row doesn't set the field
+    setUserState(userId, { command: 'bulk_import_confirm', records: valid.map(row => ({ ...row.record, id: row.movie.id })), fileName });
+    sendImportConfirmation(bot, msg.chat.id, valid.length);
+};
+
+const sendImportConfirmation = (bot: TelegramBot, chatId: number, count: number) => {
+    bot.sendMessage(chatId, `Import ${count} movie(s)? Everything is written in one step; invalid rows are skipped.`, {
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: `✅ Import ${count} Movies`, callback_data: "bulk_import_confirm" }],
+                [{ text: "❌ Cancel", callback_data: "bulk_import_cancel" }]
+            ]
+        }
+    });
+};
+
+registerConversation('bulk_import_', {
+    label: 'a bulk import',
+    resume: (bot, chatId, state) => {
+        if (state.command === 'bulk_import_confirm') {
+            bot.sendMessage(chatId, `▶️ ${state.fileName} was validated before the restart.`);
+            sendImportConfirmation(bot, chatId, state.records.length);
+        } else {
+            sendUploadPrompt(bot, chatId);
+        }
+    }
+});
+
+export const handleBulkImportCallback = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const userId = query.from.id;
+
+    if (query.data === 'bulk_import_start') {
+        startBulkImport(bot, chatId);
+        return;
+    }
+
+    if (query.data === 'bulk_import_cancel') {
+        clearUserState(userId);
+        bot.sendMessage(chatId, "Import cancelled.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back", callback_data: "manage_movies" }]] }
+        });
+        return;
+    }
+
+    if (query.data === 'bulk_import_confirm') {
+        const state = getUserState(userId);
+        if (!state || state.command !== 'bulk_import_confirm') {
+            bot.sendMessage(chatId, "This import has expired. Please upload the file again.");
+            return;
+        }
+        clearUserState(userId);
+
+        const catalogue = moviesRepository.all();
+        const byId = new Map(catalogue.map(movie => [movie.id, movie]));
+        const movies: Movie[] = state.records.map((record: any, index: number) => toMovie(record, byId.get(record.id), index));
+        const previous = movies.map(movie => byId.get(movie.id) || null);
+        try {
+            // One write of the merged catalogue: the JSON driver has no transactions, and a row by
+            // row save that failed halfway would leave part of the upload behind
+            const imported = new Map(movies.map(movie => [movie.id, movie]));
+            const merged = catalogue.map(movie => imported.get(movie.id) || movie);
+            const existingIds = new Set(catalogue.map(movie => movie.id));
+            moviesRepository.saveAll([...merged, ...movies.filter(movie => !existingIds.has(movie.id))]);
+        } catch (error: any) {
+            console.error('Bulk import failed:', error);
+            bot.sendMessage(chatId, `❌ Import failed, nothing was changed: ${error.message || error}`);
+            return;
+        }
+
+        movies.forEach((movie, index) => recordAudit({
+            adminId: userId,
+            action: previous[index] ? 'movie.import.update' : 'movie.import.create',
+            entityType: 'movie',
+            entityId: movie.id,
+            before: previous[index],
+            after: movie
+        }));
+
+        let grouped = 0;
+        movies.forEach(movie => {
+            try {
+                if (groupMovieIntoSeries(movie)) grouped++;
+            } catch (error) {
+                console.error(`Could not group "${movie.title}" into a series:`, error);
+            }
+        });
+
+        console.log(`📥 Bulk import of ${state.fileName}: ${movies.length} movies saved`);
+        bot.sendMessage(chatId, `✅ Imported ${movies.length} movie(s) from ${state.fileName}.` + (grouped > 0 ? `\n📚 ${grouped} grouped into series.` : ''), {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Movie Management", callback_data: "manage_movies" }]] }
+        });
+    }
+};
+
+// --- EXPORT ---
+
+export const showExportOptions = (bot: TelegramBot, chatId: number) => {
+    bot.sendMessage(chatId, "📤 Export the catalogue as:", {
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: "📄 CSV", callback_data: "export_catalogue_csv" }, { text: "🧾 JSON", callback_data: "export_catalogue_json" }],
+                [{ text: "⬅️ Back", callback_data: "manage_movies" }]
+            ]
+        }
+    });
+};
+
+export const handleExportCatalogue = async (bot: TelegramBot, chatId: number, format: 'csv' | 'json') => {
+    const movies = moviesRepository.all();
+    const date = new Date().toISOString().split('T')[0];
+
+    const content = format === 'json'
+        ? JSON.stringify(movies, null, 2)
+        : [
+            CSV_COLUMNS.join(','),
+            ...movies.map(movie => CSV_COLUMNS.map(column => {
+                const value = (movie as any)[column];
+                return csvEscape(Array.isArray(value) ? value.join('; ') : value);
+            }).join(','))
+        ].join('\n');
+
+    try {
+        await bot.sendDocument(chatId, Buffer.from(content, 'utf-8'), {
+            caption: `📤 ${movies.length} movies exported on ${date}`
+        }, {
+            filename: `catalogue-${date}.${format}`,
+            contentType: format === 'json' ? 'application/json' : 'text/csv'
+        });
+    } catch (error) {
+        console.error('Catalogue export failed:', error);
+        bot.sendMessage(chatId, "❌ Could not send the export file.");
+    }
+};
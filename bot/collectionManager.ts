@@ -6,9 +6,12 @@ import fs from 'fs';
 import path from 'path';
 import { Collection, Movie } from './types';
 import { setUserState, getUserState, clearUserState, atomicWrite } from './utils';
+import { moviesRepository } from '../server/storage';
+import { recordAudit, registerAuditEntity } from './auditManager';
+import { moveToTrash, registerTrashType } from './trashManager';
+import { registerConversation } from './conversationManager';
 
 const COLLECTIONS_PATH = path.join(process.cwd(), 'data', 'collections.json');
-const MOVIES_PATH = path.join(process.cwd(), 'data', 'movies.json');
 
 const readCollections = (): Collection[] => {
     try {
@@ -18,10 +21,32 @@ const readCollections = (): Collection[] => {
 };
 const writeCollections = (collections: Collection[]) => atomicWrite(COLLECTIONS_PATH, JSON.stringify(collections, null, 2));
 
+registerTrashType('collection', {
+    label: 'Collection',
+    exists: (collectionId) => readCollections().some(c => c.id === collectionId),
+    restore: (collection: Collection) => writeCollections([...readCollections(), collection])
+});
+
+registerAuditEntity('collection', {
+    label: 'Collection',
+    read: (collectionId) => readCollections().find(c => c.id === collectionId) || null,
+    write: (collectionId, snapshot) => {
+        const collections = readCollections();
+        const index = collections.findIndex(c => c.id === collectionId);
+        if (!snapshot) {
+            writeCollections(collections.filter(c => c.id !== collectionId));
+        } else if (index > -1) {
+            collections[index] = snapshot;
+            writeCollections(collections);
+        } else {
+            writeCollections([...collections, snapshot]);
+        }
+    }
+});
+
 const readMovies = (): Movie[] => {
     try {
-        const data = fs.readFileSync(MOVIES_PATH, 'utf-8');
-        return JSON.parse(data);
+        return moviesRepository.all();
     } catch { return []; }
 };
 
@@ -102,21 +127,43 @@ const promptForCollectionEdit = (bot: TelegramBot, query: TelegramBot.CallbackQu
         field: field,
     });
 
-    let promptText = `Please enter the new *${field}*.`;
-    if (field === 'movieIds') {
-        promptText = `Please enter the new movie IDs, separated by commas.`;
-    }
+    bot.sendMessage(chatId, collectionFieldPrompt(field), { parse_mode: 'Markdown' });
+};
+
+const collectionFieldPrompt = (field: string) =>
+    field === 'movieIds' ? `Please enter the new movie IDs, separated by commas.` : `Please enter the new *${field}*.`;
 
-    bot.sendMessage(chatId, promptText, { parse_mode: 'Markdown' });
+const CREATE_PROMPTS: { [command: string]: string } = {
+    collection_create_title: "Enter the title for the new collection:",
+    collection_create_desc: "Enter a short description for it:",
+    collection_create_movies: "Provide the movie IDs to include, separated by commas (e.g., jagun-jagun,anikalupo):",
 };
 
+registerConversation('collection_create', {
+    label: 'creating a collection',
+    resume: (bot, chatId, state) => {
+        const title = state.collectionData?.title ? ` "${state.collectionData.title}"` : '';
+        bot.sendMessage(chatId, `▶️ Creating collection${title}. ${CREATE_PROMPTS[state.command]}`);
+    }
+});
+
+registerConversation('collection_edit_value', {
+    label: 'editing a collection',
+    resume: (bot, chatId, state) => {
+        const title = readCollections().find(c => c.id === state.collectionId)?.title || state.collectionId;
+        bot.sendMessage(chatId, `▶️ Editing "${title}". ${collectionFieldPrompt(state.field)}`, { parse_mode: 'Markdown' });
+    }
+});
+
 
 // --- CALLBACK ROUTER ---
 export const handleCollectionCallback = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
     // This now handles both callback queries and text message responses via state.
     const isCallback = !!query.data;
     const msg = query.message!;
-    const userId = msg.from!.id;
+    // The message belongs to the bot on callbacks; the acting admin is on the query
+    const adminId = query.from?.id ?? msg.from!.id;
+    const userId = adminId;
     const state = getUserState(userId);
     const data = isCallback ? query.data : state?.command;
 
@@ -144,6 +191,7 @@ export const handleCollectionCallback = async (bot: TelegramBot, query: Telegram
             movieIds,
         };
         writeCollections([...collections, newCollection]);
+        recordAudit({ adminId, action: 'collection.create', entityType: 'collection', entityId: newCollection.id, before: null, after: newCollection });
         bot.sendMessage(msg.chat.id, `✅ Collection "${newCollection.title}" created successfully!`);
         clearUserState(userId);
     }
@@ -168,8 +216,10 @@ export const handleCollectionCallback = async (bot: TelegramBot, query: Telegram
         const collectionIndex = collections.findIndex(c => c.id === collectionId);
 
         if (collectionIndex > -1) {
+            const before = { ...collections[collectionIndex] };
             (collections[collectionIndex] as any)[field] = newValue;
             writeCollections(collections);
+            recordAudit({ adminId, action: `collection.edit.${field}`, entityType: 'collection', entityId: collectionId, before, after: collections[collectionIndex] });
             bot.sendMessage(msg.chat.id, `✅ Field *${field}* updated successfully!`, { parse_mode: 'Markdown' });
             clearUserState(userId);
             // After update, show the menu again with fresh data
@@ -198,9 +248,14 @@ export const handleCollectionCallback = async (bot: TelegramBot, query: Telegram
         }
     } else if (data && data.startsWith('collection_delete_exec_')) {
         const collectionId = data.replace('collection_delete_exec_', '');
-        const updatedCollections = readCollections().filter(c => c.id !== collectionId);
-        writeCollections(updatedCollections);
-        bot.answerCallbackQuery(query.id, { text: "Collection deleted!" });
+        const collections = readCollections();
+        const deleted = collections.find(c => c.id === collectionId);
+        if (deleted) {
+            moveToTrash('collection', collectionId, deleted.title, deleted, adminId!);
+            writeCollections(collections.filter(c => c.id !== collectionId));
+            recordAudit({ adminId, action: 'collection.delete', entityType: 'collection', entityId: collectionId, before: deleted, after: null, reversible: false });
+        }
+        bot.answerCallbackQuery(query.id, { text: "Collection moved to the trash!" });
         showCollectionsMenu(bot, msg.chat.id, 0);
     }
 
@@ -11,7 +11,9 @@ import {
     startManualAddFlow,
     startYouTubeAddFlow,
     handleEditMovieResponse,
-    handleYouTubeConfirmation
+    handleYouTubeConfirmation,
+    showSeriesMenu,
+    handleSeriesCallback
 } from './movieManager';
 import { showSiteSettingsMenu, handleSiteSettingsCallback, handleSiteUpdateResponse } from './siteManager';
 import { 
@@ -28,31 +30,49 @@ import {
     handleSetDefaultSource,
     showManageSources,
     handleRemoveSource,
-    handleClearQueue
+    handleClearQueue,
+    showChatSettings,
+    handleSetSlowMode
 } from './liveTvManager';
+import { handleScheduleCallback, handleScheduleResponse } from './liveTvScheduleManager';
 import { handleAiQuery, startAiChat, suggestNewMovies, endAiChat } from './aiHandler';
 import { getUserState } from './utils';
 import { UserState } from './types';
 import { showCollectionsMenu, handleCollectionCallback } from './collectionManager';
-import { startUserLookup, handleUserLookupResponse, handleSetUserRole } from './userManager';
+import { startUserLookup, handleUserLookupResponse, handleSetUserRole, handleUnlockUser, handleUserSessionsCallback } from './userManager';
 import { showAutomationMenu, handleAutomationCallback, handleAutomationUpdateResponse, showChannelsMenu } from './monitoringManager';
-import { startAddActorFlow, handleActorResponse } from './actorManager';
+import { startAddActorFlow, handleActorResponse, showActorsForDeletion, handleDeleteActorCallback } from './actorManager';
+import { handleBulkImportCallback, handleBulkImportResponse, showExportOptions, handleExportCatalogue } from './catalogueManager';
+import { showAuditMenu, handleAuditCallback } from './auditManager';
+import { showTrashMenu, handleTrashCallback } from './trashManager';
+import { handlePublishCallback } from './publishingManager';
+import { handleBotAdminCallback, handleBotAdminResponse, visibleButtons } from './adminManager';
+import { showResumePrompt, handleConversationCallback } from './conversationManager';
+import { showModerationMenu, handleModerationCallback } from './moderationManager';
+import { showRateLimitMenu, handleRateLimitCallback } from './rateLimitManager';
 
 // Main menu handler for the /start command
 export const handleStartCommand = (bot: TelegramBot, msg: TelegramBot.Message) => {
     const chatId = msg.chat.id;
+    // Admin chats are private, so the chat id stands in when there's no sender (e.g. "Back to Main Menu")
+    const adminId = msg.from?.id ?? chatId;
     bot.sendMessage(chatId, "Welcome to the Yoruba Cinemax Admin Bot!\n\nTo search for a movie, type my username in any chat followed by your query (e.g., `@YourBotName Anikulapo`).\n\n**New Features:**\n• User Role Management - Set users as Admin/Moderator\n• Users with special roles get badges in comments", {
         parse_mode: 'Markdown',
         reply_markup: {
-            inline_keyboard: [
+            inline_keyboard: visibleButtons(adminId, [
                 [{ text: "🎬 Manage Movies", callback_data: "manage_movies" }],
                 [{ text: "📚 Manage Collections", callback_data: "manage_collections" }, { text: "🎭 Manage Actors", callback_data: "manage_actors" }],
-                [{ text: "👤 Manage Users", callback_data: "manage_users" }, { text: "📺 Live TV Settings", callback_data: "manage_livetv" }],
+                [{ text: "👤 Manage Users", callback_data: "manage_users" }, { text: "🛡️ Moderation", callback_data: "moderation_menu" }],
+                [{ text: "📺 Live TV Settings", callback_data: "manage_livetv" }],
                 [{ text: "🤖 Automation", callback_data: "automation_menu" }, { text: "⚙️ Site Settings", callback_data: "site_settings" }],
                 [{ text: "🧠 AI Suggestions", callback_data: "ai_suggest" }, { text: "📊 AI Analytics Chat", callback_data: "ai_analytics" }],
-            ]
+                [{ text: "🗑️ Trash", callback_data: "trash_menu" }, { text: "📜 Audit Log", callback_data: "audit_menu" }],
+                [{ text: "🛡️ Bot Admins", callback_data: "bot_admins" }, { text: "🚦 Rate Limits", callback_data: "ratelimit_menu" }],
+            ])
         }
     });
+    // Only a real /start carries a sender; "Back to Main Menu" shouldn't nag about unfinished flows
+    if (msg.from) showResumePrompt(bot, chatId, msg.from.id);
 };
 
 // Router for all callback queries from inline keyboards
@@ -76,6 +96,13 @@ export const handleCallbackQuery = (bot: TelegramBot, query: TelegramBot.Callbac
         else if (data === 'delete_all_movies') showDeleteAllConfirmation(bot, chatId, messageId);
         else if (data === 'delete_all_movies_confirm') handleDeleteAllMovies(bot, chatId);
         else if (data.startsWith('youtube_movie_')) handleYouTubeConfirmation(bot, query);
+        else if (data.startsWith('publish_announce_')) handlePublishCallback(bot, query);
+        else if (data === 'series_menu') showSeriesMenu(bot, chatId, messageId);
+        else if (data.startsWith('series_')) handleSeriesCallback(bot, query);
+        else if (data.startsWith('bulk_import_')) handleBulkImportCallback(bot, query);
+        else if (data === 'export_catalogue') showExportOptions(bot, chatId);
+        else if (data === 'export_catalogue_csv') handleExportCatalogue(bot, chatId, 'csv');
+        else if (data === 'export_catalogue_json') handleExportCatalogue(bot, chatId, 'json');
 
         // Collection Management
         else if (data === 'manage_collections') showCollectionsMenu(bot, chatId, messageId);
@@ -85,6 +112,8 @@ export const handleCallbackQuery = (bot: TelegramBot, query: TelegramBot.Callbac
         // Actor Management
         else if (data === 'manage_actors') showActorMenu(bot, chatId, messageId);
         else if (data === 'add_actor') startAddActorFlow(bot, chatId);
+        else if (data === 'actor_delete_select') showActorsForDeletion(bot, chatId);
+        else if (data.startsWith('actor_delete_')) handleDeleteActorCallback(bot, query);
 
         // Live TV Management
         else if (data === 'manage_livetv') showLiveTvMenu(bot, chatId, messageId);
@@ -100,6 +129,9 @@ export const handleCallbackQuery = (bot: TelegramBot, query: TelegramBot.Callbac
         else if (data === 'livetv_manage_sources') showManageSources(bot, chatId, messageId);
         else if (data.startsWith('livetv_remove_')) handleRemoveSource(bot, query);
         else if (data === 'livetv_clear_queue') handleClearQueue(bot, chatId, messageId);
+        else if (data === 'livetv_schedule' || data.startsWith('livetv_sch_')) handleScheduleCallback(bot, query);
+        else if (data === 'livetv_chat') showChatSettings(bot, chatId, messageId);
+        else if (data.startsWith('livetv_chat_slow_')) handleSetSlowMode(bot, query);
 
         // Site Settings
         else if (data === 'site_settings') showSiteSettingsMenu(bot, chatId, messageId);
@@ -109,12 +141,33 @@ export const handleCallbackQuery = (bot: TelegramBot, query: TelegramBot.Callbac
         else if (data === 'manage_users') showUserMenu(bot, chatId, messageId);
         else if (data === 'user_lookup') startUserLookup(bot, chatId);
         else if (data.startsWith('set_role_')) handleSetUserRole(bot, query);
+        else if (data.startsWith('user_unlock_')) handleUnlockUser(bot, query);
+        else if (data.startsWith('user_sessions_') || data.startsWith('user_kill')) handleUserSessionsCallback(bot, query);
+
+        // Comment Moderation
+        else if (data === 'moderation_menu') showModerationMenu(bot, chatId);
+        else if (data.startsWith('moderation_')) handleModerationCallback(bot, query);
 
         // Automation
         else if (data === 'automation_menu') showAutomationMenu(bot, chatId, messageId);
         else if (data === 'automation_channels_menu') showChannelsMenu(bot, chatId, messageId);
         else if (data.startsWith('automation_')) handleAutomationCallback(bot, query, refreshAutomation);
 
+        // Trash
+        else if (data === 'trash_menu') showTrashMenu(bot, chatId);
+        else if (data.startsWith('trash_')) handleTrashCallback(bot, query);
+
+        // Audit Log
+        else if (data === 'audit_menu') showAuditMenu(bot, chatId);
+        else if (data.startsWith('audit_')) handleAuditCallback(bot, query);
+
+        // Bot Admins
+        else if (data === 'bot_admins' || data.startsWith('bot_admin_')) handleBotAdminCallback(bot, query);
+
+        // Rate Limits
+        else if (data === 'ratelimit_menu') showRateLimitMenu(bot, chatId);
+        else if (data.startsWith('ratelimit_')) handleRateLimitCallback(bot, query);
+
         // AI Features
         else if (data === 'ai_analytics') startAiChat(bot, chatId);
         else if (data === 'ai_suggest') suggestNewMovies(bot, chatId);
@@ -122,6 +175,7 @@ export const handleCallbackQuery = (bot: TelegramBot, query: TelegramBot.Callbac
 
 
         // Navigation
+        else if (data.startsWith('conversation_')) handleConversationCallback(bot, query);
         else if (data === 'main_menu') handleStartCommand(bot, { chat: { id: chatId } } as TelegramBot.Message);
     }
 
@@ -141,12 +195,15 @@ export const handleMessage = async (bot: TelegramBot, msg: TelegramBot.Message)
     const { command } = userState;
     if (command.startsWith('add_movie_manual') || command.startsWith('add_movie_youtube')) await handleAddMovieResponse(bot, msg);
     else if (command === 'editing_movie_value') await handleEditMovieResponse(bot, msg);
+    else if (command.startsWith('bulk_import_')) await handleBulkImportResponse(bot, msg);
     else if (command.startsWith('collection_')) await handleCollectionCallback(bot, { message: msg } as TelegramBot.CallbackQuery);
     else if (command.startsWith('actor_')) await handleActorResponse(bot, msg);
     else if (command.startsWith('sitesettings_')) await handleSiteUpdateResponse(bot, msg);
     else if (command === 'user_lookup_email') await handleUserLookupResponse(bot, msg);
+    else if (command === 'bot_admin_add_id') await handleBotAdminResponse(bot, msg);
     else if (command.startsWith('automation_')) await handleAutomationUpdateResponse(bot, msg);
     else if (command === 'livetv_add_hls') await handleAddHLSResponse(bot, msg);
+    else if (command.startsWith('livetv_sch_')) await handleScheduleResponse(bot, msg);
     else if (command === 'ai_chat') await handleAiQuery(bot, msg);
 };
 
@@ -156,13 +213,15 @@ export const handleMessage = async (bot: TelegramBot, msg: TelegramBot.Message)
 const showMovieMenu = (bot: TelegramBot, chatId: number, messageId: number) => {
     const menuContent = "🎬 Movie Management\n\nUse inline search (`@botname query`) to find movies quickly.";
     const keyboard = {
-        inline_keyboard: [
+        inline_keyboard: visibleButtons(chatId, [
             [{ text: "➕ Add New Movie", callback_data: "add_movie" }],
             [{ text: "✏️ Edit Movie", callback_data: "edit_movie_select" }],
             [{ text: "🗑️ Delete Movie", callback_data: "delete_movie_select" }],
+            [{ text: "📚 Series Parts", callback_data: "series_menu" }],
+            [{ text: "📥 Bulk Import", callback_data: "bulk_import_start" }, { text: "📤 Export Catalogue", callback_data: "export_catalogue" }],
             [{ text: "🗑️ Delete All Movies", callback_data: "delete_all_movies" }],
             [{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]
-        ]
+        ])
     };
 
     // Always send a new message instead of trying to edit
@@ -174,6 +233,7 @@ const showActorMenu = (bot: TelegramBot, chatId: number, messageId: number) => {
         reply_markup: {
             inline_keyboard: [
                 [{ text: "➕ Add/Update Actor Profile", callback_data: "add_actor" }],
+                [{ text: "🗑️ Delete Actor Profile", callback_data: "actor_delete_select" }],
                 [{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]
             ]
         }
@@ -0,0 +1,111 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { UserState } from './types';
+import { getUserState, getStoredUserState, getAllStoredUserStates, clearUserState, isUserStateExpired } from './utils';
+
+/**
+ * How to pick a multi-step flow back up after a restart, and what to throw away when it is
+ * abandoned. Managers register one per command prefix they put into the user state.
+ */
+interface ConversationHandler {
+    label: string;
+    /** Re-send whatever the admin was last asked for */
+    resume?: (bot: TelegramBot, chatId: number, state: UserState) => void | Promise<void>;
+    /** Release anything the flow created along the way, e.g. an uploaded poster */
+    cleanup?: (state: UserState) => Promise<void>;
+}
+
+const conversationHandlers: { prefix: string; handler: ConversationHandler }[] = [];
+
+export const registerConversation = (prefix: string, handler: ConversationHandler) => {
+    conversationHandlers.push({ prefix, handler });
+    // Longest prefix first so 'add_movie_youtube' wins over 'add_movie'
+    conversationHandlers.sort((a, b) => b.prefix.length - a.prefix.length);
+};
+
+const findHandler = (command: string) =>
+    conversationHandlers.find(entry => command.startsWith(entry.prefix))?.handler;
+
+const describe = (state: UserState) => findHandler(state.command)?.label || state.command.replace(/_/g, ' ');
+
+const runCleanup = async (state: UserState) => {
+    try {
+        await findHandler(state.command)?.cleanup?.(state);
+    } catch (error) {
+        console.error(`Could not clean up abandoned "${state.command}" flow:`, error);
+    }
+};
+
+/**
+ * Offered on /start when the admin still has an unfinished flow
+ */
+export const showResumePrompt = (bot: TelegramBot, chatId: number, userId: number) => {
+    const state = getUserState(userId);
+    if (!state) return;
+
+    bot.sendMessage(chatId, `⏸️ You were in the middle of ${describe(state)}.\n\nPick up where you left off?`, {
+        reply_markup: {
+            inline_keyboard: [[
+                { text: "▶️ Resume", callback_data: "conversation_resume" },
+                { text: "✖️ Discard", callback_data: "conversation_cancel" }
+            ]]
+        }
+    });
+};
+
+/**
+ * Abort whatever flow the admin is in (/cancel). Expired flows are cleaned up too.
+ */
+export const cancelConversation = async (bot: TelegramBot, chatId: number, userId: number) => {
+    const stored = getStoredUserState(userId);
+    if (!stored) {
+        bot.sendMessage(chatId, "There is nothing to cancel.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]] }
+        });
+        return;
+    }
+
+    await runCleanup(stored.state);
+    clearUserState(userId);
+    bot.sendMessage(chatId, `✖️ Cancelled ${describe(stored.state)}.`, {
+        reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]] }
+    });
+};
+
+export const handleConversationCallback = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const userId = query.from.id;
+
+    bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: query.message.message_id });
+
+    if (query.data === 'conversation_cancel') {
+        await cancelConversation(bot, chatId, userId);
+        return;
+    }
+
+    const state = getUserState(userId);
+    if (!state) {
+        bot.sendMessage(chatId, "That flow has expired. Start it again from the menu.");
+        return;
+    }
+
+    const resume = findHandler(state.command)?.resume;
+    if (resume) {
+        await resume(bot, chatId, state);
+    } else {
+        bot.sendMessage(chatId, `▶️ Resuming ${describe(state)}. Send your reply to continue, or /cancel to stop.`);
+    }
+};
+
+/**
+ * Drop flows that have sat unused past the TTL, cleaning up after them. Run on a timer from bot/run.ts.
+ */
+export const purgeExpiredConversations = async (): Promise<number> => {
+    const expired = getAllStoredUserStates().filter(([, stored]) => isUserStateExpired(stored));
+    for (const [userId, stored] of expired) {
+        await runCleanup(stored.state);
+        clearUserState(userId);
+    }
+    if (expired.length > 0) console.log(`⏸️ Discarded ${expired.length} abandoned conversation(s).`);
+    return expired.length;
+};
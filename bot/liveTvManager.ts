@@ -2,6 +2,8 @@ import TelegramBot from 'node-telegram-bot-api';
 import * as fs from 'fs';
 import * as path from 'path';
 import { setUserState, getUserState, clearUserState } from './utils';
+import { moviesRepository } from '../server/storage';
+import { notifyAdmins } from './adminManager';
 import { 
     readLiveTvData, 
     writeLiveTvData, 
@@ -15,8 +17,9 @@ import {
     LiveTvSource,
     LiveTvData
 } from '../services/liveTvService';
-
-const MOVIES_PATH = path.join(process.cwd(), 'data', 'movies.json');
+import { liveTvChannel } from '../services/liveTvChannel';
+import { getRecentAudiences, getViewerStats } from '../server/liveTvViewers';
+import { SLOW_MODE_OPTIONS, getChatMessages, getSlowModeSeconds, setSlowModeSeconds } from '../server/liveTvChat';
 
 interface Movie {
     id: string;
@@ -27,11 +30,16 @@ interface Movie {
     duration?: number;
 }
 
+// Catalogue movies as the Live TV menus need them; a movie's YouTube link is its download link
 const readMovies = (): Movie[] => {
     try {
-        if (!fs.existsSync(MOVIES_PATH)) return [];
-        const data = fs.readFileSync(MOVIES_PATH, 'utf-8');
-        return JSON.parse(data);
+        return moviesRepository.all().map(movie => ({
+            id: movie.id,
+            title: movie.title,
+            description: movie.description,
+            poster: movie.poster,
+            url: movie.downloadLink
+        }));
     } catch (error) {
         console.error('Error reading movies:', error);
         return [];
@@ -62,6 +70,18 @@ export const showLiveTvMenu = (bot: TelegramBot, chatId: number, messageId?: num
         ? `🔴 *LIVE*\n*Now Playing:* ${currentStream?.title || 'Unknown'}\n*Type:* ${currentStream?.type?.toUpperCase() || 'N/A'}\n*Queue:* ${data.queue.length} source(s)`
         : `⚫ *OFFLINE*\n*Queue:* ${data.queue.length} source(s)\n*Sources:* ${data.sources.length} total`;
 
+    const channel = liveTvChannel.getStatus();
+    const channelText = !channel.running ? ''
+        : channel.playing === 'source' ? `\n*Channel:* 🟢 restreaming ${channel.title || 'source'}`
+        : `\n*Channel:* 🟡 showing slate${channel.lastError ? ` (last error: ${channel.lastError.substring(0, 80)})` : ''}`;
+
+    // Counted from the heartbeats of open Live TV pages
+    const viewers = getViewerStats(data);
+    const lastAudience = getRecentAudiences()[0];
+    const viewersText = viewers
+        ? `\n*Viewers:* 👥 ${viewers.current} watching now · peak ${viewers.peak}`
+        : lastAudience ? `\n*Last broadcast:* peak ${lastAudience.peak} viewer(s)` : '';
+
     const keyboard = [
         [
             { text: data.isLive ? "⏹️ Stop Broadcast" : "▶️ Go Live", callback_data: data.isLive ? "livetv_stop" : "livetv_golive" }
@@ -74,6 +94,10 @@ export const showLiveTvMenu = (bot: TelegramBot, chatId: number, messageId?: num
             { text: "⏭️ Skip to Next", callback_data: "livetv_skip" },
             { text: "📋 View Queue", callback_data: "livetv_view_queue" }
         ],
+        [
+            { text: "📅 Schedule", callback_data: "livetv_schedule" },
+            { text: "💬 Chat", callback_data: "livetv_chat" }
+        ],
         [
             { text: "🌟 Set Default Source", callback_data: "livetv_set_default" },
             { text: "🗑️ Manage Sources", callback_data: "livetv_manage_sources" }
@@ -84,7 +108,7 @@ export const showLiveTvMenu = (bot: TelegramBot, chatId: number, messageId?: num
         ]
     ];
 
-    const messageText = `📺 *Live TV Control Panel*\n\n${statusText}`;
+    const messageText = `📺 *Live TV Control Panel*\n\n${statusText}${viewersText}${channelText}`;
 
     if (messageId) {
         bot.editMessageText(messageText, {
@@ -106,6 +130,7 @@ export const handleGoLive = (bot: TelegramBot, chatId: number, messageId: number
     const stream = goLive();
     
     if (stream) {
+        notifyAdmins(bot, 'broadcast', `🔴 Live TV is now on air: ${stream.title}`, {}, chatId);
         bot.editMessageText(
             `🔴 *LIVE!*\n\n*Now Playing:* ${stream.title}\n*Type:* ${stream.type.toUpperCase()}\n*URL:* ${stream.url.substring(0, 50)}...`,
             {
@@ -140,6 +165,7 @@ export const handleStopBroadcast = (bot: TelegramBot, chatId: number, messageId:
     const success = stopBroadcast();
     
     if (success) {
+        notifyAdmins(bot, 'broadcast', "⏹️ Live TV broadcast was stopped.", {}, chatId);
         bot.editMessageText(
             "⏹️ *Broadcast Stopped*\n\nLive TV is now offline.",
             {
@@ -159,6 +185,7 @@ export const handleSkipToNext = (bot: TelegramBot, chatId: number, messageId: nu
     const nextStream = skipToNext();
     
     if (nextStream) {
+        notifyAdmins(bot, 'broadcast', `⏭️ Live TV skipped to: ${nextStream.title}`, {}, chatId);
         bot.editMessageText(
             `⏭️ *Skipped to Next!*\n\n*Now Playing:* ${nextStream.title}\n*Type:* ${nextStream.type.toUpperCase()}`,
             {
@@ -503,3 +530,40 @@ export const handleClearQueue = (bot: TelegramBot, chatId: number, messageId: nu
         );
     }
 };
+
+// --- CHAT ---
+export const showChatSettings = (bot: TelegramBot, chatId: number, messageId: number) => {
+    const slowMode = getSlowModeSeconds();
+    // Chat text is user input, so this screen is sent without Markdown
+    const recent = getChatMessages(undefined, 5)
+        .map(message => `• ${message.name}: ${message.text.length > 80 ? `${message.text.substring(0, 79)}…` : message.text}`)
+        .join('\n');
+
+    const keyboard = [
+        SLOW_MODE_OPTIONS.map(seconds => ({
+            text: `${seconds === slowMode ? '✅ ' : ''}${seconds === 0 ? 'Off' : `${seconds}s`}`,
+            callback_data: `livetv_chat_slow_${seconds}`
+        })),
+        [{ text: "⬅️ Back to Menu", callback_data: "manage_livetv" }]
+    ];
+
+    bot.editMessageText(
+        `💬 Live Chat\n\n🐢 Slow mode: ${slowMode === 0 ? 'off' : `one message every ${slowMode}s per viewer`}\n` +
+        `Staff are never slowed down. Held messages are sent to moderators.\n\n` +
+        (recent ? `Latest messages:\n${recent}` : 'Nobody has said anything yet.'),
+        {
+            chat_id: chatId,
+            message_id: messageId,
+            reply_markup: { inline_keyboard: keyboard }
+        }
+    );
+};
+
+export const handleSetSlowMode = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    const seconds = parseInt(query.data?.replace('livetv_chat_slow_', '') || '', 10);
+    if (!SLOW_MODE_OPTIONS.includes(seconds)) return;
+
+    setSlowModeSeconds(seconds);
+    bot.answerCallbackQuery(query.id, { text: seconds === 0 ? '🐢 Slow mode off' : `🐢 Slow mode: ${seconds}s` });
+    showChatSettings(bot, query.message!.chat.id, query.message!.message_id);
+};
@@ -0,0 +1,272 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { setUserState, getUserState, clearUserState } from './utils';
+import { notifyAdmins } from './adminManager';
+import { registerConversation } from './conversationManager';
+import { readLiveTvData } from '../services/liveTvService';
+import {
+    DAY_NAMES,
+    SCHEDULE_UTC_OFFSET,
+    getScheduledSlots,
+    scheduleSource,
+    addRecurringBlock,
+    removeScheduledSlot,
+    removeRecurringBlock,
+    parseScheduleTime,
+    formatScheduleTime,
+    onPlayoutChange
+} from '../services/liveTvSchedule';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const backButton = [{ text: "⬅️ Back to Schedule", callback_data: "livetv_schedule" }];
+
+registerConversation('livetv_sch_', {
+    label: 'scheduling Live TV',
+    resume: (bot, chatId, state) => {
+        if (state.command === 'livetv_sch_time') {
+            bot.sendMessage(chatId, `▶️ Send the start time for "${state.sourceTitle}" as \`YYYY-MM-DD HH:MM\` (UTC${SCHEDULE_UTC_OFFSET}).`, { parse_mode: 'Markdown' });
+        } else if (state.command === 'livetv_sch_block_details') {
+            bot.sendMessage(chatId, "▶️ Send the weekly show as `Title | Day | HH:MM`, e.g. `Nollywood Night | Friday | 20:00`.", { parse_mode: 'Markdown' });
+        } else {
+            showBlockSourcePicker(bot, chatId);
+        }
+    }
+});
+
+const sendOrEdit = (bot: TelegramBot, chatId: number, messageId: number | undefined, text: string, keyboard: TelegramBot.InlineKeyboardButton[][]) => {
+    const options = { parse_mode: 'Markdown' as const, reply_markup: { inline_keyboard: keyboard } };
+    if (messageId) {
+        bot.editMessageText(text, { chat_id: chatId, message_id: messageId, ...options });
+    } else {
+        bot.sendMessage(chatId, text, options);
+    }
+};
+
+// --- SCHEDULE MENU ---
+export const showScheduleMenu = (bot: TelegramBot, chatId: number, messageId?: number) => {
+    const data = readLiveTvData();
+    const titleOf = (sourceId: string) => data.sources.find(s => s.id === sourceId)?.title || 'Unknown';
+    const now = Date.now();
+
+    const upcoming = getScheduledSlots(data, now, now + WEEK_MS).slice(0, 10);
+    const upcomingText = upcoming.length > 0
+        ? upcoming.map(slot => `• ${formatScheduleTime(slot.startsAt)} — ${titleOf(slot.sourceId)}${slot.blockTitle ? ` _(${slot.blockTitle})_` : ''}`).join('\n')
+        : '_Nothing booked this week._';
+    const blocks = data.blocks || [];
+    const blocksText = blocks.length > 0
+        ? blocks.map(block => `• *${block.title}* — ${DAY_NAMES[block.dayOfWeek]}s at ${block.startTime} (${block.sourceIds.length} source(s))`).join('\n')
+        : '_No weekly shows._';
+
+    sendOrEdit(bot, chatId, messageId,
+        `📅 *Live TV Schedule*\n\nTimes are UTC${SCHEDULE_UTC_OFFSET}. Booked slots interrupt the queue, which resumes afterwards.\n\n` +
+        `*Next 7 days:*\n${upcomingText}\n\n*Weekly shows:*\n${blocksText}`,
+        [
+            [{ text: "➕ Book a Slot", callback_data: "livetv_sch_add" }, { text: "🔁 Add Weekly Show", callback_data: "livetv_sch_block" }],
+            [{ text: "🗑️ Remove…", callback_data: "livetv_sch_remove" }],
+            [{ text: "⬅️ Back to Menu", callback_data: "manage_livetv" }]
+        ]
+    );
+};
+
+// --- BOOK A ONE-OFF SLOT ---
+const startBookSlot = (bot: TelegramBot, chatId: number, messageId: number) => {
+    const data = readLiveTvData();
+    if (data.sources.length === 0) {
+        sendOrEdit(bot, chatId, messageId, "❌ No sources available!\n\nAdd sources first.", [backButton]);
+        return;
+    }
+    const keyboard = data.sources.map(s => ([{ text: s.title, callback_data: `livetv_sch_pick_${s.id}` }]));
+    keyboard.push(backButton);
+    sendOrEdit(bot, chatId, messageId, "➕ *Book a Slot*\n\nWhich source should play?", keyboard);
+};
+
+const handlePickSource = (bot: TelegramBot, chatId: number, sourceId: string) => {
+    const source = readLiveTvData().sources.find(s => s.id === sourceId);
+    if (!source) {
+        bot.sendMessage(chatId, "❌ That source no longer exists.");
+        return;
+    }
+    setUserState(chatId, { command: 'livetv_sch_time', sourceId, sourceTitle: source.title });
+    bot.sendMessage(chatId,
+        `🕗 When should *${source.title}* start?\n\n` +
+        `Send \`YYYY-MM-DD HH:MM\` in UTC${SCHEDULE_UTC_OFFSET}, e.g. \`2025-12-24 20:00\`.`,
+        { parse_mode: 'Markdown' }
+    );
+};
+
+// --- WEEKLY SHOWS ---
+const startAddBlock = (bot: TelegramBot, chatId: number) => {
+    if (readLiveTvData().sources.length === 0) {
+        bot.sendMessage(chatId, "❌ No sources available!\n\nAdd sources first.");
+        return;
+    }
+    setUserState(chatId, { command: 'livetv_sch_block_details' });
+    bot.sendMessage(chatId,
+        "🔁 *Add Weekly Show*\n\n" +
+        "Send the details in this format:\n\n" +
+        "`Title | Day | HH:MM`\n\n" +
+        "Example:\n" +
+        `\`Nollywood Night | Friday | 20:00\` (UTC${SCHEDULE_UTC_OFFSET})`,
+        { parse_mode: 'Markdown' }
+    );
+};
+
+const showBlockSourcePicker = (bot: TelegramBot, chatId: number, messageId?: number) => {
+    const state = getUserState(chatId);
+    const draft = state?.blockDraft;
+    if (!draft) return;
+    const data = readLiveTvData();
+    const titleOf = (sourceId: string) => data.sources.find(s => s.id === sourceId)?.title || 'Unknown';
+
+    const picked = draft.sourceIds.length > 0
+        ? draft.sourceIds.map((id: string, i: number) => `${i + 1}. ${titleOf(id)}`).join('\n')
+        : '_None yet._';
+    const keyboard = data.sources
+        .filter(s => !draft.sourceIds.includes(s.id))
+        .map(s => ([{ text: `➕ ${s.title}`, callback_data: `livetv_sch_bpick_${s.id}` }]));
+    if (draft.sourceIds.length > 0) keyboard.push([{ text: "✅ Save Weekly Show", callback_data: "livetv_sch_bsave" }]);
+    keyboard.push([{ text: "✖️ Cancel", callback_data: "livetv_sch_bcancel" }]);
+
+    sendOrEdit(bot, chatId, messageId,
+        `🔁 *${draft.title}* — ${DAY_NAMES[draft.dayOfWeek]}s at ${draft.startTime}\n\n` +
+        `Tap sources in the order they should play:\n${picked}`,
+        keyboard
+    );
+};
+
+const handleBlockPick = (bot: TelegramBot, chatId: number, messageId: number, sourceId: string) => {
+    const state = getUserState(chatId);
+    if (state?.command !== 'livetv_sch_block_sources') return;
+    if (!state.blockDraft.sourceIds.includes(sourceId)) state.blockDraft.sourceIds.push(sourceId);
+    setUserState(chatId, state);
+    showBlockSourcePicker(bot, chatId, messageId);
+};
+
+const handleBlockSave = (bot: TelegramBot, chatId: number, messageId: number) => {
+    const state = getUserState(chatId);
+    if (state?.command !== 'livetv_sch_block_sources') return;
+    const result = addRecurringBlock({ ...state.blockDraft, addedBy: String(chatId) });
+    if ('error' in result) {
+        sendOrEdit(bot, chatId, messageId, `❌ ${result.error}`, [[{ text: "⬅️ Back to Sources", callback_data: "livetv_sch_bpick_" }]]);
+        return;
+    }
+    clearUserState(chatId);
+    const { block } = result;
+    notifyAdmins(bot, 'broadcast', `🔁 New weekly Live TV show: ${block.title}, ${DAY_NAMES[block.dayOfWeek]}s at ${block.startTime}`, {}, chatId);
+    sendOrEdit(bot, chatId, messageId,
+        `✅ *Weekly Show Saved*\n\n*${block.title}* plays every ${DAY_NAMES[block.dayOfWeek]} at ${block.startTime} (UTC${SCHEDULE_UTC_OFFSET}).`,
+        [backButton]
+    );
+};
+
+const parseDay = (text: string) => {
+    const input = text.trim().toLowerCase();
+    if (input.length < 3) return -1;
+    return DAY_NAMES.findIndex(day => day.toLowerCase().startsWith(input));
+};
+
+// --- REMOVE ---
+const showRemoveMenu = (bot: TelegramBot, chatId: number, messageId: number) => {
+    const data = readLiveTvData();
+    const titleOf = (sourceId: string) => data.sources.find(s => s.id === sourceId)?.title || 'Unknown';
+    const now = Date.now();
+
+    const keyboard = [
+        ...(data.schedule || [])
+            .filter(slot => Date.parse(slot.startsAt) + slot.duration * 1000 > now)
+            .map(slot => ([{ text: `🗑️ ${formatScheduleTime(Date.parse(slot.startsAt))} ${titleOf(slot.sourceId)}`, callback_data: `livetv_sch_del_${slot.id}` }])),
+        ...(data.blocks || [])
+            .map(block => ([{ text: `🗑️ ${block.title} (${DAY_NAMES[block.dayOfWeek].slice(0, 3)} ${block.startTime})`, callback_data: `livetv_sch_bdel_${block.id}` }]))
+    ];
+    if (keyboard.length === 0) {
+        sendOrEdit(bot, chatId, messageId, "📅 Nothing is scheduled.", [backButton]);
+        return;
+    }
+    keyboard.push(backButton);
+    sendOrEdit(bot, chatId, messageId, "🗑️ *Remove from Schedule*\n\nSelect a slot or weekly show to remove:", keyboard);
+};
+
+export const handleScheduleCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    const chatId = query.message!.chat.id;
+    const messageId = query.message!.message_id;
+    const data = query.data!;
+
+    if (data === 'livetv_schedule') showScheduleMenu(bot, chatId, messageId);
+    else if (data === 'livetv_sch_add') startBookSlot(bot, chatId, messageId);
+    else if (data.startsWith('livetv_sch_pick_')) handlePickSource(bot, chatId, data.replace('livetv_sch_pick_', ''));
+    else if (data === 'livetv_sch_block') startAddBlock(bot, chatId);
+    else if (data === 'livetv_sch_bpick_') showBlockSourcePicker(bot, chatId, messageId);
+    else if (data.startsWith('livetv_sch_bpick_')) handleBlockPick(bot, chatId, messageId, data.replace('livetv_sch_bpick_', ''));
+    else if (data === 'livetv_sch_bsave') handleBlockSave(bot, chatId, messageId);
+    else if (data === 'livetv_sch_bcancel') {
+        clearUserState(chatId);
+        showScheduleMenu(bot, chatId, messageId);
+    }
+    else if (data === 'livetv_sch_remove') showRemoveMenu(bot, chatId, messageId);
+    else if (data.startsWith('livetv_sch_del_')) {
+        const removed = removeScheduledSlot(data.replace('livetv_sch_del_', ''));
+        bot.answerCallbackQuery(query.id, { text: removed ? "🗑️ Slot removed" : "Slot not found!" });
+        showRemoveMenu(bot, chatId, messageId);
+    }
+    else if (data.startsWith('livetv_sch_bdel_')) {
+        const removed = removeRecurringBlock(data.replace('livetv_sch_bdel_', ''));
+        bot.answerCallbackQuery(query.id, { text: removed ? "🗑️ Weekly show removed" : "Weekly show not found!" });
+        showRemoveMenu(bot, chatId, messageId);
+    }
+};
+
+// --- TEXT RESPONSES ---
+export const handleScheduleResponse = async (bot: TelegramBot, msg: TelegramBot.Message) => {
+    const chatId = msg.chat.id;
+    const text = msg.text;
+    const state = getUserState(chatId);
+    if (!text || !state) return;
+
+    if (state.command === 'livetv_sch_time') {
+        const startsAt = parseScheduleTime(text);
+        if (startsAt === null) {
+            bot.sendMessage(chatId, "❌ Invalid time! Please use `YYYY-MM-DD HH:MM`, e.g. `2025-12-24 20:00`.", { parse_mode: 'Markdown' });
+            return;
+        }
+        const result = await scheduleSource(state.sourceId, startsAt, String(chatId));
+        if ('error' in result) {
+            bot.sendMessage(chatId, `❌ ${result.error}\n\nSend another time, or /cancel to stop.`);
+            return;
+        }
+        clearUserState(chatId);
+        const { slot } = result;
+        const endsAt = startsAt + slot.duration * 1000;
+        notifyAdmins(bot, 'broadcast', `📅 ${state.sourceTitle} is booked on Live TV for ${formatScheduleTime(startsAt)}`, {}, chatId);
+        bot.sendMessage(chatId,
+            `✅ *Slot Booked*\n\n*${state.sourceTitle}*\n${formatScheduleTime(startsAt)} – ${formatScheduleTime(endsAt).slice(-5)} (UTC${SCHEDULE_UTC_OFFSET})`,
+            { parse_mode: 'Markdown', reply_markup: { inline_keyboard: [backButton] } }
+        );
+    } else if (state.command === 'livetv_sch_block_details') {
+        const parts = text.split('|').map(p => p.trim());
+        const dayOfWeek = parts.length === 3 ? parseDay(parts[1]) : -1;
+        const time = parts[2]?.match(/^(\d{1,2}):(\d{2})$/);
+        if (!parts[0] || dayOfWeek < 0 || !time || parseInt(time[1], 10) > 23 || parseInt(time[2], 10) > 59) {
+            bot.sendMessage(chatId, "❌ Invalid format! Please use: `Title | Day | HH:MM`", { parse_mode: 'Markdown' });
+            return;
+        }
+        setUserState(chatId, {
+            command: 'livetv_sch_block_sources',
+            blockDraft: { title: parts[0], dayOfWeek, startTime: `${time[1].padStart(2, '0')}:${time[2]}`, sourceIds: [] }
+        });
+        showBlockSourcePicker(bot, chatId);
+    }
+};
+
+/**
+ * Tell admins when the scheduler changes what's on air by itself
+ */
+export const startPlayoutAlerts = (bot: TelegramBot): (() => void) =>
+    onPlayoutChange(({ reason, source, slot }) => {
+        if (reason === 'scheduled' && source) {
+            notifyAdmins(bot, 'broadcast', `📅 Scheduled on Live TV now: ${source.title}${slot?.blockTitle ? ` (${slot.blockTitle})` : ''}`);
+        } else if (reason === 'advanced' && source) {
+            notifyAdmins(bot, 'broadcast', `⏭️ Live TV moved on to: ${source.title}`);
+        } else if (reason === 'ended') {
+            notifyAdmins(bot, 'broadcast', "⏹️ Live TV went off air: nothing left to play.");
+        }
+    });
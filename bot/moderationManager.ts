@@ -0,0 +1,311 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { moviesRepository, usersRepository } from '../server/storage';
+import {
+    ModeratedComment, MUTE_HOURS, deleteCommentThread, findComment, getModerationQueue, getMutedUntil,
+    getRestrictedUsers, getUserModeration, onCommentFlagged, restoreCommentModeration, reviewComment, setUserModeration
+} from '../server/moderation';
+import { ChatMessage, approveChatMessage, deleteChatMessage, findChatMessage, onChatMessageFlagged } from '../server/liveTvChat';
+import { recordAudit, registerAuditEntity } from './auditManager';
+import { notifyAdmins } from './adminManager';
+
+const QUEUE_PAGE_SIZE = 10;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Only the moderation fields are snapshotted; the text itself is never changed from the bot
+registerAuditEntity('comment', {
+    label: 'Comment',
+    read: (commentId) => {
+        const found = findComment(commentId);
+        if (!found) return null;
+        const { status, reviewedBy, reviewedAt } = found.comment;
+        return { status, reviewedBy, reviewedAt };
+    },
+    write: (commentId, snapshot) => {
+        if (!snapshot) throw new Error('Deleted comments cannot be restored.');
+        restoreCommentModeration(commentId, snapshot);
+    }
+});
+
+registerAuditEntity('userModeration', {
+    label: 'User restrictions',
+    read: (userId) => {
+        const user = usersRepository.get(userId);
+        return user ? { ...getUserModeration(user) } : null;
+    },
+    write: (userId, snapshot) => {
+        if (!setUserModeration(userId, snapshot || {})) throw new Error('User no longer exists.');
+    }
+});
+
+const STATUS_LABELS: Record<string, string> = {
+    flagged: '🚩 Reported',
+    held: '⏸️ Held for review',
+    hidden: '🙈 Hidden',
+    shadow: '👻 Shadow-banned author',
+};
+
+const snippet = (text: string, length: number) => {
+    const plain = text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/\s+/g, ' ').trim();
+    return plain.length > length ? `${plain.slice(0, length - 1)}…` : plain;
+};
+
+const describeComment = (movieId: string, comment: ModeratedComment) => {
+    const author = usersRepository.get(comment.userId);
+    const movieTitle = moviesRepository.get(movieId)?.title || movieId;
+    const reasons = [
+        ...(comment.flags || []),
+        ...(comment.reports || []).map(report => `report:${report.reason}`),
+    ];
+    const restrictions = author ? [
+        getMutedUntil(author) ? `🔇 muted until ${getMutedUntil(author)!.toISOString().slice(0, 16).replace('T', ' ')} UTC` : '',
+        getUserModeration(author).shadowBanned ? '👻 shadow-banned' : '',
+    ].filter(Boolean) : [];
+
+    return `${STATUS_LABELS[comment.status || ''] || '✅ Published'}\n\n` +
+        `🎬 ${movieTitle}\n` +
+        `👤 ${author ? `${author.name} (${author.email})` : 'Deleted user'}${restrictions.length ? ` · ${restrictions.join(', ')}` : ''}\n` +
+        `🕒 ${comment.date.slice(0, 16).replace('T', ' ')} UTC\n` +
+        (reasons.length ? `⚠️ ${reasons.join(', ')}\n` : '') +
+        `\n"${snippet(comment.comment, 600)}"`;
+};
+
+const commentKeyboard = (comment: ModeratedComment): TelegramBot.InlineKeyboardButton[][] => {
+    const author = usersRepository.get(comment.userId);
+    const rows: TelegramBot.InlineKeyboardButton[][] = [[
+        { text: "✅ Approve", callback_data: `moderation_approve_${comment.id}` },
+        { text: "🙈 Hide", callback_data: `moderation_hide_${comment.id}` },
+        { text: "🗑️ Delete", callback_data: `moderation_delete_${comment.id}` },
+    ]];
+    if (author) {
+        rows.push([
+            { text: getMutedUntil(author) ? "🔊 Unmute Author" : `🔇 Mute ${MUTE_HOURS}h`, callback_data: `moderation_mute_${comment.id}` },
+            { text: getUserModeration(author).shadowBanned ? "👤 Lift Shadow-ban" : "👻 Shadow-ban", callback_data: `moderation_shadow_${comment.id}` },
+        ]);
+    }
+    rows.push([{ text: "⬅️ Back to Queue", callback_data: "moderation_menu" }]);
+    return rows;
+};
+
+const describeChatMessage = (message: ChatMessage) => {
+    const author = usersRepository.get(message.userId);
+    const mutedUntil = author ? getMutedUntil(author) : null;
+    return `💬 Live TV chat\n\n` +
+        `👤 ${author ? `${author.name} (${author.email})` : message.name}${mutedUntil ? ` · 🔇 muted until ${mutedUntil.toISOString().slice(0, 16).replace('T', ' ')} UTC` : ''}\n` +
+        `🕒 ${message.date.slice(0, 16).replace('T', ' ')} UTC\n` +
+        (message.flags?.length ? `⚠️ ${message.flags.join(', ')}\n` : '') +
+        `\n"${snippet(message.text, 600)}"`;
+};
+
+const chatMessageKeyboard = (message: ChatMessage): TelegramBot.InlineKeyboardButton[][] => {
+    const author = usersRepository.get(message.userId);
+    const row: TelegramBot.InlineKeyboardButton[] = [
+        { text: "✅ Approve", callback_data: `moderation_chatok_${message.id}` },
+        { text: "🗑️ Delete", callback_data: `moderation_chatdel_${message.id}` },
+    ];
+    if (author) row.push({ text: getMutedUntil(author) ? "🔊 Unmute Author" : `🔇 Mute ${MUTE_HOURS}h`, callback_data: `moderation_chatmute_${message.id}` });
+    return [row];
+};
+
+/**
+ * Alert moderators whenever a comment or a Live TV chat message is held by the rules, or a
+ * comment is reported, with the same one-tap buttons as the queue
+ */
+export const startModerationAlerts = (bot: TelegramBot): (() => void) => {
+    const stopComments = onCommentFlagged(({ movieId, comment, source }) => {
+        const heading = source === 'rules' ? '🛡️ A new comment was held for review' : '🛡️ A comment was reported';
+        notifyAdmins(bot, 'moderation', `${heading}\n\n${describeComment(movieId, comment)}`, {
+            reply_markup: { inline_keyboard: commentKeyboard(comment) }
+        });
+    });
+    const stopChat = onChatMessageFlagged(message => {
+        notifyAdmins(bot, 'moderation', `🛡️ A chat message was held for review\n\n${describeChatMessage(message)}`, {
+            reply_markup: { inline_keyboard: chatMessageKeyboard(message) }
+        });
+    });
+    return () => {
+        stopComments();
+        stopChat();
+    };
+};
+
+// --- BOT MENU ---
+
+export const showModerationMenu = (bot: TelegramBot, chatId: number, page = 0) => {
+    const queue = getModerationQueue();
+    const restricted = getRestrictedUsers().length;
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = queue
+        .slice(page * QUEUE_PAGE_SIZE, (page + 1) * QUEUE_PAGE_SIZE)
+        .map(({ comment }) => ([{
+            text: `${comment.status === 'held' ? '⏸️' : '🚩'} ${usersRepository.get(comment.userId)?.name || 'Deleted user'}: ${snippet(comment.comment, 40)}`,
+            callback_data: `moderation_view_${comment.id}`
+        }]));
+
+    const navigation: TelegramBot.InlineKeyboardButton[] = [];
+    if (page > 0) navigation.push({ text: "⬅️ Newer", callback_data: `moderation_page_${page - 1}` });
+    if ((page + 1) * QUEUE_PAGE_SIZE < queue.length) navigation.push({ text: "Older ➡️", callback_data: `moderation_page_${page + 1}` });
+    if (navigation.length) keyboard.push(navigation);
+    keyboard.push([{ text: `🔇 Muted & Shadow-banned (${restricted})`, callback_data: "moderation_users" }]);
+    keyboard.push([{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]);
+
+    const summary = queue.length === 0
+        ? "Nothing is waiting for review."
+        : `${queue.length} comment(s) waiting for review, oldest first.\n⏸️ held (hidden until reviewed) · 🚩 reported (still public)`;
+    bot.sendMessage(chatId, `🛡️ Moderation\n\n${summary}`, { reply_markup: { inline_keyboard: keyboard } });
+};
+
+const showRestrictedUsers = (bot: TelegramBot, chatId: number) => {
+    const users = getRestrictedUsers();
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = users.map(user => {
+        const mutedUntil = getMutedUntil(user);
+        const state = [
+            mutedUntil ? `🔇 until ${mutedUntil.toISOString().slice(5, 16).replace('T', ' ')}` : '',
+            getUserModeration(user).shadowBanned ? '👻' : '',
+        ].filter(Boolean).join(' ');
+        return [{ text: `♻️ Lift · ${user.name} ${state}`, callback_data: `moderation_lift_${user.id}` }];
+    });
+    keyboard.push([{ text: "⬅️ Back to Queue", callback_data: "moderation_menu" }]);
+
+    bot.sendMessage(chatId, users.length === 0
+        ? "🔇 Nobody is muted or shadow-banned."
+        : `🔇 Restricted users (${users.length})\n\nTap a user to lift all of their restrictions:`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+export const handleModerationCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const adminId = query.from.id;
+    const data = query.data;
+
+    // Actions answer on the card they were tapped on, so alerts can be handled where they arrive
+    const updateCard = (text: string, keyboard: TelegramBot.InlineKeyboardButton[][]) => {
+        bot.editMessageText(text, {
+            chat_id: chatId,
+            message_id: query.message!.message_id,
+            reply_markup: { inline_keyboard: keyboard }
+        }).catch(() => bot.sendMessage(chatId, text, { reply_markup: { inline_keyboard: keyboard } }));
+    };
+    const backToQueue = [[{ text: "⬅️ Back to Queue", callback_data: "moderation_menu" }]];
+
+    if (data === 'moderation_menu') {
+        showModerationMenu(bot, chatId);
+        return;
+    }
+    if (data.startsWith('moderation_page_')) {
+        showModerationMenu(bot, chatId, parseInt(data.replace('moderation_page_', ''), 10) || 0);
+        return;
+    }
+    if (data === 'moderation_users') {
+        showRestrictedUsers(bot, chatId);
+        return;
+    }
+    if (data.startsWith('moderation_lift_')) {
+        const userId = data.replace('moderation_lift_', '');
+        const user = usersRepository.get(userId);
+        if (!user) {
+            bot.sendMessage(chatId, "❌ That user no longer exists.");
+            return;
+        }
+        const before = { ...getUserModeration(user) };
+        setUserModeration(userId, {});
+        recordAudit({ adminId, action: 'user.liftRestrictions', entityType: 'userModeration', entityId: userId, before, after: {} });
+        bot.sendMessage(chatId, `♻️ ${user.name} can comment normally again.`);
+        showRestrictedUsers(bot, chatId);
+        return;
+    }
+
+    const chatMatch = data.match(/^moderation_chat(ok|del|mute)_(.+)$/);
+    if (chatMatch) {
+        const [, action, messageId] = chatMatch;
+        const message = findChatMessage(messageId);
+        // Chat is only kept in memory, so older alerts can outlive their message
+        if (!message) {
+            updateCard("This chat message has already been deleted or has scrolled out of the chat.", []);
+            return;
+        }
+        const by = query.from.first_name || adminId;
+        if (action === 'ok') {
+            approveChatMessage(messageId);
+            recordAudit({ adminId, action: 'chat.approve', entityType: 'chatMessage', entityId: messageId, before: message, after: null, reversible: false });
+            updateCard(`✅ Approved by ${by}\n\n${describeChatMessage(message)}`, []);
+        } else if (action === 'del') {
+            deleteChatMessage(messageId);
+            recordAudit({ adminId, action: 'chat.delete', entityType: 'chatMessage', entityId: messageId, before: message, after: null, reversible: false });
+            updateCard(`🗑️ Deleted by ${by}\n\n${describeChatMessage(message)}`, []);
+        } else {
+            const author = usersRepository.get(message.userId);
+            if (!author) {
+                bot.sendMessage(chatId, "❌ The author of this message no longer exists.");
+                return;
+            }
+            const before = { ...getUserModeration(author) };
+            const mutedUntil = getMutedUntil(author) ? undefined : new Date(Date.now() + MUTE_HOURS * HOUR_MS).toISOString();
+            const updated = setUserModeration(author.id, { ...before, mutedUntil })!;
+            recordAudit({
+                adminId,
+                action: mutedUntil ? 'user.mute' : 'user.unmute',
+                entityType: 'userModeration',
+                entityId: author.id,
+                before,
+                after: { ...getUserModeration(updated) }
+            });
+            updateCard(describeChatMessage(message), chatMessageKeyboard(message));
+        }
+        return;
+    }
+
+    const match = data.match(/^moderation_(view|approve|hide|delete|mute|shadow)_(.+)$/);
+    if (!match) return;
+    const [, action, commentId] = match;
+    const found = findComment(commentId);
+    if (!found) {
+        updateCard("This comment has already been deleted.", backToQueue);
+        return;
+    }
+    const { movieId, comment } = found;
+
+    if (action === 'view') {
+        bot.sendMessage(chatId, describeComment(movieId, comment), { reply_markup: { inline_keyboard: commentKeyboard(comment) } });
+    } else if (action === 'approve' || action === 'hide') {
+        const before = { status: comment.status, reviewedBy: comment.reviewedBy, reviewedAt: comment.reviewedAt };
+        const reviewed = reviewComment(commentId, action, String(adminId))!;
+        recordAudit({
+            adminId,
+            action: `comment.${action}`,
+            entityType: 'comment',
+            entityId: commentId,
+            before,
+            after: { status: reviewed.status, reviewedBy: reviewed.reviewedBy, reviewedAt: reviewed.reviewedAt }
+        });
+        updateCard(`${action === 'approve' ? '✅ Approved' : '🙈 Hidden'} by ${query.from.first_name || adminId}\n\n${describeComment(movieId, reviewed)}`, commentKeyboard(reviewed));
+    } else if (action === 'delete') {
+        const removed = deleteCommentThread(movieId, commentId);
+        recordAudit({ adminId, action: 'comment.delete', entityType: 'comment', entityId: commentId, before: removed, after: null, reversible: false });
+        const replies = removed.length - 1;
+        updateCard(`🗑️ Deleted by ${query.from.first_name || adminId}${replies > 0 ? ` (with ${replies} repl${replies === 1 ? 'y' : 'ies'})` : ''}\n\n${describeComment(movieId, comment)}`, backToQueue);
+    } else {
+        const author = usersRepository.get(comment.userId);
+        if (!author) {
+            bot.sendMessage(chatId, "❌ The author of this comment no longer exists.");
+            return;
+        }
+        const before = { ...getUserModeration(author) };
+        const next = { ...before };
+        if (action === 'mute') {
+            next.mutedUntil = getMutedUntil(author) ? undefined : new Date(Date.now() + MUTE_HOURS * HOUR_MS).toISOString();
+        } else {
+            next.shadowBanned = !before.shadowBanned;
+        }
+        const updated = setUserModeration(author.id, next)!;
+        recordAudit({
+            adminId,
+            action: action === 'mute' ? (next.mutedUntil ? 'user.mute' : 'user.unmute') : (next.shadowBanned ? 'user.shadowBan' : 'user.liftShadowBan'),
+            entityType: 'userModeration',
+            entityId: author.id,
+            before,
+            after: { ...getUserModeration(updated) }
+        });
+        updateCard(describeComment(movieId, comment), commentKeyboard(comment));
+    }
+};
@@ -7,6 +7,7 @@ import path from 'path';
 import { Movie } from './types';
 import { atomicWrite, setUserState, getUserState, clearUserState } from './utils';
 import { processNextBatchForChannel } from './movieManager';
+import { getNotificationRecipients, notifyAdmins } from './adminManager';
 
 
 const CONFIG_PATH = path.join(__dirname, './monitoringConfig.json');
@@ -47,8 +48,7 @@ export const runAutonomousFinder = async (bot: TelegramBot) => {
     const config = getAutomationConfig();
     if (!config.autonomousFinder.enabled || config.autonomousFinder.channelUrls.length === 0) return;
     
-    const adminId = process.env.ADMIN_TELEGRAM_USER_ID;
-    if (!adminId) return;
+    if (getNotificationRecipients('finder').length === 0) return;
 
     console.log("Autonomous Finder: Starting scheduled run...");
     
@@ -77,13 +77,13 @@ export const runAutonomousFinder = async (bot: TelegramBot) => {
         currentChannelIndex = 0; // Reset for next time
         writeConfig(config);
         
-        bot.sendMessage(adminId, 
+        notifyAdmins(bot, 'finder',
             `🎬 Autonomous Finder has completed processing all ${config.autonomousFinder.channelUrls.length} channels and has been automatically shut down.\n\n` +
             `To restart, enable it again from the Automation Settings.`
         );
     } else {
         // More channels to process
-        bot.sendMessage(adminId, 
+        notifyAdmins(bot, 'finder',
             `✅ Channel ${currentChannelIndex}/${config.autonomousFinder.channelUrls.length} completed.\n\n` +
             `Next channel will be processed in ${config.autonomousFinder.checkIntervalMinutes} minute(s).`
         );
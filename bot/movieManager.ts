@@ -5,13 +5,19 @@ import TelegramBot from 'node-telegram-bot-api';
 import fs from 'fs';
 import path from 'path';
 import { Movie } from './types';
-import { setUserState, getUserState, clearUserState, atomicWrite } from './utils';
+import { setUserState, getUserState, clearUserState } from './utils';
+import { moviesRepository, seriesRepository, withTransaction } from '../server/storage';
+import { getAllSeries, getSeries, getSeriesParts, groupMovieIntoSeries, mergeIntoSeries, splitFromSeries, movePart, removeMovieFromSeries } from '../services/seriesService';
 import { Buffer } from 'buffer';
 import { URL } from 'url';
 import { BlobServiceClient } from '@azure/storage-blob';
 import { getYouTubeVideoInfo, isValidYouTubeURL } from './youtubeService';
+import { recordAudit, registerAuditEntity } from './auditManager';
+import { notifyAdmins } from './adminManager';
+import { moveToTrash, registerTrashType, getTrashRetentionDays } from './trashManager';
+import { PUBLISH_PROMPT, parsePublishAt, applyPublishAt, formatPublishAt, isScheduled, promptReleaseAnnouncement } from './publishingManager';
+import { registerConversation } from './conversationManager';
 
-const MOVIES_PATH = path.join(process.cwd(), 'data/movies.json');
 const POSTERS_DIR = path.join(process.cwd(), 'public/posters');
 // PROGRESS_PATH removed - checking against website movies directly now
 
@@ -38,26 +44,83 @@ if (AZURE_STORAGE_CONNECTION_STRING) {
 import CinemaxAIService from '../src/ai/services/CinemaxAIService';
 const cinemaxAI = CinemaxAIService.getInstance();
 
-// Helper to read movies from the JSON file
+// Helpers over the shared storage layer (JSON files or SQLite, see server/storage)
 const readMovies = (): Movie[] => {
     try {
-        console.log('🔍 Trying to read movies from:', MOVIES_PATH);
-        if (!fs.existsSync(MOVIES_PATH)) {
-            console.log('❌ Movies file does not exist at:', MOVIES_PATH);
-            return [];
-        }
-        const data = fs.readFileSync(MOVIES_PATH, 'utf-8');
-        const movies = JSON.parse(data);
-        console.log(`✅ Successfully read ${movies.length} movies from file`);
+        const movies = moviesRepository.all();
+        console.log(`✅ Successfully read ${movies.length} movies from storage`);
         return movies;
     } catch (error) {
-        console.error("❌ Error reading movies.json:", error);
-        console.error('   File path:', MOVIES_PATH);
-        console.error('   Working directory:', process.cwd());
+        console.error("❌ Error reading movies from storage:", error);
         return [];
     }
 };
-const writeMovies = (movies: Movie[]) => atomicWrite(MOVIES_PATH, JSON.stringify(movies, null, 2));
+
+registerAuditEntity('movie', {
+    label: 'Movie',
+    read: (movieId) => moviesRepository.get(movieId) || null,
+    write: (movieId, snapshot) => {
+        if (snapshot) {
+            moviesRepository.save(snapshot);
+        } else {
+            moviesRepository.remove(movieId);
+            removeMovieFromSeries(movieId);
+        }
+    }
+});
+
+// Posters are kept while a movie sits in the trash and only deleted when it is purged
+registerTrashType('movie', {
+    label: 'Movie',
+    exists: (movieId) => !!moviesRepository.get(movieId),
+    restore: (movie: Movie) => {
+        moviesRepository.save(movie);
+        try {
+            groupMovieIntoSeries(movie);
+        } catch (error) {
+            console.error(`Could not regroup restored movie "${movie.title}" into a series:`, error);
+        }
+    },
+    purge: async (movie: Movie) => {
+        await deletePoster(movie.poster);
+    }
+});
+
+// A poster uploaded for a movie that was never saved is deleted when the flow is abandoned
+const discardUnsavedPoster = async (state: { movieData?: Partial<Movie> }) => {
+    const { poster, id } = state.movieData || {};
+    if (poster && !(id && moviesRepository.get(id)?.poster === poster)) {
+        await deletePoster(poster);
+    }
+};
+
+registerConversation('add_movie_manual', {
+    label: 'adding a movie',
+    resume: (bot, chatId, state) => {
+        bot.sendMessage(chatId, `▶️ Adding a movie, step ${state.step! + 1} of ${manualAddMovieSteps.length}. ${manualAddMovieSteps[state.step!].prompt}`);
+    },
+    cleanup: discardUnsavedPoster
+});
+
+registerConversation('add_movie_youtube', {
+    label: 'adding a movie from YouTube',
+    resume: (bot, chatId, state) => {
+        if (state.command === 'add_movie_youtube_confirm') {
+            sendYouTubeConfirmation(bot, chatId, state.movieData);
+        } else {
+            bot.sendMessage(chatId, "▶️ Please send the full YouTube video URL for the movie.");
+        }
+    },
+    cleanup: discardUnsavedPoster
+});
+
+registerConversation('editing_movie_value', {
+    label: 'editing a movie',
+    resume: (bot, chatId, state) => {
+        const title = moviesRepository.get(state.movieId)?.title || state.movieId;
+        bot.sendMessage(chatId, `▶️ Editing "${title}". ${editFieldPrompt(state.field)}`, { parse_mode: 'Markdown' });
+    }
+});
 
 // Progress file system removed - now checking against website movies directly like your Python script
 
@@ -260,6 +323,21 @@ const deleteFromAzureBlob = async (blobUrl: string): Promise<boolean> => {
     }
 };
 
+// Delete a poster wherever it lives (Azure blob or local /posters file). Returns true if something was removed.
+export const deletePoster = async (poster: string): Promise<boolean> => {
+    if (poster.startsWith('http')) {
+        return deleteFromAzureBlob(poster);
+    } else if (poster.startsWith('/posters/')) {
+        const posterPath = path.join(process.cwd(), 'public', poster);
+        if (fs.existsSync(posterPath)) {
+            fs.unlinkSync(posterPath);
+            console.log(`✅ Deleted local poster: ${posterPath}`);
+            return true;
+        }
+    }
+    return false;
+};
+
 
 // --- ADD MOVIE FLOW ---
 
@@ -288,6 +366,7 @@ const manualAddMovieSteps = [
     { key: 'rating', prompt: "What is the rating? (A number from 1 to 10, e.g., 8.9)" },
     { key: 'trailerId', prompt: "What is the YouTube trailer ID? (Optional, send 'skip' if none)" },
     { key: 'downloadLink', prompt: "Enter the download URL for this cinema movie." },
+    { key: 'publishAt', prompt: PUBLISH_PROMPT },
     { key: 'poster', prompt: "Please send the movie poster image." },
 ];
 
@@ -363,6 +442,13 @@ const handleManualMovieResponse = async (bot: TelegramBot, msg: TelegramBot.Mess
             }
         } else if (msg.text.toLowerCase() === 'skip' && currentStep.key === 'trailerId') {
             state.movieData[currentStep.key] = undefined;
+        } else if (currentStep.key === 'publishAt') {
+            const parsed = parsePublishAt(msg.text);
+            if ('error' in parsed) {
+                bot.sendMessage(userId, parsed.error);
+                return;
+            }
+            state.movieData.publishAt = parsed.publishAt;
         } else {
             state.movieData[currentStep.key] = msg.text;
         }
@@ -380,7 +466,7 @@ const handleManualMovieResponse = async (bot: TelegramBot, msg: TelegramBot.Mess
             clearUserState(userId);
             return;
         }
-        const newMovie: Movie = {
+        const newMovie: Movie = applyPublishAt({
             id: state.movieData.id,
             title: state.movieData.title,
             poster: state.movieData.poster,
@@ -398,10 +484,12 @@ const handleManualMovieResponse = async (bot: TelegramBot, msg: TelegramBot.Mess
             updatedAt: new Date().toISOString(),
             seriesTitle: state.movieData.title, // Assume manual adds are part 1
             partNumber: 1
-        };
-        writeMovies([...movies, newMovie]);
+        }, state.movieData.publishAt);
+        moviesRepository.save(newMovie);
+        recordAudit({ adminId: userId, action: 'movie.create', entityType: 'movie', entityId: newMovie.id, before: null, after: newMovie });
         bot.sendMessage(userId, `✅ Success! Movie "${newMovie.title}" has been added.`);
         clearUserState(userId);
+        if (isScheduled(newMovie)) promptReleaseAnnouncement(bot, userId, newMovie);
     }
 };
 
@@ -549,26 +637,7 @@ const handleYouTubeMovieResponse = async (bot: TelegramBot, msg: TelegramBot.Mes
 
             // NEW: Confirmation Step
             setUserState(userId, { command: 'add_movie_youtube_confirm', movieData: newMovie });
-            const caption = `*Confirm Movie Details*\n\n` +
-                `*Title:* ${newMovie.title}\n` +
-                `*Series:* ${newMovie.seriesTitle} (Part ${newMovie.partNumber})\n` +
-                `*Description:* ${newMovie.description}\n` +
-                `*Stars:* ${newMovie.stars.join(', ')}\n` +
-                `*Genre:* ${newMovie.genre} | *Category:* ${newMovie.category}\n\n` +
-                `Do you want to add this movie to the site?`;
-
-            // Check if posterPath is a URL (Azure) or local path
-            const photoSource = posterPath.startsWith('http') ? posterPath : path.join(__dirname, '../public', posterPath);
-
-            bot.sendPhoto(userId, photoSource, {
-                caption: caption,
-                parse_mode: 'Markdown',
-                reply_markup: {
-                    inline_keyboard: [
-                        [{ text: "✅ Accept", callback_data: "youtube_movie_accept" }, { text: "❌ Reject", callback_data: "youtube_movie_reject" }]
-                    ]
-                }
-            });
+            sendYouTubeConfirmation(bot, userId, newMovie);
 
         } catch (e) {
             console.error(e);
@@ -578,6 +647,29 @@ const handleYouTubeMovieResponse = async (bot: TelegramBot, msg: TelegramBot.Mes
     }
 };
 
+const sendYouTubeConfirmation = (bot: TelegramBot, chatId: number, newMovie: Movie) => {
+    const caption = `*Confirm Movie Details*\n\n` +
+        `*Title:* ${newMovie.title}\n` +
+        `*Series:* ${newMovie.seriesTitle} (Part ${newMovie.partNumber})\n` +
+        `*Description:* ${newMovie.description}\n` +
+        `*Stars:* ${newMovie.stars.join(', ')}\n` +
+        `*Genre:* ${newMovie.genre} | *Category:* ${newMovie.category}\n\n` +
+        `Do you want to add this movie to the site?`;
+
+    // Check if posterPath is a URL (Azure) or local path
+    const photoSource = newMovie.poster.startsWith('http') ? newMovie.poster : path.join(__dirname, '../public', newMovie.poster);
+
+    bot.sendPhoto(chatId, photoSource, {
+        caption: caption,
+        parse_mode: 'Markdown',
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: "✅ Accept", callback_data: "youtube_movie_accept" }, { text: "❌ Reject", callback_data: "youtube_movie_reject" }]
+            ]
+        }
+    });
+};
+
 export const handleYouTubeConfirmation = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
     const userId = query.from.id;
     const state = getUserState(userId);
@@ -596,9 +688,8 @@ export const handleYouTubeConfirmation = async (bot: TelegramBot, query: Telegra
     });
 
     if (action === 'youtube_movie_accept') {
-        const movies = readMovies();
-        movies.push(movieData);
-        writeMovies(movies);
+        moviesRepository.save(movieData);
+        recordAudit({ adminId: userId, action: 'movie.create', entityType: 'movie', entityId: movieData.id, before: null, after: movieData });
         bot.sendMessage(userId, `✅ Success! Movie "${movieData.title}" has been added.`);
     } else { // Reject
         try {
@@ -838,7 +929,8 @@ const getVideoDetailsBatch = async (videoIds: string[]): Promise<Record<string,
 };
 
 export const processNextBatchForChannel = async (channelUrl: string, bot: TelegramBot) => {
-    const adminId = process.env.ADMIN_TELEGRAM_USER_ID!;
+    // Progress goes to every admin subscribed to finder notifications (see adminManager)
+    const notify = (text: string) => notifyAdmins(bot, 'finder', text);
     
     // Always append /videos to get all videos from the Videos tab (not just featured)
     let videosUrl = channelUrl;
@@ -875,16 +967,17 @@ export const processNextBatchForChannel = async (channelUrl: string, bot: Telegr
         console.log(`🎬 Found ${videos.length} videos using fast yt-dlp extraction`);
         
         if (videos.length === 0) {
-            bot.sendMessage(adminId, `✅ No videos found on channel: ${channelUrl}`);
+            notify(`✅ No videos found on channel: ${channelUrl}`);
             return;
         }
         
-        bot.sendMessage(adminId, `🔄 Processing ${videos.length} videos with fast approach...`);
+        notify(`🔄 Processing ${videos.length} videos with fast approach...`);
 
         // Get existing movies to check against (like your Python script checks website)
         const currentMovies = readMovies();
         const existingTitles = new Set(currentMovies.map(m => m.title.toLowerCase()));
 
+        const addedMovies: Movie[] = [];
         let newMoviesAdded = 0;
         let trailersSkipped = 0;
         let duplicatesSkipped = 0;
@@ -975,10 +1068,11 @@ export const processNextBatchForChannel = async (channelUrl: string, bot: Telegr
                 };
                 
                 currentMovies.push(newMovie);
+                addedMovies.push(newMovie);
                 existingTitles.add(newMovie.title.toLowerCase());
                 
                 console.log(`✅ Fast-added: ${newMovie.title}`);
-                bot.sendMessage(adminId, `✅ Added: "${newMovie.title}" with safe thumbnail`);
+                notify(`✅ Added: "${newMovie.title}" with safe thumbnail`);
                 newMoviesAdded++;
                 
             } catch (error) {
@@ -986,9 +1080,17 @@ export const processNextBatchForChannel = async (channelUrl: string, bot: Telegr
             }
         }
 
-        // Save all new movies
+        // Save all new movies, then group "Part 2" style uploads with their earlier parts
+        let seriesGrouped = 0;
         if (newMoviesAdded > 0) {
-            writeMovies(currentMovies);
+            withTransaction(() => addedMovies.forEach(movie => moviesRepository.save(movie)));
+            for (const movie of addedMovies) {
+                try {
+                    if (groupMovieIntoSeries(movie)) seriesGrouped++;
+                } catch (error) {
+                    console.error(`Could not group "${movie.title}" into a series:`, error);
+                }
+            }
         }
 
         // Send comprehensive summary like your Python script
@@ -998,15 +1100,16 @@ export const processNextBatchForChannel = async (channelUrl: string, bot: Telegr
                        `• New movies added: ${newMoviesAdded}\n` +
                        `• Trailers skipped: ${trailersSkipped}\n` +
                        `• Short videos skipped (<50min): ${shortVideosSkipped}\n` +
-                       `• Duplicates skipped: ${duplicatesSkipped}\n\n` +
+                       `• Duplicates skipped: ${duplicatesSkipped}\n` +
+                       `• Grouped into series: ${seriesGrouped}\n\n` +
                        `🚀 All thumbnails use safe hqdefault URLs!`;
         
-        bot.sendMessage(adminId, summary);
+        notify(summary);
         console.log(summary);
 
     } catch (e) {
         console.error(`Error in fast processing for ${channelUrl}:`, e);
-        bot.sendMessage(adminId, `🚨 Fast processing error for ${channelUrl}: ${e}`);
+        notify(`🚨 Fast processing error for ${channelUrl}: ${e}`);
     }
 };
 
@@ -1065,8 +1168,7 @@ export const handleInlineMovieSearch = async (bot: TelegramBot, query: TelegramB
 // --- EDIT FLOWS (NEW) ---
 
 async function displayEditMenu(bot: TelegramBot, chatId: number, messageId: number | undefined, movieId: string) {
-    const movies = readMovies();
-    const movie = movies.find(m => m.id === movieId);
+    const movie = moviesRepository.get(movieId);
 
     if (!movie) {
         if (messageId) {
@@ -1083,7 +1185,8 @@ async function displayEditMenu(bot: TelegramBot, chatId: number, messageId: numb
         `*Genre:* ${movie.genre}\n` +
         `*Category:* ${movie.category}\n` +
         `*Stars:* ${movie.stars.join(', ')}\n` +
-        `*Rating:* ${movie.rating}\n\n` +
+        `*Rating:* ${movie.rating}\n` +
+        `*Release:* ${isScheduled(movie) ? `⏰ ${formatPublishAt(movie.publishAt!)}` : movie.status === 'coming-soon' ? 'Coming soon (no date)' : 'Live'}\n\n` +
         `Select a field to edit:`;
 
     // Check if movie.poster is a URL (Azure) or local path
@@ -1094,7 +1197,7 @@ async function displayEditMenu(bot: TelegramBot, chatId: number, messageId: numb
             [{ text: "✏️ Title", callback_data: `edit_movie_field_title_${movieId}` }, { text: "✏️ Description", callback_data: `edit_movie_field_description_${movieId}` }],
             [{ text: "✏️ Genre", callback_data: `edit_movie_field_genre_${movieId}` }, { text: "✏️ Category", callback_data: `edit_movie_field_category_${movieId}` }],
             [{ text: "✏️ Stars", callback_data: `edit_movie_field_stars_${movieId}` }, { text: "✏️ Rating", callback_data: `edit_movie_field_rating_${movieId}` }],
-            [{ text: "🖼️ Poster", callback_data: `edit_movie_field_poster_${movieId}` }],
+            [{ text: "🖼️ Poster", callback_data: `edit_movie_field_poster_${movieId}` }, { text: "🗓️ Publish Date", callback_data: `edit_movie_field_publishAt_${movieId}` }],
             [{ text: "⬅️ Back to Movie List", callback_data: "edit_movie_list" }]
         ]
     };
@@ -1125,15 +1228,14 @@ async function promptForEditField(bot: TelegramBot, query: TelegramBot.CallbackQ
     const userId = query.from.id;
 
     setUserState(userId, { command: 'editing_movie_value', movieId, field });
+    await bot.sendMessage(query.message.chat.id, editFieldPrompt(field), { parse_mode: 'Markdown' });
+}
 
-    let promptText = `Please enter the new value for *${field}*.`;
-    if (field === 'poster') {
-        promptText = `Please send the new poster image for the movie.`;
-    } else if (field === 'stars') {
-        promptText = `Please enter the new stars, separated by commas.`;
-    }
-
-    await bot.sendMessage(query.message.chat.id, promptText, { parse_mode: 'Markdown' });
+function editFieldPrompt(field: string): string {
+    if (field === 'poster') return `Please send the new poster image for the movie.`;
+    if (field === 'stars') return `Please enter the new stars, separated by commas.`;
+    if (field === 'publishAt') return PUBLISH_PROMPT;
+    return `Please enter the new value for *${field}*.`;
 }
 
 
@@ -1181,6 +1283,7 @@ export async function handleEditMovieResponse(bot: TelegramBot, msg: TelegramBot
         return;
     }
     const movieToUpdate = movies[movieIndex];
+    const before = { ...movieToUpdate };
     let updateSuccess = false;
 
     if (field === 'poster') {
@@ -1225,7 +1328,16 @@ export async function handleEditMovieResponse(bot: TelegramBot, msg: TelegramBot
                     return;
                 }
             }
-            (movies[movieIndex] as any)[field] = newValue;
+            if (field === 'publishAt') {
+                const parsed = parsePublishAt(msg.text);
+                if ('error' in parsed) {
+                    bot.sendMessage(userId, parsed.error);
+                    return;
+                }
+                movies[movieIndex] = applyPublishAt(movies[movieIndex], parsed.publishAt);
+            } else {
+                (movies[movieIndex] as any)[field] = newValue;
+            }
             updateSuccess = true;
         } else {
             bot.sendMessage(userId, "Invalid input. Please provide the requested information.");
@@ -1235,8 +1347,11 @@ export async function handleEditMovieResponse(bot: TelegramBot, msg: TelegramBot
 
     if (updateSuccess) {
         movies[movieIndex].updatedAt = new Date().toISOString();
-        writeMovies(movies);
+        moviesRepository.save(movies[movieIndex]);
+        // The old poster file is deleted on replacement, so poster edits cannot be rolled back
+        recordAudit({ adminId: userId, action: `movie.edit.${field}`, entityType: 'movie', entityId: movieId, before, after: movies[movieIndex], reversible: field !== 'poster' });
         await bot.sendMessage(userId, `✅ Success! The *${field}* has been updated.`, { parse_mode: 'Markdown' });
+        if (field === 'publishAt' && isScheduled(movies[movieIndex])) promptReleaseAnnouncement(bot, userId, movies[movieIndex]);
 
         clearUserState(userId);
         await displayEditMenu(bot, userId, undefined, movieId);
@@ -1251,13 +1366,13 @@ export const showMoviesForDeletion = (bot: TelegramBot, chatId: number, messageI
         bot.sendMessage(chatId, "There are no movies to delete.");
         return;
     }
-    // Add delete button next to each movie for instant deletion
+    // Add delete button next to each movie for one-tap deletion
     const keyboard = movies.map(movie => ([
         { text: `${movie.title} 🗑️`, callback_data: `delete_movie_execute_${movie.id}` }
     ]));
     keyboard.push([{ text: "⬅️ Back", callback_data: 'manage_movies' }]);
 
-    bot.sendMessage(chatId, "🗑️ Select a movie to delete (instant deletion):", {
+    bot.sendMessage(chatId, `🗑️ Select a movie to move to the trash (restorable for ${getTrashRetentionDays()} days):`, {
         reply_markup: {
             inline_keyboard: keyboard
         }
@@ -1277,7 +1392,7 @@ export const handleDeleteMovieCallback = async (bot: TelegramBot, query: Telegra
         const movieId = data.substring(confirmPrefix.length);
         const movie = readMovies().find(m => m.id === movieId);
         if (movie) {
-            bot.editMessageText(`Are you sure you want to delete "${movie.title}"? This cannot be undone.`, {
+            bot.editMessageText(`Move "${movie.title}" to the trash? It can be restored for ${getTrashRetentionDays()} days.`, {
                 chat_id: chatId, message_id: messageId,
                 reply_markup: {
                     inline_keyboard: [
@@ -1289,33 +1404,21 @@ export const handleDeleteMovieCallback = async (bot: TelegramBot, query: Telegra
         }
     } else if (data.startsWith(executePrefix)) {
         const movieId = data.substring(executePrefix.length);
-        const movies = readMovies();
-        const movieToDelete = movies.find(m => m.id === movieId);
-        const updatedMovies = movies.filter(m => m.id !== movieId);
+        const movieToDelete = moviesRepository.get(movieId);
 
-        if (movies.length !== updatedMovies.length && movieToDelete) {
-            writeMovies(updatedMovies);
-            try {
-                // Handle both Azure blob URLs and local file paths
-                if (movieToDelete.poster.startsWith('http')) {
-                    // It's an Azure blob URL
-                    await deleteFromAzureBlob(movieToDelete.poster);
-                } else if (movieToDelete.poster.startsWith('/posters/')) {
-                    // It's a local file path
-                    const posterPath = path.join(__dirname, '../../public', movieToDelete.poster);
-                    if (fs.existsSync(posterPath)) {
-                        fs.unlinkSync(posterPath);
-                        console.log(`✅ Deleted local poster: ${posterPath}`);
-                    }
-                }
-            } catch (err) {
-                console.error(`Could not delete poster for movie ID ${movieId}:`, err);
-            }
+        if (movieToDelete) {
+            withTransaction(() => {
+                moveToTrash('movie', movieId, movieToDelete.title, movieToDelete, query.from.id);
+                moviesRepository.remove(movieId);
+            });
+            removeMovieFromSeries(movieId);
+            // Restoring happens from the trash, not through audit undo
+            recordAudit({ adminId: query.from.id, action: 'movie.delete', entityType: 'movie', entityId: movieId, before: movieToDelete, after: null, reversible: false });
             
             // Show updated list for quick multi-delete
             const remainingMovies = readMovies();
             if (remainingMovies.length === 0) {
-                bot.editMessageText(`✅ Deleted "${movieToDelete.title}". No more movies to delete.`, { 
+                bot.editMessageText(`🗑️ Moved "${movieToDelete.title}" to the trash. No more movies to delete.`, { 
                     chat_id: chatId, 
                     message_id: messageId,
                     reply_markup: {
@@ -1328,7 +1431,7 @@ export const handleDeleteMovieCallback = async (bot: TelegramBot, query: Telegra
                 ]));
                 keyboard.push([{ text: "⬅️ Back", callback_data: 'manage_movies' }]);
                 
-                bot.editMessageText(`✅ Deleted "${movieToDelete.title}"\n\n🗑️ Select another movie to delete (instant deletion):`, {
+                bot.editMessageText(`🗑️ Moved "${movieToDelete.title}" to the trash\n\n🗑️ Select another movie to delete:`, {
                     chat_id: chatId,
                     message_id: messageId,
                     reply_markup: {
@@ -1356,7 +1459,7 @@ export const showDeleteAllConfirmation = (bot: TelegramBot, chatId: number, mess
         return;
     }
     
-    bot.sendMessage(chatId, `⚠️ *WARNING*\n\nYou are about to delete *ALL ${movieCount} movies* from the site. This action cannot be undone!\n\nAre you absolutely sure?`, {
+    bot.sendMessage(chatId, `⚠️ *WARNING*\n\nYou are about to remove *ALL ${movieCount} movies* from the site. They will sit in the trash for ${getTrashRetentionDays()} days before being deleted for good.\n\nAre you absolutely sure?`, {
         parse_mode: 'Markdown',
         reply_markup: {
             inline_keyboard: [
@@ -1376,36 +1479,135 @@ export const handleDeleteAllMovies = async (bot: TelegramBot, chatId: number) =>
         return;
     }
     
-    bot.sendMessage(chatId, `🗑️ Deleting all ${movieCount} movies...`);
-    
-    // Delete all poster files
-    let deletedPosters = 0;
-    for (const movie of movies) {
-        try {
-            // Handle both Azure blob URLs and local file paths
-            if (movie.poster.startsWith('http')) {
-                // It's an Azure blob URL
-                await deleteFromAzureBlob(movie.poster);
-                deletedPosters++;
-            } else if (movie.poster.startsWith('/posters/')) {
-                // It's a local file path
-                const posterPath = path.join(__dirname, '../../public', movie.poster);
-                if (fs.existsSync(posterPath)) {
-                    fs.unlinkSync(posterPath);
-                    deletedPosters++;
-                }
-            }
-        } catch (err) {
-            console.error(`Could not delete poster for movie ID ${movie.id}:`, err);
-        }
-    }
-    
-    // Clear all movies
-    writeMovies([]);
+    // Move every movie to the trash (posters stay until purged), then clear the series grouping them
+    withTransaction(() => {
+        movies.forEach(movie => moveToTrash('movie', movie.id, movie.title, movie, chatId));
+        moviesRepository.saveAll([]);
+        seriesRepository.saveAll([]);
+    });
+    // Admin chats are private, so the chat id is the admin's Telegram id
+    recordAudit({
+        adminId: chatId,
+        action: 'movies.deleteAll',
+        entityType: 'movie',
+        entityId: '*',
+        before: movies.map(movie => ({ id: movie.id, title: movie.title })),
+        after: [],
+        reversible: false
+    });
     
-    bot.sendMessage(chatId, `✅ Successfully deleted all ${movieCount} movies!\n\n📊 Posters deleted: ${deletedPosters}/${movieCount}`, {
+    bot.sendMessage(chatId, `✅ Moved all ${movieCount} movies to the trash.\n\nRestore them from 🗑️ Trash within ${getTrashRetentionDays()} days.`, {
         reply_markup: {
             inline_keyboard: [[{ text: "⬅️ Back to Movie Management", callback_data: "manage_movies" }]]
         }
     });
-};
\ No newline at end of file
+};
+
+
+// --- SERIES (MULTI-PART FILMS) ---
+export const showSeriesMenu = (bot: TelegramBot, chatId: number, messageId: number) => {
+    const allSeries = getAllSeries();
+    const keyboard = allSeries.map(series => ([
+        { text: `📚 ${series.title} (${series.partIds.length} parts)`, callback_data: `series_view_${series.id}` }
+    ]));
+    keyboard.push([{ text: "🔗 Merge Parts", callback_data: "series_merge_start" }]);
+    keyboard.push([{ text: "⬅️ Back", callback_data: 'manage_movies' }]);
+
+    const text = allSeries.length > 0
+        ? "📚 *Series*\n\nSelect a series to reorder or split its parts, or merge a movie into a series."
+        : "📚 *Series*\n\nNo series yet. The channel finder groups \"Part 2\" uploads automatically, or merge parts yourself.";
+
+    bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: { inline_keyboard: keyboard } });
+};
+
+const displaySeries = (bot: TelegramBot, chatId: number, seriesId: string, notice?: string) => {
+    const series = getSeries(seriesId);
+    if (!series) {
+        bot.sendMessage(chatId, notice ? `${notice}\n\nThe series no longer exists.` : "Error: Series not found.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Series", callback_data: "series_menu" }]] }
+        });
+        return;
+    }
+
+    const parts = getSeriesParts(series);
+    const text = (notice ? `${notice}\n\n` : '') +
+        `*${series.title}*\n\n` +
+        parts.map((part, index) => `${index + 1}. ${part.title}`).join('\n') +
+        `\n\nUse ⬆️/⬇️ to reorder parts or ✂️ to split a part out of the series.`;
+
+    const keyboard = parts.map((part, index) => ([
+        { text: "⬆️", callback_data: `series_up_${part.id}` },
+        { text: "⬇️", callback_data: `series_down_${part.id}` },
+        { text: `✂️ Split Part ${index + 1}`, callback_data: `series_split_${part.id}` }
+    ]));
+    keyboard.push([{ text: "⬅️ Back to Series", callback_data: "series_menu" }]);
+
+    bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: { inline_keyboard: keyboard } });
+};
+
+export const handleSeriesCallback = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const userId = query.from.id;
+    const data = query.data;
+
+    try {
+        if (data.startsWith('series_view_')) {
+            displaySeries(bot, chatId, data.replace('series_view_', ''));
+        } else if (data === 'series_merge_start') {
+            const movies = readMovies();
+            const keyboard = movies.map(movie => ([{ text: movie.title, callback_data: `series_merge_pick_${movie.id}` }]));
+            keyboard.push([{ text: "⬅️ Back", callback_data: "series_menu" }]);
+            bot.sendMessage(chatId, "🔗 Step 1/2: Select the part to merge (its whole series comes with it):", {
+                reply_markup: { inline_keyboard: keyboard }
+            });
+        } else if (data.startsWith('series_merge_pick_')) {
+            const movieId = data.replace('series_merge_pick_', '');
+            setUserState(userId, { command: 'series_merge', movieId });
+            const targets = readMovies().filter(movie => movie.id !== movieId);
+            const keyboard = targets.map(movie => ([{
+                text: movie.seriesId ? `📚 ${movie.title}` : movie.title,
+                callback_data: `series_merge_into_${movie.id}`
+            }]));
+            keyboard.push([{ text: "⬅️ Cancel", callback_data: "series_menu" }]);
+            bot.sendMessage(chatId, "🔗 Step 2/2: Select a movie from the series to merge into (📚 = already in a series):", {
+                reply_markup: { inline_keyboard: keyboard }
+            });
+        } else if (data.startsWith('series_merge_into_')) {
+            const state = getUserState(userId);
+            if (!state || state.command !== 'series_merge') {
+                bot.sendMessage(chatId, "This merge has expired. Please start again.");
+                return;
+            }
+            clearUserState(userId);
+            const before = getSeries(moviesRepository.get(state.movieId)?.seriesId || '') || null;
+            const series = mergeIntoSeries(state.movieId, data.replace('series_merge_into_', ''));
+            recordAudit({ adminId: userId, action: 'series.merge', entityType: 'series', entityId: series.id, before, after: series, reversible: false });
+            displaySeries(bot, chatId, series.id, "✅ Parts merged.");
+        } else if (data.startsWith('series_split_')) {
+            const movieId = data.replace('series_split_', '');
+            const before = getSeries(moviesRepository.get(movieId)?.seriesId || '') || null;
+            const { movie, series } = splitFromSeries(movieId);
+            recordAudit({ adminId: userId, action: 'series.split', entityType: 'series', entityId: before?.id || movieId, before, after: series || null, reversible: false });
+            if (series) {
+                displaySeries(bot, chatId, series.id, `✂️ "${movie.title}" now stands alone.`);
+            } else {
+                bot.sendMessage(chatId, `✂️ "${movie.title}" now stands alone. The series had no other parts left and was removed.`, {
+                    reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Series", callback_data: "series_menu" }]] }
+                });
+            }
+        } else if (data.startsWith('series_up_') || data.startsWith('series_down_')) {
+            const direction = data.startsWith('series_up_') ? -1 : 1;
+            const movieId = data.replace(/^series_(up|down)_/, '');
+            const before = getSeries(moviesRepository.get(movieId)?.seriesId || '') || null;
+            const series = movePart(movieId, direction);
+            recordAudit({ adminId: userId, action: 'series.reorder', entityType: 'series', entityId: series.id, before, after: series, reversible: false });
+            displaySeries(bot, chatId, series.id, "✅ Order updated.");
+        }
+    } catch (error: any) {
+        console.error('Series action failed:', error);
+        bot.sendMessage(chatId, `❌ ${error.message || 'Series update failed.'}`, {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Series", callback_data: "series_menu" }]] }
+        });
+    }
+};
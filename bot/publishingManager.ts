@@ -0,0 +1,152 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Movie } from './types';
+import { moviesRepository } from '../server/storage';
+import { recordAudit } from './auditManager';
+import { notifyAdmins } from './adminManager';
+import { publishAnnouncement } from './siteManager';
+
+// Publish times typed into the bot are read in this offset (West Africa Time by default)
+const PUBLISH_UTC_OFFSET = process.env.PUBLISH_UTC_OFFSET || '+01:00';
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export const PUBLISH_PROMPT = `When should it go live? Send 'now', or a date and time like 2025-12-24 18:00 (UTC${PUBLISH_UTC_OFFSET}).`;
+
+/**
+ * Read an admin's publish time. 'now' (or 'skip') means publish immediately and gives `null`.
+ */
+export const parsePublishAt = (text: string): { publishAt: string | null } | { error: string } => {
+    const value = text.trim().toLowerCase();
+    if (value === 'now' || value === 'skip') return { publishAt: null };
+
+    const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[ t](\d{1,2}):(\d{2}))?$/);
+    if (!match) return { error: "❌ Couldn't read that date. Use the format 2025-12-24 18:00, or send 'now'." };
+
+    const [, date, hours = '0', minutes = '00'] = match;
+    const timestamp = Date.parse(`${date}T${hours.padStart(2, '0')}:${minutes}:00${PUBLISH_UTC_OFFSET}`);
+    if (isNaN(timestamp)) return { error: "❌ That isn't a valid date." };
+    if (timestamp <= Date.now()) return { error: "❌ That time has already passed. Send a future date, or 'now' to publish immediately." };
+
+    return { publishAt: new Date(timestamp).toISOString() };
+};
+
+export const formatPublishAt = (iso: string) => {
+    const [sign, hh, mm] = [PUBLISH_UTC_OFFSET[0], PUBLISH_UTC_OFFSET.slice(1, 3), PUBLISH_UTC_OFFSET.slice(4, 6)];
+    const offsetMs = (sign === '-' ? -1 : 1) * (parseInt(hh, 10) * 60 + parseInt(mm, 10)) * 60 * 1000;
+    return `${new Date(Date.parse(iso) + offsetMs).toISOString().slice(0, 16).replace('T', ' ')} (UTC${PUBLISH_UTC_OFFSET})`;
+};
+
+export const isScheduled = (movie: Movie) => movie.status === 'coming-soon' && !!movie.publishAt;
+
+/**
+ * Set or clear a movie's publish time. A future time makes it coming-soon until the
+ * scheduler releases it; `null` releases it straight away.
+ */
+export const applyPublishAt = (movie: Movie, publishAt: string | null): Movie => {
+    const updated: Movie = { ...movie };
+    if (publishAt) {
+        updated.publishAt = publishAt;
+        updated.status = 'coming-soon';
+    } else {
+        delete updated.publishAt;
+        delete updated.status;
+        delete updated.announceOnPublish;
+    }
+    return updated;
+};
+
+/**
+ * Ask whether the release should also put up a site announcement banner
+ */
+export const promptReleaseAnnouncement = (bot: TelegramBot, chatId: number, movie: Movie) => {
+    bot.sendMessage(chatId, `⏰ "${movie.title}" is scheduled for ${formatPublishAt(movie.publishAt!)}.\n\nPost a site announcement when it goes live?`, {
+        reply_markup: {
+            inline_keyboard: [[
+                { text: "📢 Yes, announce it", callback_data: `publish_announce_yes_${movie.id}` },
+                { text: "No thanks", callback_data: `publish_announce_no_${movie.id}` }
+            ]]
+        }
+    });
+};
+
+export const handlePublishCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const announce = query.data.startsWith('publish_announce_yes_');
+    const movieId = query.data.replace(/^publish_announce_(yes|no)_/, '');
+
+    const movie = moviesRepository.get(movieId);
+    if (!movie || !isScheduled(movie)) {
+        bot.sendMessage(chatId, "This movie is no longer scheduled.");
+        return;
+    }
+
+    const updated: Movie = { ...movie, announceOnPublish: announce, updatedAt: new Date().toISOString() };
+    moviesRepository.save(updated);
+    recordAudit({ adminId: query.from.id, action: 'movie.edit.announceOnPublish', entityType: 'movie', entityId: movie.id, before: movie, after: updated });
+
+    bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: query.message.message_id });
+    bot.sendMessage(chatId, announce
+        ? `📢 A site announcement will go up when "${movie.title}" is released.`
+        : `👍 "${movie.title}" will be released quietly.`);
+};
+
+const releaseListeners: ((movie: Movie) => void)[] = [];
+
+/**
+ * Subscribe to the scheduler releasing a movie. Returns an unsubscribe function.
+ */
+export const onMovieReleased = (listener: (movie: Movie) => void) => {
+    releaseListeners.push(listener);
+    return () => {
+        const index = releaseListeners.indexOf(listener);
+        if (index >= 0) releaseListeners.splice(index, 1);
+    };
+};
+
+/**
+ * Release every scheduled movie whose publish time has passed
+ */
+export const publishDueMovies = (): Movie[] => {
+    const now = Date.now();
+    const due = moviesRepository.all().filter(movie => isScheduled(movie) && Date.parse(movie.publishAt!) <= now);
+
+    due.forEach(movie => {
+        const released: Movie = { ...applyPublishAt(movie, null), publishAt: movie.publishAt, updatedAt: new Date().toISOString() };
+        moviesRepository.save(released);
+        recordAudit({ adminId: 'scheduler', action: 'movie.publish', entityType: 'movie', entityId: movie.id, before: movie, after: released, reversible: false });
+        console.log(`🎬 Scheduled release: "${movie.title}" is now live.`);
+
+        if (movie.announceOnPublish) {
+            publishAnnouncement(`🎬 Now showing: ${movie.title}`, 'scheduler');
+        }
+        releaseListeners.forEach(listener => {
+            try {
+                listener(movie);
+            } catch (error) {
+                console.error('Release listener failed:', error);
+            }
+        });
+    });
+
+    return due;
+};
+
+/**
+ * Runs with the web server, so scheduled movies go live even when the bot is not running
+ */
+export const startPublishingScheduler = (): NodeJS.Timeout => {
+    const run = () => {
+        try {
+            publishDueMovies();
+        } catch (error) {
+            console.error('🎬 Scheduled publishing check failed:', error);
+        }
+    };
+    run();
+    return setInterval(run, CHECK_INTERVAL_MS);
+};
+
+export const startReleaseAlerts = (bot: TelegramBot): (() => void) =>
+    onMovieReleased(movie => {
+        notifyAdmins(bot, 'release', `🎬 "${movie.title}" is now live on the site.${movie.announceOnPublish ? '\n📢 The release announcement is up.' : ''}`);
+    });
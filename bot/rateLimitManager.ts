@@ -0,0 +1,44 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { RATE_LIMIT_POLICIES, getBlockedCounters, getRateLimitStore, resetBlockedCounters } from '../server/rateLimit';
+
+const KEY_LABELS: Record<string, string> = {
+    'ip': 'per IP',
+    'user': 'per user',
+    'ip+user': 'per user and per IP',
+};
+
+const formatWindow = (seconds: number) =>
+    seconds % 3600 === 0 ? `${seconds / 3600}h` : seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+
+// --- BOT MENU ---
+
+export const showRateLimitMenu = (bot: TelegramBot, chatId: number) => {
+    const counters = new Map(getBlockedCounters().map(counter => [counter.policy, counter]));
+    const lines = Object.values(RATE_LIMIT_POLICIES).map(policy => {
+        const counter = counters.get(policy.name);
+        const blocked = counter
+            ? `⛔ ${counter.blocked} blocked · last ${new Date(counter.lastBlockedAt).toISOString().slice(0, 16).replace('T', ' ')} UTC (${counter.lastKey})`
+            : '✅ nothing blocked';
+        return `• ${policy.description} (${policy.name})\n   ${policy.limit} per ${formatWindow(policy.windowSeconds)}, ${KEY_LABELS[policy.keyBy]}\n   ${blocked}`;
+    });
+
+    bot.sendMessage(chatId, `🚦 Rate Limits (${getRateLimitStore().kind} store)\n\n${lines.join('\n\n')}`, {
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: "🔄 Refresh", callback_data: "ratelimit_menu" }, { text: "♻️ Reset Counters", callback_data: "ratelimit_reset" }],
+                [{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]
+            ]
+        }
+    });
+};
+
+export const handleRateLimitCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+
+    if (query.data === 'ratelimit_reset') {
+        resetBlockedCounters();
+        bot.sendMessage(chatId, "♻️ Blocked request counters cleared.");
+    }
+    showRateLimitMenu(bot, chatId);
+};
@@ -1,9 +1,15 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { handleStartCommand, handleCallbackQuery, handleMessage } from './commands';
 import { handleInlineMovieSearch } from './movieManager';
-import { clearAllUserStates } from './utils';
 import { getWeeklyDigest } from './aiHandler';
 import { getAutomationConfig, runAutonomousFinder } from './monitoringManager';
+import { isAccessRestricted, isBotAdmin, canUseCallback, getBotAdmin, ADMIN_ROLES } from './adminManager';
+import { purgeExpiredTrash } from './trashManager';
+import { startReleaseAlerts } from './publishingManager';
+import { cancelConversation, purgeExpiredConversations } from './conversationManager';
+import { startModerationAlerts } from './moderationManager';
+import { startLockoutAlerts } from './userManager';
+import { startPlayoutAlerts } from './liveTvScheduleManager';
 
 export const runBot = async () => {
     // Gatekeeper to prevent running in unsupported environments.
@@ -20,8 +26,10 @@ export const runBot = async () => {
         console.warn("⚠️ Skipping Telegram bot launch: TELEGRAM_BOT_TOKEN is not set.");
         return;
     }
-    if (!adminId) {
-        console.warn("⚠️ Warning: ADMIN_TELEGRAM_USER_ID is not defined. The bot will be accessible to anyone.");
+    if (!isAccessRestricted()) {
+        console.warn("⚠️ Warning: ADMIN_TELEGRAM_USER_ID is not defined and no bot admins are configured. The bot will be accessible to anyone.");
+    } else if (!adminId) {
+        console.warn("⚠️ Warning: ADMIN_TELEGRAM_USER_ID is not defined. Only the saved bot admin roster can use the bot.");
     }
 
     // Fix polling errors by adding better error handling and request options
@@ -34,7 +42,6 @@ export const runBot = async () => {
             }
         }
     });
-    clearAllUserStates();
 
     // --- SCHEDULED TASKS ---
     let autonomousFinderInterval: NodeJS.Timeout | null = null;
@@ -56,9 +63,36 @@ export const runBot = async () => {
 
     setupAutomationIntervals();
 
+    // Items past the trash retention window are deleted for good (posters included)
+    const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+    purgeExpiredTrash().catch(error => console.error('🗑️ Trash purge failed:', error));
+    const trashPurgeInterval = setInterval(() => {
+        purgeExpiredTrash().catch(error => console.error('🗑️ Trash purge failed:', error));
+    }, TRASH_PURGE_INTERVAL_MS);
+
+    // Conversation states survive restarts; ones left past BOT_STATE_TTL_HOURS are discarded along with their uploads
+    const CONVERSATION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+    purgeExpiredConversations().catch(error => console.error('⏸️ Conversation purge failed:', error));
+    const conversationPurgeInterval = setInterval(() => {
+        purgeExpiredConversations().catch(error => console.error('⏸️ Conversation purge failed:', error));
+    }, CONVERSATION_PURGE_INTERVAL_MS);
+
+    // Coming-soon movies released by the publishing scheduler (started with the web server)
+    startReleaseAlerts(bot);
+
+    // Comments and chat messages held by the rules, and comments reported by readers, are sent to moderators as they happen
+    startModerationAlerts(bot);
+
+    // Accounts locked by repeated failed sign-ins, with an unlock button
+    startLockoutAlerts(bot);
+
+    // Live TV changes made by the schedule rather than by an admin
+    startPlayoutAlerts(bot);
+
     // --- SECURITY MIDDLEWARE ---
+    // Access comes from the bot admin roster (see adminManager); each role is limited to its callback prefixes
     const withAdminAuth = (handler: (msg: TelegramBot.Message) => void) => (msg: TelegramBot.Message) => {
-        if (adminId && msg.from?.id.toString() !== adminId) {
+        if (!isBotAdmin(msg.from?.id)) {
             bot.sendMessage(msg.chat.id, "⛔ Sorry, you are not authorized to use this bot.");
             return;
         }
@@ -66,15 +100,20 @@ export const runBot = async () => {
     };
 
     const withAdminAuthCallback = (handler: (query: TelegramBot.CallbackQuery) => void) => (query: TelegramBot.CallbackQuery) => {
-        if (adminId && query.from?.id.toString() !== adminId) {
+        if (!isBotAdmin(query.from?.id)) {
             bot.answerCallbackQuery(query.id, { text: "⛔ You are not authorized." });
             return;
         }
+        if (query.data && !canUseCallback(query.from.id, query.data)) {
+            const role = getBotAdmin(query.from.id)!.role;
+            bot.answerCallbackQuery(query.id, { text: `⛔ Your role (${ADMIN_ROLES[role].label}) can't use this.` });
+            return;
+        }
         handler(query);
     };
     
     const withAdminAuthInline = (handler: (query: TelegramBot.InlineQuery) => void) => (query: TelegramBot.InlineQuery) => {
-        if (adminId && query.from?.id.toString() !== adminId) {
+        if (!isBotAdmin(query.from?.id)) {
              bot.answerInlineQuery(query.id, []);
              return;
         }
@@ -84,6 +123,7 @@ export const runBot = async () => {
 
     // --- ROUTING ---
     bot.onText(/\/start/, withAdminAuth((msg) => handleStartCommand(bot, msg)));
+    bot.onText(/\/cancel/, withAdminAuth((msg) => cancelConversation(bot, msg.chat.id, msg.from!.id)));
     bot.on('callback_query', withAdminAuthCallback((query) => handleCallbackQuery(bot, query, setupAutomationIntervals)));
     bot.on('inline_query', withAdminAuthInline((query) => handleInlineMovieSearch(bot, query)));
     bot.on('message', withAdminAuth((msg) => {
@@ -143,6 +183,8 @@ export const runBot = async () => {
     process.on('SIGINT', () => {
         console.log("SIGINT received. Shutting down bot polling...");
         if(autonomousFinderInterval) clearInterval(autonomousFinderInterval);
+        clearInterval(trashPurgeInterval);
+        clearInterval(conversationPurgeInterval);
         bot.stopPolling().then(() => {
             console.log("Bot polling stopped.");
             process.exit(0);
@@ -151,6 +193,8 @@ export const runBot = async () => {
     process.on('SIGTERM', () => {
         console.log("SIGTERM received. Shutting down bot polling...");
         if(autonomousFinderInterval) clearInterval(autonomousFinderInterval);
+        clearInterval(trashPurgeInterval);
+        clearInterval(conversationPurgeInterval);
         bot.stopPolling().then(() => {
             console.log("Bot polling stopped.");
             process.exit(0);
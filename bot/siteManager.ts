@@ -6,10 +6,13 @@ import fs from 'fs';
 import path from 'path';
 import { SiteConfig, Movie } from './types';
 import { setUserState, getUserState, clearUserState, atomicWrite } from './utils';
+import { moviesRepository, usersRepository } from '../server/storage';
+import { recordAudit, registerAuditEntity } from './auditManager';
+import { notifyAdmins } from './adminManager';
+import { registerConversation } from './conversationManager';
 
 const CONFIG_PATH = path.join(process.cwd(), 'data/siteConfig.json');
 const ANNOUNCEMENT_PATH = path.join(process.cwd(), 'data/announcement.json');
-const MOVIES_PATH = path.join(process.cwd(), 'data/movies.json');
 
 const readConfig = (): SiteConfig => {
     try {
@@ -30,10 +33,50 @@ const readConfig = (): SiteConfig => {
 };
 const writeConfig = (config: SiteConfig) => atomicWrite(CONFIG_PATH, JSON.stringify(config, null, 2));
 
+/**
+ * Write the config and record the change in the audit log. `before` must be a
+ * snapshot taken before `config` was mutated.
+ */
+const saveConfig = (adminId: number, action: string, before: SiteConfig, config: SiteConfig) => {
+    writeConfig(config);
+    if (JSON.stringify(before) !== JSON.stringify(config)) {
+        recordAudit({ adminId, action, entityType: 'siteConfig', entityId: 'siteConfig', before, after: config });
+    }
+};
+
+const readAnnouncement = () => {
+    try {
+        return JSON.parse(fs.readFileSync(ANNOUNCEMENT_PATH, 'utf-8'));
+    } catch (error) {
+        return { message: "", active: false };
+    }
+};
+
+/**
+ * Put up (or, with an empty message, take down) the site-wide announcement banner
+ */
+export const publishAnnouncement = (message: string, adminId: number | string) => {
+    const previous = readAnnouncement();
+    const announcement = { message, active: message !== "" };
+    atomicWrite(ANNOUNCEMENT_PATH, JSON.stringify(announcement, null, 2));
+    recordAudit({ adminId, action: message ? 'announcement.set' : 'announcement.clear', entityType: 'announcement', entityId: 'announcement', before: previous, after: announcement });
+};
+
+registerAuditEntity('siteConfig', {
+    label: 'Site config',
+    read: () => readConfig(),
+    write: (_id, snapshot) => writeConfig(snapshot)
+});
+registerAuditEntity('announcement', {
+    label: 'Announcement',
+    read: () => readAnnouncement(),
+    write: (_id, snapshot) => atomicWrite(ANNOUNCEMENT_PATH, JSON.stringify(snapshot || { message: "", active: false }, null, 2))
+});
+registerConversation('sitesettings_update_', { label: 'updating the site settings' });
+
 const readMovies = (): Movie[] => {
     try {
-        const data = fs.readFileSync(MOVIES_PATH, 'utf-8');
-        return JSON.parse(data);
+        return moviesRepository.all();
     } catch (error) { return []; }
 };
 
@@ -47,7 +90,8 @@ export const showSiteSettingsMenu = (bot: TelegramBot, chatId: number, messageId
         `*Name:* ${config.name}\n` +
         `*Tagline:* ${config.tagline}\n` +
         `*Copyright:* © ${config.copyrightYear} ${config.name}\n`+
-        `*Featured Movie:* ${featuredMovie ? featuredMovie.title : 'None set'}`,
+        `*Featured Movie:* ${featuredMovie ? featuredMovie.title : 'None set'}\n` +
+        `*Staff 2FA:* ${config.requireStaffTwoFactor ? '🔐 Required' : 'Optional'}`,
         {
             chat_id: chatId,
             message_id: messageId,
@@ -58,6 +102,7 @@ export const showSiteSettingsMenu = (bot: TelegramBot, chatId: number, messageId
                     [{ text: "✏️ Edit Copyright", callback_data: "sitesettings_edit_copyright" }],
                     [{ text: "📞 Edit Contact Info", callback_data: "sitesettings_contact_menu" }, { text: "🌐 Edit Social Links", callback_data: "sitesettings_socials_menu" }],
                     [{ text: "🌟 Set Featured Movie", callback_data: "sitesettings_set_featured" }, { text: "📢 Broadcast Message", callback_data: "sitesettings_broadcast" }],
+                    [{ text: `🔐 ${config.requireStaffTwoFactor ? 'Make Staff 2FA Optional' : 'Require Staff 2FA'}`, callback_data: "sitesettings_toggle_staff2fa" }],
                     [{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]
                 ]
             }
@@ -168,10 +213,24 @@ export const handleSiteSettingsCallback = (bot: TelegramBot, query: TelegramBot.
         const platform = data.replace('sitesettings_social_', '');
         setUserState(userId, { command: `sitesettings_update_social_${platform}`, platform });
         bot.sendMessage(chatId, `Enter the new full URL for ${platform.charAt(0).toUpperCase() + platform.slice(1)} (send 'remove' to hide it):`);
+    } else if (data === 'sitesettings_toggle_staff2fa') {
+        const before = readConfig();
+        config.requireStaffTwoFactor = !config.requireStaffTwoFactor;
+        saveConfig(userId, 'siteConfig.toggleStaffTwoFactor', before, config);
+        // Staff who haven't enrolled keep signing in but lose staff powers until they do
+        const notEnrolled = usersRepository.all()
+            .filter(user => (user.role === 'admin' || user.role === 'moderator') && !user.twoFactor).length;
+        const text = config.requireStaffTwoFactor
+            ? `🔐 2FA is now required for staff.${notEnrolled ? ` ${notEnrolled} staff account(s) must set it up on their profile first.` : ''}`
+            : '2FA is now optional for staff.';
+        bot.answerCallbackQuery(query.id, { text, show_alert: notEnrolled > 0 && !!config.requireStaffTwoFactor });
+        showSiteSettingsMenu(bot, chatId, messageId);
+        return;
     } else if (data.startsWith('sitesettings_feature_')) {
         const movieId = data.replace('sitesettings_feature_', '');
+        const before = readConfig();
         config.featuredMovieId = movieId === 'clear' ? null : movieId;
-        writeConfig(config);
+        saveConfig(userId, 'siteConfig.setFeatured', before, config);
         const movie = readMovies().find(m => m.id === movieId);
         const message = movieId === 'clear' ? "Featured movie has been cleared." : `"${movie?.title}" is now the featured movie.`;
         bot.answerCallbackQuery(query.id, { text: `✅ ${message}` });
@@ -192,8 +251,9 @@ export const handleLiveTvSettingsCallback = (bot: TelegramBot, query: TelegramBo
     const config = readConfig();
 
     if (data === 'livetv_toggle') {
+        const before = readConfig();
         config.liveTvEnabled = !config.liveTvEnabled;
-        writeConfig(config);
+        saveConfig(userId, 'siteConfig.toggleLiveTv', before, config);
         bot.answerCallbackQuery(query.id, { text: `Live TV is now ${config.liveTvEnabled ? 'ON' : 'OFF'}` });
         showLiveTvMenu(bot, chatId, messageId);
     } else if (data === 'livetv_set_url') {
@@ -215,6 +275,7 @@ export const handleSiteUpdateResponse = (bot: TelegramBot, msg: TelegramBot.Mess
     if (!state || !state.command.startsWith('sitesettings_update_')) return;
 
     const config = readConfig();
+    const before = readConfig();
     let success = true;
 
     if (state.command === 'sitesettings_update_name') {
@@ -249,9 +310,9 @@ export const handleSiteUpdateResponse = (bot: TelegramBot, msg: TelegramBot.Mess
         }
     } else if (state.command === 'sitesettings_update_broadcast') {
         const isClear = text.toLowerCase() === 'clear';
-        const announcement = { message: isClear ? "" : text, active: !isClear };
-        atomicWrite(ANNOUNCEMENT_PATH, JSON.stringify(announcement, null, 2));
+        publishAnnouncement(isClear ? "" : text, userId);
         bot.sendMessage(userId, `✅ Success! ${isClear ? "Broadcast message cleared." : "Broadcast message is now active."}`);
+        notifyAdmins(bot, 'broadcast', isClear ? "📢 The site broadcast message was cleared." : `📢 New site broadcast message:\n\n${text}`, {}, userId);
     } else if (state.command === 'sitesettings_update_livetv_url') {
         if (text.startsWith('http') && text.endsWith('.m3u8')) {
             config.liveTvUrl = text;
@@ -263,7 +324,7 @@ export const handleSiteUpdateResponse = (bot: TelegramBot, msg: TelegramBot.Mess
     }
 
     if (success) {
-        writeConfig(config);
+        saveConfig(userId, state.command.replace('sitesettings_update_', 'siteConfig.'), before, config);
     }
     clearUserState(userId);
 };
@@ -0,0 +1,183 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { TrashedItem, TrashableType } from './types';
+import { trashRepository } from '../server/storage';
+import { recordAudit } from './auditManager';
+
+const RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10) || 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How to bring one kind of trashed record back, and how to clean up after it for good.
+ * Managers register one for each type they move to the trash.
+ */
+interface TrashTypeHandler {
+    label: string;
+    /** Whether a live record with this id exists (restoring over it is refused) */
+    exists: (entityId: string) => boolean;
+    restore: (data: any) => void;
+    /** Release anything the record still holds, e.g. its poster file */
+    purge?: (data: any) => Promise<void>;
+}
+
+const trashHandlers: Partial<Record<TrashableType, TrashTypeHandler>> = {};
+
+export const registerTrashType = (entityType: TrashableType, handler: TrashTypeHandler) => {
+    trashHandlers[entityType] = handler;
+};
+
+export const getTrashRetentionDays = () => RETENTION_DAYS;
+
+/**
+ * Keep a deleted record restorable for the retention window. The caller removes the
+ * live record; comments, watchlists and history that point at it are left untouched.
+ */
+export const moveToTrash = (entityType: TrashableType, entityId: string, title: string, data: any, deletedBy: number | string): TrashedItem => {
+    const now = Date.now();
+    const item: TrashedItem = {
+        id: `trash-${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        entityType,
+        entityId,
+        title,
+        data,
+        deletedBy: String(deletedBy),
+        deletedAt: new Date(now).toISOString(),
+        purgeAt: new Date(now + RETENTION_DAYS * DAY_MS).toISOString()
+    };
+    trashRepository.save(item);
+    return item;
+};
+
+export const getTrash = (): TrashedItem[] =>
+    trashRepository.all().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+export const restoreFromTrash = (trashId: string, adminId: number | string): { ok: boolean; message: string } => {
+    const item = trashRepository.get(trashId);
+    if (!item) return { ok: false, message: 'That item is no longer in the trash.' };
+
+    const handler = trashHandlers[item.entityType];
+    if (!handler) return { ok: false, message: `Restoring ${item.entityType} items is not supported.` };
+    if (handler.exists(item.entityId)) {
+        return { ok: false, message: `A ${handler.label.toLowerCase()} with the id "${item.entityId}" already exists. Delete or rename it first.` };
+    }
+
+    handler.restore(item.data);
+    trashRepository.remove(item.id);
+    recordAudit({ adminId, action: `${item.entityType}.restore`, entityType: item.entityType, entityId: item.entityId, before: null, after: item.data, reversible: false });
+    return { ok: true, message: `Restored "${item.title}".` };
+};
+
+export const purgeTrashItem = async (trashId: string, adminId: number | string): Promise<boolean> => {
+    const item = trashRepository.get(trashId);
+    if (!item) return false;
+
+    try {
+        await trashHandlers[item.entityType]?.purge?.(item.data);
+    } catch (error) {
+        console.error(`Could not clean up trashed ${item.entityType} ${item.entityId}:`, error);
+    }
+    trashRepository.remove(item.id);
+    recordAudit({ adminId, action: `${item.entityType}.purge`, entityType: item.entityType, entityId: item.entityId, before: item.data, after: null, reversible: false });
+    return true;
+};
+
+/**
+ * Permanently delete everything whose retention window has passed. Run on a timer from bot/run.ts.
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+    const now = new Date().toISOString();
+    const expired = trashRepository.all().filter(item => item.purgeAt <= now);
+    for (const item of expired) {
+        await purgeTrashItem(item.id, 'retention');
+    }
+    if (expired.length > 0) console.log(`🗑️ Purged ${expired.length} expired item(s) from the trash.`);
+    return expired.length;
+};
+
+// --- BOT MENU ---
+
+const TYPE_ICONS: Record<TrashableType, string> = { movie: '🎬', collection: '📚', actor: '🎭' };
+
+const daysLeft = (item: TrashedItem) => Math.max(0, Math.ceil((new Date(item.purgeAt).getTime() - Date.now()) / DAY_MS));
+
+export const showTrashMenu = (bot: TelegramBot, chatId: number) => {
+    const items = getTrash();
+    if (items.length === 0) {
+        bot.sendMessage(chatId, `🗑️ The trash is empty.\n\nDeleted movies, collections and actors stay here for ${RETENTION_DAYS} days before they are removed for good.`, {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]] }
+        });
+        return;
+    }
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = items.slice(0, 50).map(item => ([{
+        text: `${TYPE_ICONS[item.entityType]} ${item.title} · ${daysLeft(item)}d left`,
+        callback_data: `trash_view_${item.id}`
+    }]));
+    keyboard.push([{ text: "🔥 Empty Trash", callback_data: "trash_empty" }]);
+    keyboard.push([{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]);
+
+    const more = items.length > 50 ? `\n\nShowing the 50 most recent of ${items.length}.` : '';
+    bot.sendMessage(chatId, `🗑️ Trash (${items.length})\n\nItems are removed for good ${RETENTION_DAYS} days after deletion. Select one to restore or purge it:${more}`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+const showTrashItem = (bot: TelegramBot, chatId: number, trashId: string) => {
+    const item = trashRepository.get(trashId);
+    if (!item) {
+        bot.sendMessage(chatId, "That item is no longer in the trash.", {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Trash", callback_data: "trash_menu" }]] }
+        });
+        return;
+    }
+
+    const label = trashHandlers[item.entityType]?.label || item.entityType;
+    bot.sendMessage(chatId, `${TYPE_ICONS[item.entityType]} ${item.title}\n\n${label} ID: ${item.entityId}\nDeleted: ${item.deletedAt.slice(0, 16).replace('T', ' ')} UTC by ${item.deletedBy}\nPurged in: ${daysLeft(item)} day(s)`, {
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: "♻️ Restore", callback_data: `trash_restore_${item.id}` }, { text: "🔥 Delete Forever", callback_data: `trash_purge_${item.id}` }],
+                [{ text: "⬅️ Back to Trash", callback_data: "trash_menu" }]
+            ]
+        }
+    });
+};
+
+export const handleTrashCallback = async (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const adminId = query.from.id;
+    const data = query.data;
+    const backToTrash = { reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Trash", callback_data: "trash_menu" }]] } };
+
+    if (data === 'trash_menu') {
+        showTrashMenu(bot, chatId);
+    } else if (data.startsWith('trash_view_')) {
+        showTrashItem(bot, chatId, data.replace('trash_view_', ''));
+    } else if (data.startsWith('trash_restore_')) {
+        const result = restoreFromTrash(data.replace('trash_restore_', ''), adminId);
+        bot.sendMessage(chatId, `${result.ok ? '✅' : '❌'} ${result.message}`, backToTrash);
+    } else if (data.startsWith('trash_purge_')) {
+        const item = trashRepository.get(data.replace('trash_purge_', ''));
+        if (item && await purgeTrashItem(item.id, adminId)) {
+            bot.sendMessage(chatId, `🔥 "${item.title}" was deleted permanently.`, backToTrash);
+        } else {
+            bot.sendMessage(chatId, "That item is no longer in the trash.", backToTrash);
+        }
+    } else if (data === 'trash_empty') {
+        bot.sendMessage(chatId, `⚠️ Permanently delete all ${trashRepository.all().length} item(s) in the trash? This cannot be undone.`, {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: "🔥 Yes, Empty Trash", callback_data: "trash_empty_confirm" }],
+                    [{ text: "⬅️ Cancel", callback_data: "trash_menu" }]
+                ]
+            }
+        });
+    } else if (data === 'trash_empty_confirm') {
+        const items = trashRepository.all();
+        for (const item of items) {
+            await purgeTrashItem(item.id, adminId);
+        }
+        bot.sendMessage(chatId, `🔥 Emptied the trash (${items.length} item(s)).`, {
+            reply_markup: { inline_keyboard: [[{ text: "⬅️ Back to Main Menu", callback_data: "main_menu" }]] }
+        });
+    }
+};
@@ -19,8 +19,23 @@ export interface Movie {
   updatedAt: string;
   trailerId?: string;
   status?: 'coming-soon';
+  /** When a coming-soon title is (or was) released by the publishing scheduler */
+  publishAt?: string;
+  /** Put up a site announcement when the scheduler releases it */
+  announceOnPublish?: boolean;
   seriesTitle?: string;
   partNumber?: number;
+  seriesId?: string;
+}
+
+// A multi-part film (Part 1, Part 2, ...) treated as one unit. `partIds` is the viewing order.
+export interface Series {
+  id: string;
+  title: string;
+  poster: string;
+  partIds: string[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface SiteConfig {
@@ -29,6 +44,8 @@ export interface SiteConfig {
     featuredMovieId?: string | null;
     liveTvEnabled: boolean;
     liveTvUrl: string;
+    /** Website admins and moderators must use an authenticator app to sign in */
+    requireStaffTwoFactor?: boolean;
     copyrightYear: string;
     contact: {
         email: string;
@@ -61,6 +78,31 @@ export interface User {
     role?: string;
 }
 
+export type BotAdminRole = 'owner' | 'editor' | 'livetv-operator' | 'moderator';
+
+// A Telegram account allowed to use the admin bot; `id` is the Telegram user id
+export interface BotAdmin {
+    id: string;
+    name: string;
+    role: BotAdminRole;
+    addedBy: string;
+    addedAt: string;
+}
+
+export type TrashableType = 'movie' | 'collection' | 'actor';
+
+// A deleted record kept restorable until `purgeAt`; `data` is the record as it was
+export interface TrashedItem {
+    id: string;
+    entityType: TrashableType;
+    entityId: string;
+    title: string;
+    data: any;
+    deletedBy: string;
+    deletedAt: string;
+    purgeAt: string;
+}
+
 // Defines the state for a user interacting with the bot in a multi-step process
 export interface UserState {
     command: string;
@@ -68,4 +110,9 @@ export interface UserState {
     movieData?: any; 
     collectionData?: any;
     [key: string]: any;
-}
\ No newline at end of file
+}
+// A wizard state as kept between bot restarts; it is dropped once it has sat unused past the TTL
+export interface StoredUserState {
+    state: UserState;
+    updatedAt: string;
+}
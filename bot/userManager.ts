@@ -2,19 +2,60 @@
 declare const __dirname: string;
 
 import TelegramBot from 'node-telegram-bot-api';
-import fs from 'fs';
-import path from 'path';
-import { User } from './types';
 import { setUserState, getUserState, clearUserState } from './utils';
+import { UserRecord, usersRepository } from '../server/storage';
+import { LOCKOUT_MINUTES, getAccountThrottle, onAccountLocked, setAccountThrottle } from '../server/loginSecurity';
+import { recordAudit, registerAuditEntity } from './auditManager';
+import { notifyAdmins, visibleButtons } from './adminManager';
+import { deleteAllUserSessions, deleteUserSession, listUserSessions } from '../api/sessionStore';
+import { describeLastSeen, describeUserAgent } from '../server/userAgent';
 
-const USERS_PATH = path.join(process.cwd(), 'data', 'users.json');
+// Only the role is snapshotted: the audit log must never hold password hashes
+registerAuditEntity('user', {
+    label: 'User',
+    read: (userId) => {
+        const user = usersRepository.get(userId);
+        return user ? { role: user.role || 'user' } : null;
+    },
+    write: (userId, snapshot) => {
+        const user = usersRepository.get(userId);
+        if (!user || !snapshot) throw new Error('User no longer exists.');
+        user.role = snapshot.role;
+        usersRepository.save(user);
+    }
+});
+
+registerAuditEntity('loginLock', {
+    label: 'Sign-in lock',
+    read: (userId) => getAccountThrottle(userId) || null,
+    write: (userId, snapshot) => {
+        if (!usersRepository.get(userId)) throw new Error('User no longer exists.');
+        setAccountThrottle(userId, snapshot || undefined);
+    }
+});
 
-const readUsers = (): User[] => {
-    try {
-        if (!fs.existsSync(USERS_PATH)) return [];
-        const data = fs.readFileSync(USERS_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch { return []; }
+const formatTime = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * Tell admins when repeated failed sign-ins lock an account, with a one-tap unlock
+ */
+export const startLockoutAlerts = (bot: TelegramBot): (() => void) =>
+    onAccountLocked(({ user, ipAddress, failures, lockedUntil }) => {
+        notifyAdmins(bot, 'security',
+            `🔒 Account locked after ${failures} failed sign-ins\n\n` +
+            `👤 ${user.name} (${user.email})\n` +
+            `🌐 Last attempt from ${ipAddress}\n` +
+            `⏳ Locked for ${LOCKOUT_MINUTES} min, until ${formatTime(lockedUntil)} UTC`, {
+            reply_markup: { inline_keyboard: [[{ text: "🔓 Unlock Sign-in", callback_data: `user_unlock_${user.id}` }]] }
+        });
+    });
+
+const describeSignIn = (user: UserRecord) => {
+    const throttle = getAccountThrottle(user.id);
+    if (!throttle) return '';
+    return throttle.lockedUntil
+        ? `\n*Sign-in:* 🔒 locked until ${formatTime(throttle.lockedUntil)} UTC (${throttle.failures} failures)`
+        : `\n*Sign-in:* ⚠️ ${throttle.failures} recent failed attempt(s)`;
 };
 
 export const startUserLookup = (bot: TelegramBot, chatId: number) => {
@@ -27,26 +68,30 @@ export const handleUserLookupResponse = (bot: TelegramBot, msg: TelegramBot.Mess
     const email = msg.text;
     if (!email) return;
 
-    const users = readUsers();
-    const foundUser = users.find(u => u.email.toLowerCase() === email.toLowerCase());
+    const foundUser = usersRepository.findOneBy('email', email, { ignoreCase: true });
 
     if (foundUser) {
         const userDetails = `*User Found*\n\n` +
                             `*ID:* \`${foundUser.id}\`\n` +
                             `*Name:* ${foundUser.name}\n` +
                             `*Email:* ${foundUser.email}\n` +
-                            `*Role:* ${foundUser.role || 'user'}`;
+                            `*Role:* ${foundUser.role || 'user'}` +
+                            describeSignIn(foundUser);
+        const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+            [
+                { text: "Set as Admin", callback_data: `set_role_admin_${foundUser.id}` },
+                { text: "Set as Moderator", callback_data: `set_role_moderator_${foundUser.id}` }
+            ],
+            [{ text: "Set as User", callback_data: `set_role_user_${foundUser.id}` }]
+        ];
+        if (getAccountThrottle(foundUser.id)) {
+            keyboard.push([{ text: "🔓 Unlock Sign-in", callback_data: `user_unlock_${foundUser.id}` }]);
+        }
+        keyboard.push([{ text: `📱 Devices (${listUserSessions(foundUser.id).length})`, callback_data: `user_sessions_${foundUser.id}` }]);
         bot.sendMessage(userId, userDetails, { 
             parse_mode: 'Markdown',
-            reply_markup: {
-                inline_keyboard: [
-                    [
-                        { text: "Set as Admin", callback_data: `set_role_admin_${foundUser.id}` },
-                        { text: "Set as Moderator", callback_data: `set_role_moderator_${foundUser.id}` }
-                    ],
-                    [{ text: "Set as User", callback_data: `set_role_user_${foundUser.id}` }]
-                ]
-            }
+            // Role changes are owner-only; moderators could otherwise make anyone a site admin
+            reply_markup: { inline_keyboard: visibleButtons(userId, keyboard) }
         });
     } else {
         bot.sendMessage(userId, `No user found with the email: ${email}`);
@@ -63,18 +108,24 @@ export const handleSetUserRole = (bot: TelegramBot, query: TelegramBot.CallbackQ
     const role = parts[2]; // admin, moderator, or user
     const targetUserId = parts.slice(3).join('_');
 
-    const users = readUsers();
-    const userIndex = users.findIndex(u => u.id === targetUserId);
+    const user = usersRepository.get(targetUserId);
 
-    if (userIndex === -1) {
+    if (!user) {
         bot.answerCallbackQuery(query.id, { text: "User not found." });
         return;
     }
 
-    users[userIndex].role = role;
-    
-    const USERS_PATH = path.join(process.cwd(), 'data', 'users.json');
-    fs.writeFileSync(USERS_PATH, JSON.stringify(users, null, 2), 'utf-8');
+    const previousRole = user.role || 'user';
+    user.role = role;
+    usersRepository.save(user);
+    recordAudit({
+        adminId: query.from.id,
+        action: 'user.setRole',
+        entityType: 'user',
+        entityId: user.id,
+        before: { role: previousRole },
+        after: { role }
+    });
 
     const roleLabel = role === 'admin' ? 'Admin' : role === 'moderator' ? 'Moderator' : 'User';
     bot.answerCallbackQuery(query.id, { text: `✅ User role updated to ${roleLabel}` });
@@ -84,3 +135,109 @@ export const handleSetUserRole = (bot: TelegramBot, query: TelegramBot.CallbackQ
     });
     bot.sendMessage(query.message!.chat.id, `✅ User role updated to *${roleLabel}*`, { parse_mode: 'Markdown' });
 };
+
+/**
+ * Clear an account's failed sign-ins and lock, from the lookup view or a lockout alert
+ */
+export const handleUnlockUser = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const targetUserId = query.data.replace('user_unlock_', '');
+    const user = usersRepository.get(targetUserId);
+
+    if (!user) {
+        bot.answerCallbackQuery(query.id, { text: "User not found." });
+        return;
+    }
+
+    const before = getAccountThrottle(user.id);
+    bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+        chat_id: query.message.chat.id,
+        message_id: query.message.message_id
+    }).catch(() => undefined);
+    if (!before) {
+        bot.answerCallbackQuery(query.id, { text: "This account is not locked." });
+        return;
+    }
+
+    setAccountThrottle(user.id, undefined);
+    recordAudit({
+        adminId: query.from.id,
+        action: 'user.unlockSignIn',
+        entityType: 'loginLock',
+        entityId: user.id,
+        before,
+        after: null
+    });
+    bot.answerCallbackQuery(query.id, { text: "🔓 Sign-in unlocked" });
+    bot.sendMessage(query.message.chat.id, `🔓 ${user.name} (${user.email}) can sign in again.`);
+};
+
+const showUserSessions = (bot: TelegramBot, chatId: number, user: UserRecord) => {
+    const sessions = listUserSessions(user.id);
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = sessions.map(({ id, session }) => ([{
+        text: `❌ ${describeUserAgent(session.userAgent).label} · ${describeLastSeen(session.lastActivity)}`,
+        callback_data: `user_kill_${user.id}_${id}`
+    }]));
+    if (sessions.length > 1) keyboard.push([{ text: "🚪 Sign Out Everywhere", callback_data: `user_killall_${user.id}` }]);
+
+    const lines = sessions.map(({ session }) =>
+        `• ${describeUserAgent(session.userAgent).label} from ${session.ipAddress || 'unknown IP'}, ` +
+        `signed in ${formatTime(session.createdAt)} UTC, ${describeLastSeen(session.lastActivity).toLowerCase()}`);
+    bot.sendMessage(chatId, sessions.length === 0
+        ? `📱 ${user.name} is not signed in anywhere.`
+        : `📱 ${user.name} is signed in on ${sessions.length} device(s):\n\n${lines.join('\n')}\n\nTap a device to sign it out:`, {
+        reply_markup: { inline_keyboard: keyboard }
+    });
+};
+
+/**
+ * The Devices view from User Lookup: list a user's sessions and sign out one or all of them
+ */
+export const handleUserSessionsCallback = (bot: TelegramBot, query: TelegramBot.CallbackQuery) => {
+    if (!query.data || !query.message) return;
+    const chatId = query.message.chat.id;
+    const data = query.data;
+
+    // Session ids are hex, so the last underscore separates them from the user id
+    const [, action, rest] = data.match(/^user_(sessions|killall|kill)_(.+)$/) || [];
+    const userId = action === 'kill' ? rest.slice(0, rest.lastIndexOf('_')) : rest;
+    const user = userId ? usersRepository.get(userId) : undefined;
+    if (!user) {
+        bot.answerCallbackQuery(query.id, { text: "User not found." });
+        return;
+    }
+
+    if (action === 'kill') {
+        const sessionId = rest.slice(rest.lastIndexOf('_') + 1);
+        const revoked = deleteUserSession(user.id, sessionId);
+        if (!revoked) {
+            bot.answerCallbackQuery(query.id, { text: "That session has already ended." });
+        } else {
+            const device = describeUserAgent(revoked.userAgent).label;
+            recordAudit({
+                adminId: query.from.id,
+                action: 'user.revokeSession',
+                entityType: 'user',
+                entityId: user.id,
+                before: { device, ipAddress: revoked.ipAddress },
+                after: null,
+                reversible: false
+            });
+            bot.answerCallbackQuery(query.id, { text: `🚪 Signed out ${device}` });
+        }
+    } else if (action === 'killall') {
+        const count = listUserSessions(user.id).length;
+        deleteAllUserSessions(user.id);
+        recordAudit({
+            adminId: query.from.id,
+            action: 'user.revokeAllSessions',
+            entityType: 'user',
+            entityId: user.id,
+            before: { sessions: count },
+            after: null,
+            reversible: false
+        });
+        bot.answerCallbackQuery(query.id, { text: `🚪 Signed out ${count} device(s)` });
+    }
+    showUserSessions(bot, chatId, user);
+};
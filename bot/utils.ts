@@ -1,31 +1,53 @@
 
-import { UserState } from './types';
+import { StoredUserState, UserState } from './types';
 import fs from 'fs';
 import path from 'path';
+import { userStatesRepository } from '../server/storage';
 
-// In-memory store for user conversation states.
-// In a production bot, this should be a persistent store like Redis or a database.
-const userStates: { [userId: number]: UserState } = {};
+// Wizard states left untouched for longer than this are treated as abandoned
+const STATE_TTL_MS = (parseFloat(process.env.BOT_STATE_TTL_HOURS || '24') || 24) * 60 * 60 * 1000;
+
+// Conversation states are persisted so a restart mid-flow can be resumed. This map is a
+// write-through cache: handlers get the same object back and may mutate it before saving.
+const userStates: { [userId: number]: StoredUserState } = {};
+
+export const isUserStateExpired = (stored: StoredUserState) => Date.now() - Date.parse(stored.updatedAt) > STATE_TTL_MS;
 
 export const setUserState = (userId: number, state: UserState) => {
-    userStates[userId] = state;
+    const stored: StoredUserState = { state, updatedAt: new Date().toISOString() };
+    userStates[userId] = stored;
+    try {
+        userStatesRepository.set(String(userId), stored);
+    } catch (error) {
+        console.error(`Could not persist conversation state for ${userId}:`, error);
+    }
 };
 
-export const getUserState = (userId: number): UserState | undefined => {
+/**
+ * The stored state for a user, expired or not. Use getUserState for live conversations.
+ */
+export const getStoredUserState = (userId: number): StoredUserState | undefined => {
+    if (!userStates[userId]) {
+        const stored = userStatesRepository.get(String(userId));
+        if (stored) userStates[userId] = stored;
+    }
     return userStates[userId];
 };
 
-export const clearUserState = (userId: number) => {
-    delete userStates[userId];
+export const getUserState = (userId: number): UserState | undefined => {
+    const stored = getStoredUserState(userId);
+    return stored && !isUserStateExpired(stored) ? stored.state : undefined;
 };
 
-export const clearAllUserStates = () => {
-    for (const key in userStates) {
-        delete userStates[key];
-    }
-    console.log("Cleared all user states.");
+export const clearUserState = (userId: number) => {
+    delete userStates[userId];
+    userStatesRepository.remove(String(userId));
 };
 
+export const getAllStoredUserStates = (): [number, StoredUserState][] =>
+    userStatesRepository.entries()
+        .filter((entry): entry is [string, StoredUserState] => !!entry[1])
+        .map(([userId, stored]) => [Number(userId), userStates[Number(userId)] || stored]);
 
 /**
  * Performs an atomic write to a file to prevent data corruption.
@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getSession } from '../services/storageService';
+
+interface ChatMessage {
+  id: string;
+  userId: string;
+  name: string;
+  text: string;
+  date: string;
+  /** Only on the author's own held messages, and on everyone's for staff */
+  status?: 'held';
+  flags?: string[];
+}
+
+interface ChatState {
+  messages: ChatMessage[];
+  slowModeSeconds: number;
+  canModerate: boolean;
+}
+
+const CHAT_EVENTS = ['chat-message', 'chat-delete', 'chat-held', 'chat-settings'];
+const POLL_MS = 3000;
+const MAX_LENGTH = 300;
+// What the server sends in one page; older messages scroll off
+const HISTORY_LIMIT = 50;
+
+const authHeaders = (): Record<string, string> => {
+  const session = getSession();
+  return session
+    ? { 'Authorization': `Bearer ${session.token}`, 'X-CSRF-Token': session.csrfToken || '', 'Content-Type': 'application/json' }
+    : { 'Content-Type': 'application/json' };
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// New messages are appended; an approved one replaces its held copy
+const upsertMessage = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.some(m => m.id === message.id)
+    ? messages.map(m => (m.id === message.id ? message : m))
+    : [...messages, message].slice(-HISTORY_LIMIT);
+
+/**
+ * Live chat beside the broadcast. Everyone can read it; signed-in users can post, once per
+ * slow-mode interval. Staff can remove messages and mute their authors.
+ *
+ * Changes arrive on the page's Live TV event stream; the chat only polls when there is none.
+ */
+const LiveTvChat: React.FC<{ events: EventSource | null }> = ({ events }) => {
+  const { currentUser } = useAuth();
+  const location = useLocation();
+  const [chat, setChat] = useState<ChatState>({ messages: [], slowModeSeconds: 0, canModerate: false });
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const listRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+  const canModerate = useRef(false);
+  canModerate.current = chat.canModerate;
+
+  const fetchChat = async () => {
+    try {
+      const response = await fetch('/api/livetv/chat', { headers: authHeaders() });
+      if (!response.ok) throw new Error('Failed to load chat');
+      setChat(await response.json());
+    } catch (err) {
+      console.error('Error loading Live TV chat:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchChat();
+
+    let interval: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (!interval) interval = setInterval(fetchChat, POLL_MS);
+    };
+    if (!events) {
+      startPolling();
+      return () => { if (interval) clearInterval(interval); };
+    }
+
+    const onEvent = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (event.type === 'chat-message') {
+          setChat(prev => ({ ...prev, messages: upsertMessage(prev.messages, data) }));
+        } else if (event.type === 'chat-delete') {
+          setChat(prev => ({ ...prev, messages: prev.messages.filter(m => m.id !== data.id) }));
+        } else if (event.type === 'chat-held') {
+          // Held messages aren't sent on the public stream; staff fetch them
+          if (canModerate.current) fetchChat();
+        } else if (event.type === 'chat-settings') {
+          setChat(prev => ({ ...prev, slowModeSeconds: data.slowModeSeconds }));
+        }
+      } catch (err) {
+        console.error('Error reading Live TV chat event:', err);
+      }
+    };
+    // Chat events aren't replayed after a reconnect, so the chat reloads instead
+    const onOpen = () => fetchChat();
+    const onError = () => {
+      if (events.readyState === EventSource.CLOSED) startPolling();
+    };
+    CHAT_EVENTS.forEach(type => events.addEventListener(type, onEvent as EventListener));
+    events.addEventListener('open', onOpen);
+    events.addEventListener('error', onError);
+    if (events.readyState === EventSource.CLOSED) startPolling();
+
+    return () => {
+      CHAT_EVENTS.forEach(type => events.removeEventListener(type, onEvent as EventListener));
+      events.removeEventListener('open', onOpen);
+      events.removeEventListener('error', onError);
+      if (interval) clearInterval(interval);
+    };
+  }, [currentUser?.id, events]);
+
+  // Follow new messages unless the viewer has scrolled up to read older ones
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && stickToBottom.current) list.scrollTop = list.scrollHeight;
+  }, [chat.messages]);
+
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  const cooldown = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+
+  const sendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || sending || cooldown > 0) return;
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/livetv/chat', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ text })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        if (data.retryAfter) {
+          setNow(Date.now());
+          setCooldownUntil(Date.now() + data.retryAfter * 1000);
+        }
+        throw new Error(data.error || 'Failed to send message');
+      }
+      setText('');
+      stickToBottom.current = true;
+      setChat(prev => ({ ...prev, messages: upsertMessage(prev.messages, data.message) }));
+      if (chat.slowModeSeconds > 0 && !chat.canModerate) {
+        setNow(Date.now());
+        setCooldownUntil(Date.now() + chat.slowModeSeconds * 1000);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const removeMessage = async (message: ChatMessage, mute: boolean) => {
+    if (mute && !window.confirm(`Remove this message and mute ${message.name}?`)) return;
+    try {
+      const response = await fetch(`/api/livetv/chat/${encodeURIComponent(message.id)}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+        body: JSON.stringify({ mute })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to remove message');
+      }
+      setChat(prev => ({ ...prev, messages: prev.messages.filter(m => m.id !== message.id) }));
+    } catch (err: any) {
+      alert(err.message || 'Failed to remove message');
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg border border-gray-700 flex flex-col h-96">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white">💬 Live Chat</h3>
+        {chat.slowModeSeconds > 0 && (
+          <span className="text-xs text-gray-400">🐢 Slow mode: {chat.slowModeSeconds}s</span>
+        )}
+      </div>
+
+      <div
+        ref={listRef}
+        onScroll={() => {
+          const list = listRef.current;
+          if (list) stickToBottom.current = list.scrollHeight - list.scrollTop - list.clientHeight < 40;
+        }}
+        className="flex-1 overflow-y-auto px-4 py-3 space-y-2"
+      >
+        {chat.messages.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center mt-8">No messages yet. Say hello!</p>
+        ) : chat.messages.map(message => (
+          <div key={message.id} className={`group text-sm ${message.status === 'held' ? 'opacity-60' : ''}`}>
+            <span className="text-gray-500 text-xs mr-2">{formatTime(message.date)}</span>
+            <span className={`font-semibold mr-1 ${message.userId === currentUser?.id ? 'text-green-400' : 'text-purple-400'}`}>{message.name}:</span>
+            <span className="text-gray-200 break-words">{message.text}</span>
+            {message.status === 'held' && (
+              <span className="ml-2 text-xs text-yellow-400" title={message.flags?.join(', ')}>
+                {chat.canModerate && message.flags ? `Held (${message.flags.join(', ')})` : 'Waiting for review'}
+              </span>
+            )}
+            {chat.canModerate && (
+              <span className="ml-2 hidden group-hover:inline">
+                <button onClick={() => removeMessage(message, false)} className="text-xs text-red-400 hover:text-red-300 mr-2">Remove</button>
+                {message.userId !== currentUser?.id && (
+                  <button onClick={() => removeMessage(message, true)} className="text-xs text-red-400 hover:text-red-300">Remove &amp; mute</button>
+                )}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-gray-700">
+        {currentUser ? (
+          <form onSubmit={sendMessage} className="flex gap-2">
+            <input
+              type="text"
+              value={text}
+              maxLength={MAX_LENGTH}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={cooldown > 0 ? `Wait ${cooldown}s to send another message` : 'Say something...'}
+              className="flex-1 px-3 py-2 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={sending || cooldown > 0 || !text.trim()}
+              className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg font-bold hover:bg-purple-500 disabled:opacity-50"
+            >
+              {cooldown > 0 ? `${cooldown}s` : 'Send'}
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-400 text-center">
+            <Link to="/login" state={{ from: location.pathname }} className="text-purple-400 hover:underline">Log in</Link> to join the chat.
+          </p>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LiveTvChat;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from './icons/Icons';
+
+interface GuideEntry {
+  id: string;
+  sourceId: string;
+  title: string;
+  type: 'youtube' | 'hls';
+  description?: string;
+  poster?: string;
+  startsAt: string;
+  endsAt: string | null;
+  scheduled: boolean;
+  blockTitle?: string;
+}
+
+interface ProgramGuide {
+  now: string;
+  utcOffset: string;
+  current: GuideEntry | null;
+  next: GuideEntry | null;
+  entries: GuideEntry[];
+  weekly: { id: string; title: string; day: string; startTime: string }[];
+}
+
+const REFRESH_MS = 60 * 1000;
+const GRID_HOURS = 12;
+const PX_PER_MINUTE = 4;
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const Badge: React.FC<{ entry: GuideEntry }> = ({ entry }) => entry.blockTitle ? (
+  <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded text-xs font-semibold">{entry.blockTitle}</span>
+) : entry.scheduled ? (
+  <span className="px-2 py-0.5 bg-blue-500/20 text-blue-400 rounded text-xs font-semibold">Scheduled</span>
+) : null;
+
+const NowNextCard: React.FC<{ label: string; entry: GuideEntry | null; now: number }> = ({ label, entry, now }) => {
+  const progress = entry?.endsAt
+    ? Math.min(100, Math.max(0, ((now - Date.parse(entry.startsAt)) / (Date.parse(entry.endsAt) - Date.parse(entry.startsAt))) * 100))
+    : null;
+
+  return (
+    <div className="flex-1 bg-gray-800/50 rounded-lg border border-gray-700/50 p-4">
+      <p className="text-xs font-bold uppercase tracking-wide text-purple-400 mb-2">{label}</p>
+      {entry ? (
+        <>
+          <div className="flex items-center gap-2 mb-1">
+            <Badge entry={entry} />
+            <span className="text-gray-400 text-sm">
+              <ClockIcon className="inline w-4 h-4 mr-1" />
+              {formatTime(entry.startsAt)}{entry.endsAt ? ` – ${formatTime(entry.endsAt)}` : ''}
+            </span>
+          </div>
+          <h4 className="text-white font-semibold">{entry.title}</h4>
+          {label === 'Now' && progress !== null && (
+            <div className="mt-3 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500" style={{ width: `${progress}%` }} />
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-gray-500 text-sm">Nothing scheduled</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Program guide for the Live TV page: now/next, an hour-by-hour grid and the weekly shows
+ */
+const LiveTvGuide: React.FC = () => {
+  const [guide, setGuide] = useState<ProgramGuide | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const fetchGuide = async () => {
+      try {
+        const response = await fetch(`/api/livetv/schedule?hours=${GRID_HOURS}`);
+        if (!response.ok) throw new Error('Failed to load schedule');
+        setGuide(await response.json());
+        setNow(Date.now());
+      } catch (err) {
+        console.error('Error fetching live TV schedule:', err);
+      }
+    };
+
+    fetchGuide();
+    const interval = setInterval(fetchGuide, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!guide || (guide.entries.length === 0 && guide.weekly.length === 0)) return null;
+
+  // The grid starts on the hour so the time ruler lines up
+  const gridStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const gridEnd = gridStart + (GRID_HOURS + 1) * HOUR_MS;
+  const toPx = (time: number) => ((time - gridStart) / 60000) * PX_PER_MINUTE;
+  const hours = Array.from({ length: GRID_HOURS + 1 }, (_, i) => gridStart + i * HOUR_MS);
+
+  return (
+    <div className="max-w-6xl mx-auto bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg p-6 border border-gray-700 mt-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <span className="text-2xl">📅</span>
+        Program Guide
+      </h3>
+
+      <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <NowNextCard label="Now" entry={guide.current} now={now} />
+        <NowNextCard label="Next" entry={guide.next} now={now} />
+      </div>
+
+      {guide.entries.length > 0 && (
+        <div className="overflow-x-auto pb-2">
+          <div className="relative" style={{ width: toPx(gridEnd) }}>
+            <div className="relative h-6 border-b border-gray-700">
+              {hours.map(hour => (
+                <span key={hour} className="absolute text-xs text-gray-500" style={{ left: toPx(hour) }}>
+                  {formatTime(new Date(hour).toISOString())}
+                </span>
+              ))}
+            </div>
+            <div className="relative h-20 mt-2">
+              {guide.entries.map(entry => {
+                const start = Math.max(Date.parse(entry.startsAt), gridStart);
+                const end = Math.min(entry.endsAt ? Date.parse(entry.endsAt) : gridEnd, gridEnd);
+                if (end <= start) return null;
+                const onAir = entry.id === guide.current?.id;
+                return (
+                  <div
+                    key={entry.id}
+                    title={`${entry.title} · ${formatTime(entry.startsAt)}${entry.endsAt ? ` – ${formatTime(entry.endsAt)}` : ''}`}
+                    className={`absolute top-0 h-full rounded-md border px-2 py-1 overflow-hidden ${onAir
+                      ? 'bg-purple-500/30 border-purple-500'
+                      : entry.scheduled ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800 border-gray-700'}`}
+                    style={{ left: toPx(start), width: Math.max(toPx(end) - toPx(start) - 2, 2) }}
+                  >
+                    <p className="text-xs text-gray-400 truncate">{formatTime(entry.startsAt)}{entry.blockTitle ? ` · ${entry.blockTitle}` : ''}</p>
+                    <p className="text-sm text-white font-semibold truncate">{entry.title}</p>
+                  </div>
+                );
+              })}
+              <div className="absolute top-0 h-full w-0.5 bg-red-500" style={{ left: toPx(now) }} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {guide.weekly.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-bold uppercase tracking-wide text-gray-400 mb-2">Weekly Shows (UTC{guide.utcOffset})</h4>
+          <div className="flex flex-wrap gap-2">
+            {guide.weekly.map(show => (
+              <span key={show.id} className="px-3 py-1 bg-yellow-500/10 text-yellow-300 rounded-full text-sm border border-yellow-500/30">
+                {show.title} · {show.day}s {show.startTime}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTvGuide;
@@ -144,6 +144,12 @@ const MovieCard: React.FC<MovieCardProps> = ({ movie, animationDelay }) => {
         <h3 className="text-sm font-semibold text-white truncate group-hover:text-green-400 transition-colors duration-300">{movie.title}</h3>
         <div className="flex justify-between items-center mt-1 text-xs text-gray-400">
           <span>{movie.category}</span>
+          {movie.audienceRating && (
+            <span className="flex items-center gap-0.5" title={`Audience: ${movie.audienceRating.mean.toFixed(1)} from ${movie.audienceRating.count} rating${movie.audienceRating.count === 1 ? '' : 's'}`}>
+              <StarIcon className="w-3 h-3 text-green-400" />
+              {movie.audienceRating.mean.toFixed(1)}
+            </span>
+          )}
           <span>{new Date(movie.releaseDate).getFullYear()}</span>
         </div>
       </div>
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  /** Rendered width and height in pixels */
+  size?: number;
+  className?: string;
+}
+
+// Scanners need a light border four modules wide
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, className }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    let d = '';
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`;
+    }));
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+
+interface ReleaseCountdownProps {
+  publishAt: string;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Counts down to a scheduled release; the server flips the title live shortly after it reaches zero
+const ReleaseCountdown: React.FC<ReleaseCountdownProps> = ({ publishAt }) => {
+  const target = new Date(publishAt).getTime();
+  const [remaining, setRemaining] = useState(() => Math.max(0, target - Date.now()));
+
+  useEffect(() => {
+    const tick = () => {
+      const left = Math.max(0, target - Date.now());
+      setRemaining(left);
+      if (left === 0) clearInterval(timer);
+    };
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [target]);
+
+  if (remaining === 0) {
+    return (
+      <div className="inline-block w-full text-center sm:w-auto bg-gray-700 text-white font-bold py-3 px-10 rounded-full text-lg">
+        Releasing now&hellip;
+      </div>
+    );
+  }
+
+  const totalSeconds = Math.floor(remaining / 1000);
+  const units = [
+    { label: 'Days', value: Math.floor(totalSeconds / 86400) },
+    { label: 'Hours', value: Math.floor((totalSeconds % 86400) / 3600) },
+    { label: 'Mins', value: Math.floor((totalSeconds % 3600) / 60) },
+    { label: 'Secs', value: totalSeconds % 60 },
+  ];
+
+  return (
+    <div className="inline-block w-full sm:w-auto bg-gray-800 border border-gray-700 rounded-2xl px-6 py-4" aria-live="polite">
+      <p className="text-xs uppercase tracking-widest text-green-400 font-semibold mb-2 text-center">
+        Coming {new Date(publishAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+      </p>
+      <div className="flex justify-center gap-4">
+        {units.map(unit => (
+          <div key={unit.label} className="text-center">
+            <span className="block text-3xl font-black text-white tabular-nums">{pad(unit.value)}</span>
+            <span className="block text-xs text-gray-400">{unit.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReleaseCountdown;
@@ -7,6 +7,7 @@ import { SearchIcon } from './icons/Icons';
 import { findMovieByDescription } from '../services/aiService';
 import LoadingSpinner from './LoadingSpinner';
 import { useMovies } from '../contexts/MovieContext';
+import { movieRepository } from '../services/movieRepository';
 
 interface SearchBarProps {
   onSearch: () => void;
@@ -38,35 +39,39 @@ const SearchBar: React.FC<SearchBarProps> = ({ onSearch }) => {
         clearTimeout(searchTimeoutRef.current);
     }
     
-    if (query.length > 2 && movies.length > 0) {
+    const controller = new AbortController();
+
+    if (query.length > 2) {
       setIsAiSearching(false); // Reset AI search state on new query
-      const lowercasedQuery = query.toLowerCase();
-      const filteredMovies = movies.filter(movie =>
-        movie.title.toLowerCase().includes(lowercasedQuery) ||
-        movie.genre.toLowerCase().includes(lowercasedQuery) ||
-        movie.stars.some(star => star.toLowerCase().includes(lowercasedQuery))
-      ).slice(0, 5);
-      setResults(filteredMovies);
+      movieRepository.search(query, 5, controller.signal).then(foundMovies => {
+        setResults(foundMovies);
 
-      // If no initial results, trigger AI search after a short delay
-      if (filteredMovies.length === 0 && query.trim().split(' ').length >= 3) {
-        searchTimeoutRef.current = window.setTimeout(() => {
-          setIsAiSearching(true);
-          findMovieByDescription(query, movies).then(foundMovie => {
-              if (foundMovie) {
-                  setResults([foundMovie]);
-              }
-          }).finally(() => {
-              setIsAiSearching(false);
-          });
-        }, 800);
-      }
+        // If no index results, trigger AI search after a short delay
+        if (foundMovies.length === 0 && query.trim().split(' ').length >= 3 && movies.length > 0) {
+          searchTimeoutRef.current = window.setTimeout(() => {
+            setIsAiSearching(true);
+            findMovieByDescription(query, movies).then(foundMovie => {
+                if (foundMovie) {
+                    setResults([foundMovie]);
+                }
+            }).finally(() => {
+                setIsAiSearching(false);
+            });
+          }, 800);
+        }
+      }).catch(error => {
+        if (error.name !== 'AbortError') {
+          console.error('Search failed:', error);
+          setResults([]);
+        }
+      });
 
     } else {
       setResults([]);
       setIsAiSearching(false);
     }
      return () => {
+      controller.abort();
       if (searchTimeoutRef.current) {
         clearTimeout(searchTimeoutRef.current);
       }
@@ -1,11 +1,12 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '../services/types';
+import { LoginResult, User } from '../services/types';
 import * as storage from '../services/storageService';
 
 interface AuthContextType {
   currentUser: User | null;
-  login: (email: string, password: string) => Promise<User | null>;
+  login: (email: string, password: string) => Promise<LoginResult | null>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<User>;
   signup: (name: string, email: string, password: string, username: string) => Promise<User | null>;
   logout: () => void;
   loading: boolean;
@@ -29,17 +30,26 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setLoading(false);
   }, []);
 
-  const login = async (email: string, password: string): Promise<User | null> => {
+  const login = async (email: string, password: string): Promise<LoginResult | null> => {
     try {
-      const user = await storage.login(email, password);
-      setCurrentUser(user);
-      return user;
+      const result = await storage.login(email, password);
+      // A two-factor challenge isn't signed in yet
+      if ('twoFactorRequired' in result) return result;
+      setCurrentUser(result);
+      return result;
     } catch (error) {
         console.error("Login failed:", error);
         return null;
     }
   };
 
+  const completeTwoFactorLogin = async (challengeToken: string, code: string): Promise<User> => {
+    // Errors are re-thrown so the UI can show why the code was refused
+    const user = await storage.verifyTwoFactorLogin(challengeToken, code);
+    setCurrentUser(user);
+    return user;
+  };
+
   const signup = async (name: string, email: string, password: string, username: string): Promise<User | null> => {
     try {
       const newUser = await storage.signup(name, email, password, username);
@@ -66,8 +76,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
   
-  const isAdmin = currentUser?.role === 'admin';
-  const value = { currentUser, login, signup, logout, loading, isAdmin, updateCurrentUser };
+  // The server withholds admin features until a required two-factor setup is done
+  const isAdmin = currentUser?.role === 'admin' && !currentUser.twoFactorSetupRequired;
+  const value = { currentUser, login, completeTwoFactorLogin, signup, logout, loading, isAdmin, updateCurrentUser };
 
   return (
     <AuthContext.Provider value={value}>
@@ -0,0 +1,131 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef } from 'react';
+
+interface LiveStream {
+  id: string;
+  type: 'youtube' | 'hls';
+  duration?: number;
+}
+
+interface UseLivePlaybackOptions {
+  stream: LiveStream | null | undefined;
+  /** Seconds into the stream at the time of the last /api/livetv response, null if unknown */
+  position: number | null | undefined;
+  startedAt: string | null | undefined;
+  videoRef: RefObject<HTMLVideoElement>;
+  iframeRef: RefObject<HTMLIFrameElement>;
+}
+
+const DRIFT_CHECK_MS = 5000;
+// Players buffer and stall a little; only seek when someone is clearly behind or ahead
+const DRIFT_TOLERANCE_SECONDS = 3;
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+const YOUTUBE_PLAYING = 1;
+
+const postToYouTube = (iframe: HTMLIFrameElement | null, message: object) => {
+  iframe?.contentWindow?.postMessage(JSON.stringify(message), YOUTUBE_ORIGIN);
+};
+
+/**
+ * Keep a viewer at the broadcast's live position: seek there on join, then every few seconds
+ * pull the player back if it has drifted. Live HLS channels (no fixed length) are left alone.
+ *
+ * Returns the second to start a YouTube embed at; it only changes when the stream does, so
+ * the iframe isn't reloaded on every poll.
+ */
+export const useLivePlayback = ({ stream, position, startedAt, videoRef, iframeRef }: UseLivePlaybackOptions) => {
+  // The server's position and when we heard it, so the expected position keeps moving between polls
+  const anchor = useRef<{ position: number; receivedAt: number } | null>(null);
+  useEffect(() => {
+    anchor.current = typeof position === 'number' ? { position, receivedAt: Date.now() } : null;
+  }, [position]);
+
+  const expectedPosition = useCallback(() => {
+    if (!anchor.current) return null;
+    const expected = anchor.current.position + (Date.now() - anchor.current.receivedAt) / 1000;
+    return stream?.duration ? Math.min(expected, stream.duration) : expected;
+  }, [stream?.duration]);
+
+  const streamKey = stream ? `${stream.id}@${startedAt || ''}` : null;
+
+  // Computed once per stream, read straight from the position prop since the anchor may not be set yet
+  const youtubeStart = useMemo(
+    () => (typeof position === 'number' ? Math.floor(position) : 0),
+    [streamKey]
+  );
+
+  // --- HLS ---
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || stream?.type !== 'hls') return;
+
+    const sync = () => {
+      const expected = expectedPosition();
+      // A live playlist reports an infinite duration; there is nothing to line up with
+      if (expected === null || !isFinite(video.duration)) return;
+      if (Math.abs(video.currentTime - expected) > DRIFT_TOLERANCE_SECONDS) {
+        video.currentTime = Math.min(expected, video.duration);
+      }
+    };
+
+    const syncIfPlaying = () => {
+      if (!video.paused) sync();
+    };
+
+    video.addEventListener('loadedmetadata', sync);
+    // Coming back from a pause rejoins the broadcast rather than carrying on from where it stopped
+    video.addEventListener('play', sync);
+    const interval = setInterval(syncIfPlaying, DRIFT_CHECK_MS);
+    if (video.readyState >= 1) sync();
+
+    return () => {
+      video.removeEventListener('loadedmetadata', sync);
+      video.removeEventListener('play', sync);
+      clearInterval(interval);
+    };
+  }, [streamKey, stream?.type, videoRef, expectedPosition]);
+
+  // --- YOUTUBE ---
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe || stream?.type !== 'youtube') return;
+
+    let currentTime: number | null = null;
+    let playerState: number | null = null;
+
+    // The embed reports its state once told we're listening (enablejsapi=1)
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== YOUTUBE_ORIGIN || event.source !== iframe.contentWindow) return;
+      try {
+        const message = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+        if (message?.event !== 'infoDelivery' || !message.info) return;
+        if (typeof message.info.currentTime === 'number') currentTime = message.info.currentTime;
+        if (typeof message.info.playerState === 'number') playerState = message.info.playerState;
+      } catch (error) {
+        // Not one of the player's messages
+      }
+    };
+
+    const listen = () => postToYouTube(iframe, { event: 'listening', id: iframe.id || 'livetv' });
+
+    const checkDrift = () => {
+      const expected = expectedPosition();
+      if (expected === null || currentTime === null || playerState !== YOUTUBE_PLAYING) return;
+      if (Math.abs(currentTime - expected) > DRIFT_TOLERANCE_SECONDS) {
+        postToYouTube(iframe, { event: 'command', func: 'seekTo', args: [expected, true] });
+      }
+    };
+
+    window.addEventListener('message', onMessage);
+    iframe.addEventListener('load', listen);
+    listen();
+    const interval = setInterval(checkDrift, DRIFT_CHECK_MS);
+
+    return () => {
+      window.removeEventListener('message', onMessage);
+      iframe.removeEventListener('load', listen);
+      clearInterval(interval);
+    };
+  }, [streamKey, stream?.type, iframeRef, expectedPosition]);
+
+  return { youtubeStart };
+};
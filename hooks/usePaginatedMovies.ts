@@ -17,7 +17,7 @@ interface UsePaginatedMoviesOptions {
   category?: string;
   year?: number;
   search?: string;
-  sortBy?: 'recent' | 'popular' | 'rating' | 'title';
+  sortBy?: 'recent' | 'popular' | 'rating' | 'audience' | 'title';
   enablePrefetch?: boolean;
 }
 
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import * as storage from '../services/storageService';
+import { FilmIcon } from '../components/icons/Icons';
+
+const inputClassName = "w-full px-3 py-2 text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500";
+const buttonClassName = "w-full px-4 py-2 text-lg font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-green-500 disabled:opacity-50 transition-colors";
+
+/**
+ * /forgot-password asks for an email and sends the reset link; the link opens
+ * /reset-password?token=... where a new password is chosen
+ */
+const ForgotPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+
+  const [email, setEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setIsLoading(true);
+    try {
+      setMessage(await storage.requestPasswordReset(email));
+    } catch (err) {
+      setError((err as Error).message || 'Could not send the reset link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.');
+      return;
+    }
+    if (newPassword.length < 6) {
+      setError('New password must be at least 6 characters long.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await storage.confirmPasswordReset(token!, newPassword);
+      setMessage('Your password has been changed and you have been signed out everywhere. Redirecting to log in...');
+      setTimeout(() => navigate('/login', { replace: true }), 2500);
+    } catch (err) {
+      setError((err as Error).message || 'Could not reset your password. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <div className="w-full max-w-md p-8 space-y-6 bg-gray-800 rounded-lg shadow-lg border border-gray-700">
+        <div className="text-center">
+            <div className="inline-block p-3 bg-gradient-to-r from-green-500 to-blue-500 rounded-full mb-4">
+                <FilmIcon className="w-8 h-8 text-white"/>
+            </div>
+          <h1 className="text-3xl font-bold text-white">{token ? 'Choose a New Password' : 'Forgot Password'}</h1>
+          <p className="text-gray-400">
+            {token ? 'Enter a new password for your account.' : "Enter your email and we'll send you a link to reset your password."}
+          </p>
+        </div>
+
+        {token ? (
+          <form onSubmit={handleReset} className="space-y-4">
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="New Password"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm New Password"
+              className={inputClassName}
+            />
+            {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+            {message && <p className="text-sm text-green-400 text-center">{message}</p>}
+            <button type="submit" disabled={isLoading || !!message} className={buttonClassName}>
+              {isLoading ? 'Saving...' : 'Reset Password'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <input
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email Address"
+              className={inputClassName}
+            />
+            {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+            {message && <p className="text-sm text-green-400 text-center">{message}</p>}
+            <button type="submit" disabled={isLoading} className={buttonClassName}>
+              {isLoading ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-sm text-center text-gray-400">
+          Remembered it?{' '}
+          <Link to="/login" className="font-medium text-green-400 hover:underline">
+            Log in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
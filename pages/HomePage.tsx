@@ -111,10 +111,15 @@ const HomePage: React.FC = () => {
     return [...movies].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
   }, [movies, config.featuredMovieId]);
   
-  const trendingMovies = useMemo(() => {
-    if (!movies || movies.length === 0) return [];
-    // Use the trending service which updates hourly and uses real engagement data
-    return getTrendingMovies(movies);
+  const [trendingMovies, setTrendingMovies] = useState<Movie[]>([]);
+  useEffect(() => {
+    if (!movies || movies.length === 0) return;
+    let cancelled = false;
+    // The server's shared ranking over the last 24 hours of engagement
+    getTrendingMovies(movies, '24h', 10).then(trending => {
+      if (!cancelled) setTrendingMovies(trending);
+    });
+    return () => { cancelled = true; };
   }, [movies]);
 
   const recentlyAddedMovies = useMemo(() => {
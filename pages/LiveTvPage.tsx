@@ -1,7 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import BackButton from '../components/BackButton';
+import LiveTvGuide from '../components/LiveTvGuide';
+import LiveTvChat from '../components/LiveTvChat';
 import { FilmIcon, ClockIcon } from '../components/icons/Icons';
 import { getSession } from '../services/storageService';
+import { useLivePlayback } from '../hooks/useLivePlayback';
 
 declare const Hls: any;
 
@@ -24,6 +27,11 @@ interface LiveTvData {
     queue: LiveTvSource[];
     sources: LiveTvSource[];
     defaultSourceId: string | null;
+    startedAt?: string | null;
+    /** Seconds into the current stream when the server answered */
+    position?: number | null;
+    /** Our own restream of the broadcast, when the server runs one */
+    channelUrl?: string;
 }
 
 interface Movie {
@@ -35,6 +43,21 @@ interface Movie {
     duration?: number;
 }
 
+const LIVE_TV_EVENTS = ['snapshot', 'live', 'stop', 'stream', 'queue', 'update'];
+const POLL_INTERVAL_MS = 3000;
+const HEARTBEAT_MS = 15 * 1000;
+const VIEWER_ID_KEY = 'liveTvViewerId';
+
+// One id per browser, so several open tabs count as one viewer
+const getViewerId = () => {
+    let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+    if (!viewerId) {
+        viewerId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+        localStorage.setItem(VIEWER_ID_KEY, viewerId);
+    }
+    return viewerId;
+};
+
 const LiveTvPage: React.FC = () => {
     const [liveTvData, setLiveTvData] = useState<LiveTvData | null>(null);
     const [loading, setLoading] = useState(true);
@@ -54,11 +77,27 @@ const LiveTvPage: React.FC = () => {
     const [hlsDescription, setHlsDescription] = useState('');
     const [hlsUrl, setHlsUrl] = useState('');
     const [hlsSubmitting, setHlsSubmitting] = useState(false);
+    const [viewerCount, setViewerCount] = useState<number | null>(null);
+    // Shared with the chat, which listens for its own events on the same stream
+    const [eventSource, setEventSource] = useState<EventSource | null>(null);
 
     const currentStream = liveTvData?.currentStreamId 
         ? liveTvData.sources.find(s => s.id === liveTvData.currentStreamId) 
         : null;
 
+    // The restreamed channel plays every item from one URL, so the player never has to change
+    const channelUrl = liveTvData?.isLive ? liveTvData.channelUrl : undefined;
+    const playerUrl = channelUrl || (currentStream?.type === 'hls' ? currentStream.url : null);
+
+    const { youtubeStart } = useLivePlayback({
+        // The channel is already live; only direct sources need seeking
+        stream: channelUrl ? null : currentStream,
+        position: liveTvData?.position,
+        startedAt: liveTvData?.startedAt,
+        videoRef,
+        iframeRef
+    });
+
     const fetchLiveTvData = async () => {
         try {
             const response = await fetch('/api/livetv');
@@ -160,12 +199,66 @@ const LiveTvPage: React.FC = () => {
 
     useEffect(() => {
         fetchLiveTvData();
-        
-        const interval = setInterval(fetchLiveTvData, 3000);
-        
-        return () => clearInterval(interval);
+
+        // Polling is only the fallback for when the event stream is unavailable
+        let interval: ReturnType<typeof setInterval> | null = null;
+        const startPolling = () => {
+            if (!interval) interval = setInterval(fetchLiveTvData, POLL_INTERVAL_MS);
+        };
+        if (typeof EventSource === 'undefined') {
+            startPolling();
+            return () => { if (interval) clearInterval(interval); };
+        }
+
+        // The browser reconnects by itself and sends Last-Event-ID, so missed changes are replayed
+        const events = new EventSource('/api/livetv/events');
+        const onEvent = (event: MessageEvent) => {
+            try {
+                setLiveTvData(JSON.parse(event.data));
+                setError(null);
+                setLoading(false);
+            } catch (err) {
+                console.error('Error reading Live TV event:', err);
+            }
+        };
+        LIVE_TV_EVENTS.forEach(type => events.addEventListener(type, onEvent as EventListener));
+        setEventSource(events);
+        events.onerror = () => {
+            // CLOSED means the server refused the stream rather than the connection dropping
+            if (events.readyState === EventSource.CLOSED) startPolling();
+        };
+
+        return () => {
+            events.close();
+            if (interval) clearInterval(interval);
+        };
     }, []);
 
+    // Heartbeats count this viewer while the broadcast is on; the answer is how many are watching
+    useEffect(() => {
+        if (!liveTvData?.isLive) {
+            setViewerCount(null);
+            return;
+        }
+        const sendHeartbeat = async () => {
+            try {
+                const response = await fetch('/api/livetv/heartbeat', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ viewerId: getViewerId() })
+                });
+                if (!response.ok) return;
+                const data = await response.json();
+                setViewerCount(data.viewers);
+            } catch (err) {
+                console.error('Error sending Live TV heartbeat:', err);
+            }
+        };
+        sendHeartbeat();
+        const interval = setInterval(sendHeartbeat, HEARTBEAT_MS);
+        return () => clearInterval(interval);
+    }, [liveTvData?.isLive, liveTvData?.currentStreamId, liveTvData?.startedAt]);
+
     useEffect(() => {
         if (!currentStream) {
             if (hlsInstance.current) {
@@ -175,7 +268,7 @@ const LiveTvPage: React.FC = () => {
             return;
         }
 
-        if (currentStream.type === 'hls') {
+        if (playerUrl) {
             const videoElement = videoRef.current;
             if (!videoElement) return;
 
@@ -185,13 +278,13 @@ const LiveTvPage: React.FC = () => {
                 }
                 const hls = new Hls();
                 hlsInstance.current = hls;
-                hls.loadSource(currentStream.url);
+                hls.loadSource(playerUrl);
                 hls.attachMedia(videoElement);
                 hls.on(Hls.Events.MANIFEST_PARSED, () => {
                     videoElement.play().catch(e => console.error("Autoplay prevented:", e));
                 });
             } else if (videoElement.canPlayType('application/vnd.apple.mpegurl')) {
-                videoElement.src = currentStream.url;
+                videoElement.src = playerUrl;
                 videoElement.addEventListener('loadedmetadata', () => {
                     videoElement.play().catch(e => console.error("Autoplay prevented:", e));
                 });
@@ -204,7 +297,8 @@ const LiveTvPage: React.FC = () => {
                 hlsInstance.current = null;
             }
         };
-    }, [currentStream]);
+        // Polling replaces the data every few seconds; only a different stream needs a new player
+    }, [channelUrl || currentStream?.id, playerUrl]);
 
     const formatDuration = (seconds?: number) => {
         if (!seconds) return 'N/A';
@@ -266,6 +360,9 @@ const LiveTvPage: React.FC = () => {
                                 <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
                             </span>
                             <span className="text-red-400 font-bold">LIVE NOW</span>
+                            {viewerCount !== null && viewerCount > 0 && (
+                                <span className="text-gray-400 text-sm">· 👥 {viewerCount} watching</span>
+                            )}
                         </>
                     ) : (
                         <span className="text-gray-500">Broadcast Offline</span>
@@ -294,10 +391,10 @@ const LiveTvPage: React.FC = () => {
             {liveTvData?.isLive && currentStream ? (
                 <div className="space-y-6">
                     <div className="aspect-video w-full max-w-6xl mx-auto bg-black rounded-lg overflow-hidden border-2 border-purple-500/30 shadow-2xl shadow-purple-500/20">
-                        {currentStream.type === 'youtube' ? (
+                        {currentStream.type === 'youtube' && !channelUrl ? (
                             <iframe
                                 ref={iframeRef}
-                                src={`https://www.youtube.com/embed/${currentStream.url}?autoplay=1&mute=0&controls=1&modestbranding=1`}
+                                src={`https://www.youtube.com/embed/${currentStream.url}?autoplay=1&mute=0&controls=1&modestbranding=1&enablejsapi=1&start=${youtubeStart}`}
                                 title={currentStream.title}
                                 className="w-full h-full"
                                 allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
@@ -341,14 +438,18 @@ const LiveTvPage: React.FC = () => {
                                     {currentStream.addedBy && (
                                         <span>Added by: {currentStream.addedBy}</span>
                                     )}
-                                    {currentStream.addedAt && (
-                                        <span>Started: {formatDate(currentStream.addedAt)}</span>
+                                    {(liveTvData.startedAt || currentStream.addedAt) && (
+                                        <span>Started: {formatDate(liveTvData.startedAt || currentStream.addedAt)}</span>
                                     )}
                                 </div>
                             </div>
                         </div>
                     </div>
 
+                    <div className="max-w-6xl mx-auto">
+                        <LiveTvChat events={eventSource} />
+                    </div>
+
                     {liveTvData.queue.length > 0 && (
                         <div className="max-w-6xl mx-auto bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg p-6 border border-gray-700">
                             <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
@@ -411,6 +512,8 @@ const LiveTvPage: React.FC = () => {
                 </div>
             )}
 
+            <LiveTvGuide />
+
             {showMovieModal && (
                 <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
                     <div className="bg-gray-800 rounded-lg max-w-4xl w-full max-h-[80vh] overflow-hidden flex flex-col">
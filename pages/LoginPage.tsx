@@ -10,16 +10,20 @@ const LoginPage: React.FC = () => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password is accepted for an account with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, currentUser } = useAuth();
+  const { login, completeTwoFactorLogin, currentUser } = useAuth();
 
   const from = (location.state as { from?: string })?.from || '/';
 
   useEffect(() => {
     if (currentUser) {
-      navigate(from, { replace: true });
+      // Staff who must turn on two-factor authentication are sent straight to where it's done
+      navigate(currentUser.twoFactorSetupRequired ? '/profile' : from, { replace: true });
     }
   }, [currentUser, navigate, from]);
 
@@ -29,9 +33,11 @@ const LoginPage: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const user = await login(email, password);
-      if (!user) {
+      const result = await login(email, password);
+      if (!result) {
         setError('Invalid email or password. Please try again.');
+      } else if ('twoFactorRequired' in result) {
+        setChallengeToken(result.challengeToken);
       }
       // Successful login is handled by the useEffect hook
     } catch (err) {
@@ -41,6 +47,81 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await completeTwoFactorLogin(challengeToken!, code);
+    } catch (err) {
+      const message = (err as Error).message || 'Invalid authentication code. Please try again.';
+      setError(message);
+      // The challenge is gone once it expires or after too many wrong codes
+      if (message.includes('enter your password again')) {
+        setChallengeToken(null);
+        setCode('');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-full max-w-md p-8 space-y-6 bg-gray-800 rounded-lg shadow-lg border border-gray-700">
+          <div className="text-center">
+              <div className="inline-block p-3 bg-gradient-to-r from-green-500 to-blue-500 rounded-full mb-4">
+                  <FilmIcon className="w-8 h-8 text-white"/>
+              </div>
+            <h1 className="text-3xl font-bold text-white">Two-Factor Check</h1>
+            <p className="text-gray-400">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+          </div>
+
+          <form onSubmit={handleCodeSubmit} className="space-y-4">
+            <input
+              id="code"
+              name="code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className="w-full px-3 py-2 text-center text-xl tracking-widest text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+
+            {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full px-4 py-2 text-lg font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-green-500 disabled:opacity-50 transition-colors"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+          </form>
+
+          <p className="text-sm text-center text-gray-400">
+            <button type="button" onClick={cancelTwoFactor} className="font-medium text-green-400 hover:underline">
+              Use a different account
+            </button>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center min-h-[60vh]">
       <div className="w-full max-w-md p-8 space-y-6 bg-gray-800 rounded-lg shadow-lg border border-gray-700">
@@ -82,6 +163,12 @@ const LoginPage: React.FC = () => {
             />
           </div>
           
+          <div className="text-right">
+            <Link to="/forgot-password" className="text-sm text-green-400 hover:underline">
+              Forgot password?
+            </Link>
+          </div>
+
           {error && <p className="text-sm text-red-400 text-center">{error}</p>}
           
           <div>
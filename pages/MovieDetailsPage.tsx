@@ -2,11 +2,12 @@
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import { useParams, Link, useLocation } from 'react-router-dom';
 import MovieCard from '../components/MovieCard';
-import { StarIcon, UserIcon, ReplyIcon, ChevronDownIcon, ChevronUpIcon, BotIcon, SparklesIcon, ThumbsUpIcon, BookmarkIcon, FacebookIcon, XSocialIcon, ChevronLeftIcon, ChevronRightIcon, XIcon, WhatsAppIcon, TelegramIcon } from '../components/icons/Icons';
+import { StarIcon, UserIcon, ReplyIcon, ChevronDownIcon, ChevronUpIcon, BotIcon, SparklesIcon, ThumbsUpIcon, FlagIcon, BookmarkIcon, FacebookIcon, XSocialIcon, ChevronLeftIcon, ChevronRightIcon, XIcon, WhatsAppIcon, TelegramIcon } from '../components/icons/Icons';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Comment, Movie, User } from '../services/types';
+import { AudienceRating, Comment, CommentReportReason, CommentRevision, CommentSort, Movie, User } from '../services/types';
 import { getAiRecommendations } from '../services/aiService';
 import BackButton from '../components/BackButton';
+import ReleaseCountdown from '../components/ReleaseCountdown';
 import { useMovies } from '../contexts/MovieContext';
 import { useAuth } from '../contexts/AuthContext';
 import * as storage from '../services/storageService';
@@ -47,16 +48,22 @@ const SocialShare: React.FC<{ movie: Movie }> = ({ movie }) => {
 
 
 // --- COMMENT FORM COMPONENT ---
+// Stored comments are HTML-escaped; editing starts from the text as it was typed
+const unescapeComment = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
 const CommentForm: React.FC<{
   movieId: string;
   parentId?: string | null;
-  onCommentAdded: () => void;
+  /** Set to edit this comment instead of posting a new one */
+  editing?: Comment;
+  onCommentAdded: (comment: Comment) => void;
   onCancel?: () => void;
   submitLabel?: string;
-}> = ({ movieId, parentId = null, onCommentAdded, onCancel, submitLabel = "Submit" }) => {
+}> = ({ movieId, parentId: replyTo = null, editing, onCommentAdded, onCancel, submitLabel = "Submit" }) => {
     const { currentUser } = useAuth();
-    const [commentText, setCommentText] = useState('');
-    const [rating, setRating] = useState(0);
+    const parentId = editing ? editing.parentId ?? null : replyTo;
+    const [commentText, setCommentText] = useState(editing ? unescapeComment(editing.comment) : '');
+    const [rating, setRating] = useState(editing?.rating || 0);
     const [hoverRating, setHoverRating] = useState(0);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState('');
@@ -68,12 +75,14 @@ const CommentForm: React.FC<{
         setIsSubmitting(true);
         setError('');
         try {
-            await commentService.addComment(movieId, {
+            const commentData = {
                 comment: commentText.trim(),
-                parentId,
                 rating: parentId === null && rating > 0 ? rating : undefined,
-            });
-            onCommentAdded();
+            };
+            const result = editing
+                ? await commentService.editComment(movieId, editing.id, commentData)
+                : await commentService.addComment(movieId, { ...commentData, parentId });
+            onCommentAdded(result.comment);
             setCommentText('');
             setRating(0);
             if (onCancel) onCancel();
@@ -89,7 +98,7 @@ const CommentForm: React.FC<{
             <textarea
                 value={commentText}
                 onChange={(e) => setCommentText(e.target.value)}
-                placeholder={parentId ? `Replying as ${currentUser?.name}...` : `Commenting as ${currentUser?.name}...`}
+                placeholder={editing ? 'Edit your comment...' : parentId ? `Replying as ${currentUser?.name}...` : `Commenting as ${currentUser?.name}...`}
                 rows={3}
                 className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 text-white focus:outline-none focus:ring-2 focus:ring-green-500"
                 required
@@ -133,19 +142,82 @@ const CommentForm: React.FC<{
     );
 };
 
+const REPORT_REASONS: { value: CommentReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'abuse', label: 'Abusive' },
+  { value: 'spoiler', label: 'Spoiler' },
+  { value: 'other', label: 'Other' },
+];
+
 // --- COMMENT ITEM COMPONENT ---
 const CommentItem: React.FC<{
   movieId: string;
   comment: Comment;
   upvotes: string[]; // User IDs who upvoted
   onCommentChange: () => void;
-}> = ({ movieId, comment, upvotes, onCommentChange }) => {
+  onEdited?: () => void;
+}> = ({ movieId, comment: initialComment, upvotes, onCommentChange, onEdited }) => {
+    const [comment, setComment] = useState(initialComment);
     const [showReplyForm, setShowReplyForm] = useState(false);
-    const [showReplies, setShowReplies] = useState(true);
+    const [isEditing, setIsEditing] = useState(false);
+    const [showReportMenu, setShowReportMenu] = useState(false);
+    const [hasReported, setHasReported] = useState(!!initialComment.reportedByMe);
+    const [revisions, setRevisions] = useState<CommentRevision[] | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
     const { currentUser, isAdmin } = useAuth();
-    
+
+    // Replies are fetched a page at a time the first time the thread is opened
+    const [showReplies, setShowReplies] = useState(false);
+    const [replies, setReplies] = useState<Comment[]>([]);
+    const [replyUpvotes, setReplyUpvotes] = useState<Record<string, string[]>>({});
+    const [replyCount, setReplyCount] = useState(initialComment.replyCount || 0);
+    const [repliesCursor, setRepliesCursor] = useState<string | null>(null);
+    const [repliesLoaded, setRepliesLoaded] = useState(false);
+    const [isLoadingReplies, setIsLoadingReplies] = useState(false);
+
+    useEffect(() => {
+        setComment(initialComment);
+        setReplyCount(initialComment.replyCount || 0);
+    }, [initialComment]);
+
     // This is now just for display purposes; the backend holds the truth.
     const [optimisticUpvotes, setOptimisticUpvotes] = useState(upvotes);
+    const canEdit = !!currentUser && currentUser.id === comment.userId && !!comment.editableUntil && new Date(comment.editableUntil).getTime() > Date.now();
+
+    const loadReplies = async (reset: boolean) => {
+        setIsLoadingReplies(true);
+        try {
+            const page = await commentService.getReplies(movieId, comment.id, reset ? null : repliesCursor);
+            setReplies(prev => reset ? page.replies : [...prev, ...page.replies]);
+            setReplyUpvotes(prev => reset ? page.upvotes : { ...prev, ...page.upvotes });
+            setRepliesCursor(page.nextCursor);
+            setReplyCount(page.total);
+            setRepliesLoaded(true);
+        } catch (error) {
+            console.error(error);
+            alert("Failed to load replies.");
+        } finally {
+            setIsLoadingReplies(false);
+        }
+    };
+
+    const toggleReplies = () => {
+        if (!showReplies && !repliesLoaded) loadReplies(true);
+        setShowReplies(!showReplies);
+    };
+
+    const toggleRevisions = async () => {
+        if (!showRevisions && !revisions) {
+            try {
+                const data = await commentService.getCommentRevisions(movieId, comment.id);
+                setRevisions(data.revisions);
+            } catch (error) {
+                alert("Failed to load the edit history.");
+                return;
+            }
+        }
+        setShowRevisions(!showRevisions);
+    };
 
     // FIX: User data now comes from the session, not a separate storage call.
     // This part of the logic is simplified as the backend handles user data.
@@ -161,8 +233,8 @@ const CommentItem: React.FC<{
         // Optimistic update
         setOptimisticUpvotes(prev => hasUpvoted ? prev.filter(id => id !== currentUser.id) : [...prev, currentUser.id]);
         try {
-            await commentService.toggleUpvote(comment.id);
-            onCommentChange(); // Re-fetch from server to ensure sync
+            const result = await commentService.toggleUpvote(comment.id);
+            setOptimisticUpvotes(result.upvotes); // Sync with the server without reloading the page of threads
         } catch (error) {
             console.error(error);
             setOptimisticUpvotes(upvotes); // Revert on error
@@ -181,6 +253,17 @@ const CommentItem: React.FC<{
         }
     };
 
+    const handleReport = async (reason: CommentReportReason) => {
+        setShowReportMenu(false);
+        try {
+            await commentService.reportComment(movieId, comment.id, reason);
+            setHasReported(true);
+            alert("Thanks, our moderators will take a look.");
+        } catch (error) {
+            alert(error instanceof Error ? error.message : "Failed to report comment.");
+        }
+    };
+
     const UserAvatar: React.FC<{ user: { name: string, id: string, profilePic?: string } }> = ({ user }) => {
         if (comment.isAI) {
             return <div className="w-10 h-10 flex-shrink-0 bg-green-500 rounded-full flex items-center justify-center"><BotIcon className="w-6 h-6"/></div>;
@@ -208,6 +291,15 @@ const CommentItem: React.FC<{
                             </p>
                             <span className="text-xs text-gray-500">{new Date(comment.date).toLocaleDateString()}</span>
                         </div>
+                        {comment.status === 'held' && (
+                            <p className="text-xs text-yellow-400 mt-1">Awaiting moderator review. Only its author and moderators can see it.</p>
+                        )}
+                        {comment.status === 'hidden' && (
+                            <p className="text-xs text-red-400 mt-1">Hidden by a moderator.</p>
+                        )}
+                        {comment.status === 'flagged' && (
+                            <p className="text-xs text-orange-400 mt-1">Reported {comment.reportCount || 1} time(s). Review it from the bot's Moderation menu.</p>
+                        )}
                         {comment.rating && (
                             <div className="flex items-center my-1">
                                 {[...Array(5)].map((_, i) => (
@@ -215,7 +307,39 @@ const CommentItem: React.FC<{
                                 ))}
                             </div>
                         )}
-                        <p className={`text-gray-300 mt-1 whitespace-pre-wrap ${comment.isAI ? 'italic' : ''}`}>{comment.comment}</p>
+                        {isEditing ? (
+                            <div className="mt-2">
+                                <CommentForm
+                                    movieId={movieId}
+                                    editing={comment}
+                                    onCommentAdded={(updated) => {
+                                        setComment(prev => ({ ...prev, ...updated, replies: prev.replies, replyCount: prev.replyCount }));
+                                        setRevisions(null);
+                                        setShowRevisions(false);
+                                        onEdited?.();
+                                    }}
+                                    onCancel={() => setIsEditing(false)}
+                                    submitLabel="Save"
+                                />
+                            </div>
+                        ) : (
+                            <p className={`text-gray-300 mt-1 whitespace-pre-wrap ${comment.isAI ? 'italic' : ''}`}>{comment.comment}</p>
+                        )}
+                        {comment.editedAt && !isEditing && (
+                            <button onClick={toggleRevisions} className="text-xs text-gray-500 hover:text-gray-300 mt-1" title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}>
+                                (edited{showRevisions ? ', hide history' : ''})
+                            </button>
+                        )}
+                        {showRevisions && revisions && (
+                            <div className="mt-2 space-y-2 border-t border-gray-700 pt-2">
+                                {revisions.map((revision, index) => (
+                                    <div key={index} className="text-xs text-gray-500">
+                                        <span className="block">{new Date(revision.date).toLocaleString()}{revision.rating ? ` · ${revision.rating}★` : ''}</span>
+                                        <p className="whitespace-pre-wrap line-through decoration-gray-600">{revision.comment}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                     <div className="mt-1 flex items-center space-x-4">
                         {currentUser && (
@@ -223,18 +347,43 @@ const CommentItem: React.FC<{
                                 <ReplyIcon className="w-3 h-3"/> Reply
                             </button>
                         )}
+                        {canEdit && !isEditing && (
+                            <button onClick={() => setIsEditing(true)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-green-400 transition-colors">
+                                Edit
+                            </button>
+                        )}
                         <button onClick={handleUpvote} className={`flex items-center gap-1 text-xs transition-colors ${currentUser && optimisticUpvotes.includes(currentUser.id) ? 'text-green-400 font-bold' : 'text-gray-400 hover:text-green-400'}`}>
                             <ThumbsUpIcon className="w-3 h-3"/> {optimisticUpvotes.length}
                         </button>
+                        {currentUser && currentUser.id !== comment.userId && !comment.isAI && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowReportMenu(!showReportMenu)}
+                                    disabled={hasReported}
+                                    className={`flex items-center gap-1 text-xs transition-colors ${hasReported ? 'text-gray-600 cursor-default' : 'text-gray-400 hover:text-orange-400'}`}
+                                >
+                                    <FlagIcon className="w-3 h-3"/> {hasReported ? 'Reported' : 'Report'}
+                                </button>
+                                {showReportMenu && (
+                                    <div className="absolute z-10 mt-1 w-32 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1">
+                                        {REPORT_REASONS.map(reason => (
+                                            <button key={reason.value} onClick={() => handleReport(reason.value)} className="block w-full text-left px-3 py-1 text-xs text-gray-300 hover:bg-gray-700">
+                                                {reason.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
                         {isAdmin && (
                              <button onClick={handleDeleteComment} className="flex items-center gap-1 text-xs text-red-500 hover:text-red-400 transition-colors">
                                 <XIcon className="w-3 h-3"/> Delete
                              </button>
                         )}
-                        {comment.replies && comment.replies.length > 0 && (
-                             <button onClick={() => setShowReplies(!showReplies)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors">
+                        {replyCount > 0 && (
+                             <button onClick={toggleReplies} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors">
                                 {showReplies ? <ChevronUpIcon className="w-3 h-3"/> : <ChevronDownIcon className="w-3 h-3"/>}
-                                {comment.replies.length} {comment.replies.length > 1 ? 'replies' : 'reply'}
+                                {replyCount} {replyCount > 1 ? 'replies' : 'reply'}
                              </button>
                         )}
                     </div>
@@ -246,7 +395,8 @@ const CommentItem: React.FC<{
                         movieId={movieId}
                         parentId={comment.id}
                         onCommentAdded={() => {
-                            onCommentChange();
+                            loadReplies(true);
+                            setShowReplies(true);
                             setShowReplyForm(false);
                         }}
                         onCancel={() => setShowReplyForm(false)}
@@ -254,11 +404,16 @@ const CommentItem: React.FC<{
                     />
                 </div>
             )}
-            {showReplies && comment.replies && comment.replies.length > 0 && (
+            {showReplies && replies.length > 0 && (
                 <div className="border-l-2 border-gray-700 ml-5 pl-1">
-                    {comment.replies.map(reply => (
-                        <CommentItem key={reply.id} movieId={movieId} comment={reply} upvotes={upvotes[reply.id] || []} onCommentChange={onCommentChange} />
+                    {replies.map(reply => (
+                        <CommentItem key={reply.id} movieId={movieId} comment={reply} upvotes={replyUpvotes[reply.id] || []} onCommentChange={() => loadReplies(true)} />
                     ))}
+                    {repliesCursor && (
+                        <button onClick={() => loadReplies(false)} disabled={isLoadingReplies} className="ml-6 mt-2 text-xs text-green-400 hover:text-green-300 disabled:opacity-50">
+                            {isLoadingReplies ? 'Loading...' : `Show more replies (${replyCount - replies.length})`}
+                        </button>
+                    )}
                 </div>
             )}
         </div>
@@ -266,30 +421,107 @@ const CommentItem: React.FC<{
 };
 
 
+// --- AUDIENCE RATING COMPONENT ---
+const AudienceRatingPanel: React.FC<{ rating: AudienceRating | null }> = ({ rating }) => {
+    if (!rating) {
+        return <p className="text-sm text-gray-500 mb-6">No audience ratings yet. Add stars to your review to rate this movie.</p>;
+    }
+    const largest = Math.max(...rating.distribution, 1);
+    return (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6 p-4 mb-6 bg-gray-800 border border-gray-700 rounded-lg">
+            <div className="text-center sm:w-40 flex-shrink-0">
+                <p className="text-4xl font-black text-white">{rating.mean.toFixed(1)}</p>
+                <div className="flex justify-center my-1">
+                    {[1, 2, 3, 4, 5].map(star => (
+                        <StarIcon key={star} className={`w-4 h-4 ${Math.round(rating.mean) >= star ? 'text-green-400' : 'text-gray-600'}`} />
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400">Audience · {rating.count} rating{rating.count === 1 ? '' : 's'}</p>
+            </div>
+            <div className="flex-1 space-y-1">
+                {[5, 4, 3, 2, 1].map(star => {
+                    const count = rating.distribution[star - 1] || 0;
+                    return (
+                        <div key={star} className="flex items-center gap-2 text-xs text-gray-400">
+                            <span className="w-6 text-right">{star}★</span>
+                            <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-green-500 rounded-full" style={{ width: `${(count / largest) * 100}%` }} />
+                            </div>
+                            <span className="w-8">{count}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 // --- COMMENTS SECTION COMPONENT ---
+const COMMENT_SORTS: { value: CommentSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'top', label: 'Top' },
+  { value: 'rating', label: 'Highest rated' },
+];
+
 const CommentsSection: React.FC<{ movie: Movie }> = ({ movie }) => {
     const [comments, setComments] = useState<Comment[]>([]);
     const [upvotes, setUpvotes] = useState<Record<string, string[]>>({});
+    const [sort, setSort] = useState<CommentSort>('newest');
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [total, setTotal] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [audienceRating, setAudienceRating] = useState<AudienceRating | null>(movie.audienceRating || null);
     
     const { currentUser } = useAuth();
     const location = useLocation();
 
+    // The movie list is cached, so the rating is re-read whenever a review may have changed it
+    const refreshAudienceRating = useCallback(() => {
+        commentService.getAudienceRating(movie.id)
+            .then(setAudienceRating)
+            .catch(err => console.error('Failed to load audience rating:', err));
+    }, [movie.id]);
+
+    useEffect(() => {
+        setAudienceRating(movie.audienceRating || null);
+        refreshAudienceRating();
+    }, [movie.id, movie.audienceRating, refreshAudienceRating]);
+
+    // Reloads the first page of threads; older ones are appended by loadMoreComments
     const fetchComments = useCallback(async () => {
         if (!movie.id) return;
         setIsLoading(true);
         setError(null);
         try {
-            const data = await commentService.getCommentsForMovie(movie.id);
+            const data = await commentService.getCommentsForMovie(movie.id, { sort });
             setComments(data.comments);
             setUpvotes(data.upvotes);
+            setNextCursor(data.nextCursor);
+            setTotal(data.total);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to load comments.');
         } finally {
             setIsLoading(false);
         }
-    }, [movie.id]);
+    }, [movie.id, sort]);
+
+    const loadMoreComments = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        setIsLoadingMore(true);
+        try {
+            const data = await commentService.getCommentsForMovie(movie.id, { sort, cursor: nextCursor });
+            setComments(prev => [...prev, ...data.comments]);
+            setUpvotes(prev => ({ ...prev, ...data.upvotes }));
+            setNextCursor(data.nextCursor);
+            setTotal(data.total);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to load more comments.');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
 
     useEffect(() => {
         fetchComments();
@@ -298,10 +530,25 @@ const CommentsSection: React.FC<{ movie: Movie }> = ({ movie }) => {
 
     return (
         <section className="mt-12">
-            <h2 className="text-3xl font-bold text-white mb-6">Reviews & Comments</h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-3xl font-bold text-white">Reviews & Comments{total > 0 ? ` (${total})` : ''}</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Sort by
+                    <select
+                        value={sort}
+                        onChange={(e) => setSort(e.target.value as CommentSort)}
+                        className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                        {COMMENT_SORTS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <AudienceRatingPanel rating={audienceRating} />
             <div className="mb-8">
                 {currentUser ? (
-                    <CommentForm movieId={movie.id} onCommentAdded={fetchComments} />
+                    <CommentForm movieId={movie.id} onCommentAdded={() => { fetchComments(); refreshAudienceRating(); }} />
                 ) : (
                     <div className="text-center p-6 bg-gray-800 border border-gray-700 rounded-lg">
                         <p className="text-gray-300">You must be logged in to leave a comment.</p>
@@ -324,9 +571,23 @@ const CommentsSection: React.FC<{ movie: Movie }> = ({ movie }) => {
                 )}
                 {!isLoading && !error && comments.length > 0 && (
                     comments.map(comment => (
-                        <CommentItem key={comment.id} movieId={movie.id} comment={comment} upvotes={upvotes[comment.id] || []} onCommentChange={fetchComments} />
+                        <CommentItem
+                            key={comment.id}
+                            movieId={movie.id}
+                            comment={comment}
+                            upvotes={upvotes[comment.id] || []}
+                            onCommentChange={() => { fetchComments(); refreshAudienceRating(); }}
+                            onEdited={refreshAudienceRating}
+                        />
                     ))
                 )}
+                {!isLoading && !error && nextCursor && (
+                    <div className="text-center mt-6">
+                        <button onClick={loadMoreComments} disabled={isLoadingMore} className="px-4 py-2 text-sm font-medium text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50">
+                            {isLoadingMore ? 'Loading...' : `Load more comments (${total - comments.length})`}
+                        </button>
+                    </div>
+                )}
             </div>
         </section>
     );
@@ -386,12 +647,22 @@ const MovieDetailsPage: React.FC = () => {
   const movie = useMemo(() => movies.find((m) => m.id === id), [id, movies]);
 
   const movieParts = useMemo(() => {
+    if (movie?.seriesId) {
+        return movies
+            .filter(m => m.seriesId === movie.seriesId)
+            .sort((a, b) => (a.partNumber || 1) - (b.partNumber || 1));
+    }
     if (!movie?.seriesTitle) return [];
     return movies
         .filter(m => m.seriesTitle === movie.seriesTitle)
         .sort((a, b) => (a.partNumber || 1) - (b.partNumber || 1));
   }, [movie, movies]);
 
+  const nextPart = useMemo(() => {
+    const index = movieParts.findIndex(part => part.id === movie?.id);
+    return index !== -1 ? movieParts[index + 1] : undefined;
+  }, [movie, movieParts]);
+
   useEffect(() => {
     const checkWatchlist = async () => {
         if (currentUser && movie) {
@@ -484,6 +755,10 @@ const MovieDetailsPage: React.FC = () => {
     const commonClasses = "inline-block w-full text-center sm:w-auto bg-gradient-to-r from-green-500 to-blue-600 text-white font-bold py-3 px-10 rounded-full text-lg shadow-lg hover:shadow-green-500/40 transition-all duration-300 transform hover:scale-105";
     const isYouTubeLink = movie.downloadLink && (movie.downloadLink.includes('youtube.com') || movie.downloadLink.includes('youtu.be'));
 
+    if (movie.status === 'coming-soon' && movie.publishAt) {
+      return <ReleaseCountdown publishAt={movie.publishAt} />;
+    }
+
     if (movie.status === 'coming-soon') {
       return (
         <div className="inline-block w-full text-center sm:w-auto bg-gray-700 text-white font-bold py-3 px-10 rounded-full text-lg">
@@ -542,6 +817,13 @@ const MovieDetailsPage: React.FC = () => {
                         <StarIcon className="w-5 h-5 mr-1" />
                         <span className="font-bold text-lg">{movie.rating.toFixed(1)}</span>
                     </div>
+                    {movie.audienceRating && (
+                        <div className="flex items-center text-green-400" title={`Audience rating from ${movie.audienceRating.count} review${movie.audienceRating.count === 1 ? '' : 's'}`}>
+                            <UserIcon className="w-5 h-5 mr-1" />
+                            <span className="font-bold text-lg">{movie.audienceRating.mean.toFixed(1)}</span>
+                            <span className="text-xs text-gray-400 ml-1">({movie.audienceRating.count})</span>
+                        </div>
+                    )}
                     <span>&bull;</span>
                     <span>{new Date(movie.releaseDate).getFullYear()}</span>
                     <span>&bull;</span>
@@ -574,7 +856,24 @@ const MovieDetailsPage: React.FC = () => {
 
         {movieParts.length > 1 && (
             <section className="mt-8 pt-8 border-t border-gray-800">
-                <h3 className="text-2xl font-bold text-white mb-4">{movie.seriesTitle} Series</h3>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="text-2xl font-bold text-white">{movie.seriesTitle} Series</h3>
+                    <div className="flex items-center gap-3">
+                        {movie.seriesId && (
+                            <Link to={`/series/${movie.seriesId}`} className="text-green-400 hover:text-green-300 font-semibold">
+                                View all parts
+                            </Link>
+                        )}
+                        {nextPart && (
+                            <Link
+                                to={`/movie/${nextPart.id}`}
+                                className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-5 rounded-full transition-colors"
+                            >
+                                Continue to Part {nextPart.partNumber} &rarr;
+                            </Link>
+                        )}
+                    </div>
+                </div>
                 <div className="flex flex-wrap items-center gap-3">
                     {movieParts.map(part => {
                         const isYouTubeLink = part.downloadLink && (part.downloadLink.includes('youtube.com') || part.downloadLink.includes('youtu.be'));
@@ -6,7 +6,311 @@ import { useAuth } from '../contexts/AuthContext';
 import * as storage from '../services/storageService';
 import BackButton from '../components/BackButton';
 import LoadingSpinner from '../components/LoadingSpinner';
+import QrCode from '../components/QrCode';
 import { UserCircleIcon, UserIcon } from '../components/icons/Icons';
+import { DeviceSession, LoginActivity, TwoFactorSetup, TwoFactorStatus } from '../services/types';
+
+const FAILURE_LABELS: Record<NonNullable<LoginActivity['reason']>, string> = {
+  'password': 'Wrong password',
+  'two-factor': 'Wrong authentication code',
+  'delayed': 'Refused: too many attempts',
+  'locked': 'Refused: account locked',
+  'ip-locked': 'Refused: network locked',
+};
+
+const DEVICE_ICONS: Record<DeviceSession['type'], string> = {
+  mobile: '📱',
+  tablet: '📲',
+  desktop: '💻',
+};
+
+const codeInputClassName = "w-full px-3 py-2 text-center tracking-widest text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500";
+
+const RecoveryCodes: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => (
+  <div className="mt-4 space-y-3">
+    <p className="text-sm text-yellow-300">
+      Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They won't be shown again.
+    </p>
+    <ul className="grid grid-cols-2 gap-2 p-4 font-mono text-sm text-white bg-gray-900 rounded-md">
+      {codes.map(code => <li key={code}>{code}</li>)}
+    </ul>
+    <button onClick={onDone} className="px-4 py-2 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 transition-colors">
+      I've saved them
+    </button>
+  </div>
+);
+
+const TwoFactorSection: React.FC = () => {
+  const { currentUser, updateCurrentUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Turning off and replacing recovery codes both need a fresh code first
+  const [confirming, setConfirming] = useState<'disable' | 'regenerate' | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = () => storage.getTwoFactorStatus()
+    .then(setStatus)
+    .catch(err => setError((err as Error).message || 'Could not load two-factor settings.'));
+
+  useEffect(() => { loadStatus(); }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setSetup(await storage.startTwoFactorSetup());
+    setCode('');
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await storage.enableTwoFactor(code);
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      if (currentUser) updateCurrentUser({ ...currentUser, ...result.user });
+      await loadStatus();
+    });
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (confirming === 'disable') {
+        const user = await storage.disableTwoFactor(password, code);
+        if (currentUser) updateCurrentUser({ ...currentUser, ...user });
+      } else {
+        setRecoveryCodes(await storage.regenerateRecoveryCodes(code));
+      }
+      setConfirming(null);
+      setCode('');
+      setPassword('');
+      await loadStatus();
+    });
+  };
+
+  return (
+    <div className="mt-8 bg-gray-800/50 border border-gray-700 p-8 rounded-lg">
+      <h2 className="text-xl font-bold text-white">Two-Factor Authentication</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Sign in with a code from an authenticator app (Google Authenticator, Authy, 1Password...) as well as your password.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+      {!status && !error && <LoadingSpinner text="Loading..." />}
+
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+      {status && !recoveryCodes && !status.enabled && !setup && (
+        <div className="space-y-3">
+          {status.required && (
+            <p className="text-sm text-yellow-300">Staff accounts must use two-factor authentication. Your staff tools stay off until it's set up.</p>
+          )}
+          <button
+            onClick={handleStart}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 disabled:opacity-50 transition-colors"
+          >
+            {isBusy ? 'Starting...' : 'Set up two-factor authentication'}
+          </button>
+        </div>
+      )}
+
+      {setup && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm text-gray-300">1. Scan this QR code with your authenticator app.</p>
+          <div className="flex justify-center">
+            <QrCode value={setup.otpauthUri} size={200} className="rounded-md" />
+          </div>
+          <p className="text-xs text-gray-400 text-center">
+            Can't scan it? Enter this key instead: <span className="font-mono text-gray-200 break-all">{setup.secret}</span>
+          </p>
+          <p className="text-sm text-gray-300">2. Enter the 6-digit code the app shows.</p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            className={codeInputClassName}
+          />
+          <div className="flex gap-3">
+            <button type="submit" disabled={isBusy} className="flex-1 px-4 py-2 font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 disabled:opacity-50 transition-colors">
+              {isBusy ? 'Checking...' : 'Turn on'}
+            </button>
+            <button type="button" onClick={() => setSetup(null)} className="px-4 py-2 text-gray-300 border border-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status?.enabled && !recoveryCodes && (
+        <div className="space-y-3">
+          <p className="text-sm text-green-400">
+            On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'setup'} · {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? '' : 's'} left
+          </p>
+          {!confirming && (
+            <div className="flex flex-wrap gap-3">
+              <button onClick={() => setConfirming('regenerate')} className="px-3 py-1 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button onClick={() => setConfirming('disable')} className="px-3 py-1 text-sm text-red-400 border border-red-500/50 rounded-md hover:bg-red-500/10 transition-colors">
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+          {confirming && (
+            <form onSubmit={handleConfirm} className="space-y-3">
+              {confirming === 'disable' && (
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  className="w-full px-3 py-2 text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              )}
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Authentication code"
+                className={codeInputClassName}
+              />
+              <div className="flex gap-3">
+                <button type="submit" disabled={isBusy} className="flex-1 px-4 py-2 font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 disabled:opacity-50 transition-colors">
+                  {isBusy ? 'Checking...' : confirming === 'disable' ? 'Turn off two-factor' : 'Create new codes'}
+                </button>
+                <button type="button" onClick={() => { setConfirming(null); setCode(''); setPassword(''); }} className="px-4 py-2 text-gray-300 border border-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DevicesSection: React.FC = () => {
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [error, setError] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    storage.getSessions()
+      .then(setSessions)
+      .catch(err => setError((err as Error).message || 'Could not load your devices.'));
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setError('');
+    setRevokingId(sessionId);
+    try {
+      await storage.revokeSession(sessionId);
+      setSessions(current => (current || []).filter(session => session.id !== sessionId));
+    } catch (err) {
+      setError((err as Error).message || 'Could not sign out that device.');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-gray-800/50 border border-gray-700 p-8 rounded-lg">
+      <h2 className="text-xl font-bold text-white">Devices</h2>
+      <p className="text-sm text-gray-400 mb-4">Everywhere you're signed in. Sign out any device you don't recognise, then change your password.</p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!sessions && !error && <LoadingSpinner text="Loading devices..." />}
+      {sessions && (
+        <ul className="divide-y divide-gray-700">
+          {sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className="text-2xl" aria-hidden="true">{DEVICE_ICONS[session.type]}</span>
+                <div>
+                  <p className="text-sm font-semibold text-white">
+                    {session.device}
+                    {session.current && <span className="ml-2 text-xs font-normal text-green-400">This device</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">{session.ipAddress} · {session.lastSeen} · signed in {new Date(session.createdAt).toLocaleDateString()}</p>
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revokingId === session.id}
+                  className="px-3 py-1 text-sm text-red-400 border border-red-500/50 rounded-md hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                >
+                  {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const LoginActivitySection: React.FC = () => {
+  const [activity, setActivity] = useState<LoginActivity[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    storage.getLoginActivity()
+      .then(setActivity)
+      .catch(err => setError((err as Error).message || 'Could not load your sign-in activity.'));
+  }, []);
+
+  return (
+    <div className="mt-8 bg-gray-800/50 border border-gray-700 p-8 rounded-lg">
+      <h2 className="text-xl font-bold text-white">Sign-in Activity</h2>
+      <p className="text-sm text-gray-400 mb-4">Recent sign-ins to your account. If you don't recognise a failed attempt, change your password.</p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!activity && !error && <LoadingSpinner text="Loading activity..." />}
+      {activity && activity.length === 0 && <p className="text-sm text-gray-500">No sign-ins recorded yet.</p>}
+      {activity && activity.length > 0 && (
+        <ul className="divide-y divide-gray-700">
+          {activity.map((entry, index) => (
+            <li key={`${entry.at}-${index}`} className="py-3 flex items-start justify-between gap-4">
+              <div>
+                <p className={`text-sm font-semibold ${entry.success ? 'text-green-400' : 'text-red-400'}`}>
+                  {entry.success ? 'Signed in' : FAILURE_LABELS[entry.reason || 'password']}
+                </p>
+                <p className="text-xs text-gray-400">{entry.device} · {entry.ipAddress}</p>
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
 
 const ProfilePage: React.FC = () => {
   const { currentUser, updateCurrentUser } = useAuth();
@@ -112,6 +416,12 @@ const ProfilePage: React.FC = () => {
         <p className="text-gray-400">Manage your account details.</p>
       </div>
 
+      {currentUser.twoFactorSetupRequired && (
+        <div className="mb-8 p-4 text-sm text-yellow-200 bg-yellow-900/40 border border-yellow-600 rounded-lg">
+          Your account has staff access. Set up two-factor authentication below to use staff features.
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6 bg-gray-800/50 border border-gray-700 p-8 rounded-lg">
         <div className="flex flex-col items-center space-y-4">
             <div className="relative w-32 h-32">
@@ -240,6 +550,10 @@ const ProfilePage: React.FC = () => {
           </form>
         )}
       </div>
+
+      <TwoFactorSection />
+      <DevicesSection />
+      <LoginActivitySection />
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import * as storage from '../services/storageService';
+import BackButton from '../components/BackButton';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { LazyImage } from '../components/LazyImage';
+import { Series } from '../services/types';
+
+const SeriesPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { currentUser } = useAuth();
+  const [series, setSeries] = useState<Series | null>(null);
+  const [watchedIds, setWatchedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/series/${encodeURIComponent(id || '')}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Series not found.' : 'Failed to fetch series.');
+        }
+        setSeries(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSeries();
+  }, [id]);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setWatchedIds([]);
+      return;
+    }
+    storage.getUserData()
+      .then(data => setWatchedIds(data.history.map(item => item.movieId)))
+      .catch(err => console.error('Failed to fetch viewing history:', err));
+  }, [currentUser]);
+
+  const parts = series?.parts || [];
+
+  // Continue after the furthest part the viewer has opened, or start at Part 1
+  const nextPart = useMemo(() => {
+    const lastWatchedIndex = parts.reduce((last, part, index) => watchedIds.includes(part.id) ? index : last, -1);
+    return parts[Math.min(lastWatchedIndex + 1, parts.length - 1)];
+  }, [parts, watchedIds]);
+  const hasStarted = parts.some(part => watchedIds.includes(part.id));
+
+  if (loading) {
+    return <div className="flex justify-center items-center h-full py-20"><LoadingSpinner text="Loading series..." /></div>;
+  }
+
+  if (error || !series) {
+    return (
+      <div>
+        <BackButton />
+        <div className="text-center py-20 text-red-400">Error: {error || 'Series not found.'}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <BackButton />
+      <section className="flex flex-col md:flex-row gap-8 py-8 animate-fade-in">
+        <div className="md:w-1/4 flex-shrink-0">
+          <LazyImage src={series.poster} alt={series.title} className="w-full rounded-lg shadow-2xl" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-4xl md:text-5xl font-black text-white">{series.title}</h1>
+          <p className="text-gray-400 mt-2">{parts.length} parts</p>
+          {nextPart && (
+            <Link
+              to={`/movie/${nextPart.id}`}
+              className="inline-block mt-6 bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-6 rounded-full transition-colors"
+            >
+              {hasStarted ? `Continue to Part ${parts.indexOf(nextPart) + 1}` : 'Start with Part 1'} &rarr;
+            </Link>
+          )}
+        </div>
+      </section>
+
+      <section className="mt-8 pt-8 border-t border-gray-800">
+        <h2 className="text-2xl font-bold text-white mb-4">All Parts</h2>
+        <ol className="space-y-3">
+          {parts.map((part, index) => {
+            const watched = watchedIds.includes(part.id);
+            return (
+              <li key={part.id}>
+                <Link
+                  to={`/movie/${part.id}`}
+                  className="flex items-center gap-4 bg-gray-800 hover:bg-gray-700 rounded-lg p-3 transition-colors"
+                >
+                  <span className="text-2xl font-black text-green-400 w-10 text-center">{index + 1}</span>
+                  <LazyImage src={part.poster} alt={part.title} className="w-12 h-16 object-cover rounded" />
+                  <div className="flex-1">
+                    <p className="font-semibold text-white">{part.title}</p>
+                    <p className="text-xs text-gray-400">{part.runtime} &bull; {new Date(part.releaseDate).getFullYear()}</p>
+                  </div>
+                  {watched && <span className="text-xs text-gray-400 bg-gray-700 rounded-full px-3 py-1">Watched</span>}
+                  {part.id === nextPart?.id && hasStarted && <span className="text-xs text-white bg-green-600 rounded-full px-3 py-1">Up next</span>}
+                </Link>
+              </li>
+            );
+          })}
+        </ol>
+      </section>
+    </div>
+  );
+};
+
+export default SeriesPage;
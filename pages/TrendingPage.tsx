@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 // FIX: react-router-dom v5 uses useLocation and useHistory instead of useSearchParams.
 import { useLocation, useNavigate } from 'react-router-dom';
 import MovieCard from '../components/MovieCard';
@@ -7,9 +7,17 @@ import Pagination from '../components/Pagination';
 import BackButton from '../components/BackButton';
 import { useMovies } from '../contexts/MovieContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { Movie } from '../services/types';
+import { getTrendingMovies, TrendingWindow } from '../services/trendingService';
 
 const MOVIES_PER_PAGE = 10;
 
+const TREND_WINDOWS: { value: TrendingWindow; label: string }[] = [
+  { value: '24h', label: 'Today' },
+  { value: '7d', label: 'This Week' },
+  { value: '30d', label: 'This Month' },
+];
+
 const TrendingPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -20,14 +28,28 @@ const TrendingPage: React.FC = () => {
     const pageParam = params.get('page');
     return pageParam ? parseInt(pageParam, 10) : 1;
   });
+  const [trendWindow, setTrendWindow] = useState<TrendingWindow>(() => {
+    const windowParam = new URLSearchParams(location.search).get('window');
+    return TREND_WINDOWS.some(w => w.value === windowParam) ? windowParam as TrendingWindow : '24h';
+  });
   const pageContentRef = useRef<HTMLDivElement>(null);
   const isInitialMount = useRef(true);
 
-  // The movies are sorted by popularity to establish the trend ranking
-  const trendingMovies = useMemo(() => {
-    if (!movies) return [];
-    return [...movies].sort((a, b) => b.popularity - a.popularity)
-  }, [movies]);
+  // The server ranks movies by recent clicks, watch starts, watchlist adds and comments
+  const [trendingMovies, setTrendingMovies] = useState<Movie[]>([]);
+  useEffect(() => {
+    if (!movies || movies.length === 0) return;
+    let cancelled = false;
+    getTrendingMovies(movies, trendWindow).then(ranked => {
+      if (!cancelled) setTrendingMovies(ranked);
+    });
+    return () => { cancelled = true; };
+  }, [movies, trendWindow]);
+
+  const changeWindow = (value: TrendingWindow) => {
+    setTrendWindow(value);
+    setCurrentPage(1);
+  };
 
   const totalPages = Math.ceil(trendingMovies.length / MOVIES_PER_PAGE);
   const currentMovies = trendingMovies.slice(
@@ -40,8 +62,11 @@ const TrendingPage: React.FC = () => {
     if (currentPage > 1) {
       params.set('page', String(currentPage));
     }
+    if (trendWindow !== '24h') {
+      params.set('window', trendWindow);
+    }
     navigate({ search: params.toString() }, { replace: true });
-  }, [currentPage, navigate]);
+  }, [currentPage, trendWindow, navigate]);
 
   useEffect(() => {
     // Scroll to top of content when page changes, but not on initial load
@@ -77,7 +102,20 @@ const TrendingPage: React.FC = () => {
         <h1 className="text-4xl md:text-5xl font-black bg-clip-text text-transparent bg-gradient-to-r from-green-400 to-blue-500">
           Trending Movies
         </h1>
-        <p className="text-gray-300 mt-2">Discover what's popular right now, ranked by popularity.</p>
+        <p className="text-gray-300 mt-2">Discover what everyone is watching, saving and talking about right now.</p>
+        <div className="inline-flex mt-6 bg-gray-800 rounded-full p-1" role="tablist">
+          {TREND_WINDOWS.map(option => (
+            <button
+              key={option.value}
+              role="tab"
+              aria-selected={trendWindow === option.value}
+              onClick={() => changeWindow(option.value)}
+              className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${trendWindow === option.value ? 'bg-green-500 text-white' : 'text-gray-300 hover:text-white'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </section>
 
       <section className="mt-8">
@@ -0,0 +1,78 @@
+/**
+ * Storage maintenance CLI
+ *
+ *   npm run db:status                  show driver, schema version and pending migrations
+ *   npm run db:migrate [-- --dry-run]  apply pending schema migrations
+ *   npm run db:import  [-- --dry-run] [--force]
+ *                                      copy data/*.json into the configured driver (e.g. sqlite)
+ *
+ * --dry-run lists exactly which records would change without writing anything.
+ */
+import {
+  getStorage,
+  getSchemaVersion,
+  getPendingMigrations,
+  runMigrations,
+  importJsonData,
+  LATEST_SCHEMA_VERSION,
+} from '../server/storage';
+
+const [command, ...flags] = process.argv.slice(2);
+const dryRun = flags.includes('--dry-run');
+const force = flags.includes('--force');
+
+const status = () => {
+  const pending = getPendingMigrations();
+  console.log(`Driver:         ${getStorage().kind}`);
+  console.log(`Schema version: v${getSchemaVersion()} (latest v${LATEST_SCHEMA_VERSION})`);
+  if (pending.length === 0) {
+    console.log('✅ Schema is up to date');
+    return;
+  }
+  console.log(`Pending migrations (${pending.length}):`);
+  pending.forEach(m => console.log(`  v${m.version}  ${m.name}`));
+};
+
+const migrate = () => {
+  const results = runMigrations({ dryRun });
+  if (results.length === 0) {
+    console.log(`✅ Schema is already at v${getSchemaVersion()}, nothing to do`);
+    return;
+  }
+  for (const { version, name, changes } of results) {
+    console.log(`\nv${version}  ${name}: ${changes.length} record(s) ${dryRun ? 'would change' : 'changed'}`);
+    changes.forEach(change => {
+      const fields = change.fields.includes('*') ? '' : ` [${change.fields.join(', ')}]`;
+      console.log(`  ${change.action.padEnd(6)} ${change.collection}/${change.key}${fields}`);
+    });
+  }
+  console.log(dryRun
+    ? `\n🔍 Dry run: nothing was written. Schema remains at v${getSchemaVersion()}.`
+    : `\n✅ Schema is now at v${getSchemaVersion()}`);
+};
+
+const importData = () => {
+  const results = importJsonData({ dryRun, force });
+  results.forEach(({ collection, source, existing }) => {
+    const overwrite = existing > 0 ? ` (replacing ${existing} existing)` : '';
+    console.log(`  ${collection.padEnd(16)} ${source} record(s)${overwrite}`);
+  });
+  console.log(dryRun
+    ? '\n🔍 Dry run: nothing was written.'
+    : `\n✅ Imported data/*.json into ${getStorage().kind}. Run "npm run db:migrate" next if the schema is behind.`);
+};
+
+const commands: Record<string, () => void> = { status, migrate, import: importData };
+
+try {
+  const run = commands[command];
+  if (!run) {
+    console.log('Usage: ts-node scripts/db.ts <status|migrate|import> [--dry-run] [--force]');
+    process.exit(1);
+  }
+  run();
+  getStorage().close();
+} catch (error: any) {
+  console.error(`❌ ${error.message || error}`);
+  process.exit(1);
+}
@@ -10,20 +10,37 @@ import { tmpdir } from 'os';
 import { spawn } from 'child_process';
 import { createReadStream, unlinkSync, statSync, readdirSync, existsSync } from 'fs';
 import { runBot } from './bot/run';
+import { startPublishingScheduler } from './bot/publishingManager';
 // Import Cinemax AI for our custom AI functionality
 import CinemaxAIService from './src/ai/services/CinemaxAIService';
 import usersRouter from './api/users';
 import commentsRouter from './api/comments';
+import seriesRouter from './api/series';
+import eventsRouter from './api/events';
+import trendingRouter from './api/trending';
 import { csrfProtection } from './api/csrf';
+import { rateLimit } from './api/rateLimiter';
+import { getClientIp, parseTrustProxy } from './api/utils';
 import { securityHeadersMiddleware } from './api/securityHeaders';
 import { errorHandler, notFoundHandler } from './api/errorHandler';
 import { getYouTubeVideoInfo as getServerYouTubeVideoInfo, isValidYouTubeURL } from './services/serverYoutubeService';
 import { ytdlpManager } from './services/ytdlpBinaryManager';
 import { ffmpegService } from './services/ffmpegService';
 import { downloadYouTubeWithHEAAC } from './services/downloadWithHEAAC';
-import { serverMovieRepository } from './server/movieRepository';
+import { serverMovieRepository, MovieSortBy } from './server/movieRepository';
+import { getAudienceRating, withAudienceRatings } from './server/audienceRatings';
+import { movieSearchIndex } from './server/movieSearchIndex';
 import { addSourceToQueue, LiveTvSource } from './services/liveTvService';
+import { getProgramGuide, startLiveTvScheduler } from './services/liveTvSchedule';
+import { isRestreamEnabled, liveTvChannel } from './services/liveTvChannel';
+import { getLiveTvState, streamLiveTvEvents } from './server/liveTvEvents';
+import { recordHeartbeat, VIEWER_ID_PATTERN } from './server/liveTvViewers';
+import { deleteChatMessage, findChatMessage, getChatMessages, getSlowModeSeconds, postChatMessage, toPublicChatMessage } from './server/liveTvChat';
+import { MUTE_HOURS, getUserModeration, isStaff, setUserModeration } from './server/moderation';
 import { getSession, validateSessionBinding } from './api/sessionStore';
+import { moviesRepository, usersRepository, warnIfSchemaOutdated } from './server/storage';
+import { pruneAnalytics } from './server/analytics';
+import { needsTwoFactorSetup } from './server/twoFactor';
 
 /**
  * SECURITY AUDIT: Session Validation
@@ -39,9 +56,14 @@ import { getSession, validateSessionBinding } from './api/sessionStore';
  * - POST /api/youtube-downloader (YouTube downloads)
  * - POST /api/livetv/queue-youtube (Admin only - Live TV)
  * - POST /api/livetv/queue-hls (Admin only - Live TV)
+ * - POST /api/livetv/chat (Live TV chat)
+ * - DELETE /api/livetv/chat/:id (Staff only - Live TV chat)
  * 
  * All /api/users and /api/comments routes use authMiddleware from users.ts and comments.ts
  * which implements the same secure validation pattern.
+ *
+ * AI, YouTube downloads, login, signup, comment writes, analytics events and Live TV chat and heartbeats are
+ * throttled by the named policies in server/rateLimit.ts (see api/rateLimiter.ts).
  */
 
 // SECURITY FIX: Proper session validation using server-side session store
@@ -63,7 +85,7 @@ const validateAuthToken = (authHeader: string | undefined, req: express.Request)
     }
     
     // Validate session binding to prevent session hijacking
-    const clientIp = req.headers['x-forwarded-for']?.toString().split(',')[0].trim() || req.socket.remoteAddress || 'unknown';
+    const clientIp = getClientIp(req);
     const clientUserAgent = req.headers['user-agent'] || 'unknown';
     
     if (!validateSessionBinding(session, clientIp, clientUserAgent)) {
@@ -72,11 +94,8 @@ const validateAuthToken = (authHeader: string | undefined, req: express.Request)
     }
     
     // Verify user exists
-    const usersPath = path.join(process.cwd(), 'data', 'users.json');
     try {
-        const usersData = fs.readFileSync(usersPath, 'utf-8');
-        const users = JSON.parse(usersData);
-        const user = users.find((u: any) => u.id === session.userId);
+        const user = usersRepository.get(session.userId);
         if (!user) {
             return { valid: false, error: 'User not found' };
         }
@@ -122,6 +141,10 @@ const PORT = parseInt(process.env.PORT || defaultPort, 10);
 
 console.log(`🔍 Environment detected: ${isReplit ? 'Replit' : 'VPS/Local'} - Using port ${PORT}`);
 
+// Which proxies may set X-Forwarded-For; req.ip (and so every per-IP limit) depends on it.
+// Replit puts one proxy in front of the app; on a VPS that is usually nginx on the same host.
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY, isReplit ? 1 : 'loopback'));
+
 // @FIX: The type errors in route handlers were causing this `app.use` call to fail type checking. Fixing the handlers resolves this.
 app.use(express.json({ limit: '10mb' })); // Increase limit for profile pics
 
@@ -129,39 +152,6 @@ app.use(express.json({ limit: '10mb' })); // Increase limit for profile pics
 app.use(securityHeadersMiddleware);
 app.use(csrfProtection);
 
-// --- SECURITY & HELPERS ---
-const userRequests = new Map<string, number[]>();
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-const MAX_REQUESTS_PER_WINDOW = 20;
-
-const checkRateLimit = (userId: string) => {
-    const now = Date.now();
-    const timestamps = userRequests.get(userId) || [];
-    const recentTimestamps = timestamps.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
-    if (recentTimestamps.length >= MAX_REQUESTS_PER_WINDOW) return { limited: true };
-    recentTimestamps.push(now);
-    userRequests.set(userId, recentTimestamps);
-    return { limited: false };
-};
-
-// SECURITY FIX: Periodic cleanup of old rate limit data to prevent memory leaks
-setInterval(() => {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [userId, timestamps] of userRequests.entries()) {
-        const recentTimestamps = timestamps.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
-        if (recentTimestamps.length === 0) {
-            userRequests.delete(userId);
-            cleaned++;
-        } else {
-            userRequests.set(userId, recentTimestamps);
-        }
-    }
-    if (cleaned > 0) {
-        console.log(`🧹 Rate limiter cleanup: removed ${cleaned} inactive user(s)`);
-    }
-}, 5 * 60 * 1000); // Run every 5 minutes
-
 // Removed local validateSession as it's now imported from ./api/auth
 
 // --- CINEMAX AI SETUP ---
@@ -173,7 +163,7 @@ console.log('✅ Cinemax AI service initialized');
 
 // Cinemax AI Route - Universal AI for Yorubacinemax
 // @FIX: Use express.Request and express.Response for proper type inference.
-app.post('/api/cinemax-ai', async (req: express.Request, res: express.Response) => {
+app.post('/api/cinemax-ai', rateLimit('ai', 'Too many AI requests. Please wait a moment and try again.'), async (req: express.Request, res: express.Response) => {
     try {
         // SECURITY FIX: Validate session token against server-side session store
         const authResult = validateAuthToken(req.headers.authorization, req);
@@ -181,11 +171,6 @@ app.post('/api/cinemax-ai', async (req: express.Request, res: express.Response)
             return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
         }
         
-        // RATE LIMITING: Only apply to AI endpoints to prevent abuse
-        if (checkRateLimit(authResult.userId!).limited) {
-            return res.status(429).json({ error: 'Too many AI requests. Please wait a moment and try again.' });
-        }
-        
         const { params } = req.body;
         const userId = authResult.userId!;
 
@@ -290,7 +275,7 @@ app.post('/api/azure-ai', async (req: express.Request, res: express.Response) =>
 
 // YouTube Downloader using yt-dlp - SECURITY: Protected against external abuse
 // @FIX: Use express.Request and express.Response for proper type inference.
-app.post('/api/youtube-downloader', async (req: express.Request, res: express.Response) => {
+app.post('/api/youtube-downloader', rateLimit('youtube-downloader', 'Too many downloads. Please wait a few minutes and try again.'), async (req: express.Request, res: express.Response) => {
     try {
         // SECURITY FIX: Validate session token against server-side session store
         const authResult = validateAuthToken(req.headers.authorization, req);
@@ -450,6 +435,15 @@ app.use('/api/users', usersRouter);
 // FIX: Explicitly typing handlers resolves incorrect overload selection for `app.use`.
 app.use('/api/comments', commentsRouter);
 
+// Series API (logic from api/series.ts)
+app.use('/api/series', seriesRouter);
+
+// Analytics event ingestion (logic from api/events.ts)
+app.use('/api/events', eventsRouter);
+
+// Shared trending ranking (logic from api/trending.ts)
+app.use('/api/trending', trendingRouter);
+
 // Test endpoint for yt-dlp-exec functionality
 app.get('/api/test-ytdlp', async (req: express.Request, res: express.Response) => {
     try {
@@ -879,19 +873,10 @@ app.get('/api/announcement', (req: express.Request, res: express.Response) => {
     }
 });
 
-// Movies API - serves movies.json
+// Movies API - serves the movie catalogue from the storage layer
 app.get('/api/movies', (req: express.Request, res: express.Response) => {
     try {
-        const fs = require('fs');
-        const moviesPath = path.join(process.cwd(), 'data', 'movies.json');
-
-        if (!fs.existsSync(moviesPath)) {
-            console.error('Movies file not found at:', moviesPath);
-            return res.status(404).json({ error: 'Movies data not found' });
-        }
-
-        const moviesData = fs.readFileSync(moviesPath, 'utf8');
-        const movies = JSON.parse(moviesData);
+        const movies = withAudienceRatings(moviesRepository.all());
 
         res.header('Access-Control-Allow-Origin', '*');
         res.header('Access-Control-Allow-Methods', 'GET');
@@ -905,6 +890,32 @@ app.get('/api/movies', (req: express.Request, res: express.Response) => {
     }
 });
 
+// Movie Search API - ranked full-text search over the in-process index
+app.get('/api/movies/search', (req: express.Request, res: express.Response) => {
+    try {
+        // A repeated ?q= arrives as an array
+        const query = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 100) : '';
+        const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+        const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+
+        if (!query) {
+            return res.status(400).json({ error: 'Search query "q" is required' });
+        }
+
+        const hits = movieSearchIndex.search(query, { limit, category });
+
+        res.header('Access-Control-Allow-Origin', '*');
+        res.header('Access-Control-Allow-Methods', 'GET');
+        res.header('Access-Control-Allow-Headers', 'Content-Type');
+        res.header('Cache-Control', 'public, max-age=60');
+
+        res.status(200).json({ query, results: withAudienceRatings(hits.map(hit => hit.movie)) });
+    } catch (error: any) {
+        console.error('Error searching movies:', error);
+        res.status(500).json({ error: 'Failed to search movies' });
+    }
+});
+
 // Paginated Movies API - optimized with caching
 app.get('/api/movies/paginated', (req: express.Request, res: express.Response) => {
     try {
@@ -913,7 +924,7 @@ app.get('/api/movies/paginated', (req: express.Request, res: express.Response) =
         const category = req.query.category as string;
         const year = req.query.year ? parseInt(req.query.year as string) : undefined;
         const search = req.query.search as string;
-        const sortBy = (req.query.sortBy as string) || 'recent';
+        const sortBy = (req.query.sortBy as string) || (search ? 'relevance' : 'recent');
 
         const result = serverMovieRepository.getPaginated({
             page,
@@ -921,7 +932,7 @@ app.get('/api/movies/paginated', (req: express.Request, res: express.Response) =
             category,
             year,
             search,
-            sortBy: sortBy as 'recent' | 'popular' | 'rating' | 'title'
+            sortBy: sortBy as MovieSortBy
         });
 
         res.header('Access-Control-Allow-Origin', '*');
@@ -965,6 +976,20 @@ app.post('/api/movies/preload', express.json(), (req: express.Request, res: expr
     }
 });
 
+// Audience Rating API - the star ratings readers left with their comments
+app.get('/api/movies/:id/audience-rating', (req: express.Request, res: express.Response) => {
+    try {
+        if (!moviesRepository.get(req.params.id)) {
+            return res.status(404).json({ error: 'Movie not found' });
+        }
+        res.header('Cache-Control', 'no-cache');
+        res.status(200).json({ movieId: req.params.id, audienceRating: getAudienceRating(req.params.id) || null });
+    } catch (error: any) {
+        console.error('Error getting audience rating:', error);
+        res.status(500).json({ error: 'Failed to load audience rating' });
+    }
+});
+
 // Actors API - serves actors.json
 app.get('/api/actors', (req: express.Request, res: express.Response) => {
     try {
@@ -1015,18 +1040,10 @@ app.get('/api/collections', (req: express.Request, res: express.Response) => {
     }
 });
 
-// Live TV API - serves liveTv.json (read-only for client)
+// Live TV API - serves the broadcast state (read-only for client), with where playback is now
 app.get('/api/livetv', (req: express.Request, res: express.Response) => {
     try {
-        const liveTvPath = path.join(process.cwd(), 'data', 'liveTv.json');
-
-        if (!fs.existsSync(liveTvPath)) {
-            console.error('Live TV data file not found at:', liveTvPath);
-            return res.status(404).json({ error: 'Live TV data not found' });
-        }
-
-        const liveTvData = fs.readFileSync(liveTvPath, 'utf8');
-        const liveTV = JSON.parse(liveTvData);
+        const liveTV = getLiveTvState();
 
         res.header('Access-Control-Allow-Origin', '*');
         res.header('Access-Control-Allow-Methods', 'GET');
@@ -1040,6 +1057,127 @@ app.get('/api/livetv', (req: express.Request, res: express.Response) => {
     }
 });
 
+// Live TV updates pushed as they happen (Server-Sent Events)
+app.get('/api/livetv/events', streamLiveTvEvents);
+
+// Live TV program guide - what's on now and next, booked slots and the queue projected forward
+app.get('/api/livetv/schedule', (req: express.Request, res: express.Response) => {
+    try {
+        const hours = Math.min(Math.max(parseInt(String(req.query.hours || '24'), 10) || 24, 1), 168);
+        res.header('Cache-Control', 'no-cache, no-store, must-revalidate');
+        res.status(200).json(getProgramGuide(hours));
+    } catch (error: any) {
+        console.error('Error building live TV schedule:', error);
+        res.status(500).json({ error: 'Failed to load live TV schedule' });
+    }
+});
+
+// Live TV viewer heartbeat - the page sends one every 15 seconds while the broadcast is on
+app.post('/api/livetv/heartbeat', rateLimit('livetv-heartbeat'), (req: express.Request, res: express.Response) => {
+    const { viewerId } = req.body || {};
+    if (typeof viewerId !== 'string' || !VIEWER_ID_PATTERN.test(viewerId)) {
+        return res.status(400).json({ error: 'A valid viewer ID is required' });
+    }
+    try {
+        const stats = recordHeartbeat(viewerId);
+        res.status(200).json({ viewers: stats?.current || 0, peak: stats?.peak || 0 });
+    } catch (error: any) {
+        console.error('Error recording live TV heartbeat:', error);
+        res.status(500).json({ error: 'Failed to record heartbeat' });
+    }
+});
+
+const getLiveTvViewer = (req: express.Request) => {
+    if (!req.headers.authorization) return undefined;
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    return authResult.valid ? usersRepository.get(authResult.userId!) : undefined;
+};
+
+// Live TV chat - latest messages; signed-in users also get their own held messages back
+app.get('/api/livetv/chat', (req: express.Request, res: express.Response) => {
+    try {
+        const viewer = getLiveTvViewer(req);
+        res.header('Cache-Control', 'no-cache, no-store, must-revalidate');
+        res.status(200).json({
+            messages: getChatMessages(viewer),
+            slowModeSeconds: getSlowModeSeconds(),
+            canModerate: isStaff(viewer)
+        });
+    } catch (error: any) {
+        console.error('Error reading live TV chat:', error);
+        res.status(500).json({ error: 'Failed to load chat' });
+    }
+});
+
+app.post('/api/livetv/chat', rateLimit('livetv-chat', 'You are sending messages too quickly. Please wait a moment.'), (req: express.Request, res: express.Response) => {
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    if (!authResult.valid) {
+        return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
+    }
+    const user = usersRepository.get(authResult.userId!)!;
+    const { text } = req.body || {};
+    if (typeof text !== 'string') {
+        return res.status(400).json({ error: 'Message text is required' });
+    }
+
+    const result = postChatMessage(user, text);
+    if ('error' in result) {
+        if (result.retryAfter) res.setHeader('Retry-After', String(result.retryAfter));
+        const status = result.reason === 'slow' ? 429 : result.reason === 'muted' ? 403 : 400;
+        return res.status(status).json({ error: result.error, retryAfter: result.retryAfter });
+    }
+    res.status(201).json({ message: toPublicChatMessage(result.message, user) });
+});
+
+// Staff remove a chat message, and with { mute: true } mute its author for MUTE_HOURS
+app.delete('/api/livetv/chat/:id', (req: express.Request, res: express.Response) => {
+    const authResult = validateAuthToken(req.headers.authorization, req);
+    if (!authResult.valid) {
+        return res.status(401).json({ error: `Unauthorized: ${authResult.error}` });
+    }
+    const user = usersRepository.get(authResult.userId!);
+    if (!isStaff(user)) return res.status(403).json({ error: 'Forbidden' });
+
+    const message = findChatMessage(req.params.id);
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    deleteChatMessage(message.id);
+
+    if (req.body?.mute === true) {
+        const author = usersRepository.get(message.userId);
+        if (author) {
+            const mutedUntil = new Date(Date.now() + MUTE_HOURS * 60 * 60 * 1000).toISOString();
+            setUserModeration(author.id, { ...getUserModeration(author), mutedUntil });
+        }
+    }
+    res.status(200).json({ success: true });
+});
+
+// Live TV channel - our own continuous HLS restream of whatever is on air (LIVETV_RESTREAM=true)
+app.get('/api/livetv/channel/:file', (req: express.Request, res: express.Response) => {
+    if (!liveTvChannel.isRunning()) {
+        return res.status(404).json({ error: 'Live TV channel is not enabled' });
+    }
+
+    const { file } = req.params;
+    if (file === 'index.m3u8') {
+        const playlist = liveTvChannel.getPlaylist();
+        if (!playlist) {
+            return res.status(503).json({ error: 'Live TV channel is starting' });
+        }
+        res.header('Cache-Control', 'no-cache, no-store, must-revalidate');
+        res.type('application/vnd.apple.mpegurl').send(playlist);
+        return;
+    }
+
+    const segmentPath = /^[\w-]+\.ts$/.test(file) ? liveTvChannel.getSegmentPath(file) : null;
+    if (!segmentPath) {
+        return res.status(404).json({ error: 'Segment not found' });
+    }
+    // Segments never change once written
+    res.header('Cache-Control', 'public, max-age=60');
+    res.type('video/mp2t').sendFile(segmentPath);
+});
+
 // Queue YouTube movie to Live TV - SECURITY: Admin only with proper validation
 app.post('/api/livetv/queue-youtube', (req: express.Request, res: express.Response) => {
     try {
@@ -1050,14 +1188,14 @@ app.post('/api/livetv/queue-youtube', (req: express.Request, res: express.Respon
         }
         
         // Verify user exists and is admin
-        const usersPath = path.join(process.cwd(), 'data', 'users.json');
-        const usersData = fs.readFileSync(usersPath, 'utf-8');
-        const users = JSON.parse(usersData);
-        const user = users.find((u: any) => u.id === authResult.userId);
+        const user = usersRepository.get(authResult.userId!);
         
         if (!user || user.role !== 'admin') {
             return res.status(403).json({ error: 'Forbidden: Admin access required' });
         }
+        if (needsTwoFactorSetup(user)) {
+            return res.status(403).json({ error: 'Forbidden: Turn on two-factor authentication to use admin features' });
+        }
         
         const { movieId } = req.body;
         
@@ -1065,14 +1203,7 @@ app.post('/api/livetv/queue-youtube', (req: express.Request, res: express.Respon
             return res.status(400).json({ error: 'Movie ID is required' });
         }
 
-        const moviesPath = path.join(process.cwd(), 'data', 'movies.json');
-        if (!fs.existsSync(moviesPath)) {
-            return res.status(404).json({ error: 'Movies data not found' });
-        }
-
-        const moviesData = fs.readFileSync(moviesPath, 'utf8');
-        const movies = JSON.parse(moviesData);
-        const movie = movies.find((m: any) => m.id === movieId);
+        const movie: any = moviesRepository.get(movieId);
 
         if (!movie) {
             return res.status(404).json({ error: 'Movie not found' });
@@ -1135,14 +1266,14 @@ app.post('/api/livetv/queue-hls', (req: express.Request, res: express.Response)
         }
         
         // Verify user exists and is admin
-        const usersPath = path.join(process.cwd(), 'data', 'users.json');
-        const usersData = fs.readFileSync(usersPath, 'utf-8');
-        const users = JSON.parse(usersData);
-        const user = users.find((u: any) => u.id === authResult.userId);
+        const user = usersRepository.get(authResult.userId!);
         
         if (!user || user.role !== 'admin') {
             return res.status(403).json({ error: 'Forbidden: Admin access required' });
         }
+        if (needsTwoFactorSetup(user)) {
+            return res.status(403).json({ error: 'Forbidden: Turn on two-factor authentication to use admin features' });
+        }
         
         const { title, description, url } = req.body;
         
@@ -1207,6 +1338,33 @@ app.use(errorHandler);
 // --- STARTUP ---
 app.listen(PORT, '0.0.0.0', async () => {
     console.log(`✅ Web server listening on port ${PORT}. Accessible on all network interfaces.`);
+    warnIfSchemaOutdated();
+
+    // Analytics rollups past their retention window are dropped hourly
+    const pruneAnalyticsSafely = () => {
+        try {
+            pruneAnalytics();
+        } catch (error) {
+            console.error('📊 Analytics pruning failed:', error);
+        }
+    };
+    pruneAnalyticsSafely();
+    setInterval(pruneAnalyticsSafely, 60 * 60 * 1000);
+
+    // Starts booked Live TV slots on time and moves on when an item has run its length
+    startLiveTvScheduler();
+
+    // Releases coming-soon movies when their publish time arrives
+    startPublishingScheduler();
+
+    // Transcodes the broadcast into one local HLS channel; needs FFmpeg and a spare CPU core
+    if (isRestreamEnabled()) {
+        try {
+            liveTvChannel.start();
+        } catch (error) {
+            console.error('📡 Failed to start Live TV channel:', error);
+        }
+    }
 
     // Start the Telegram bot
     try {
@@ -0,0 +1,229 @@
+import { AnalyticsBucket, AnalyticsGranularity, analyticsRepository, moviesRepository, withTransaction } from './storage';
+
+export type AnalyticsEventType = 'VISIT' | 'SIGNUP' | 'MOVIE_CLICK' | 'WATCH_START' | 'WATCHLIST_ADD';
+
+export interface AnalyticsEvent {
+  type: AnalyticsEventType;
+  timestamp: number;
+  movieId?: string;
+  referrer?: string;
+  device?: string;
+}
+
+export interface AnalyticsSummary {
+  timeframeDays: number;
+  dailyVisitors: number;
+  todaysSignups: number;
+  mostClicked: { movieId: string; title: string; clicks: number }[];
+  topReferrers: { referrer: string; visits: number }[];
+  devices: Record<string, number>;
+  totalEvents: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hourly buckets give exact 24h/7d windows; daily buckets keep the long tail cheap
+const HOURLY_RETENTION_DAYS = parseInt(process.env.ANALYTICS_HOURLY_RETENTION_DAYS || '7', 10) || 7;
+const DAILY_RETENTION_DAYS = parseInt(process.env.ANALYTICS_DAILY_RETENTION_DAYS || '365', 10) || 365;
+
+// Only these may come from the public beacon; the rest are recorded by the API handlers themselves
+const BEACON_EVENT_TYPES: AnalyticsEventType[] = ['VISIT', 'SIGNUP', 'MOVIE_CLICK'];
+const MAX_REFERRERS_PER_BUCKET = 100;
+
+const bucketStart = (timestamp: number, granularity: AnalyticsGranularity) =>
+  timestamp - (timestamp % (granularity === 'hour' ? HOUR_MS : DAY_MS));
+
+const bucketKey = (granularity: AnalyticsGranularity, start: number) => `${granularity}:${new Date(start).toISOString()}`;
+
+const emptyBucket = (granularity: AnalyticsGranularity, start: number): AnalyticsBucket => ({
+  granularity,
+  start: new Date(start).toISOString(),
+  visits: 0,
+  signups: 0,
+  movieClicks: {},
+  referrers: {},
+  devices: {},
+});
+
+const increment = (counts: Record<string, number>, key: string, by = 1) => {
+  counts[key] = (counts[key] || 0) + by;
+};
+
+/**
+ * Reduce a document.referrer to its host, so counts group by site rather than page
+ */
+export const normalizeReferrer = (referrer: string | undefined, ownHost?: string): string => {
+  if (!referrer) return 'direct';
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, '').toLowerCase();
+    if (!host) return 'direct';
+    return ownHost && host === ownHost.replace(/^www\./, '').split(':')[0].toLowerCase() ? 'internal' : host;
+  } catch {
+    return 'direct';
+  }
+};
+
+export const deviceFromUserAgent = (userAgent: string | undefined): string => {
+  const ua = (userAgent || '').toLowerCase();
+  if (!ua) return 'unknown';
+  if (/ipad|tablet|playbook|silk|(android(?!.*mobile))/.test(ua)) return 'tablet';
+  if (/mobi|iphone|ipod|android|opera mini|iemobile/.test(ua)) return 'mobile';
+  return 'desktop';
+};
+
+export const isBeaconEventType = (type: unknown): type is AnalyticsEventType =>
+  BEACON_EVENT_TYPES.includes(type as AnalyticsEventType);
+
+const applyEvent = (bucket: AnalyticsBucket, event: AnalyticsEvent) => {
+  if (event.type === 'VISIT') {
+    bucket.visits++;
+    const referrer = event.referrer || 'direct';
+    // Spammy referrers shouldn't grow a bucket without bound
+    if (bucket.referrers[referrer] !== undefined || Object.keys(bucket.referrers).length < MAX_REFERRERS_PER_BUCKET) {
+      increment(bucket.referrers, referrer);
+    } else {
+      increment(bucket.referrers, 'other');
+    }
+    increment(bucket.devices, event.device || 'unknown');
+  } else if (event.type === 'SIGNUP') {
+    bucket.signups++;
+  } else if (event.type === 'MOVIE_CLICK' && event.movieId) {
+    increment(bucket.movieClicks, event.movieId);
+  } else if (event.type === 'WATCH_START' && event.movieId) {
+    increment(bucket.watchStarts = bucket.watchStarts || {}, event.movieId);
+  } else if (event.type === 'WATCHLIST_ADD' && event.movieId) {
+    increment(bucket.watchlistAdds = bucket.watchlistAdds || {}, event.movieId);
+  }
+};
+
+/**
+ * Fold a batch of events into their hourly and daily rollups
+ */
+export const recordAnalyticsEvents = (events: AnalyticsEvent[]): number => {
+  if (events.length === 0) return 0;
+
+  withTransaction(() => {
+    const touched = new Map<string, AnalyticsBucket>();
+    const bucketFor = (granularity: AnalyticsGranularity, timestamp: number) => {
+      const start = bucketStart(timestamp, granularity);
+      const key = bucketKey(granularity, start);
+      if (!touched.has(key)) touched.set(key, analyticsRepository.get(key) || emptyBucket(granularity, start));
+      return touched.get(key)!;
+    };
+
+    events.forEach(event => {
+      applyEvent(bucketFor('hour', event.timestamp), event);
+      applyEvent(bucketFor('day', event.timestamp), event);
+    });
+    touched.forEach((bucket, key) => analyticsRepository.set(key, bucket));
+  });
+  return events.length;
+};
+
+/**
+ * Count a signed-in action on a movie (watch start, watchlist add). Never throws, so it
+ * can't fail the request that triggered it.
+ */
+export const recordMovieActivity = (type: 'WATCH_START' | 'WATCHLIST_ADD', movieId: unknown) => {
+  if (typeof movieId !== 'string' || !moviesRepository.get(movieId)) return;
+  try {
+    recordAnalyticsEvents([{ type, movieId, timestamp: Date.now() }]);
+  } catch (error) {
+    console.error(`📊 Could not record ${type} for ${movieId}:`, error);
+  }
+};
+
+/**
+ * Check one event sent by the site's beacon. Unknown types and movies are dropped;
+ * timestamps outside the last hour (or in the future) are replaced by the receive time.
+ */
+export const parseAnalyticsEvent = (raw: any, context: { userAgent?: string; host?: string }): AnalyticsEvent | null => {
+  if (!raw || typeof raw !== 'object' || !isBeaconEventType(raw.type)) return null;
+
+  const now = Date.now();
+  const sentAt = typeof raw.timestamp === 'string' || typeof raw.timestamp === 'number' ? new Date(raw.timestamp).getTime() : NaN;
+  const timestamp = !isNaN(sentAt) && sentAt <= now && now - sentAt <= HOUR_MS ? sentAt : now;
+
+  if (raw.type === 'MOVIE_CLICK') {
+    if (typeof raw.movieId !== 'string' || !moviesRepository.get(raw.movieId)) return null;
+    return { type: raw.type, timestamp, movieId: raw.movieId };
+  }
+  if (raw.type === 'VISIT') {
+    return {
+      type: raw.type,
+      timestamp,
+      referrer: normalizeReferrer(typeof raw.referrer === 'string' ? raw.referrer : undefined, context.host),
+      device: deviceFromUserAgent(context.userAgent),
+    };
+  }
+  return { type: raw.type, timestamp };
+};
+
+/**
+ * The rollups covering the last `timeframeDays`. Windows that fit in the hourly retention
+ * are exact; longer ones are counted in whole days.
+ */
+export const getAnalyticsBuckets = (timeframeDays: number): AnalyticsBucket[] => {
+  const granularity: AnalyticsGranularity = timeframeDays <= HOURLY_RETENTION_DAYS ? 'hour' : 'day';
+  const cutoff = bucketStart(Date.now() - timeframeDays * DAY_MS, granularity);
+  return analyticsRepository.entries()
+    .map(([, bucket]) => bucket)
+    .filter((bucket): bucket is AnalyticsBucket => !!bucket && bucket.granularity === granularity && Date.parse(bucket.start) >= cutoff);
+};
+
+/**
+ * Activity over the last `timeframeDays`, read from the rollups
+ */
+export const getAnalyticsSummary = (timeframeDays: number = 1): AnalyticsSummary => {
+  const totals = emptyBucket('hour', Date.now());
+  getAnalyticsBuckets(timeframeDays).forEach(bucket => {
+    totals.visits += bucket.visits;
+    totals.signups += bucket.signups;
+    Object.entries(bucket.movieClicks).forEach(([movieId, clicks]) => increment(totals.movieClicks, movieId, clicks));
+    Object.entries(bucket.referrers).forEach(([referrer, visits]) => increment(totals.referrers, referrer, visits));
+    Object.entries(bucket.devices).forEach(([device, visits]) => increment(totals.devices, device, visits));
+  });
+
+  const mostClicked = Object.entries(totals.movieClicks)
+    .map(([movieId, clicks]) => ({ movieId, title: moviesRepository.get(movieId)?.title || movieId, clicks }))
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, 5);
+
+  const topReferrers = Object.entries(totals.referrers)
+    .map(([referrer, visits]) => ({ referrer, visits }))
+    .sort((a, b) => b.visits - a.visits)
+    .slice(0, 5);
+
+  const totalClicks = Object.values(totals.movieClicks).reduce((sum, clicks) => sum + clicks, 0);
+
+  return {
+    timeframeDays,
+    dailyVisitors: totals.visits,
+    todaysSignups: totals.signups,
+    mostClicked,
+    topReferrers,
+    devices: totals.devices,
+    totalEvents: totals.visits + totals.signups + totalClicks,
+  };
+};
+
+/**
+ * Drop rollups past their retention window. Run on a timer from server.ts.
+ */
+export const pruneAnalytics = (): number => {
+  const now = Date.now();
+  const limits: Record<AnalyticsGranularity, number> = {
+    hour: now - HOURLY_RETENTION_DAYS * DAY_MS,
+    day: now - DAILY_RETENTION_DAYS * DAY_MS,
+  };
+  const expired = analyticsRepository.entries()
+    .filter(([, bucket]) => !bucket || Date.parse(bucket.start) < limits[bucket.granularity])
+    .map(([key]) => key);
+
+  if (expired.length > 0) {
+    withTransaction(() => expired.forEach(key => analyticsRepository.remove(key)));
+    console.log(`📊 Pruned ${expired.length} expired analytics bucket(s).`);
+  }
+  return expired.length;
+};
@@ -0,0 +1,128 @@
+import { AudienceRatingTally, audienceRatingsRepository, commentsRepository, withTransaction } from './storage';
+import { isPublished, ModeratedComment } from './moderation';
+
+export interface AudienceRating {
+  count: number;
+  mean: number;
+  /** Mean pulled towards the site-wide mean until a movie has enough ratings to stand alone */
+  score: number;
+  /** How many 1★…5★ ratings, index 0 being 1★ */
+  distribution: number[];
+}
+
+// How many site-average ratings every movie starts with in its weighted score
+const PRIOR_COUNT = parseInt(process.env.AUDIENCE_RATING_PRIOR_COUNT || '5', 10) || 5;
+// Used as the site-wide mean until anyone has rated anything
+const NEUTRAL_MEAN = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Count each user's latest rating on a movie. Held, hidden and shadow-banned comments don't count.
+ */
+export const tallyRatings = (comments: ModeratedComment[]): AudienceRatingTally | undefined => {
+  const latestByUser = new Map<string, ModeratedComment>();
+  comments
+    .filter(comment => !comment.parentId && isPublished(comment) && Number.isInteger(comment.rating) && comment.rating >= 1 && comment.rating <= 5)
+    .forEach(comment => {
+      const previous = latestByUser.get(comment.userId);
+      if (!previous || previous.date < comment.date) latestByUser.set(comment.userId, comment);
+    });
+  if (latestByUser.size === 0) return undefined;
+
+  const distribution = [0, 0, 0, 0, 0];
+  let sum = 0;
+  latestByUser.forEach(comment => {
+    distribution[comment.rating - 1]++;
+    sum += comment.rating;
+  });
+  return { count: latestByUser.size, sum, distribution, updatedAt: new Date().toISOString() };
+};
+
+let siteMean: number | null = null;
+
+const getSiteMean = (): number => {
+  if (siteMean === null) {
+    let count = 0;
+    let sum = 0;
+    audienceRatingsRepository.entries().forEach(([, tally]) => {
+      if (!tally) return;
+      count += tally.count;
+      sum += tally.sum;
+    });
+    siteMean = count > 0 ? sum / count : NEUTRAL_MEAN;
+  }
+  return siteMean;
+};
+
+audienceRatingsRepository.onChange(() => { siteMean = null; });
+
+/**
+ * Re-tally one movie from its comments
+ */
+export const recomputeAudienceRating = (movieId: string) => {
+  const tally = tallyRatings(commentsRepository.get(movieId) as ModeratedComment[]);
+  const current = audienceRatingsRepository.get(movieId);
+  if (!tally) {
+    if (current) audienceRatingsRepository.remove(movieId);
+    return;
+  }
+  if (current && current.count === tally.count && current.sum === tally.sum && current.distribution.join() === tally.distribution.join()) return;
+  audienceRatingsRepository.set(movieId, tally);
+};
+
+/**
+ * Re-tally every movie. Used by the schema migration and whenever comments are replaced wholesale.
+ */
+export const rebuildAudienceRatings = (): number => {
+  const tallies = commentsRepository.entries()
+    .map(([movieId, comments]) => [movieId, tallyRatings(comments as ModeratedComment[])] as [string, AudienceRatingTally | undefined])
+    .filter((entry): entry is [string, AudienceRatingTally] => !!entry[1]);
+  withTransaction(() => audienceRatingsRepository.replaceAll(tallies));
+  return tallies.length;
+};
+
+// Creating, editing, moderating or deleting a comment all go through the comments repository
+commentsRepository.onChange(event => {
+  if (event.type === 'reset') {
+    rebuildAudienceRatings();
+  } else {
+    recomputeAudienceRating(event.key);
+  }
+});
+
+const toAudienceRating = (tally: AudienceRatingTally | undefined): AudienceRating | undefined => {
+  if (!tally || tally.count === 0) return undefined;
+  return {
+    count: tally.count,
+    mean: round(tally.sum / tally.count),
+    score: round((tally.sum + PRIOR_COUNT * getSiteMean()) / (tally.count + PRIOR_COUNT)),
+    distribution: [...tally.distribution],
+  };
+};
+
+export const getAudienceRating = (movieId: string): AudienceRating | undefined =>
+  toAudienceRating(audienceRatingsRepository.get(movieId));
+
+/**
+ * Every movie's audience rating, read from storage in one pass
+ */
+export const getAudienceRatings = (): Map<string, AudienceRating> => {
+  const ratings = new Map<string, AudienceRating>();
+  audienceRatingsRepository.entries().forEach(([movieId, tally]) => {
+    const rating = toAudienceRating(tally);
+    if (rating) ratings.set(movieId, rating);
+  });
+  return ratings;
+};
+
+/**
+ * Add audience ratings to movies on their way out of the API
+ */
+export const withAudienceRatings = <T extends { id: string }>(movies: T[]): (T & { audienceRating?: AudienceRating })[] => {
+  const ratings = getAudienceRatings();
+  return movies.map(movie => {
+    const audienceRating = ratings.get(movie.id);
+    return audienceRating ? { ...movie, audienceRating } : movie;
+  });
+};
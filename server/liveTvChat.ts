@@ -0,0 +1,201 @@
+import { randomBytes } from 'crypto';
+import { UserRecord } from './storage';
+import { checkText, getMutedUntil, getUserModeration, isSameText, isStaff } from './moderation';
+import { readLiveTvData, writeLiveTvData } from '../services/liveTvService';
+
+/**
+ * Live chat next to the Live TV player. Messages only matter while people are watching, so the
+ * last few hundred are kept in memory and go when the server restarts.
+ *
+ * The comment rules apply: muted users can't post, shadow-banned users only see their own
+ * messages, and messages the word and link rules catch are held until a moderator approves them.
+ */
+
+/**
+ * - held: caught by the rules, only its author and staff see it
+ * - shadow: posted by a shadow-banned user, only its author sees it
+ */
+export type ChatStatus = 'held' | 'shadow';
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  name: string;
+  text: string;
+  date: string;
+  /** What was on air when it was posted */
+  streamId: string | null;
+  status?: ChatStatus;
+  flags?: string[];
+}
+
+/**
+ * Something viewers' chat panels need to hear about. `message` carries every new message;
+ * listeners decide who may see it.
+ */
+export type ChatChange =
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'approve'; message: ChatMessage }
+  | { type: 'delete'; messageId: string }
+  | { type: 'slow-mode'; seconds: number };
+
+export type ChatPostResult =
+  | { message: ChatMessage }
+  | { error: string; reason: 'invalid' | 'muted' | 'slow'; retryAfter?: number };
+
+export const MAX_MESSAGE_LENGTH = 300;
+/** Slow-mode choices offered in the bot, in seconds; 0 turns it off */
+export const SLOW_MODE_OPTIONS = [0, 5, 15, 30, 60];
+
+const HISTORY_SIZE = 200;
+const PAGE_SIZE = 50;
+const DEFAULT_SLOW_MODE = Math.max(0, parseInt(process.env.LIVETV_CHAT_SLOW_MODE_SECONDS || '5', 10) || 0);
+const REPEAT_WINDOW_MS = 5 * 60 * 1000;
+
+const messages: ChatMessage[] = [];
+const lastPostAt = new Map<string, number>();
+const flaggedListeners: ((message: ChatMessage) => void)[] = [];
+const changeListeners: ((change: ChatChange) => void)[] = [];
+
+/**
+ * Called whenever the rules hold a chat message. The bot uses it to alert moderators.
+ */
+export const onChatMessageFlagged = (listener: (message: ChatMessage) => void): (() => void) => {
+  flaggedListeners.push(listener);
+  return () => {
+    const index = flaggedListeners.indexOf(listener);
+    if (index !== -1) flaggedListeners.splice(index, 1);
+  };
+};
+
+const emitFlagged = (message: ChatMessage) => {
+  flaggedListeners.forEach(listener => {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error('💬 Live chat listener failed:', error);
+    }
+  });
+};
+
+/**
+ * Called for every chat change. The Live TV event stream uses it to push the chat to viewers.
+ */
+export const onChatChange = (listener: (change: ChatChange) => void): (() => void) => {
+  changeListeners.push(listener);
+  return () => {
+    const index = changeListeners.indexOf(listener);
+    if (index !== -1) changeListeners.splice(index, 1);
+  };
+};
+
+const emitChange = (change: ChatChange) => {
+  changeListeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('💬 Live chat listener failed:', error);
+    }
+  });
+};
+
+export const getSlowModeSeconds = (): number => readLiveTvData().chatSlowMode ?? DEFAULT_SLOW_MODE;
+
+export const setSlowModeSeconds = (seconds: number) => {
+  const data = readLiveTvData();
+  data.chatSlowMode = Math.max(0, Math.floor(seconds));
+  writeLiveTvData(data);
+  emitChange({ type: 'slow-mode', seconds: data.chatSlowMode });
+};
+
+/**
+ * Post a message as `user`. Staff skip slow mode; everyone else waits the slow-mode interval
+ * between messages.
+ */
+export const postChatMessage = (user: UserRecord, text: string, now = Date.now()): ChatPostResult => {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return { error: 'Message cannot be empty', reason: 'invalid' };
+  if (trimmed.length > MAX_MESSAGE_LENGTH) return { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`, reason: 'invalid' };
+
+  const mutedUntil = getMutedUntil(user);
+  if (mutedUntil) return { error: `You are muted until ${mutedUntil.toISOString()}`, reason: 'muted' };
+
+  const slowMode = getSlowModeSeconds();
+  const waitMs = (lastPostAt.get(user.id) || 0) + slowMode * 1000 - now;
+  if (!isStaff(user) && waitMs > 0) {
+    return { error: `Slow mode is on. You can send another message in ${Math.ceil(waitMs / 1000)}s`, reason: 'slow', retryAfter: Math.ceil(waitMs / 1000) };
+  }
+
+  const flags = checkText(trimmed);
+  const repeated = messages.some(m => m.userId === user.id && now - Date.parse(m.date) < REPEAT_WINDOW_MS && isSameText(m.text, trimmed));
+  if (repeated) flags.push('repeated');
+
+  const data = readLiveTvData();
+  const message: ChatMessage = {
+    id: `chat_${now}_${randomBytes(3).toString('hex')}`,
+    userId: user.id,
+    name: user.name,
+    text: trimmed,
+    date: new Date(now).toISOString(),
+    streamId: data.isLive ? data.currentStreamId : null,
+  };
+  if (getUserModeration(user).shadowBanned) {
+    message.status = 'shadow';
+  } else if (flags.length > 0) {
+    message.status = 'held';
+    message.flags = flags;
+  }
+
+  messages.push(message);
+  if (messages.length > HISTORY_SIZE) messages.shift();
+  // Only posts inside the slow-mode window still matter
+  lastPostAt.forEach((postedAt, userId) => {
+    if (now - postedAt > slowMode * 1000) lastPostAt.delete(userId);
+  });
+  lastPostAt.set(user.id, now);
+  if (message.status === 'held') emitFlagged(message);
+  emitChange({ type: 'message', message });
+  return { message };
+};
+
+const isVisibleTo = (message: ChatMessage, viewer: UserRecord | undefined) =>
+  !message.status || (!!viewer && (viewer.id === message.userId || (isStaff(viewer) && message.status === 'held')));
+
+/**
+ * What a viewer gets to know about a message: authors see that theirs is held, but never that
+ * they are shadow-banned; staff also see why.
+ */
+export const toPublicChatMessage = (message: ChatMessage, viewer: UserRecord | undefined) => {
+  const { status, flags, ...rest } = message;
+  if (status !== 'held') return rest;
+  return isStaff(viewer) ? { ...rest, status, flags } : { ...rest, status };
+};
+
+/**
+ * The latest messages the viewer may see, oldest first
+ */
+export const getChatMessages = (viewer: UserRecord | undefined, limit = PAGE_SIZE) =>
+  messages
+    .filter(message => isVisibleTo(message, viewer))
+    .slice(-limit)
+    .map(message => toPublicChatMessage(message, viewer));
+
+export const findChatMessage = (messageId: string): ChatMessage | undefined =>
+  messages.find(message => message.id === messageId);
+
+export const approveChatMessage = (messageId: string): ChatMessage | undefined => {
+  const message = findChatMessage(messageId);
+  if (!message || message.status !== 'held') return message;
+  delete message.status;
+  delete message.flags;
+  emitChange({ type: 'approve', message });
+  return message;
+};
+
+export const deleteChatMessage = (messageId: string): ChatMessage | undefined => {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index === -1) return undefined;
+  const [message] = messages.splice(index, 1);
+  emitChange({ type: 'delete', messageId });
+  return message;
+};
@@ -0,0 +1,178 @@
+import express from 'express';
+import { randomBytes } from 'crypto';
+import { readLiveTvData, getPlaybackPosition, onLiveTvChange, LiveTvData } from '../services/liveTvService';
+import { liveTvChannel } from '../services/liveTvChannel';
+import { onChatChange, toPublicChatMessage } from './liveTvChat';
+
+export type LiveTvEventType = 'snapshot' | 'live' | 'stop' | 'stream' | 'queue' | 'update';
+/**
+ * - chat-message: a new or just approved message, as anyone may see it
+ * - chat-delete: { id } of a removed message
+ * - chat-held: { id } of a message the rules held; staff fetch the chat to see it
+ * - chat-settings: { slowModeSeconds }
+ */
+export type LiveTvChatEventType = 'chat-message' | 'chat-delete' | 'chat-held' | 'chat-settings';
+
+interface BufferedEvent {
+  seq: number;
+  type: LiveTvEventType;
+  data: LiveTvData;
+}
+
+// Enough to cover a viewer's connection dropping for a while during a busy evening
+const REPLAY_SIZE = 100;
+const HEARTBEAT_MS = 25 * 1000;
+const RECONNECT_MS = 3000;
+// skipToNext is a stop then a go-live; writes this close together go out as one event
+const COALESCE_MS = 50;
+// Event ids from an earlier process mean nothing to this one; the prefix tells them apart
+const BOOT_ID = randomBytes(4).toString('hex');
+
+const buffer: BufferedEvent[] = [];
+const clients = new Set<express.Response>();
+let sequence = 0;
+let heartbeat: NodeJS.Timeout | null = null;
+let pending: { previous: LiveTvData; next: LiveTvData } | null = null;
+
+/**
+ * What viewers get to see: the broadcast state with the current playback position.
+ * The schedule is left out; /api/livetv/schedule serves the guide.
+ */
+export const getLiveTvState = (data: LiveTvData = readLiveTvData(), now = Date.now()) => {
+  const { schedule, blocks, skippedSlotId, ...state } = data;
+  return {
+    ...state,
+    serverTime: new Date(now).toISOString(),
+    position: getPlaybackPosition(data, now),
+    ...(liveTvChannel.isRunning() ? { channelUrl: '/api/livetv/channel/index.m3u8' } : {})
+  };
+};
+
+const queueIds = (data: LiveTvData) => data.queue.map(s => s.id).join(',');
+
+const classify = (previous: LiveTvData, next: LiveTvData): LiveTvEventType | null => {
+  if (!previous.isLive && next.isLive) return 'live';
+  if (previous.isLive && !next.isLive) return 'stop';
+  if (next.isLive && (previous.currentStreamId !== next.currentStreamId || previous.startedAt !== next.startedAt)) return 'stream';
+  if (queueIds(previous) !== queueIds(next)) return 'queue';
+  return JSON.stringify(getLiveTvState(previous, 0)) === JSON.stringify(getLiveTvState(next, 0)) ? null : 'update';
+};
+
+const eventId = (seq: number) => `${BOOT_ID}:${seq}`;
+
+// The state is rendered when sent, so a replayed event still carries an up-to-date position
+const send = (res: express.Response, type: LiveTvEventType, data: LiveTvData, seq?: number) => {
+  const id = seq !== undefined ? `id: ${eventId(seq)}\n` : '';
+  res.write(`${id}event: ${type}\ndata: ${JSON.stringify(getLiveTvState(data))}\n\n`);
+};
+
+/**
+ * Events after the given id, [] when the client is up to date, or null when they can't be
+ * replayed (another process's id, or older than the buffer) and a snapshot is needed instead
+ */
+const eventsSince = (lastEventId: string): BufferedEvent[] | null => {
+  const [boot, seqText] = lastEventId.split(':');
+  const seq = parseInt(seqText, 10);
+  if (boot !== BOOT_ID || isNaN(seq)) return null;
+  if (seq >= sequence) return [];
+  if (buffer.length === 0 || seq < buffer[0].seq - 1) return null;
+  return buffer.filter(event => event.seq > seq);
+};
+
+const publish = () => {
+  if (!pending) return;
+  const { previous, next } = pending;
+  pending = null;
+  const type = classify(previous, next);
+  if (!type) return;
+
+  const event: BufferedEvent = { seq: ++sequence, type, data: next };
+  buffer.push(event);
+  if (buffer.length > REPLAY_SIZE) buffer.shift();
+
+  clients.forEach(res => {
+    try {
+      send(res, event.type, event.data, event.seq);
+    } catch (error) {
+      clients.delete(res);
+    }
+  });
+};
+
+onLiveTvChange((previous, next) => {
+  if (pending) {
+    pending.next = next;
+    return;
+  }
+  pending = { previous, next };
+  setTimeout(publish, COALESCE_MS);
+});
+
+// Chat events carry no id: the chat reloads from /api/livetv/chat whenever the stream reconnects,
+// so they stay out of the replay buffer
+const broadcastChat = (type: LiveTvChatEventType, payload: object) => {
+  clients.forEach(res => {
+    try {
+      res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+    } catch (error) {
+      clients.delete(res);
+    }
+  });
+};
+
+onChatChange(change => {
+  if (change.type === 'message') {
+    // Shadow-banned posts only ever reach their author, in the reply to their POST
+    if (!change.message.status) broadcastChat('chat-message', toPublicChatMessage(change.message, undefined));
+    else if (change.message.status === 'held') broadcastChat('chat-held', { id: change.message.id });
+  } else if (change.type === 'approve') {
+    broadcastChat('chat-message', toPublicChatMessage(change.message, undefined));
+  } else if (change.type === 'delete') {
+    broadcastChat('chat-delete', { id: change.messageId });
+  } else {
+    broadcastChat('chat-settings', { slowModeSeconds: change.seconds });
+  }
+});
+
+const startHeartbeat = () => {
+  if (heartbeat) return;
+  // Comment lines keep proxies from closing a quiet stream
+  heartbeat = setInterval(() => {
+    clients.forEach(res => res.write(': ping\n\n'));
+    if (clients.size === 0 && heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  }, HEARTBEAT_MS);
+};
+
+/**
+ * GET /api/livetv/events - Server-Sent Events for Live TV viewers.
+ * A new connection gets a snapshot; a reconnect with Last-Event-ID gets the events it missed.
+ * Public chat changes go out on the same stream.
+ */
+export const streamLiveTvEvents = (req: express.Request, res: express.Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-store, must-revalidate',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable nginx buffering
+  });
+  req.setTimeout(0);
+  res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  const lastEventId = req.header('Last-Event-ID') || String(req.query.lastEventId || '');
+  const missed = lastEventId ? eventsSince(lastEventId) : null;
+  if (missed) {
+    missed.forEach(event => send(res, event.type, event.data, event.seq));
+  } else {
+    // Tagged with the latest id so the next reconnect can replay from here
+    send(res, 'snapshot', readLiveTvData(), sequence > 0 ? sequence : undefined);
+  }
+
+  clients.add(res);
+  startHeartbeat();
+  req.on('close', () => {
+    clients.delete(res);
+  });
+};
@@ -0,0 +1,110 @@
+import { readLiveTvData, LiveTvData } from '../services/liveTvService';
+
+/**
+ * Concurrent Live TV viewers, counted from the heartbeats the Live TV page sends while a
+ * broadcast is on. Kept in memory: the bot runs in the server process and reads it from here.
+ */
+
+// The page beats every 15 seconds; a viewer who missed a few is counted as gone
+const VIEWER_TIMEOUT_MS = 45 * 1000;
+// Caps what a flood of made-up viewer ids can cost
+const MAX_VIEWERS = 10000;
+const RECENT_STREAMS = 10;
+
+export const VIEWER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+interface StreamAudience {
+  key: string;
+  streamId: string;
+  title: string;
+  startedAt: string | null;
+  /** Viewer id -> time of their last heartbeat */
+  viewers: Map<string, number>;
+  peak: number;
+  peakAt: string | null;
+}
+
+export interface ViewerStats {
+  streamId: string;
+  title: string;
+  current: number;
+  peak: number;
+  peakAt: string | null;
+}
+
+// Most recent broadcast last
+const audiences: StreamAudience[] = [];
+
+const streamKey = (data: LiveTvData) =>
+  data.isLive && data.currentStreamId ? `${data.currentStreamId}@${data.startedAt || ''}` : null;
+
+const streamTitle = (data: LiveTvData) => data.sources.find(s => s.id === data.currentStreamId)?.title || 'Unknown';
+
+const prune = (audience: StreamAudience, now: number) => {
+  audience.viewers.forEach((lastSeen, viewerId) => {
+    if (now - lastSeen > VIEWER_TIMEOUT_MS) audience.viewers.delete(viewerId);
+  });
+};
+
+const toStats = (audience: StreamAudience, now: number): ViewerStats => {
+  prune(audience, now);
+  return {
+    streamId: audience.streamId,
+    title: audience.title,
+    current: audience.viewers.size,
+    peak: audience.peak,
+    peakAt: audience.peakAt,
+  };
+};
+
+const findAudience = (data: LiveTvData, create: boolean): StreamAudience | undefined => {
+  const key = streamKey(data);
+  if (!key) return undefined;
+  const existing = audiences.find(audience => audience.key === key);
+  if (existing || !create) return existing;
+
+  const audience: StreamAudience = {
+    key,
+    streamId: data.currentStreamId!,
+    title: streamTitle(data),
+    startedAt: data.startedAt || null,
+    viewers: new Map(),
+    peak: 0,
+    peakAt: null,
+  };
+  audiences.push(audience);
+  if (audiences.length > RECENT_STREAMS) audiences.shift();
+  return audience;
+};
+
+/**
+ * Count a viewer as watching whatever is on air. Returns the updated numbers, or null when
+ * the broadcast is off.
+ */
+export const recordHeartbeat = (viewerId: string, data: LiveTvData = readLiveTvData(), now = Date.now()): ViewerStats | null => {
+  const audience = findAudience(data, true);
+  if (!audience) return null;
+
+  prune(audience, now);
+  if (audience.viewers.has(viewerId) || audience.viewers.size < MAX_VIEWERS) audience.viewers.set(viewerId, now);
+  if (audience.viewers.size > audience.peak) {
+    audience.peak = audience.viewers.size;
+    audience.peakAt = new Date(now).toISOString();
+  }
+  return toStats(audience, now);
+};
+
+/**
+ * Viewers of the stream on air now, or null when the broadcast is off
+ */
+export const getViewerStats = (data: LiveTvData = readLiveTvData(), now = Date.now()): ViewerStats | null => {
+  const audience = findAudience(data, false);
+  if (audience) return toStats(audience, now);
+  return streamKey(data) ? { streamId: data.currentStreamId!, title: streamTitle(data), current: 0, peak: 0, peakAt: null } : null;
+};
+
+/**
+ * Audiences of the last few broadcasts, most recent first
+ */
+export const getRecentAudiences = (now = Date.now()): ViewerStats[] =>
+  audiences.slice().reverse().map(audience => toStats(audience, now));
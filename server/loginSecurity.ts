@@ -0,0 +1,196 @@
+import {
+  LoginActivityEntry, LoginFailureReason, LoginThrottleState, UserRecord,
+  loginActivityRepository, loginThrottleRepository, withTransaction
+} from './storage';
+
+export interface AccountLockedEvent {
+  user: UserRecord;
+  ipAddress: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export type LoginCheck =
+  | { ok: true }
+  | { ok: false; status: 423 | 429; reason: LoginFailureReason; error: string; retryAfter: number };
+
+const MINUTE_MS = 60 * 1000;
+
+// Failed sign-ins in a row before an account or an IP is locked out
+const ACCOUNT_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_ACCOUNT_LOCKOUT_THRESHOLD || '10', 10) || 10;
+const IP_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '30', 10) || 30;
+export const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) || 15;
+// A third of the way to a lockout, each further failure doubles the wait before the next try
+const DELAY_AFTER_FRACTION = 1 / 3;
+const MAX_DELAY_MS = 60 * 1000;
+// Failures older than this are forgotten
+const FAILURE_MEMORY_MS = 60 * MINUTE_MS;
+const MAX_ACTIVITY_ENTRIES = 20;
+
+const accountKey = (userId: string) => `account:${userId}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+const listeners: ((event: AccountLockedEvent) => void)[] = [];
+
+/**
+ * Subscribe to accounts being locked out. Returns an unsubscribe function.
+ */
+export const onAccountLocked = (listener: (event: AccountLockedEvent) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) listeners.splice(index, 1);
+  };
+};
+
+/**
+ * The state that still applies: an expired lockout or a stale run of failures starts over
+ */
+const currentState = (key: string, now: number): LoginThrottleState | undefined => {
+  const state = loginThrottleRepository.get(key);
+  if (!state) return undefined;
+  if (state.lockedUntil ? state.lockedUntil <= now : state.lastFailureAt + FAILURE_MEMORY_MS <= now) return undefined;
+  return state;
+};
+
+const throttleState = (failures: number, threshold: number, lastFailureAt: number): LoginThrottleState => {
+  const delayAfter = Math.max(1, Math.ceil(threshold * DELAY_AFTER_FRACTION));
+  const delay = failures >= delayAfter ? Math.min(MAX_DELAY_MS, 1000 * 2 ** (failures - delayAfter)) : 0;
+  return {
+    failures,
+    lastFailureAt,
+    nextAttemptAt: lastFailureAt + delay,
+    lockedUntil: failures >= threshold ? lastFailureAt + LOCKOUT_MINUTES * MINUTE_MS : undefined,
+  };
+};
+
+const addFailure = (key: string, threshold: number, now: number): LoginThrottleState => {
+  const state = throttleState((currentState(key, now)?.failures || 0) + 1, threshold, now);
+  loginThrottleRepository.set(key, state);
+  return state;
+};
+
+/** Give back a failure counted for an attempt that turned out to be right */
+const removeFailure = (key: string, threshold: number, now: number) => {
+  const state = currentState(key, now);
+  if (!state) return;
+  if (state.failures <= 1) {
+    loginThrottleRepository.remove(key);
+  } else {
+    loginThrottleRepository.set(key, throttleState(state.failures - 1, threshold, state.lastFailureAt));
+  }
+};
+
+const logActivity = (userId: string, entry: LoginActivityEntry) => {
+  const activity = loginActivityRepository.get(userId);
+  loginActivityRepository.set(userId, [entry, ...activity].slice(0, MAX_ACTIVITY_ENTRIES));
+};
+
+const waitMessage = (ms: number) => {
+  const [amount, unit] = ms >= MINUTE_MS ? [Math.ceil(ms / MINUTE_MS), 'minute'] : [Math.ceil(ms / 1000), 'second'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+/**
+ * Whether a sign-in attempt may even be checked. Refused attempts on a known account still
+ * show up in its login activity.
+ *
+ * An allowed attempt is counted as a failure straight away, before the caller awaits the
+ * password check, so requests sent in parallel see each other and can't all slip past the
+ * delays and lockouts. recordLoginSuccess gives it back.
+ */
+export const checkLoginAllowed = (ipAddress: string, userAgent: string, user: UserRecord | undefined, now = Date.now()): LoginCheck => {
+  const ipState = currentState(ipKey(ipAddress), now);
+  const accountState = user ? currentState(accountKey(user.id), now) : undefined;
+
+  let result: LoginCheck = { ok: true };
+  if (ipState?.lockedUntil) {
+    result = { ok: false, status: 429, reason: 'ip-locked', retryAfter: ipState.lockedUntil - now, error: `Too many failed sign-ins from your network. Try again in ${waitMessage(ipState.lockedUntil - now)}.` };
+  } else if (accountState?.lockedUntil) {
+    result = { ok: false, status: 423, reason: 'locked', retryAfter: accountState.lockedUntil - now, error: `This account is temporarily locked after too many failed sign-ins. Try again in ${waitMessage(accountState.lockedUntil - now)}.` };
+  } else {
+    const waitUntil = Math.max(ipState?.nextAttemptAt || 0, accountState?.nextAttemptAt || 0);
+    if (waitUntil > now) {
+      result = { ok: false, status: 429, reason: 'delayed', retryAfter: waitUntil - now, error: `Too many failed sign-ins. Please wait ${waitMessage(waitUntil - now)} before trying again.` };
+    }
+  }
+
+  if ('error' in result) {
+    result.retryAfter = Math.max(1, Math.ceil(result.retryAfter / 1000));
+    if (user) logActivity(user.id, { at: new Date(now).toISOString(), success: false, reason: result.reason, ipAddress, userAgent });
+    return result;
+  }
+
+  withTransaction(() => {
+    addFailure(ipKey(ipAddress), IP_LOCKOUT_THRESHOLD, now);
+    if (user) addFailure(accountKey(user.id), ACCOUNT_LOCKOUT_THRESHOLD, now);
+  });
+  return result;
+};
+
+/**
+ * A wrong password (or authentication code). checkLoginAllowed already counted it against the
+ * IP and, for a known email, the account; this logs it, and when that count locked the account,
+ * tells the listeners (the bot alerts admins).
+ */
+export const recordLoginFailure = (
+  ipAddress: string, userAgent: string, user: UserRecord | undefined,
+  reason: LoginFailureReason = 'password', now = Date.now()
+) => {
+  const ipState = currentState(ipKey(ipAddress), now);
+  const accountState = user ? currentState(accountKey(user.id), now) : undefined;
+  if (user) logActivity(user.id, { at: new Date(now).toISOString(), success: false, reason, ipAddress, userAgent });
+
+  if (ipState?.lockedUntil && ipState.failures === IP_LOCKOUT_THRESHOLD) {
+    console.warn(`🔒 Sign-ins from ${ipAddress} locked for ${LOCKOUT_MINUTES} minutes after ${ipState.failures} failures`);
+  }
+  if (user && accountState?.lockedUntil && accountState.failures === ACCOUNT_LOCKOUT_THRESHOLD) {
+    console.warn(`🔒 Account ${user.email} locked for ${LOCKOUT_MINUTES} minutes after ${accountState.failures} failed sign-ins`);
+    const event = { user, ipAddress, failures: accountState.failures, lockedUntil: accountState.lockedUntil };
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Account lock listener failed:', error);
+      }
+    });
+  }
+};
+
+/**
+ * Give back the failure checkLoginAllowed counted for an attempt that got through, e.g. a right
+ * password that still needs its authentication code
+ */
+export const releaseLoginAttempt = (ipAddress: string, user: UserRecord, now = Date.now()) => {
+  withTransaction(() => {
+    removeFailure(ipKey(ipAddress), IP_LOCKOUT_THRESHOLD, now);
+    removeFailure(accountKey(user.id), ACCOUNT_LOCKOUT_THRESHOLD, now);
+  });
+};
+
+export const recordLoginSuccess = (ipAddress: string, userAgent: string, user: UserRecord, now = Date.now()) => {
+  withTransaction(() => {
+    removeFailure(ipKey(ipAddress), IP_LOCKOUT_THRESHOLD, now);
+    loginThrottleRepository.remove(accountKey(user.id));
+    logActivity(user.id, { at: new Date(now).toISOString(), success: true, ipAddress, userAgent });
+  });
+};
+
+/**
+ * Failures counted against an account that still apply, if any
+ */
+export const getAccountThrottle = (userId: string, now = Date.now()): LoginThrottleState | undefined =>
+  currentState(accountKey(userId), now);
+
+/**
+ * Restore an account's throttle state (undefined clears it). Used by the bot's unlock action and its undo.
+ */
+export const setAccountThrottle = (userId: string, state: LoginThrottleState | undefined) => {
+  if (state) {
+    loginThrottleRepository.set(accountKey(userId), state);
+  } else {
+    loginThrottleRepository.remove(accountKey(userId));
+  }
+};
+
+export const getLoginActivity = (userId: string): LoginActivityEntry[] => loginActivityRepository.get(userId);
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+
+export type MailTransportKind = 'smtp' | 'file';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly kind: MailTransportKind;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Yoruba Cinemax <no-reply@localhost>';
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+// RFC 2047 so Yoruba diacritics survive in subjects
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * The full RFC 5322 message, body base64-encoded so any text is 7-bit safe
+ */
+const formatMessage = (message: MailMessage, date = new Date()): string => {
+  const domain = addressOf(MAIL_FROM).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+/**
+ * Writes each message as an .eml file instead of sending it, for local development and tests.
+ * Open the file in any mail client, or just read the link out of it.
+ */
+export class FileDropTransport implements MailTransport {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly directory: string = process.env.MAIL_DROP_DIR || path.join(process.cwd(), 'data', 'outbox')) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${randomBytes(4).toString('hex')}.eml`);
+    await fs.promises.writeFile(file, formatMessage(message), 'utf8');
+    console.log(`📬 Mail to ${message.to} dropped at ${file}`);
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used whenever the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Just enough SMTP to hand a message to a relay: EHLO, STARTTLS, AUTH PLAIN, one recipient
+ */
+class SmtpConversation {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    // Left as raw bytes: setEncoding() on the plain socket would get in the way of STARTTLS
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+        this.deliver();
+      }
+    }
+  }
+
+  private deliver() {
+    if (!this.waiting || this.replies.length === 0) return;
+    const { resolve } = this.waiting;
+    this.waiting = null;
+    resolve(this.replies.shift()!);
+  }
+
+  private fail(error: Error) {
+    if (!this.failure) this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.replies.length > 0) return resolve(this.replies.shift()!);
+      if (this.failure) return reject(this.failure);
+      this.waiting = { resolve, reject };
+    });
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+
+  async startTls(servername: string) {
+    this.socket.removeAllListeners('data').removeAllListeners('error').removeAllListeners('close');
+    const secured = tls.connect({ socket: this.socket, servername });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', () => resolve());
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly kind = 'smtp' as const;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, secure, user, pass } = this.options;
+    const smtp = new SmtpConversation(await this.connect());
+    try {
+      await smtp.expect(220);
+      let greeting = await smtp.command(`EHLO ${hostname()}`, 250);
+      if (!secure && greeting.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await smtp.command('STARTTLS', 220);
+        await smtp.startTls(host);
+        greeting = await smtp.command(`EHLO ${hostname()}`, 250);
+      }
+      if (user) {
+        await smtp.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass || ''}`, 'utf8').toString('base64')}`, 235);
+      }
+      await smtp.command(`MAIL FROM:<${addressOf(MAIL_FROM)}>`, 250);
+      await smtp.command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251);
+      await smtp.command('DATA', 354);
+      // Dot-stuffing: a line starting with "." would otherwise end the message early
+      const data = formatMessage(message).replace(/^\./gm, '..');
+      await smtp.command(`${data}\r\n.`, 250);
+      await smtp.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      smtp.close();
+    }
+  }
+}
+
+/**
+ * MAIL_TRANSPORT picks smtp or file; it defaults to smtp when SMTP_HOST is set
+ */
+export const createMailTransport = (
+  kind: MailTransportKind = (process.env.MAIL_TRANSPORT as MailTransportKind) || (process.env.SMTP_HOST ? 'smtp' : 'file')
+): MailTransport => {
+  if (kind === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      console.warn('⚠️ MAIL_TRANSPORT=smtp but SMTP_HOST is not set, dropping mail to files instead');
+      return new FileDropTransport();
+    }
+    const secure = process.env.SMTP_SECURE === 'true';
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    });
+  }
+  if (kind !== 'file') {
+    console.warn(`⚠️ Unknown MAIL_TRANSPORT "${kind}", dropping mail to files instead`);
+  }
+  return new FileDropTransport();
+};
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createMailTransport();
+    console.log(`📮 Mail transport: ${transport.kind}`);
+  }
+  return transport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message);
@@ -0,0 +1,311 @@
+import { commentsRepository, commentUpvotesRepository, usersRepository, withTransaction, UserModeration, UserRecord } from './storage';
+import { foldText } from './movieSearchIndex';
+import { needsTwoFactorSetup } from './twoFactor';
+
+/**
+ * Moderation state of a comment. A comment without a status is published.
+ * - flagged: reported by a reader, still public until a moderator looks at it
+ * - held: caught by a rule (or reported too often), only its author and staff see it
+ * - hidden: hidden by a moderator
+ * - shadow: posted by a shadow-banned user, only its author sees it (and never learns why)
+ */
+export type CommentStatus = 'flagged' | 'held' | 'hidden' | 'shadow';
+export type ReportReason = 'spam' | 'abuse' | 'spoiler' | 'other';
+
+export interface CommentReport {
+  userId: string;
+  reason: ReportReason;
+  at: string;
+}
+
+/** The moderation fields kept on a stored comment */
+export interface ModeratedComment {
+  id: string;
+  parentId?: string | null;
+  userId: string;
+  comment: string;
+  date: string;
+  status?: CommentStatus;
+  /** Why the rules held it, e.g. "banned-word:yoruba" */
+  flags?: string[];
+  reports?: CommentReport[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** Set when the author edits it; earlier versions are kept in `revisions`, oldest first */
+  editedAt?: string;
+  revisions?: CommentRevision[];
+  [key: string]: any;
+}
+
+export interface CommentRevision {
+  comment: string;
+  rating?: number;
+  /** When this version was written */
+  date: string;
+}
+
+export interface FlaggedCommentEvent {
+  movieId: string;
+  comment: ModeratedComment;
+  source: 'rules' | 'report';
+}
+
+export const REPORT_REASONS: ReportReason[] = ['spam', 'abuse', 'spoiler', 'other'];
+
+// Reports from this many different readers hold a comment until it is reviewed
+const REPORTS_TO_HOLD = parseInt(process.env.MODERATION_REPORTS_TO_HOLD || '3', 10) || 3;
+export const MUTE_HOURS = parseInt(process.env.MODERATION_MUTE_HOURS || '24', 10) || 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+const REPEAT_WINDOW_MS = 24 * HOUR_MS;
+const FLOOD_WINDOW_MS = 10 * 60 * 1000;
+const FLOOD_LIMIT = 5;
+
+/**
+ * Matched as whole words after folding, so tone marks and under-dots don't dodge them
+ * ("olòṣì" folds to "olosi"; the "sh" spelling is listed separately).
+ * MODERATION_EXTRA_BANNED_WORDS adds a comma-separated list on top.
+ */
+const BANNED_WORDS: Record<'english' | 'yoruba' | 'pidgin', string[]> = {
+  english: ['fuck', 'fucking', 'motherfucker', 'shit', 'bitch', 'bastard', 'asshole', 'dickhead', 'slut', 'whore', 'retard'],
+  yoruba: ['oloriburuku', 'omo ale', 'omoale', 'oloshi', 'olosi', 'didirin', 'oponu', 'apoda', 'were alaso'],
+  pidgin: ['mumu', 'werey', 'ashawo', 'ashewo', 'olodo', 'mugu', 'bastard pikin', 'your papa head'],
+};
+
+const extraBannedWords = () =>
+  (process.env.MODERATION_EXTRA_BANNED_WORDS || '').split(',').map(word => word.trim()).filter(Boolean);
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|ng|xyz|io|me|ly|info|biz|top|site|online)\b/gi;
+
+/** Letters and digits only, single-spaced and padded, for whole-word lookups */
+const normalize = (text: string) => ` ${foldText(text).replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const flaggedListeners: ((event: FlaggedCommentEvent) => void)[] = [];
+
+/**
+ * Called whenever a comment enters the review queue. The bot uses it to alert moderators.
+ */
+export const onCommentFlagged = (listener: (event: FlaggedCommentEvent) => void): (() => void) => {
+  flaggedListeners.push(listener);
+  return () => {
+    const index = flaggedListeners.indexOf(listener);
+    if (index !== -1) flaggedListeners.splice(index, 1);
+  };
+};
+
+const emitFlagged = (event: FlaggedCommentEvent) => {
+  flaggedListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('🛡️ Moderation listener failed:', error);
+    }
+  });
+};
+
+export const isInQueue = (comment: ModeratedComment) => comment.status === 'flagged' || comment.status === 'held';
+
+/** Published comments are the ones everybody sees; flagged ones stay public until reviewed */
+export const isPublished = (comment: ModeratedComment) => !comment.status || comment.status === 'flagged';
+
+/** Staff powers are withheld while a required two-factor setup is outstanding */
+export const isStaff = (user: UserRecord | undefined) =>
+  !!user && (user.role === 'admin' || user.role === 'moderator') && !needsTwoFactorSetup(user);
+
+export const isVisibleTo = (comment: ModeratedComment, viewer: UserRecord | undefined) =>
+  isPublished(comment) || (!!viewer && (viewer.id === comment.userId || (isStaff(viewer) && comment.status !== 'shadow')));
+
+// --- USER STATES ---
+
+export const getUserModeration = (user: UserRecord): UserModeration => user.moderation || {};
+
+export const getMutedUntil = (user: UserRecord): Date | null => {
+  const { mutedUntil } = getUserModeration(user);
+  return mutedUntil && new Date(mutedUntil).getTime() > Date.now() ? new Date(mutedUntil) : null;
+};
+
+export const setUserModeration = (userId: string, moderation: UserModeration): UserRecord | undefined => {
+  const user = usersRepository.get(userId);
+  if (!user) return undefined;
+  const next: UserModeration = {};
+  if (moderation.shadowBanned) next.shadowBanned = true;
+  if (moderation.mutedUntil && new Date(moderation.mutedUntil).getTime() > Date.now()) next.mutedUntil = moderation.mutedUntil;
+
+  if (Object.keys(next).length > 0) {
+    user.moderation = next;
+  } else {
+    delete user.moderation;
+  }
+  usersRepository.save(user);
+  return user;
+};
+
+/** Users currently muted or shadow-banned */
+export const getRestrictedUsers = (): UserRecord[] =>
+  usersRepository.all().filter(user => getUserModeration(user).shadowBanned || getMutedUntil(user));
+
+// --- RULES ---
+
+const userCommentsSince = (userId: string, since: number): ModeratedComment[] =>
+  commentsRepository.entries()
+    .flatMap(([, comments]) => comments as ModeratedComment[])
+    .filter(comment => comment.userId === userId && Date.parse(comment.date) >= since);
+
+/**
+ * The rules that only look at the text itself: banned words and links. Live TV chat runs
+ * these too, with its own repeat and flood checks.
+ */
+export const checkText = (text: string): string[] => {
+  const flags: string[] = [];
+  const normalized = normalize(text);
+
+  (Object.keys(BANNED_WORDS) as (keyof typeof BANNED_WORDS)[]).forEach(language => {
+    if (BANNED_WORDS[language].some(word => normalized.includes(normalize(word)))) flags.push(`banned-word:${language}`);
+  });
+  if (extraBannedWords().some(word => normalized.includes(normalize(word)))) flags.push('banned-word:custom');
+
+  if ((text.match(LINK_PATTERN) || []).length > 0) flags.push('link');
+  return flags;
+};
+
+/** True when two texts are the same once case, accents and punctuation are ignored */
+export const isSameText = (a: string, b: string) => normalize(a) === normalize(b);
+
+/**
+ * Run the auto-flagging rules on a new comment, or on an edit of `editingId`. Returns why
+ * it should be held, if at all.
+ */
+export const checkComment = (userId: string, text: string, editingId?: string): string[] => {
+  const flags = checkText(text);
+  const normalized = normalize(text);
+
+  const now = Date.now();
+  const recent = userCommentsSince(userId, now - REPEAT_WINDOW_MS).filter(comment => comment.id !== editingId);
+  if (normalized.trim() && recent.some(comment => normalize(comment.comment) === normalized)) flags.push('repeated');
+  // An edit doesn't add a post, so it can't flood
+  if (!editingId && recent.filter(comment => Date.parse(comment.date) >= now - FLOOD_WINDOW_MS).length >= FLOOD_LIMIT) flags.push('flooding');
+
+  return flags;
+};
+
+/**
+ * The status a new comment starts with: shadow-banned authors only ever talk to themselves,
+ * anything the rules catch waits for review.
+ */
+export const initialStatus = (user: UserRecord, flags: string[]): CommentStatus | undefined => {
+  if (getUserModeration(user).shadowBanned) return 'shadow';
+  return flags.length > 0 ? 'held' : undefined;
+};
+
+/** Let the bot know about a comment the rules just held */
+export const announceHeldComment = (movieId: string, comment: ModeratedComment) => {
+  if (comment.status === 'held') emitFlagged({ movieId, comment, source: 'rules' });
+};
+
+// --- QUEUE ---
+
+export const findComment = (commentId: string): { movieId: string; comment: ModeratedComment } | undefined => {
+  for (const [movieId, comments] of commentsRepository.entries()) {
+    const comment = (comments as ModeratedComment[]).find(c => c.id === commentId);
+    if (comment) return { movieId, comment };
+  }
+  return undefined;
+};
+
+/** Comments waiting for a moderator, oldest first */
+export const getModerationQueue = (): { movieId: string; comment: ModeratedComment }[] =>
+  commentsRepository.entries()
+    .flatMap(([movieId, comments]) => (comments as ModeratedComment[]).filter(isInQueue).map(comment => ({ movieId, comment })))
+    .sort((a, b) => a.comment.date.localeCompare(b.comment.date));
+
+/**
+ * Record a reader's report. Each reader reports a comment once; enough reports hold it.
+ */
+export const reportComment = (movieId: string, commentId: string, userId: string, reason: ReportReason):
+  { ok: true; comment: ModeratedComment } | { ok: false; status: number; error: string } => {
+  const result = withTransaction(() => {
+    const comments = commentsRepository.get(movieId) as ModeratedComment[];
+    const comment = comments.find(c => c.id === commentId);
+    if (!comment) return { ok: false as const, status: 404, error: 'Comment not found' };
+    if (comment.userId === userId) return { ok: false as const, status: 400, error: "You can't report your own comment" };
+    if ((comment.reports || []).some(report => report.userId === userId)) {
+      return { ok: false as const, status: 409, error: 'You have already reported this comment' };
+    }
+
+    const previousStatus = comment.status;
+    comment.reports = [...(comment.reports || []), { userId, reason, at: new Date().toISOString() }];
+    // Only reports since the last review count, so an approved comment needs fresh ones to be held again
+    const openReports = comment.reports.filter(report => !comment.reviewedAt || report.at > comment.reviewedAt!).length;
+    if (!comment.status || comment.status === 'flagged') {
+      comment.status = openReports >= REPORTS_TO_HOLD ? 'held' : 'flagged';
+    }
+    commentsRepository.set(movieId, comments);
+    return { ok: true as const, comment, previousStatus };
+  });
+
+  if (!result.ok) return result;
+  if (result.comment.status !== result.previousStatus) emitFlagged({ movieId, comment: result.comment, source: 'report' });
+  return { ok: true, comment: result.comment };
+};
+
+/**
+ * Settle a queued comment: approving publishes it, hiding keeps it from everyone but its author.
+ */
+export const reviewComment = (commentId: string, decision: 'approve' | 'hide', reviewer: string): ModeratedComment | undefined =>
+  withTransaction(() => {
+    const found = findComment(commentId);
+    if (!found) return undefined;
+    const comments = commentsRepository.get(found.movieId) as ModeratedComment[];
+    const comment = comments.find(c => c.id === commentId)!;
+
+    if (decision === 'approve') {
+      delete comment.status;
+    } else {
+      comment.status = 'hidden';
+    }
+    comment.reviewedBy = reviewer;
+    comment.reviewedAt = new Date().toISOString();
+    commentsRepository.set(found.movieId, comments);
+    return comment;
+  });
+
+/**
+ * Put back the moderation fields of a comment (used by the audit log's undo)
+ */
+export const restoreCommentModeration = (commentId: string, snapshot: Pick<ModeratedComment, 'status' | 'reviewedBy' | 'reviewedAt'>) =>
+  withTransaction(() => {
+    const found = findComment(commentId);
+    if (!found) throw new Error('Comment no longer exists.');
+    const comments = commentsRepository.get(found.movieId) as ModeratedComment[];
+    const comment = comments.find(c => c.id === commentId)!;
+    (['status', 'reviewedBy', 'reviewedAt'] as const).forEach(field => {
+      if (snapshot[field]) {
+        comment[field] = snapshot[field] as any;
+      } else {
+        delete comment[field];
+      }
+    });
+    commentsRepository.set(found.movieId, comments);
+  });
+
+/**
+ * Delete a comment with all of its replies and their upvotes. Returns the removed comments.
+ */
+export const deleteCommentThread = (movieId: string, commentId: string): ModeratedComment[] =>
+  withTransaction(() => {
+    const movieComments = commentsRepository.get(movieId) as ModeratedComment[];
+
+    const commentsToDelete = new Set([commentId]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const currentSize = commentsToDelete.size;
+      movieComments.forEach(c => { if (c.parentId && commentsToDelete.has(c.parentId)) commentsToDelete.add(c.id); });
+      if (commentsToDelete.size > currentSize) changed = true;
+    }
+
+    const removed = movieComments.filter(c => commentsToDelete.has(c.id));
+    commentsRepository.set(movieId, movieComments.filter(c => !commentsToDelete.has(c.id)));
+    commentsToDelete.forEach(id => commentUpvotesRepository.remove(id));
+    return removed;
+  });
@@ -1,5 +1,6 @@
-import fs from 'fs';
-import path from 'path';
+import { audienceRatingsRepository, moviesRepository } from './storage';
+import { movieSearchIndex } from './movieSearchIndex';
+import { AudienceRating, getAudienceRatings, withAudienceRatings } from './audienceRatings';
 
 export interface Movie {
   id: string;
@@ -18,8 +19,12 @@ export interface Movie {
   updatedAt: string;
   trailerId?: string;
   status?: 'coming-soon';
+  publishAt?: string;
   seriesTitle?: string;
   partNumber?: number;
+  seriesId?: string;
+  /** Added when served; never stored on the movie */
+  audienceRating?: AudienceRating;
 }
 
 interface CachedResult<T> {
@@ -43,15 +48,22 @@ interface QueryOptions {
   category?: string;
   year?: number;
   search?: string;
-  sortBy?: 'recent' | 'popular' | 'rating' | 'title';
+  sortBy?: MovieSortBy;
 }
 
+export type MovieSortBy = 'recent' | 'popular' | 'rating' | 'audience' | 'title' | 'relevance';
+
 class ServerMovieRepository {
   private moviesCache: CachedResult<Movie[]> | null = null;
   private paginatedCache: Map<string, CachedResult<PaginatedResult>> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
   private readonly PAGINATED_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
-  private readonly MOVIES_PATH = path.join(process.cwd(), 'data', 'movies.json');
+
+  constructor() {
+    // Drop cached pages as soon as the bot changes the catalogue or a new rating comes in
+    moviesRepository.onChange(() => this.invalidateCache());
+    audienceRatingsRepository.onChange(() => this.paginatedCache.clear());
+  }
 
   /**
    * Get all movies with in-memory caching
@@ -64,14 +76,8 @@ class ServerMovieRepository {
       return this.moviesCache.data;
     }
 
-    // Read fresh data from file
-    if (!fs.existsSync(this.MOVIES_PATH)) {
-      console.error('Movies file not found at:', this.MOVIES_PATH);
-      return [];
-    }
-
-    const moviesData = fs.readFileSync(this.MOVIES_PATH, 'utf8');
-    const movies: Movie[] = JSON.parse(moviesData);
+    // Read fresh data from the storage layer
+    const movies = moviesRepository.all() as Movie[];
     
     this.moviesCache = { data: movies, timestamp: now };
     return movies;
@@ -81,7 +87,7 @@ class ServerMovieRepository {
    * Generate cache key for query options
    */
   private getCacheKey(options: QueryOptions): string {
-    const { page = 1, limit = 20, category, year, search, sortBy = 'recent' } = options;
+    const { page = 1, limit = 20, category, year, search, sortBy = search ? 'relevance' : 'recent' } = options;
     return `${page}-${limit}-${category || 'all'}-${year || 'all'}-${search || 'none'}-${sortBy}`;
   }
 
@@ -103,12 +109,11 @@ class ServerMovieRepository {
     }
 
     if (options.search) {
-      const searchLower = options.search.toLowerCase();
-      filtered = filtered.filter(m => 
-        m.title.toLowerCase().includes(searchLower) ||
-        m.description?.toLowerCase().includes(searchLower) ||
-        m.stars?.some(s => s.toLowerCase().includes(searchLower))
-      );
+      // Ranked, diacritic-insensitive matches from the search index, best first
+      const ranked = new Map(movieSearchIndex.search(options.search).map((hit, rank) => [hit.movie.id, rank]));
+      filtered = filtered
+        .filter(m => ranked.has(m.id))
+        .sort((a, b) => ranked.get(a.id)! - ranked.get(b.id)!);
     }
 
     return filtered;
@@ -131,9 +136,20 @@ class ServerMovieRepository {
       
       case 'rating':
         return sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+
+      case 'audience': {
+        // Weighted audience score; movies nobody has rated yet go last
+        const ratings = getAudienceRatings();
+        const scores = new Map(sorted.map(movie => [movie.id, ratings.get(movie.id)?.score ?? -1]));
+        return sorted.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+      }
       
       case 'title':
         return sorted.sort((a, b) => a.title.localeCompare(b.title));
+
+      case 'relevance':
+        // filterMovies already left search results in ranked order
+        return sorted;
       
       default:
         return sorted;
@@ -157,13 +173,13 @@ class ServerMovieRepository {
     // Get all movies and apply filters
     const allMovies = this.getAllMovies();
     const filtered = this.filterMovies(allMovies, options);
-    const sorted = this.sortMovies(filtered, options.sortBy);
+    const sorted = this.sortMovies(filtered, options.sortBy || (options.search ? 'relevance' : 'recent'));
 
     // Calculate pagination
     const total = sorted.length;
     const totalPages = Math.ceil(total / limit);
     const start = (page - 1) * limit;
-    const items = sorted.slice(start, start + limit);
+    const items = withAudienceRatings(sorted.slice(start, start + limit));
 
     const result: PaginatedResult = {
       items,
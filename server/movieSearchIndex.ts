@@ -0,0 +1,216 @@
+import { moviesRepository } from './storage';
+import type { Movie } from './movieRepository';
+
+export interface SearchHit {
+  movie: Movie;
+  score: number;
+}
+
+interface SearchOptions {
+  limit?: number;
+  category?: string;
+}
+
+type IndexedField = 'title' | 'seriesTitle' | 'stars' | 'genre' | 'description';
+
+/**
+ * How much a token found in each field counts towards a movie's score
+ */
+const FIELD_WEIGHTS: Record<IndexedField, number> = {
+  title: 5,
+  seriesTitle: 4,
+  stars: 3,
+  genre: 2,
+  description: 1,
+};
+
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.5;
+const PHRASE_BONUS = 10;
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Lowercase and strip tone marks and under-dots, so "Aníkúlápó", "Ọlọ́rọ̀" and "Ṣàngó"
+ * match "anikulapo", "ororo" and "sango"
+ */
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Edit distance with adjacent transpositions, giving up once it exceeds `max`
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (i > 0 && rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * In-process inverted index over the movie catalogue. Built lazily from the storage
+ * layer on first use, then kept current from moviesRepository change events so the
+ * bot's adds, edits and deletes show up without a rebuild.
+ */
+class MovieSearchIndex {
+  /** token -> (movie id -> summed field weight) */
+  private postings: Map<string, Map<string, number>> = new Map();
+  /** movie id -> tokens it was indexed under, for cheap removal */
+  private movieTokens: Map<string, Set<string>> = new Map();
+  private movies: Map<string, Movie> = new Map();
+  private built = false;
+
+  constructor() {
+    moviesRepository.onChange(event => {
+      if (!this.built) return;
+      if (event.type === 'save') this.upsert(event.record as Movie);
+      if (event.type === 'remove') this.remove(event.id);
+      if (event.type === 'reset') this.rebuild(event.records as Movie[]);
+    });
+  }
+
+  private ensureBuilt(): void {
+    if (!this.built) {
+      this.rebuild(moviesRepository.all() as Movie[]);
+    }
+  }
+
+  rebuild(movies: Movie[]): void {
+    this.postings.clear();
+    this.movieTokens.clear();
+    this.movies.clear();
+    movies.forEach(movie => this.upsert(movie));
+    this.built = true;
+    console.log(`🔎 Search index built: ${this.movies.size} movies, ${this.postings.size} terms`);
+  }
+
+  upsert(movie: Movie): void {
+    this.remove(movie.id);
+    this.movies.set(movie.id, movie);
+
+    const tokens = new Set<string>();
+    const addField = (field: IndexedField, text: string | undefined) => {
+      if (!text) return;
+      tokenize(text).forEach(token => {
+        tokens.add(token);
+        const posting = this.postings.get(token) || new Map<string, number>();
+        posting.set(movie.id, (posting.get(movie.id) || 0) + FIELD_WEIGHTS[field]);
+        this.postings.set(token, posting);
+      });
+    };
+
+    addField('title', movie.title);
+    // Most single titles repeat their title as seriesTitle; don't count it twice
+    if (movie.seriesTitle && foldText(movie.seriesTitle) !== foldText(movie.title)) {
+      addField('seriesTitle', movie.seriesTitle);
+    }
+    (movie.stars || []).forEach(star => addField('stars', star));
+    addField('genre', movie.genre);
+    addField('description', movie.description);
+
+    this.movieTokens.set(movie.id, tokens);
+  }
+
+  remove(movieId: string): void {
+    const tokens = this.movieTokens.get(movieId);
+    if (!tokens) return;
+    tokens.forEach(token => {
+      const posting = this.postings.get(token);
+      posting?.delete(movieId);
+      if (posting && posting.size === 0) this.postings.delete(token);
+    });
+    this.movieTokens.delete(movieId);
+    this.movies.delete(movieId);
+  }
+
+  /**
+   * Score every movie against one query token. Exact terms count fully, prefixes of
+   * longer terms (search-as-you-type) and near misses (typos) count for less.
+   */
+  private matchToken(queryToken: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const maxTypos = queryToken.length >= 8 ? 2 : queryToken.length >= MIN_FUZZY_LENGTH ? 1 : 0;
+
+    this.postings.forEach((posting, term) => {
+      let factor = 0;
+      if (term === queryToken) {
+        factor = 1;
+      } else if (term.startsWith(queryToken) && queryToken.length >= 2) {
+        factor = PREFIX_FACTOR;
+      } else if (maxTypos > 0) {
+        const distance = editDistance(queryToken, term, maxTypos);
+        if (distance <= maxTypos) factor = FUZZY_FACTOR / distance;
+      }
+      if (factor === 0) return;
+
+      posting.forEach((weight, movieId) => {
+        // A movie scores on its best-matching term for this query token
+        scores.set(movieId, Math.max(scores.get(movieId) || 0, weight * factor));
+      });
+    });
+    return scores;
+  }
+
+  /**
+   * Ranked search. Movies matching more of the query's words always rank first, then
+   * by field-weighted score, with a bonus when the whole query appears in the title.
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    this.ensureBuilt();
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) return [];
+
+    const totals = new Map<string, { matched: number; score: number }>();
+    queryTokens.forEach(token => {
+      this.matchToken(token).forEach((score, movieId) => {
+        const total = totals.get(movieId) || { matched: 0, score: 0 };
+        total.matched += 1;
+        total.score += score;
+        totals.set(movieId, total);
+      });
+    });
+
+    const phrase = queryTokens.join(' ');
+    const hits: (SearchHit & { matched: number })[] = [];
+    totals.forEach(({ matched, score }, movieId) => {
+      const movie = this.movies.get(movieId);
+      if (!movie) return;
+      if (options.category && options.category !== 'all' && movie.category !== options.category) return;
+      const titleBonus = tokenize(movie.title).join(' ').includes(phrase) ? PHRASE_BONUS : 0;
+      hits.push({ movie, score: score + titleBonus, matched });
+    });
+
+    hits.sort((a, b) =>
+      b.matched - a.matched ||
+      b.score - a.score ||
+      (b.movie.popularity || 0) - (a.movie.popularity || 0)
+    );
+
+    const ranked = hits.map(({ movie, score }) => ({ movie, score: Math.round(score * 100) / 100 }));
+    return options.limit ? ranked.slice(0, options.limit) : ranked;
+  }
+}
+
+// Export singleton instance
+export const movieSearchIndex = new MovieSearchIndex();
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from 'crypto';
+import { UserRecord, passwordResetsRepository, withTransaction } from './storage';
+import { sendMail } from './mail';
+
+const MINUTE_MS = 60 * 1000;
+
+// How long an emailed reset link works
+export const RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10) || 30;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const pruneExpiredResets = (now: number) => {
+  passwordResetsRepository.entries()
+    .filter(([, reset]) => !reset || reset.expiresAt <= now)
+    .forEach(([key]) => passwordResetsRepository.remove(key));
+};
+
+/**
+ * Where emailed links should point. Outside production the request's own origin is used when
+ * PUBLIC_SITE_URL is unset; in production that would let a forged Host header choose where the
+ * token is sent, so null is returned instead and no link should be issued.
+ */
+export const getResetSiteUrl = (requestOrigin: string): string | null => {
+  if (process.env.PUBLIC_SITE_URL) return process.env.PUBLIC_SITE_URL;
+  return process.env.NODE_ENV === 'production' ? null : requestOrigin;
+};
+
+/**
+ * Issue a reset link and mail it. Any earlier link for the same account stops working.
+ * @param siteUrl Where the site is served, e.g. https://yorubacinemax.com
+ */
+export const issuePasswordReset = async (user: UserRecord, siteUrl: string, now = Date.now()) => {
+  const token = randomBytes(32).toString('base64url');
+  withTransaction(() => {
+    pruneExpiredResets(now);
+    passwordResetsRepository.entries()
+      .filter(([, reset]) => reset?.userId === user.id)
+      .forEach(([key]) => passwordResetsRepository.remove(key));
+    passwordResetsRepository.set(hashToken(token), { userId: user.id, createdAt: now, expiresAt: now + RESET_TTL_MINUTES * MINUTE_MS });
+  });
+
+  // The site uses hash routing
+  const link = `${siteUrl.replace(/\/+$/, '')}/#/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Yoruba Cinemax password',
+    text: `Hi ${user.name},\n\n` +
+      `Someone (hopefully you) asked to reset the password for your Yoruba Cinemax account.\n\n` +
+      `Open this link within ${RESET_TTL_MINUTES} minutes to choose a new password:\n${link}\n\n` +
+      `The link works once. If you didn't ask for this, ignore this email and your password stays the same.\n`,
+  });
+};
+
+/**
+ * Spend a reset token. Returns the user it belongs to, or null if it is unknown, used or expired.
+ */
+export const consumePasswordReset = (token: string, now = Date.now()): string | null => {
+  if (!token) return null;
+  const key = hashToken(token);
+  return withTransaction(() => {
+    const reset = passwordResetsRepository.get(key);
+    if (!reset) return null;
+    passwordResetsRepository.remove(key);
+    return reset.expiresAt > now ? reset.userId : null;
+  });
+};
@@ -0,0 +1,339 @@
+import path from 'path';
+import fs from 'fs';
+import type Database from 'better-sqlite3';
+import { getStorage } from './storage';
+import type { SqliteStorageDriver } from './storage/sqliteDriver';
+
+export type RateLimitKeyBy = 'ip' | 'user' | 'ip+user';
+export type RateLimitStoreKind = 'memory' | 'sqlite';
+
+export interface RateLimitPolicy {
+  name: string;
+  /** Who shares a bucket. 'ip+user' needs a token from both, so neither a shared IP nor a botnet gets around it. */
+  keyBy: RateLimitKeyBy;
+  /** Bucket size: how many requests can be made back to back */
+  limit: number;
+  /** Seconds for an empty bucket to fill back up to `limit` */
+  windowSeconds: number;
+  description: string;
+}
+
+export interface BucketSpec {
+  key: string;
+  capacity: number;
+  refillPerMs: number;
+}
+
+export interface BucketState {
+  key: string;
+  capacity: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Until the next token drips in */
+  retryAfterMs: number;
+  /** Until the bucket is full again */
+  resetMs: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  buckets: BucketState[];
+}
+
+export interface BlockedCounter {
+  policy: string;
+  blocked: number;
+  lastBlockedAt: number;
+  /** e.g. "ip:203.0.113.7" or "user:<id>" */
+  lastKey: string;
+}
+
+/**
+ * Where buckets and blocked counters live. The SQLite store lets the web server and a
+ * separately started bot process (or several server instances on one host) share limits.
+ */
+export interface RateLimitStore {
+  readonly kind: RateLimitStoreKind;
+  /** Take a token from every bucket, or from none of them if any is empty */
+  take(buckets: BucketSpec[], now: number): TakeResult;
+  recordBlocked(policy: string, key: string, now: number): void;
+  getBlockedCounters(): BlockedCounter[];
+  resetBlockedCounters(): void;
+  /** Forget buckets that have refilled completely */
+  prune(now: number): number;
+}
+
+interface StoredBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const refill = (bucket: StoredBucket | undefined, spec: BucketSpec, now: number): number => {
+  if (!bucket) return spec.capacity;
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  return Math.min(spec.capacity, bucket.tokens + elapsed * spec.refillPerMs);
+};
+
+const describeBucket = (spec: BucketSpec, tokens: number): BucketState => ({
+  key: spec.key,
+  capacity: spec.capacity,
+  remaining: Math.floor(tokens),
+  retryAfterMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) / spec.refillPerMs),
+  resetMs: Math.ceil((spec.capacity - tokens) / spec.refillPerMs),
+});
+
+/**
+ * The token-bucket step both stores share: refill by elapsed time, then take one token from
+ * each bucket if all of them have one
+ */
+const takeTokens = (buckets: BucketSpec[], now: number, read: (key: string) => StoredBucket | undefined) => {
+  const levels = buckets.map(spec => refill(read(spec.key), spec, now));
+  const allowed = levels.every(tokens => tokens >= 1);
+  const after = allowed ? levels.map(tokens => tokens - 1) : levels;
+  return {
+    allowed,
+    after,
+    result: { allowed, buckets: buckets.map((spec, index) => describeBucket(spec, after[index])) },
+  };
+};
+
+// Once a bucket would be full again it holds no information and can be dropped
+const fullAt = (spec: BucketSpec, tokens: number, now: number) => now + Math.ceil((spec.capacity - tokens) / spec.refillPerMs);
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+  private readonly buckets = new Map<string, StoredBucket & { fullAt: number }>();
+  private readonly counters = new Map<string, BlockedCounter>();
+
+  take(buckets: BucketSpec[], now: number): TakeResult {
+    const { allowed, after, result } = takeTokens(buckets, now, key => this.buckets.get(key));
+    if (allowed) {
+      buckets.forEach((spec, index) => {
+        this.buckets.set(spec.key, { tokens: after[index], updatedAt: now, fullAt: fullAt(spec, after[index], now) });
+      });
+    }
+    return result;
+  }
+
+  recordBlocked(policy: string, key: string, now: number): void {
+    const counter = this.counters.get(policy) || { policy, blocked: 0, lastBlockedAt: 0, lastKey: '' };
+    this.counters.set(policy, { policy, blocked: counter.blocked + 1, lastBlockedAt: now, lastKey: key });
+  }
+
+  getBlockedCounters(): BlockedCounter[] {
+    return Array.from(this.counters.values());
+  }
+
+  resetBlockedCounters(): void {
+    this.counters.clear();
+  }
+
+  prune(now: number): number {
+    let pruned = 0;
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+/**
+ * Buckets in their own tables next to the records table. Each take() runs in an immediate
+ * transaction, so two processes can't both spend the last token.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  readonly kind = 'sqlite' as const;
+
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        full_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS rate_limit_blocked (
+        policy TEXT PRIMARY KEY,
+        blocked INTEGER NOT NULL,
+        last_blocked_at INTEGER NOT NULL,
+        last_key TEXT NOT NULL
+      );
+    `);
+  }
+
+  take(buckets: BucketSpec[], now: number): TakeResult {
+    const read = this.db.prepare('SELECT tokens, updated_at AS updatedAt FROM rate_limit_buckets WHERE key = ?');
+    const write = this.db.prepare(`
+      INSERT INTO rate_limit_buckets (key, tokens, updated_at, full_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at, full_at = excluded.full_at
+    `);
+    const run = () => {
+      const { allowed, after, result } = takeTokens(buckets, now, key => read.get(key) as StoredBucket | undefined);
+      if (allowed) {
+        buckets.forEach((spec, index) => write.run(spec.key, after[index], now, fullAt(spec, after[index], now)));
+      }
+      return result;
+    };
+    return this.db.inTransaction ? run() : this.db.transaction(run).immediate();
+  }
+
+  recordBlocked(policy: string, key: string, now: number): void {
+    this.db.prepare(`
+      INSERT INTO rate_limit_blocked (policy, blocked, last_blocked_at, last_key) VALUES (?, 1, ?, ?)
+      ON CONFLICT (policy) DO UPDATE SET blocked = blocked + 1, last_blocked_at = excluded.last_blocked_at, last_key = excluded.last_key
+    `).run(policy, now, key);
+  }
+
+  getBlockedCounters(): BlockedCounter[] {
+    return this.db
+      .prepare('SELECT policy, blocked, last_blocked_at AS lastBlockedAt, last_key AS lastKey FROM rate_limit_blocked ORDER BY policy')
+      .all() as BlockedCounter[];
+  }
+
+  resetBlockedCounters(): void {
+    this.db.prepare('DELETE FROM rate_limit_blocked').run();
+  }
+
+  prune(now: number): number {
+    return this.db.prepare('DELETE FROM rate_limit_buckets WHERE full_at <= ?').run(now).changes;
+  }
+}
+
+/**
+ * Reuse the storage driver's database when it is SQLite; otherwise open the same file
+ * ourselves so JSON deployments can still share limits between processes
+ */
+const openSqliteDatabase = (): Database.Database => {
+  const storage = getStorage();
+  if (storage.kind === 'sqlite') return (storage as SqliteStorageDriver).database;
+
+  // Loaded lazily so memory-only deployments never need the native module
+  const BetterSqlite = require('better-sqlite3');
+  const dbPath = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'cinemax.db');
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db: Database.Database = new BetterSqlite(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  return db;
+};
+
+/**
+ * RATE_LIMIT_STORE picks memory or sqlite; it follows STORAGE_DRIVER when unset
+ */
+export const createRateLimitStore = (
+  kind: RateLimitStoreKind = (process.env.RATE_LIMIT_STORE as RateLimitStoreKind) || (process.env.STORAGE_DRIVER === 'sqlite' ? 'sqlite' : 'memory')
+): RateLimitStore => {
+  if (kind === 'sqlite') return new SqliteRateLimitStore(openSqliteDatabase());
+  if (kind !== 'memory') {
+    console.warn(`⚠️ Unknown RATE_LIMIT_STORE "${kind}", falling back to memory`);
+  }
+  return new MemoryRateLimitStore();
+};
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = createRateLimitStore();
+    console.log(`🚦 Rate limit store: ${store.kind}`);
+  }
+  return store;
+};
+
+// --- POLICIES ---
+
+/**
+ * RATE_LIMIT_<NAME> overrides a policy as "<requests>/<seconds>", e.g. RATE_LIMIT_LOGIN=10/300
+ */
+const definePolicy = (name: string, keyBy: RateLimitKeyBy, limit: number, windowSeconds: number, description: string): RateLimitPolicy => {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`];
+  const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (override && !match) {
+    console.warn(`⚠️ Ignoring RATE_LIMIT_${name.toUpperCase()}="${override}", expected "<requests>/<seconds>"`);
+  }
+  return {
+    name,
+    keyBy,
+    limit: match && parseInt(match[1], 10) > 0 ? parseInt(match[1], 10) : limit,
+    windowSeconds: match && parseInt(match[2], 10) > 0 ? parseInt(match[2], 10) : windowSeconds,
+    description,
+  };
+};
+
+export const RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  'ai': definePolicy('ai', 'user', 20, 60, 'Cinemax AI requests'),
+  'login': definePolicy('login', 'ip', 10, 300, 'Sign-in attempts'),
+  'signup': definePolicy('signup', 'ip', 5, 3600, 'New accounts'),
+  'two-factor': definePolicy('two-factor', 'ip+user', 5, 300, 'Authentication codes checked to turn off two-factor or replace recovery codes'),
+  'password-reset': definePolicy('password-reset', 'ip', 5, 900, 'Forgot-password emails and reset links'),
+  'comments': definePolicy('comments', 'ip+user', 20, 60, 'Posting, editing, voting on and reporting comments'),
+  'youtube-downloader': definePolicy('youtube-downloader', 'user', 5, 600, 'YouTube downloads'),
+  'events': definePolicy('events', 'ip', 30, 60, 'Analytics event batches (visits and movie clicks)'),
+  'livetv-heartbeat': definePolicy('livetv-heartbeat', 'ip', 30, 60, 'Live TV viewer heartbeats'),
+  'livetv-chat': definePolicy('livetv-chat', 'ip+user', 20, 60, 'Live TV chat messages'),
+};
+
+export const getRateLimitPolicy = (name: string): RateLimitPolicy => {
+  const policy = RATE_LIMIT_POLICIES[name];
+  if (!policy) throw new Error(`Unknown rate limit policy "${name}"`);
+  return policy;
+};
+
+export interface RateLimitSubject {
+  ip: string;
+  /** Anonymous requests fall back to their IP for user-keyed policies */
+  userId?: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  /** The tightest of the buckets involved, which is what the RateLimit headers describe */
+  bucket: BucketState;
+}
+
+const bucketKeys = (policy: RateLimitPolicy, subject: RateLimitSubject): string[] => {
+  const ipKey = `ip:${subject.ip}`;
+  const userKey = subject.userId ? `user:${subject.userId}` : ipKey;
+  if (policy.keyBy === 'ip') return [ipKey];
+  if (policy.keyBy === 'user') return [userKey];
+  return Array.from(new Set([ipKey, userKey]));
+};
+
+/**
+ * Spend one request against a policy. Store failures let the request through: a broken
+ * limiter shouldn't take the site down with it.
+ */
+export const consumeRateLimit = (policyName: string, subject: RateLimitSubject, now = Date.now()): RateLimitDecision => {
+  const policy = getRateLimitPolicy(policyName);
+  const specs = bucketKeys(policy, subject).map(key => ({
+    key: `${policy.name}:${key}`,
+    capacity: policy.limit,
+    refillPerMs: policy.limit / (policy.windowSeconds * 1000),
+  }));
+
+  try {
+    const store = getRateLimitStore();
+    const { allowed, buckets } = store.take(specs, now);
+    const tightest = allowed
+      ? buckets.reduce((lowest, bucket) => (bucket.remaining < lowest.remaining ? bucket : lowest))
+      : buckets.reduce((slowest, bucket) => (bucket.retryAfterMs > slowest.retryAfterMs ? bucket : slowest));
+    if (!allowed) {
+      store.recordBlocked(policy.name, tightest.key.slice(policy.name.length + 1), now);
+      console.warn(`🚦 Rate limit "${policy.name}" blocked ${tightest.key.slice(policy.name.length + 1)}`);
+    }
+    return { allowed, policy, bucket: tightest };
+  } catch (error) {
+    console.error(`❌ Rate limit store failed for "${policy.name}", allowing request:`, error);
+    return { allowed: true, policy, bucket: { key: specs[0].key, capacity: policy.limit, remaining: policy.limit, retryAfterMs: 0, resetMs: 0 } };
+  }
+};
+
+export const getBlockedCounters = (): BlockedCounter[] => getRateLimitStore().getBlockedCounters();
+
+export const resetBlockedCounters = () => getRateLimitStore().resetBlockedCounters();
+
+export const pruneRateLimitBuckets = (now = Date.now()): number => getRateLimitStore().prune(now);
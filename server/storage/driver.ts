@@ -0,0 +1,31 @@
+import { JsonStorageDriver } from './jsonDriver';
+import { StorageDriver, StorageDriverKind } from './types';
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Build the driver selected by STORAGE_DRIVER (json | sqlite). Defaults to json so
+ * existing data/*.json deployments keep working untouched.
+ */
+export const createStorageDriver = (kind: StorageDriverKind = (process.env.STORAGE_DRIVER as StorageDriverKind) || 'json'): StorageDriver => {
+  if (kind === 'sqlite') {
+    // Loaded lazily so JSON-only deployments never need the native module
+    const { SqliteStorageDriver } = require('./sqliteDriver');
+    return new SqliteStorageDriver();
+  }
+  if (kind !== 'json') {
+    console.warn(`⚠️ Unknown STORAGE_DRIVER "${kind}", falling back to json`);
+  }
+  return new JsonStorageDriver();
+};
+
+/**
+ * Process-wide storage driver shared by the web server and the bot
+ */
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver = createStorageDriver();
+    console.log(`🗄️ Storage driver: ${driver.kind}`);
+  }
+  return driver;
+};
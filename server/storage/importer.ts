@@ -0,0 +1,64 @@
+import { getStorage } from './driver';
+import { JsonStorageDriver } from './jsonDriver';
+import { CollectionName } from './types';
+
+export interface ImportResult {
+  collection: CollectionName;
+  /** Records found in the data/*.json files */
+  source: number;
+  /** Records already in the target store before the import */
+  existing: number;
+}
+
+const IMPORT_ORDER: CollectionName[] = [
+  'movies',
+  'series',
+  'users',
+  'watchlists',
+  'viewingHistory',
+  'comments',
+  'commentUpvotes',
+  'sessions',
+  'meta',
+  'auditLog',
+  'botAdmins',
+  'trash',
+  'botStates',
+  'analytics',
+  'audienceRatings',
+  'loginThrottle',
+  'loginActivity',
+  'passwordResets',
+];
+
+/**
+ * One-shot copy of the existing data/*.json files into the configured driver, used
+ * when switching STORAGE_DRIVER from json to sqlite. Refuses to overwrite a target
+ * that already holds data unless `force` is set. Everything is written in a single
+ * transaction, so a failed import leaves the target untouched.
+ */
+export const importJsonData = ({ dryRun = false, force = false }: { dryRun?: boolean; force?: boolean } = {}): ImportResult[] => {
+  const target = getStorage();
+  if (target.kind === 'json') {
+    throw new Error('STORAGE_DRIVER is json, so data/*.json is already the live store. Set STORAGE_DRIVER=sqlite to import.');
+  }
+
+  const source = new JsonStorageDriver();
+  const plan = IMPORT_ORDER.map(collection => ({
+    collection,
+    entries: source.entries<any>(collection),
+    existing: target.entries(collection).length,
+  }));
+
+  if (!force && plan.some(item => item.existing > 0)) {
+    throw new Error('Target store already contains data. Re-run with --force to overwrite it.');
+  }
+
+  if (!dryRun) {
+    target.transaction(() => {
+      plan.forEach(({ collection, entries }) => target.replace(collection, entries));
+    });
+  }
+
+  return plan.map(({ collection, entries, existing }) => ({ collection, source: entries.length, existing }));
+};
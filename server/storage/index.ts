@@ -0,0 +1,5 @@
+export * from './types';
+export * from './driver';
+export * from './repositories';
+export * from './migrations';
+export * from './importer';
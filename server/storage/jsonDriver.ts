@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { atomicWrite } from '../../api/utils';
+import { CollectionName, FindOptions, StorageDriver } from './types';
+
+interface JsonFileSpec {
+  file: string;
+  /** 'array' files hold a list of records with an `id`; 'map' files hold an object keyed by id */
+  shape: 'array' | 'map';
+  /** Top-level property of the file holding this collection (comments.json holds two) */
+  section?: string;
+  /** Whole-file AES-GCM encryption, as used by sessions.json */
+  encrypted?: boolean;
+}
+
+/**
+ * Maps each collection onto the data/*.json file layout the site has always used,
+ * so switching STORAGE_DRIVER back to json keeps working with existing files.
+ */
+const JSON_FILES: Record<CollectionName, JsonFileSpec> = {
+  movies: { file: 'movies.json', shape: 'array' },
+  users: { file: 'users.json', shape: 'array' },
+  watchlists: { file: 'watchlists.json', shape: 'map' },
+  viewingHistory: { file: 'viewingHistory.json', shape: 'map' },
+  comments: { file: 'comments.json', shape: 'map', section: 'comments' },
+  commentUpvotes: { file: 'comments.json', shape: 'map', section: 'upvotes' },
+  sessions: { file: 'sessions.json', shape: 'map', encrypted: true },
+  meta: { file: 'meta.json', shape: 'map' },
+  series: { file: 'series.json', shape: 'array' },
+  auditLog: { file: 'auditLog.json', shape: 'array' },
+  botAdmins: { file: 'botAdmins.json', shape: 'array' },
+  trash: { file: 'trash.json', shape: 'array' },
+  botStates: { file: 'botStates.json', shape: 'map' },
+  analytics: { file: 'analytics.json', shape: 'map' },
+  audienceRatings: { file: 'audienceRatings.json', shape: 'map' },
+  loginThrottle: { file: 'loginThrottle.json', shape: 'map' },
+  loginActivity: { file: 'loginActivity.json', shape: 'map' },
+  passwordResets: { file: 'passwordResets.json', shape: 'map' },
+};
+
+const matches = (candidate: any, value: string | number | boolean, options?: FindOptions): boolean => {
+  if (options?.ignoreCase && typeof candidate === 'string' && typeof value === 'string') {
+    return candidate.toLowerCase() === value.toLowerCase();
+  }
+  return candidate === value;
+};
+
+export class JsonStorageDriver implements StorageDriver {
+  readonly kind = 'json' as const;
+
+  constructor(private readonly dataDir: string = path.join(process.cwd(), 'data')) {}
+
+  private filePath(spec: JsonFileSpec): string {
+    return path.join(this.dataDir, spec.file);
+  }
+
+  /**
+   * Read a whole file, decrypting it if needed. Missing or unreadable files are treated as empty.
+   */
+  private readFile(spec: JsonFileSpec): any {
+    const filePath = this.filePath(spec);
+    try {
+      if (!fs.existsSync(filePath)) return undefined;
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+      if (spec.encrypted) {
+        if (!parsed.encrypted || !parsed.iv || !parsed.authTag) {
+          console.log(`📁 Legacy unencrypted ${spec.file} detected, treating as empty`);
+          return undefined;
+        }
+        const { decryptData } = require('../../api/encryption');
+        return JSON.parse(decryptData(parsed));
+      }
+      return parsed;
+    } catch (error) {
+      console.error(`📁 Error reading ${filePath}:`, error);
+      return undefined;
+    }
+  }
+
+  private writeFile(spec: JsonFileSpec, content: any): void {
+    if (spec.encrypted) {
+      const { encryptData } = require('../../api/encryption');
+      atomicWrite(this.filePath(spec), JSON.stringify(encryptData(JSON.stringify(content)), null, 2));
+      return;
+    }
+    atomicWrite(this.filePath(spec), JSON.stringify(content, null, 2));
+  }
+
+  private load<T>(collection: CollectionName): [string, T][] {
+    const spec = JSON_FILES[collection];
+    const content = this.readFile(spec);
+    const data = spec.section ? content?.[spec.section] : content;
+    if (!data) return [];
+
+    if (spec.shape === 'array') {
+      return (data as any[]).map(record => [record.id, record] as [string, T]);
+    }
+    return Object.entries(data) as [string, T][];
+  }
+
+  private save<T>(collection: CollectionName, entries: [string, T][]): void {
+    const spec = JSON_FILES[collection];
+    const data = spec.shape === 'array'
+      ? entries.map(([, value]) => value)
+      : Object.fromEntries(entries);
+
+    if (spec.section) {
+      // Other collections share this file, so merge into what is already there
+      const content = this.readFile(spec) || {};
+      content[spec.section] = data;
+      this.writeFile(spec, content);
+    } else {
+      this.writeFile(spec, data);
+    }
+  }
+
+  entries<T>(collection: CollectionName): [string, T][] {
+    return this.load<T>(collection);
+  }
+
+  get<T>(collection: CollectionName, key: string): T | undefined {
+    const entry = this.load<T>(collection).find(([k]) => k === key);
+    return entry ? entry[1] : undefined;
+  }
+
+  findBy<T>(collection: CollectionName, field: string, value: string | number | boolean, options?: FindOptions): T[] {
+    return this.load<T>(collection)
+      .map(([, doc]) => doc)
+      .filter((doc: any) => doc && matches(doc[field], value, options));
+  }
+
+  set<T>(collection: CollectionName, key: string, value: T): void {
+    const entries = this.load<T>(collection);
+    const index = entries.findIndex(([k]) => k === key);
+    if (index === -1) {
+      entries.push([key, value]);
+    } else {
+      entries[index] = [key, value];
+    }
+    this.save(collection, entries);
+  }
+
+  remove(collection: CollectionName, key: string): boolean {
+    const entries = this.load(collection);
+    const remaining = entries.filter(([k]) => k !== key);
+    if (remaining.length === entries.length) return false;
+    this.save(collection, remaining);
+    return true;
+  }
+
+  replace<T>(collection: CollectionName, entries: [string, T][]): void {
+    this.save(collection, entries);
+  }
+
+  transaction<R>(fn: () => R): R {
+    return fn();
+  }
+
+  close(): void {
+    // Nothing held open between calls
+  }
+}
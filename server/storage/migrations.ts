@@ -0,0 +1,318 @@
+import fs from 'fs';
+import path from 'path';
+import { getStorage } from './driver';
+import { schemaRepository } from './repositories';
+import { CollectionName, StorageDriver, StoredSession } from './types';
+
+/**
+ * A single record a migration would touch. `fields` lists the top-level properties
+ * whose value differs (or '*' when the record is added or removed as a whole).
+ */
+export interface RecordChange {
+  collection: CollectionName;
+  key: string;
+  action: 'update' | 'insert' | 'delete';
+  fields: string[];
+}
+
+export interface MigrationResult {
+  version: number;
+  name: string;
+  changes: RecordChange[];
+}
+
+/**
+ * What migrations read and write through: the real store, or a dry run's in-memory copy
+ */
+type MigrationStore = Pick<StorageDriver, 'entries' | 'get' | 'set' | 'replace'>;
+
+interface RecordMigration {
+  version: number;
+  name: string;
+  collection: CollectionName;
+  /** Return the migrated document, or `null` to drop it from the collection */
+  up: (value: any, key: string) => any;
+}
+
+interface CustomMigration {
+  version: number;
+  name: string;
+  /**
+   * Work out and apply changes that don't fit a per-record transform. Writes go through
+   * `store`; anything written another way must be skipped when `dryRun` is set.
+   */
+  run: (store: MigrationStore, dryRun: boolean) => RecordChange[];
+}
+
+type Migration = RecordMigration | CustomMigration;
+
+const SCHEMA_KEY = 'schemaVersion';
+const HISTORY_LIMIT = 50;
+
+const PART_PATTERN = /^(.*?)\s*[-:(]?\s*part\s*(\d+)\s*\)?\s*$/i;
+
+/**
+ * Fields whose value changed between two versions of a document
+ */
+const changedFields = (before: any, after: any): string[] => {
+  if (typeof before !== 'object' || typeof after !== 'object' || Array.isArray(before) || Array.isArray(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : ['*'];
+  }
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...keys].filter(key => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+};
+
+/**
+ * Legacy sessions.json files were written in plain text before session encryption landed.
+ * Both drivers ignore them now, so this returns the still-valid sessions they hold.
+ */
+const readLegacySessions = (): [string, StoredSession][] => {
+  const filePath = path.join(process.cwd(), 'data', 'sessions.json');
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (parsed.encrypted && parsed.iv && parsed.authTag) return [];
+    const now = Date.now();
+    return (Object.entries(parsed) as [string, StoredSession][])
+      .filter(([, session]) => session && typeof session.userId === 'string' && session.expiresAt > now);
+  } catch (error) {
+    console.error('📁 Error reading legacy sessions.json:', error);
+    return [];
+  }
+};
+
+/**
+ * Ordered schema migrations. Append new entries with the next version number; never
+ * edit or reorder ones that have already shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'movies: backfill seriesTitle and partNumber on "Part N" titles',
+    collection: 'movies',
+    up: movie => {
+      // Standalone movies are left alone; v7 still groups "Koleoso" with "Koleoso Part 2" by title
+      const match = typeof movie.title === 'string' ? movie.title.match(PART_PATTERN) : null;
+      if (!match || (movie.seriesTitle && typeof movie.partNumber === 'number')) return movie;
+      return {
+        ...movie,
+        seriesTitle: movie.seriesTitle || match[1].trim() || movie.title,
+        partNumber: typeof movie.partNumber === 'number'
+          ? movie.partNumber
+          : Number(movie.partNumber) || parseInt(match[2], 10),
+      };
+    },
+  },
+  {
+    version: 2,
+    name: 'users: default role and username',
+    collection: 'users',
+    up: user => ({
+      ...user,
+      role: user.role || 'user',
+      username: user.username || String(user.email || user.id).split('@')[0],
+    }),
+  },
+  {
+    version: 3,
+    name: 'comments: normalize threads and ratings',
+    collection: 'comments',
+    up: comments => {
+      if (!Array.isArray(comments)) return [];
+      return comments
+        .filter(comment => comment && comment.id)
+        .map(({ replies, ...comment }) => {
+          const parentId = comment.parentId || null;
+          const normalized: any = { ...comment, parentId, date: comment.date || new Date(0).toISOString() };
+          if (parentId) {
+            // Only top-level reviews carry a star rating
+            delete normalized.rating;
+          } else if (normalized.rating !== undefined) {
+            normalized.rating = Math.min(5, Math.max(1, Math.round(Number(normalized.rating) || 1)));
+          }
+          return normalized;
+        });
+    },
+  },
+  {
+    version: 4,
+    name: 'watchlists: drop duplicate and invalid ids',
+    collection: 'watchlists',
+    up: watchlist => Array.isArray(watchlist)
+      ? [...new Set(watchlist.filter(id => typeof id === 'string' && id))]
+      : [],
+  },
+  {
+    version: 5,
+    name: 'viewingHistory: dedupe, sort newest first and cap length',
+    collection: 'viewingHistory',
+    up: history => {
+      if (!Array.isArray(history)) return [];
+      const seen = new Set<string>();
+      return history
+        .filter(entry => entry && typeof entry.movieId === 'string' && !isNaN(Date.parse(entry.viewedAt)))
+        .sort((a, b) => Date.parse(b.viewedAt) - Date.parse(a.viewedAt))
+        .filter(entry => !seen.has(entry.movieId) && seen.add(entry.movieId))
+        .slice(0, HISTORY_LIMIT);
+    },
+  },
+  {
+    version: 6,
+    name: 'sessions: re-encrypt legacy plain-text sessions.json',
+    run: store => {
+      const legacy = readLegacySessions().filter(([token]) => store.get('sessions', token) === undefined);
+      legacy.forEach(([token, session]) => store.set('sessions', token, session));
+      return legacy.map(([token]) => ({
+        collection: 'sessions' as CollectionName,
+        // Never print a live session token
+        key: `${token.slice(0, 6)}…`,
+        action: 'insert' as const,
+        fields: ['*'],
+      }));
+    },
+  },
+  {
+    version: 7,
+    name: 'series: group multi-part movies into series records',
+    run: (store, dryRun) => {
+      // Loaded lazily: the series service itself depends on the storage layer
+      const { planSeriesFromMovies, createSeriesFromPlan } = require('../../services/seriesService');
+      const plan: { title: string; parts: any[] }[] = planSeriesFromMovies(
+        store.entries<any>('movies').map(([, movie]) => movie).filter(movie => !movie.seriesId)
+      );
+      // Saves through the repositories, not the store
+      if (!dryRun) createSeriesFromPlan(plan);
+
+      return plan.flatMap(({ title, parts }) => [
+        { collection: 'series' as CollectionName, key: title, action: 'insert' as const, fields: ['*'] },
+        ...parts.map((part, index) => ({
+          collection: 'movies' as CollectionName,
+          key: part.id,
+          action: 'update' as const,
+          fields: ['seriesId', ...(part.seriesTitle !== title ? ['seriesTitle'] : []), ...(part.partNumber !== index + 1 ? ['partNumber'] : [])],
+        })),
+      ]);
+    },
+  },
+  {
+    version: 8,
+    name: 'audienceRatings: tally star ratings from existing comments',
+    run: store => {
+      // Loaded lazily like the series service above
+      const { tallyRatings } = require('../audienceRatings');
+      const tallies = store.entries<any[]>('comments')
+        .map(([movieId, comments]) => [movieId, tallyRatings(comments)] as [string, any])
+        .filter(([movieId, tally]) => tally && store.get('audienceRatings', movieId) === undefined);
+      tallies.forEach(([movieId, tally]) => store.set('audienceRatings', movieId, tally));
+
+      return tallies.map(([movieId]) => ({
+        collection: 'audienceRatings' as CollectionName,
+        key: movieId,
+        action: 'insert' as const,
+        fields: ['*'],
+      }));
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = (): number => schemaRepository.get(SCHEMA_KEY).version;
+
+export const getPendingMigrations = (): { version: number; name: string }[] => {
+  const current = getSchemaVersion();
+  return MIGRATIONS.filter(m => m.version > current).map(({ version, name }) => ({ version, name }));
+};
+
+/**
+ * The store as a dry run sees it: writes stay in memory, so each migration previews
+ * against what the ones before it would have written
+ */
+const createDryRunStore = (storage: StorageDriver): MigrationStore => {
+  const staged = new Map<CollectionName, Map<string, any>>();
+  const collection = (name: CollectionName) => {
+    if (!staged.has(name)) staged.set(name, new Map(storage.entries<any>(name)));
+    return staged.get(name)!;
+  };
+  return {
+    entries: <T>(name: CollectionName) => [...collection(name).entries()] as [string, T][],
+    get: <T>(name: CollectionName, key: string) => collection(name).get(key) as T | undefined,
+    set: (name, key, value) => {
+      collection(name).set(key, value);
+    },
+    replace: (name, entries) => {
+      staged.set(name, new Map(entries));
+    },
+  };
+};
+
+const runRecordMigration = (migration: RecordMigration, store: MigrationStore): RecordChange[] => {
+  const changes: RecordChange[] = [];
+  const migrated: [string, any][] = [];
+
+  for (const [key, value] of store.entries<any>(migration.collection)) {
+    const next = migration.up(JSON.parse(JSON.stringify(value)), key);
+    if (next === null || next === undefined) {
+      changes.push({ collection: migration.collection, key, action: 'delete', fields: ['*'] });
+      continue;
+    }
+    const fields = changedFields(value, next);
+    if (fields.length > 0) {
+      changes.push({ collection: migration.collection, key, action: 'update', fields });
+    }
+    migrated.push([key, next]);
+  }
+
+  if (changes.length > 0) {
+    store.replace(migration.collection, migrated);
+  }
+  return changes;
+};
+
+/**
+ * Apply every migration newer than the recorded schema version, in order. Each
+ * migration and its version bump are committed together, so a failure leaves the
+ * store at the last fully applied version. With `dryRun` nothing is written and the
+ * result lists exactly which records would change.
+ */
+export const runMigrations = ({ dryRun = false }: { dryRun?: boolean } = {}): MigrationResult[] => {
+  const storage = getStorage();
+  const store: MigrationStore = dryRun ? createDryRunStore(storage) : storage;
+  const results: MigrationResult[] = [];
+
+  for (const migration of MIGRATIONS.filter(m => m.version > getSchemaVersion())) {
+    const changes = storage.transaction(() => {
+      const applied = 'run' in migration
+        ? migration.run(store, dryRun)
+        : runRecordMigration(migration, store);
+
+      if (!dryRun) {
+        const state = schemaRepository.get(SCHEMA_KEY);
+        schemaRepository.set(SCHEMA_KEY, {
+          version: migration.version,
+          history: [...state.history, { version: migration.version, name: migration.name, appliedAt: new Date().toISOString() }],
+        });
+      }
+      return applied;
+    });
+    results.push({ version: migration.version, name: migration.name, changes });
+    if (!dryRun) {
+      console.log(`🗄️ Applied migration v${migration.version} (${migration.name}): ${changes.length} record(s) changed`);
+    }
+  }
+  return results;
+};
+
+/**
+ * Startup check: warn (but keep serving) when the store is behind the code
+ */
+export const warnIfSchemaOutdated = (): void => {
+  try {
+    const pending = getPendingMigrations();
+    if (pending.length > 0) {
+      console.warn(`⚠️ Storage schema is at v${getSchemaVersion()}, latest is v${LATEST_SCHEMA_VERSION}. Run "npm run db:migrate" to apply ${pending.length} pending migration(s).`);
+    }
+  } catch (error) {
+    console.error('🗄️ Could not read storage schema version:', error);
+  }
+};
@@ -0,0 +1,162 @@
+import { getStorage } from './driver';
+import {
+  AnalyticsBucket, AudienceRatingTally, AuditEntry, CollectionName, FindOptions, HistoryEntry, LoginActivityEntry,
+  LoginThrottleState, PasswordResetRecord, SchemaState, StoredSession, UserRecord
+} from './types';
+import { BotAdmin, Movie, Series, StoredUserState, TrashedItem } from '../../bot/types';
+
+export type RecordChangeEvent<T> =
+  | { type: 'save'; record: T }
+  | { type: 'remove'; id: string }
+  | { type: 'reset'; records: T[] };
+
+export type KeyedChangeEvent =
+  | { type: 'set'; key: string }
+  | { type: 'remove'; key: string }
+  | { type: 'reset' };
+
+/**
+ * Repository over a collection of records that carry their own `id`
+ */
+export class RecordRepository<T extends { id: string }> {
+  private listeners: ((event: RecordChangeEvent<T>) => void)[] = [];
+
+  constructor(private readonly collection: CollectionName) {}
+
+  /**
+   * Be told about every write made through this repository (in-process caches and
+   * indexes use this to stay fresh). Returns an unsubscribe function.
+   */
+  onChange(listener: (event: RecordChangeEvent<T>) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(event: RecordChangeEvent<T>): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`🗄️ ${this.collection} change listener failed:`, error);
+      }
+    });
+  }
+
+  all(): T[] {
+    return getStorage().entries<T>(this.collection).map(([, record]) => record);
+  }
+
+  get(id: string): T | undefined {
+    return getStorage().get<T>(this.collection, id);
+  }
+
+  findBy(field: keyof T & string, value: string | number | boolean, options?: FindOptions): T[] {
+    return getStorage().findBy<T>(this.collection, field, value, options);
+  }
+
+  findOneBy(field: keyof T & string, value: string | number | boolean, options?: FindOptions): T | undefined {
+    return this.findBy(field, value, options)[0];
+  }
+
+  save(record: T): void {
+    getStorage().set(this.collection, record.id, record);
+    this.emit({ type: 'save', record });
+  }
+
+  remove(id: string): boolean {
+    const removed = getStorage().remove(this.collection, id);
+    if (removed) this.emit({ type: 'remove', id });
+    return removed;
+  }
+
+  /**
+   * Replace every record at once, keeping the given order
+   */
+  saveAll(records: T[]): void {
+    getStorage().replace(this.collection, records.map(record => [record.id, record] as [string, T]));
+    this.emit({ type: 'reset', records });
+  }
+}
+
+/**
+ * Repository over a collection keyed by an external id (user id, movie id, token...)
+ */
+export class KeyedRepository<T> {
+  private listeners: ((event: KeyedChangeEvent) => void)[] = [];
+
+  constructor(private readonly collection: CollectionName, private readonly defaultValue: () => T) {}
+
+  /**
+   * Be told about every write made through this repository. Returns an unsubscribe function.
+   */
+  onChange(listener: (event: KeyedChangeEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(event: KeyedChangeEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`🗄️ ${this.collection} change listener failed:`, error);
+      }
+    });
+  }
+
+  entries(): [string, T][] {
+    return getStorage().entries<T>(this.collection);
+  }
+
+  get(key: string): T {
+    return getStorage().get<T>(this.collection, key) ?? this.defaultValue();
+  }
+
+  has(key: string): boolean {
+    return getStorage().get<T>(this.collection, key) !== undefined;
+  }
+
+  set(key: string, value: T): void {
+    getStorage().set(this.collection, key, value);
+    this.emit({ type: 'set', key });
+  }
+
+  remove(key: string): boolean {
+    const removed = getStorage().remove(this.collection, key);
+    if (removed) this.emit({ type: 'remove', key });
+    return removed;
+  }
+
+  replaceAll(entries: [string, T][]): void {
+    getStorage().replace(this.collection, entries);
+    this.emit({ type: 'reset' });
+  }
+}
+
+/**
+ * Run a group of repository calls atomically
+ */
+export const withTransaction = <R>(fn: () => R): R => getStorage().transaction(fn);
+
+export const moviesRepository = new RecordRepository<Movie>('movies');
+export const seriesRepository = new RecordRepository<Series>('series');
+export const usersRepository = new RecordRepository<UserRecord>('users');
+export const watchlistsRepository = new KeyedRepository<string[]>('watchlists', () => []);
+export const historyRepository = new KeyedRepository<HistoryEntry[]>('viewingHistory', () => []);
+export const commentsRepository = new KeyedRepository<any[]>('comments', () => []);
+export const commentUpvotesRepository = new KeyedRepository<string[]>('commentUpvotes', () => []);
+export const sessionsRepository = new KeyedRepository<StoredSession | undefined>('sessions', () => undefined);
+export const auditLogRepository = new RecordRepository<AuditEntry>('auditLog');
+export const botAdminsRepository = new RecordRepository<BotAdmin>('botAdmins');
+export const trashRepository = new RecordRepository<TrashedItem>('trash');
+export const userStatesRepository = new KeyedRepository<StoredUserState | undefined>('botStates', () => undefined);
+export const analyticsRepository = new KeyedRepository<AnalyticsBucket | undefined>('analytics', () => undefined);
+export const audienceRatingsRepository = new KeyedRepository<AudienceRatingTally | undefined>('audienceRatings', () => undefined);
+export const loginThrottleRepository = new KeyedRepository<LoginThrottleState | undefined>('loginThrottle', () => undefined);
+export const loginActivityRepository = new KeyedRepository<LoginActivityEntry[]>('loginActivity', () => []);
+export const passwordResetsRepository = new KeyedRepository<PasswordResetRecord | undefined>('passwordResets', () => undefined);
+export const schemaRepository = new KeyedRepository<SchemaState>('meta', () => ({ version: 0, history: [] }));
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { createHmac } from 'crypto';
+import Database from 'better-sqlite3';
+import { CollectionName, FindOptions, StorageDriver } from './types';
+
+/**
+ * Collections whose keys and values must not sit in the database file in clear text.
+ * Keys are stored as an HMAC digest and values as AES-GCM ciphertext (same key as sessions.json).
+ */
+const ENCRYPTED_COLLECTIONS: CollectionName[] = ['sessions'];
+
+/**
+ * Embedded SQLite driver.
+ *
+ * Every collection lives in one `records` table as JSON text. WAL mode plus a busy timeout
+ * lets the web server and a separately started bot process write to the same file safely.
+ */
+export class SqliteStorageDriver implements StorageDriver {
+  readonly kind = 'sqlite' as const;
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'cinemax.db')) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (collection, key)
+      )
+    `);
+    console.log(`🗄️ SQLite storage opened at ${dbPath}`);
+  }
+
+  /**
+   * Direct handle for modules that need their own tables (e.g. schema migrations)
+   */
+  get database(): Database.Database {
+    return this.db;
+  }
+
+  private isEncrypted(collection: CollectionName): boolean {
+    return ENCRYPTED_COLLECTIONS.includes(collection);
+  }
+
+  private storedKey(collection: CollectionName, key: string): string {
+    if (!this.isEncrypted(collection)) return key;
+    return createHmac('sha256', process.env.SESSION_ENCRYPTION_KEY || '').update(key).digest('base64url');
+  }
+
+  private encode(collection: CollectionName, key: string, value: unknown): string {
+    if (!this.isEncrypted(collection)) return JSON.stringify(value);
+    const { encryptData } = require('../../api/encryption');
+    // The original key travels inside the ciphertext so entries() can hand it back
+    return JSON.stringify(encryptData(JSON.stringify({ key, value })));
+  }
+
+  private decode<T>(collection: CollectionName, key: string, raw: string): [string, T] {
+    if (!this.isEncrypted(collection)) return [key, JSON.parse(raw)];
+    const { decryptData } = require('../../api/encryption');
+    const payload = JSON.parse(decryptData(JSON.parse(raw)));
+    return [payload.key, payload.value];
+  }
+
+  entries<T>(collection: CollectionName): [string, T][] {
+    const rows = this.db
+      .prepare('SELECT key, value FROM records WHERE collection = ? ORDER BY rowid')
+      .all(collection) as { key: string; value: string }[];
+    return rows.map(row => this.decode<T>(collection, row.key, row.value));
+  }
+
+  get<T>(collection: CollectionName, key: string): T | undefined {
+    const row = this.db
+      .prepare('SELECT key, value FROM records WHERE collection = ? AND key = ?')
+      .get(collection, this.storedKey(collection, key)) as { key: string; value: string } | undefined;
+    return row ? this.decode<T>(collection, row.key, row.value)[1] : undefined;
+  }
+
+  findBy<T>(collection: CollectionName, field: string, value: string | number | boolean, options?: FindOptions): T[] {
+    if (this.isEncrypted(collection)) {
+      return this.entries<T>(collection)
+        .map(([, doc]) => doc)
+        .filter((doc: any) => doc && doc[field] === value);
+    }
+
+    const jsonPath = `$."${field.replace(/"/g, '')}"`;
+    const sql = options?.ignoreCase && typeof value === 'string'
+      ? 'SELECT value FROM records WHERE collection = ? AND lower(json_extract(value, ?)) = lower(?) ORDER BY rowid'
+      : 'SELECT value FROM records WHERE collection = ? AND json_extract(value, ?) = ? ORDER BY rowid';
+    const bound = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    const rows = this.db.prepare(sql).all(collection, jsonPath, bound) as { value: string }[];
+    return rows.map(row => JSON.parse(row.value));
+  }
+
+  set<T>(collection: CollectionName, key: string, value: T): void {
+    this.db
+      .prepare(`
+        INSERT INTO records (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `)
+      .run(collection, this.storedKey(collection, key), this.encode(collection, key, value), Date.now());
+  }
+
+  remove(collection: CollectionName, key: string): boolean {
+    const result = this.db
+      .prepare('DELETE FROM records WHERE collection = ? AND key = ?')
+      .run(collection, this.storedKey(collection, key));
+    return result.changes > 0;
+  }
+
+  replace<T>(collection: CollectionName, entries: [string, T][]): void {
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM records WHERE collection = ?').run(collection);
+      entries.forEach(([key, value]) => this.set(collection, key, value));
+    });
+  }
+
+  transaction<R>(fn: () => R): R {
+    // Nested calls join the outer transaction instead of failing
+    if (this.db.inTransaction) return fn();
+    return this.db.transaction(fn).immediate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
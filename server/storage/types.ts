@@ -0,0 +1,220 @@
+/**
+ * Storage layer types shared by every driver.
+ *
+ * A collection is a keyed set of JSON documents. Record collections (movies, users)
+ * are keyed by the record's `id`; map collections (watchlists, sessions, ...) are keyed
+ * by whatever the owning module uses (user id, movie id, session token).
+ */
+
+export type StorageDriverKind = 'json' | 'sqlite';
+
+export type CollectionName =
+  | 'movies'
+  | 'users'
+  | 'watchlists'
+  | 'viewingHistory'
+  | 'comments'
+  | 'commentUpvotes'
+  | 'sessions'
+  | 'meta'
+  | 'series'
+  | 'auditLog'
+  | 'botAdmins'
+  | 'trash'
+  | 'botStates'
+  | 'analytics'
+  | 'audienceRatings'
+  | 'loginThrottle'
+  | 'loginActivity'
+  | 'passwordResets';
+
+export interface FindOptions {
+  /** Compare string values case-insensitively (e.g. email lookups) */
+  ignoreCase?: boolean;
+}
+
+export interface StorageDriver {
+  readonly kind: StorageDriverKind;
+
+  /**
+   * All entries of a collection in insertion order
+   */
+  entries<T>(collection: CollectionName): [string, T][];
+
+  get<T>(collection: CollectionName, key: string): T | undefined;
+
+  /**
+   * Find documents whose top-level `field` equals `value`
+   */
+  findBy<T>(collection: CollectionName, field: string, value: string | number | boolean, options?: FindOptions): T[];
+
+  set<T>(collection: CollectionName, key: string, value: T): void;
+
+  remove(collection: CollectionName, key: string): boolean;
+
+  /**
+   * Replace the whole collection, keeping the given order
+   */
+  replace<T>(collection: CollectionName, entries: [string, T][]): void;
+
+  /**
+   * Run several reads/writes as one unit. The SQLite driver wraps them in a real
+   * transaction; the JSON driver runs them in order (each file write stays atomic).
+   */
+  transaction<R>(fn: () => R): R;
+
+  close(): void;
+}
+
+export interface UserRecord {
+  id: string;
+  name: string;
+  email: string;
+  username: string;
+  passwordHash: string;
+  role?: string;
+  profilePic?: string;
+  moderation?: UserModeration;
+  twoFactor?: UserTwoFactor;
+  /** A TOTP secret that has been shown to the user but not yet confirmed with a code */
+  twoFactorPending?: { secret: SealedSecret; createdAt: string };
+  [key: string]: any;
+}
+
+/**
+ * Output of api/encryption's encryptData
+ */
+export interface SealedSecret {
+  encrypted: string;
+  iv: string;
+  authTag: string;
+}
+
+/**
+ * Authenticator-app sign-in for one account
+ */
+export interface UserTwoFactor {
+  secret: SealedSecret;
+  enabledAt: string;
+  /** The last 30-second TOTP step a code was accepted for; codes can't be used twice */
+  lastUsedStep: number;
+  /** SHA-256 of the recovery codes not used yet */
+  recoveryCodes: string[];
+}
+
+/**
+ * Comment restrictions set by moderators from the bot
+ */
+export interface UserModeration {
+  /** Their new comments are only shown to themselves */
+  shadowBanned?: boolean;
+  /** ISO time until which they can't comment */
+  mutedUntil?: string;
+}
+
+export interface HistoryEntry {
+  movieId: string;
+  viewedAt: string;
+}
+
+export interface SchemaState {
+  version: number;
+  history: { version: number; name: string; appliedAt: string }[];
+}
+
+/**
+ * One admin change made through the bot. Entries are only ever appended; undoing a
+ * change appends a new entry pointing back at it through `undoOf`.
+ */
+export interface AuditEntry {
+  id: string;
+  /** Telegram user id of the admin who made the change */
+  adminId: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  /** Snapshot before the change (`null` when the entity was created) */
+  before: any;
+  /** Snapshot after the change (`null` when the entity was deleted) */
+  after: any;
+  /** Whether the change can be rolled back from the audit menu */
+  reversible: boolean;
+  timestamp: string;
+  undoOf?: string;
+}
+
+export type AnalyticsGranularity = 'hour' | 'day';
+
+/**
+ * Site activity counted over one hour or one day, keyed `<granularity>:<start>`.
+ * Raw events are never stored; only these rollups are.
+ */
+export interface AnalyticsBucket {
+  granularity: AnalyticsGranularity;
+  /** ISO start of the hour/day (UTC) */
+  start: string;
+  visits: number;
+  signups: number;
+  /** Detail page views per movie id */
+  movieClicks: Record<string, number>;
+  /** Signed-in plays per movie id (recorded by the server, not the beacon) */
+  watchStarts?: Record<string, number>;
+  /** Watchlist additions per movie id (recorded by the server, not the beacon) */
+  watchlistAdds?: Record<string, number>;
+  /** Visits per referring host ('direct' when there was none) */
+  referrers: Record<string, number>;
+  /** Visits per device class */
+  devices: Record<string, number>;
+}
+
+export interface StoredSession {
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  lastActivity: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Star ratings left with top-level comments on one movie, tallied so reads never scan
+ * the comments. Only each user's latest published rating counts.
+ */
+export interface AudienceRatingTally {
+  count: number;
+  sum: number;
+  /** How many 1★…5★ ratings, index 0 being 1★ */
+  distribution: number[];
+  updatedAt: string;
+}
+
+/**
+ * Failed sign-ins counted against one account (`account:<userId>`) or one IP (`ip:<address>`)
+ */
+export interface LoginThrottleState {
+  failures: number;
+  lastFailureAt: number;
+  /** Attempts before this time are refused without checking the password */
+  nextAttemptAt: number;
+  lockedUntil?: number;
+}
+
+export type LoginFailureReason = 'password' | 'two-factor' | 'delayed' | 'locked' | 'ip-locked';
+
+export interface LoginActivityEntry {
+  at: string;
+  success: boolean;
+  reason?: LoginFailureReason;
+  ipAddress: string;
+  userAgent: string;
+}
+
+/**
+ * An outstanding "forgot password" link, stored under the SHA-256 of its token so a leaked
+ * data file can't be used to reset anyone's password
+ */
+export interface PasswordResetRecord {
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
@@ -0,0 +1,112 @@
+import { commentsRepository, moviesRepository } from './storage';
+import { getAnalyticsBuckets } from './analytics';
+import { isPublished } from './moderation';
+
+export type TrendingWindow = '24h' | '7d' | '30d';
+export type TrendingSignal = 'clicks' | 'watchStarts' | 'watchlistAdds' | 'comments';
+
+export interface TrendingEntry {
+  movieId: string;
+  title: string;
+  score: number;
+  /** Raw (undecayed) counts inside the window */
+  signals: Record<TrendingSignal, number>;
+}
+
+export interface TrendingResult {
+  window: TrendingWindow;
+  generatedAt: string;
+  movies: TrendingEntry[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How far back each window looks, and how quickly activity fades inside it
+ */
+export const TRENDING_WINDOWS: Record<TrendingWindow, { days: number; halfLifeHours: number }> = {
+  '24h': { days: 1, halfLifeHours: 6 },
+  '7d': { days: 7, halfLifeHours: 48 },
+  '30d': { days: 30, halfLifeHours: 7 * 24 },
+};
+
+/**
+ * What one occurrence of each signal is worth before decay
+ */
+const SIGNAL_WEIGHTS: Record<TrendingSignal, number> = {
+  clicks: 1,
+  watchStarts: 3,
+  watchlistAdds: 4,
+  comments: 5,
+};
+
+// Movies without activity are ordered by popularity and rating through this prior. It stays
+// below one decayed click even at the far edge of every window.
+const PRIOR_WEIGHT = 0.04;
+
+const CACHE_TTL_MS = (parseInt(process.env.TRENDING_CACHE_SECONDS || '300', 10) || 300) * 1000;
+
+export const isTrendingWindow = (value: unknown): value is TrendingWindow =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRENDING_WINDOWS, value);
+
+const emptySignals = (): Record<TrendingSignal, number> => ({ clicks: 0, watchStarts: 0, watchlistAdds: 0, comments: 0 });
+
+const computeTrending = (window: TrendingWindow): TrendingResult => {
+  const { days, halfLifeHours } = TRENDING_WINDOWS[window];
+  const now = Date.now();
+  const cutoff = now - days * 24 * HOUR_MS;
+  const decayPerMs = Math.LN2 / (halfLifeHours * HOUR_MS);
+
+  const movies = moviesRepository.all();
+  const scores = new Map<string, { decayed: number; signals: Record<TrendingSignal, number> }>(
+    movies.map(movie => [movie.id, { decayed: 0, signals: emptySignals() }])
+  );
+
+  const add = (movieId: string, signal: TrendingSignal, count: number, at: number) => {
+    const entry = scores.get(movieId);
+    if (!entry || count <= 0) return;
+    entry.signals[signal] += count;
+    entry.decayed += SIGNAL_WEIGHTS[signal] * count * Math.exp(-decayPerMs * Math.max(0, now - at));
+  };
+
+  getAnalyticsBuckets(days).forEach(bucket => {
+    // Rollups only know their bucket, so activity is dated to the bucket's midpoint
+    const at = Math.min(now, Date.parse(bucket.start) + (bucket.granularity === 'hour' ? HOUR_MS : 24 * HOUR_MS) / 2);
+    Object.entries(bucket.movieClicks).forEach(([movieId, count]) => add(movieId, 'clicks', count, at));
+    Object.entries(bucket.watchStarts || {}).forEach(([movieId, count]) => add(movieId, 'watchStarts', count, at));
+    Object.entries(bucket.watchlistAdds || {}).forEach(([movieId, count]) => add(movieId, 'watchlistAdds', count, at));
+  });
+
+  commentsRepository.entries().forEach(([movieId, comments]) => {
+    comments.forEach((comment: any) => {
+      const at = Date.parse(comment.date);
+      if (isPublished(comment) && !isNaN(at) && at >= cutoff) add(movieId, 'comments', 1, at);
+    });
+  });
+
+  const ranked = movies.map(movie => {
+    const { decayed, signals } = scores.get(movie.id)!;
+    const prior = PRIOR_WEIGHT * ((movie.popularity || 0) / 100 + (movie.rating || 0) / 10) / 2;
+    return { movieId: movie.id, title: movie.title, score: Math.round((decayed + prior) * 10000) / 10000, signals };
+  });
+
+  return {
+    window,
+    generatedAt: new Date(now).toISOString(),
+    movies: ranked.sort((a, b) => b.score - a.score),
+  };
+};
+
+// One shared ranking per window, so every visitor sees the same list
+const cache = new Map<TrendingWindow, { result: TrendingResult; expiresAt: number }>();
+
+moviesRepository.onChange(() => cache.clear());
+
+export const getTrending = (window: TrendingWindow = '24h'): TrendingResult => {
+  const cached = cache.get(window);
+  if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+  const result = computeTrending(window);
+  cache.set(window, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+  return result;
+};
@@ -0,0 +1,266 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SealedSecret, UserRecord, usersRepository, withTransaction } from './storage';
+
+const MINUTE_MS = 60 * 1000;
+
+// RFC 6238 defaults, which is what every authenticator app assumes
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next code too, for clocks that are a little off
+const ALLOWED_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Yoruba Cinemax';
+
+// Between the password step and the code step of a sign-in
+const CHALLENGE_TTL_MS = 5 * MINUTE_MS;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+const STAFF_ROLES = ['admin', 'moderator'];
+const SITE_CONFIG_PATH = path.join(process.cwd(), 'data', 'siteConfig.json');
+
+// --- TOTP ---
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const totpCode = (secret: Buffer, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+};
+
+const currentStep = (now: number) => Math.floor(now / 1000 / STEP_SECONDS);
+
+/**
+ * The time step a code is valid for, or null. Steps at or before `lastUsedStep` are refused
+ * so an overheard code can't be replayed.
+ */
+const matchTotp = (base32Secret: string, code: string, lastUsedStep: number, now: number): number | null => {
+  if (!new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code)) return null;
+  const secret = base32Decode(base32Secret);
+  const step = currentStep(now);
+  for (let candidate = step - ALLOWED_DRIFT_STEPS; candidate <= step + ALLOWED_DRIFT_STEPS; candidate++) {
+    if (candidate <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, candidate)), Buffer.from(code))) return candidate;
+  }
+  return null;
+};
+
+// The encryption module exits the process without SESSION_ENCRYPTION_KEY, so load it only when needed
+const seal = (plaintext: string): SealedSecret => require('../api/encryption').encryptData(plaintext);
+const unseal = (sealed: SealedSecret): string => require('../api/encryption').decryptData(sealed);
+
+const hashCode = (code: string) => createHash('sha256').update(code).digest('hex');
+const normalizeCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+});
+
+// --- ACCOUNT STATE ---
+
+export const isTwoFactorEnabled = (user: UserRecord) => !!user.twoFactor;
+
+/**
+ * Whether the site setting (toggled from the bot) makes two-factor authentication mandatory
+ * for this account's role
+ */
+export const isTwoFactorRequired = (user: UserRecord) => {
+  if (!STAFF_ROLES.includes(user.role || 'user')) return false;
+  try {
+    return JSON.parse(fs.readFileSync(SITE_CONFIG_PATH, 'utf-8')).requireStaffTwoFactor === true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Staff who must turn on two-factor authentication keep a normal session but lose their
+ * staff powers until they do
+ */
+export const needsTwoFactorSetup = (user: UserRecord) => !isTwoFactorEnabled(user) && isTwoFactorRequired(user);
+
+/**
+ * Start enrollment: a fresh secret to show as a QR code. It only takes effect once a code
+ * from the app is confirmed with enableTwoFactor.
+ */
+export const startTwoFactorSetup = (user: UserRecord, now = Date.now()) => {
+  const secret = base32Encode(randomBytes(SECRET_BYTES));
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: 'SHA1', digits: String(CODE_DIGITS), period: String(STEP_SECONDS) });
+  withTransaction(() => {
+    const fresh = usersRepository.get(user.id);
+    if (!fresh) return;
+    fresh.twoFactorPending = { secret: seal(secret), createdAt: new Date(now).toISOString() };
+    usersRepository.save(fresh);
+  });
+  return { secret, otpauthUri: `otpauth://totp/${label}?${params.toString()}` };
+};
+
+/**
+ * Finish enrollment with a code from the app. Returns the recovery codes (shown once), or
+ * null if there is no pending setup or the code is wrong.
+ */
+export const enableTwoFactor = (userId: string, code: string, now = Date.now()): string[] | null =>
+  withTransaction(() => {
+    const user = usersRepository.get(userId);
+    if (!user?.twoFactorPending) return null;
+    const secret = unseal(user.twoFactorPending.secret);
+    const step = matchTotp(secret, String(code).trim(), -1, now);
+    if (step === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    user.twoFactor = {
+      secret: user.twoFactorPending.secret,
+      enabledAt: new Date(now).toISOString(),
+      lastUsedStep: step,
+      recoveryCodes: recoveryCodes.map(code => hashCode(normalizeCode(code))),
+    };
+    delete user.twoFactorPending;
+    usersRepository.save(user);
+    return recoveryCodes;
+  });
+
+export const disableTwoFactor = (userId: string) => {
+  withTransaction(() => {
+    const user = usersRepository.get(userId);
+    if (!user) return;
+    delete user.twoFactor;
+    delete user.twoFactorPending;
+    usersRepository.save(user);
+  });
+};
+
+/**
+ * Check a code from the authenticator app, or spend one of the recovery codes
+ */
+export const verifyTwoFactorCode = (userId: string, code: string, now = Date.now()): 'totp' | 'recovery' | null =>
+  withTransaction(() => {
+    const user = usersRepository.get(userId);
+    if (!user?.twoFactor || !code) return null;
+    const input = String(code).trim();
+
+    const step = matchTotp(unseal(user.twoFactor.secret), input, user.twoFactor.lastUsedStep, now);
+    if (step !== null) {
+      user.twoFactor.lastUsedStep = step;
+      usersRepository.save(user);
+      return 'totp';
+    }
+
+    const hashed = hashCode(normalizeCode(input));
+    const index = user.twoFactor.recoveryCodes.indexOf(hashed);
+    if (index < 0) return null;
+    user.twoFactor.recoveryCodes.splice(index, 1);
+    usersRepository.save(user);
+    return 'recovery';
+  });
+
+/**
+ * Replace every recovery code. Returns the new codes, to be shown once.
+ */
+export const regenerateRecoveryCodes = (userId: string): string[] | null =>
+  withTransaction(() => {
+    const user = usersRepository.get(userId);
+    if (!user?.twoFactor) return null;
+    const recoveryCodes = generateRecoveryCodes();
+    user.twoFactor.recoveryCodes = recoveryCodes.map(code => hashCode(normalizeCode(code)));
+    usersRepository.save(user);
+    return recoveryCodes;
+  });
+
+export const getRecoveryCodesLeft = (user: UserRecord) => user.twoFactor?.recoveryCodes.length || 0;
+
+// --- SIGN-IN CHALLENGES ---
+
+interface LoginChallenge {
+  userId: string;
+  ipAddress: string;
+  userAgent: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Short-lived and only meaningful to the process that issued them, so they stay in memory
+const challenges = new Map<string, LoginChallenge>();
+
+const pruneChallenges = (now: number) => {
+  challenges.forEach((challenge, key) => {
+    if (challenge.expiresAt <= now) challenges.delete(key);
+  });
+};
+
+/**
+ * The password was right; hand out a token that lets the same device try a code
+ */
+export const createLoginChallenge = (userId: string, ipAddress: string, userAgent: string, now = Date.now()) => {
+  pruneChallenges(now);
+  const token = randomBytes(32).toString('base64url');
+  challenges.set(hashCode(token), { userId, ipAddress, userAgent, expiresAt: now + CHALLENGE_TTL_MS, attempts: 0 });
+  return token;
+};
+
+/**
+ * The user a challenge belongs to, if it is live and presented from the device it was issued to
+ */
+export const getLoginChallenge = (token: string, ipAddress: string, userAgent: string, now = Date.now()): string | null => {
+  if (!token) return null;
+  const challenge = challenges.get(hashCode(token));
+  if (!challenge || challenge.expiresAt <= now) return null;
+  if (challenge.ipAddress !== ipAddress || challenge.userAgent !== userAgent) return null;
+  return challenge.userId;
+};
+
+/**
+ * Count a wrong code. After a few the challenge is dropped and the password must be entered again.
+ */
+export const recordChallengeFailure = (token: string) => {
+  const key = hashCode(token);
+  const challenge = challenges.get(key);
+  if (!challenge) return;
+  challenge.attempts += 1;
+  if (challenge.attempts >= CHALLENGE_MAX_ATTEMPTS) challenges.delete(key);
+};
+
+export const clearLoginChallenge = (token: string) => {
+  challenges.delete(hashCode(token));
+};
@@ -0,0 +1,63 @@
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  type: 'mobile' | 'tablet' | 'desktop';
+  /** e.g. "Chrome on Android" */
+  label: string;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/EdgA?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/FxiOS\/|Firefox\//, 'Firefox'],
+  [/CriOS\/|Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/TelegramBot/, 'Telegram'],
+  [/curl\//, 'curl'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, table: [RegExp, string][], fallback: string) =>
+  table.find(([pattern]) => pattern.test(userAgent))?.[1] || fallback;
+
+/**
+ * Just enough of a user agent to recognise a device in a list of sessions or sign-ins
+ */
+export const describeUserAgent = (userAgent: string | undefined): DeviceInfo => {
+  const ua = userAgent || '';
+  const browser = match(ua, BROWSERS, 'Unknown browser');
+  const os = match(ua, SYSTEMS, 'unknown device');
+  const type = /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua)) ? 'tablet'
+    : /Mobi|iPhone|iPod/.test(ua) ? 'mobile'
+    : 'desktop';
+  return { browser, os, type, label: `${browser} on ${os}` };
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Coarse "last seen" wording, so a session list doesn't give away exact activity times
+ */
+export const describeLastSeen = (timestamp: number, now = Date.now()): string => {
+  const elapsed = Math.max(0, now - timestamp);
+  if (elapsed < 5 * MINUTE_MS) return 'Active now';
+  if (elapsed < HOUR_MS) return `${Math.floor(elapsed / (5 * MINUTE_MS)) * 5} minutes ago`;
+  if (elapsed < DAY_MS) {
+    const hours = Math.floor(elapsed / HOUR_MS);
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  }
+  const days = Math.floor(elapsed / DAY_MS);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
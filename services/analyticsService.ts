@@ -1,50 +1,68 @@
-
 /**
- * NOTE: This service logs user activity to localStorage for demonstration purposes.
- * This allows the in-page AI assistant to access real-time data for the admin.
- * In a production app, this would send data to a proper analytics backend.
+ * Sends visitor activity to the server's analytics pipeline (POST /api/events).
+ * Events are queued and flushed in batches; the last batch goes out with
+ * navigator.sendBeacon when the page is hidden so it survives navigation.
  */
 
-const ANALYTICS_LOG_KEY = 'YC_ANALYTICS_LOG';
 const VISIT_LOGGED_KEY = 'YC_VISIT_LOGGED';
+const EVENTS_ENDPOINT = '/api/events';
+const FLUSH_INTERVAL_MS = 10 * 1000;
+const MAX_BATCH_SIZE = 20;
 
-type LogEntry = {
+type AnalyticsEvent = {
     type: 'VISIT' | 'SIGNUP' | 'MOVIE_CLICK';
     timestamp: string;
-    payload?: {
-        movieId?: string;
-        movieTitle?: string;
-    };
+    movieId?: string;
+    referrer?: string;
 };
 
-const readLog = (): LogEntry[] => {
-    try {
-        const storedLog = localStorage.getItem(ANALYTICS_LOG_KEY);
-        return storedLog ? JSON.parse(storedLog) : [];
-    } catch (error) {
-        console.error("Failed to read analytics log from localStorage", error);
-        return [];
+export interface AnalyticsSummary {
+    timeframeDays: number;
+    mostClicked: { movieId: string; title: string; clicks: number }[];
+}
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const flush = (useBeacon = false) => {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
     }
+    if (queue.length === 0) return;
+
+    const body = JSON.stringify({ events: queue.slice(0, MAX_BATCH_SIZE) });
+    queue = queue.slice(MAX_BATCH_SIZE);
+
+    if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+        navigator.sendBeacon(EVENTS_ENDPOINT, new Blob([body], { type: 'application/json' }));
+    } else {
+        fetch(EVENTS_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            keepalive: true
+        }).catch(error => console.error("Failed to send analytics events", error));
+    }
+
+    if (queue.length > 0) flush(useBeacon);
 };
 
-const writeLog = (log: LogEntry[]) => {
-    try {
-        // Keep the log to a reasonable size to avoid filling up localStorage
-        if (log.length > 1000) {
-            log = log.slice(log.length - 1000);
-        }
-        localStorage.setItem(ANALYTICS_LOG_KEY, JSON.stringify(log));
-    } catch (error) {
-        console.error("Failed to write analytics log to localStorage", error);
+const logEvent = (entry: Omit<AnalyticsEvent, 'timestamp'>) => {
+    queue.push({ ...entry, timestamp: new Date().toISOString() });
+    if (queue.length >= MAX_BATCH_SIZE) {
+        flush();
+    } else if (!flushTimer) {
+        flushTimer = setTimeout(() => flush(), FLUSH_INTERVAL_MS);
     }
 };
 
-const logEvent = (entry: Omit<LogEntry, 'timestamp'>) => {
-    const log = readLog();
-    const newEntry: LogEntry = { ...entry, timestamp: new Date().toISOString() };
-    log.push(newEntry);
-    writeLog(log);
-};
+if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') flush(true);
+    });
+    window.addEventListener('pagehide', () => flush(true));
+}
 
 // --- Public API ---
 
@@ -53,7 +71,7 @@ const logEvent = (entry: Omit<LogEntry, 'timestamp'>) => {
  */
 export const logVisit = () => {
     if (!sessionStorage.getItem(VISIT_LOGGED_KEY)) {
-        logEvent({ type: 'VISIT' });
+        logEvent({ type: 'VISIT', referrer: document.referrer || undefined });
         sessionStorage.setItem(VISIT_LOGGED_KEY, 'true');
     }
 };
@@ -68,45 +86,23 @@ export const logSignup = () => {
 /**
  * Logs when a user views a movie's details page.
  * @param movieId The ID of the movie.
- * @param movieTitle The title of the movie.
+ * @param movieTitle The title of the movie (kept for callers; the server resolves titles itself).
  */
-export const logMovieClick = (movieId: string, movieTitle: string) => {
-    logEvent({ type: 'MOVIE_CLICK', payload: { movieId, movieTitle } });
+export const logMovieClick = (movieId: string, _movieTitle?: string) => {
+    logEvent({ type: 'MOVIE_CLICK', movieId });
 };
 
-
 /**
- * Reads the analytics log from localStorage and computes a summary.
- * This is used by the admin AI chat on the website.
+ * Fetches the most clicked movies from the server's analytics rollups.
  * @param timeframeDays The number of days to look back for the summary.
  */
-export const getAnalyticsSummary = (timeframeDays: number = 1) => {
-    const log = readLog();
-    const now = new Date();
-    const cutoff = new Date(now.getTime() - timeframeDays * 24 * 60 * 60 * 1000);
-
-    const recentLogs = log.filter(entry => new Date(entry.timestamp) > cutoff);
-
-    const dailyVisitors = recentLogs.filter(e => e.type === 'VISIT').length;
-    const todaysSignups = recentLogs.filter(e => e.type === 'SIGNUP').length;
-    
-    const movieClicks = new Map<string, number>();
-    recentLogs.forEach(entry => {
-        if (entry.type === 'MOVIE_CLICK' && entry.payload?.movieTitle) {
-            const title = entry.payload.movieTitle;
-            movieClicks.set(title, (movieClicks.get(title) || 0) + 1);
-        }
-    });
-
-    const mostClicked = Array.from(movieClicks.entries())
-        .map(([title, clicks]) => ({ title, clicks }))
-        .sort((a, b) => b.clicks - a.clicks)
-        .slice(0, 5);
-
-    return {
-        dailyVisitors,
-        todaysSignups,
-        mostClicked,
-        totalEvents: recentLogs.length
-    };
+export const getAnalyticsSummary = async (timeframeDays: number = 1): Promise<AnalyticsSummary> => {
+    try {
+        const response = await fetch(`${EVENTS_ENDPOINT}/summary?days=${timeframeDays}`);
+        if (!response.ok) throw new Error(`Summary request failed (${response.status})`);
+        return await response.json();
+    } catch (error) {
+        console.error("Failed to load analytics summary", error);
+        return { timeframeDays, mostClicked: [] };
+    }
 };
@@ -1,5 +1,5 @@
 import { getSession } from './storageService';
-import { Comment } from './types';
+import { AudienceRating, Comment, CommentReportReason, CommentRevision, CommentSort } from './types';
 
 // Type for creating a new comment, only includes user-submittable fields.
 export type NewCommentData = {
@@ -16,20 +16,85 @@ const handleResponse = async (response: Response) => {
     return response.json();
 };
 
+export interface CommentPage {
+    comments: Comment[];
+    upvotes: Record<string, string[]>;
+    nextCursor: string | null;
+    total: number;
+}
 
-export const getCommentsForMovie = async (movieId: string): Promise<{ comments: Comment[], upvotes: Record<string, string[]> }> => {
-    const response = await fetch(`/api/comments?movieId=${movieId}`);
+export interface ReplyPage {
+    replies: Comment[];
+    upvotes: Record<string, string[]>;
+    nextCursor: string | null;
+    total: number;
+}
+
+const authHeaders = (session: { token: string; csrfToken?: string }) => ({
+    'Authorization': `Bearer ${session.token}`,
+    'X-CSRF-Token': session.csrfToken || '',
+    'Content-Type': 'application/json',
+});
+
+// Signed-in readers also get back their own comments that are waiting for review
+const readOptions = (): RequestInit | undefined => {
+    const session = getSession();
+    return session ? { headers: authHeaders(session) } : undefined;
+};
+
+/**
+ * One page of root threads. Pass the previous page's `nextCursor` to continue.
+ */
+export const getCommentsForMovie = async (movieId: string, options: { sort?: CommentSort; cursor?: string | null; limit?: number } = {}): Promise<CommentPage> => {
+    const params = new URLSearchParams({ movieId, sort: options.sort || 'newest' });
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit) params.set('limit', String(options.limit));
+    const response = await fetch(`/api/comments?${params.toString()}`, readOptions());
+    return handleResponse(response);
+};
+
+export const getReplies = async (movieId: string, parentId: string, cursor?: string | null): Promise<ReplyPage> => {
+    const params = new URLSearchParams({ movieId, parentId });
+    if (cursor) params.set('cursor', cursor);
+    const response = await fetch(`/api/comments/replies?${params.toString()}`, readOptions());
+    return handleResponse(response);
+};
+
+export const getCommentRevisions = async (movieId: string, commentId: string): Promise<{ revisions: CommentRevision[] }> => {
+    const params = new URLSearchParams({ movieId, commentId });
+    const response = await fetch(`/api/comments/revisions?${params.toString()}`, readOptions());
     return handleResponse(response);
 };
 
+/**
+ * The current audience rating of a movie, or null while nobody has rated it
+ */
+export const getAudienceRating = async (movieId: string): Promise<AudienceRating | null> => {
+    const response = await fetch(`/api/movies/${encodeURIComponent(movieId)}/audience-rating`);
+    const data = await handleResponse(response);
+    return data.audienceRating;
+};
+
 export const addComment = async (movieId: string, commentData: NewCommentData): Promise<{ success: boolean; comment: Comment }> => {
     const session = getSession();
     if (!session) throw new Error('You must be logged in to comment.');
 
     const response = await fetch('/api/comments', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ movieId, commentData, session }),
+        headers: authHeaders(session),
+        body: JSON.stringify({ movieId, commentData }),
+    });
+    return handleResponse(response);
+};
+
+export const editComment = async (movieId: string, commentId: string, commentData: Omit<NewCommentData, 'parentId'>): Promise<{ success: boolean; comment: Comment }> => {
+    const session = getSession();
+    if (!session) throw new Error('You must be logged in to edit a comment.');
+
+    const response = await fetch('/api/comments', {
+        method: 'PATCH',
+        headers: authHeaders(session),
+        body: JSON.stringify({ movieId, commentId, commentData }),
     });
     return handleResponse(response);
 };
@@ -40,8 +105,8 @@ export const deleteComment = async (movieId: string, commentId: string): Promise
 
     const response = await fetch('/api/comments', {
         method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ movieId, commentId, session }),
+        headers: authHeaders(session),
+        body: JSON.stringify({ movieId, commentId }),
     });
     return handleResponse(response);
 };
@@ -52,8 +117,20 @@ export const toggleUpvote = async (commentId: string): Promise<{ success: boolea
 
     const response = await fetch('/api/comments', {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ commentId, session }),
+        headers: authHeaders(session),
+        body: JSON.stringify({ commentId }),
+    });
+    return handleResponse(response);
+};
+
+export const reportComment = async (movieId: string, commentId: string, reason: CommentReportReason): Promise<{ success: boolean }> => {
+    const session = getSession();
+    if (!session) throw new Error('You must be logged in to report a comment.');
+
+    const response = await fetch('/api/comments/report', {
+        method: 'POST',
+        headers: authHeaders(session),
+        body: JSON.stringify({ movieId, commentId, reason }),
     });
     return handleResponse(response);
 };
@@ -1,4 +1,4 @@
-import { execFile } from 'child_process';
+import { execFile, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -144,6 +144,59 @@ export class FFmpegService {
     }
   }
 
+  /**
+   * Transcode an input (or a black slate with silence) into HLS segments in real time.
+   * Every run uses the same resolution, codecs and keyframe interval so runs can be joined
+   * into one channel with discontinuity markers.
+   *
+   * @param input - Media URL to play, or 'slate'
+   * @param playlistPath - Playlist FFmpeg keeps updated as segments are finished
+   * @param segmentPattern - Segment file pattern, e.g. /tmp/run_%05d.ts
+   * @param options - seekSeconds to start part-way into the input
+   */
+  public startHlsSegmenter(
+    input: string,
+    playlistPath: string,
+    segmentPattern: string,
+    options?: {
+      seekSeconds?: number;
+      segmentSeconds?: number;
+    }
+  ): ChildProcess {
+    const segmentSeconds = options?.segmentSeconds || 4;
+    const fps = 25;
+    const inputArgs = input === 'slate'
+      ? [
+        '-re', '-f', 'lavfi', '-i', `color=c=black:s=1280x720:r=${fps}`,
+        '-re', '-f', 'lavfi', '-i', 'anullsrc=r=44100:cl=stereo',
+        '-map', '0:v:0', '-map', '1:a:0',
+      ]
+      : [
+        '-re',
+        ...(options?.seekSeconds ? ['-ss', String(Math.floor(options.seekSeconds))] : []),
+        '-i', input,
+        '-map', '0:v:0', '-map', '0:a:0?',
+      ];
+
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      ...inputArgs,
+      '-vf', 'scale=-2:720',
+      '-r', String(fps),
+      '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p',
+      // A keyframe at every segment boundary so each segment can start playback on its own
+      '-g', String(fps * segmentSeconds), '-keyint_min', String(fps * segmentSeconds), '-sc_threshold', '0',
+      '-c:a', 'aac', '-b:a', '128k', '-ar', '44100', '-ac', '2',
+      '-f', 'hls',
+      '-hls_time', String(segmentSeconds),
+      '-hls_list_size', '0',
+      '-hls_segment_filename', segmentPattern,
+      playlistPath
+    ];
+
+    return spawn(this.ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+  }
+
   /**
    * Get the FFmpeg path being used
    */
@@ -0,0 +1,348 @@
+import { ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ffmpegService } from './ffmpegService';
+import { ytdlpManager } from './ytdlpBinaryManager';
+import { readLiveTvData, getPlaybackPosition, LiveTvData } from './liveTvService';
+
+const CHANNEL_DIR = process.env.LIVETV_CHANNEL_DIR || path.join(os.tmpdir(), 'cinemax-livetv');
+const SEGMENT_SECONDS = 4;
+// Segments listed in the channel playlist; players start a few segments behind the newest
+const WINDOW_SEGMENTS = parseInt(process.env.LIVETV_CHANNEL_WINDOW || '6', 10) || 6;
+// Segments that have left the playlist stay on disk a little longer for players still fetching them
+const GRACE_SEGMENTS = 4;
+const CHECK_INTERVAL_MS = 1000;
+const MAX_RESTARTS = 5;
+// A source that has kept playing this long counts as recovered, and gets a fresh set of restarts
+const RECOVERED_SEGMENTS = 15;
+const MAX_BACKOFF_MS = 30 * 1000;
+const SLATE = 'slate';
+
+export const isRestreamEnabled = () => process.env.LIVETV_RESTREAM === 'true';
+
+interface Segment {
+  file: string;
+  duration: number;
+  /** First segment of an FFmpeg run; timestamps and codec parameters restart here */
+  discontinuity: boolean;
+}
+
+interface Run {
+  id: string;
+  /** The stream this run is for, or 'slate' */
+  key: string;
+  title?: string;
+  process: ChildProcess;
+  playlistPath: string;
+  consumed: number;
+  stopping: boolean;
+  stderr: string;
+}
+
+export interface ChannelStatus {
+  running: boolean;
+  playing: 'source' | 'slate' | null;
+  title?: string;
+  failures: number;
+  lastError?: string;
+}
+
+const parsePlaylist = (text: string) => {
+  const entries: { file: string; duration: number }[] = [];
+  const lines = text.split('\n').map(line => line.trim());
+  lines.forEach((line, i) => {
+    if (!line.startsWith('#EXTINF:')) return;
+    const file = lines[i + 1];
+    if (file && !file.startsWith('#')) entries.push({ file, duration: parseFloat(line.slice(8)) || SEGMENT_SECONDS });
+  });
+  return entries;
+};
+
+const removeFile = (filePath: string) => {
+  fs.rm(filePath, { force: true }, () => undefined);
+};
+
+/**
+ * Restreams whatever Live TV has on air as one continuous HLS channel served from our own
+ * route. Each item is transcoded by its own FFmpeg run at the broadcast's current position;
+ * a black slate fills the gaps between items, while a source is being resolved and when
+ * nothing is on air. Failed runs are restarted with backoff.
+ */
+export class LiveTvChannel {
+  private static instance: LiveTvChannel;
+  private interval: NodeJS.Timeout | null = null;
+  private run: Run | null = null;
+  private runCounter = 0;
+  private targetKey: string | null = null;
+  private failures = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private slateRetryAt = 0;
+  private lastError?: string;
+  private segments: Segment[] = [];
+  private firstSequence = 0;
+  private droppedDiscontinuities = 0;
+
+  private constructor() {}
+
+  public static getInstance(): LiveTvChannel {
+    if (!LiveTvChannel.instance) {
+      LiveTvChannel.instance = new LiveTvChannel();
+    }
+    return LiveTvChannel.instance;
+  }
+
+  /**
+   * Start following the broadcast. Segments from a previous process are thrown away.
+   */
+  public start(): void {
+    if (this.interval) return;
+    fs.rmSync(CHANNEL_DIR, { recursive: true, force: true });
+    fs.mkdirSync(CHANNEL_DIR, { recursive: true });
+    console.log(`📡 Live TV channel restreaming to ${CHANNEL_DIR}`);
+
+    this.interval = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    // FFmpeg would otherwise outlive the server
+    process.once('exit', () => this.stop());
+    this.check();
+  }
+
+  public stop(): void {
+    if (this.interval) clearInterval(this.interval);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.interval = null;
+    this.retryTimer = null;
+    if (this.run) this.stopRun(this.run);
+    this.run = null;
+  }
+
+  public isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  public getStatus(): ChannelStatus {
+    return {
+      running: this.isRunning(),
+      playing: this.run ? (this.run.key === SLATE ? 'slate' : 'source') : null,
+      title: this.run?.title,
+      failures: this.failures,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * The live playlist: a sliding window over every run's segments, or null until the first
+   * segment is ready
+   */
+  public getPlaylist(): string | null {
+    const window = this.segments.slice(-WINDOW_SEGMENTS);
+    if (window.length === 0) return null;
+    const before = this.segments.slice(0, this.segments.length - window.length);
+    const mediaSequence = this.firstSequence + before.length;
+    const discontinuitySequence = this.droppedDiscontinuities + before.filter(s => s.discontinuity).length;
+    const targetDuration = Math.ceil(Math.max(...window.map(s => s.duration)));
+
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${targetDuration}`,
+      `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`,
+      `#EXT-X-DISCONTINUITY-SEQUENCE:${discontinuitySequence}`
+    ];
+    window.forEach(segment => {
+      if (segment.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+      lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, segment.file);
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Path of a segment that is still being served, or null
+   */
+  public getSegmentPath(file: string): string | null {
+    if (!this.segments.some(s => s.file === file)) return null;
+    return path.join(CHANNEL_DIR, file);
+  }
+
+  // --- FOLLOWING THE BROADCAST ---
+
+  private streamKey(data: LiveTvData): string {
+    return data.isLive && data.currentStreamId ? `${data.currentStreamId}@${data.startedAt || ''}` : SLATE;
+  }
+
+  private check(): void {
+    try {
+      const key = this.streamKey(readLiveTvData());
+      if (key !== this.targetKey) {
+        this.switchTo(key);
+      } else if (!this.run && !this.retryTimer && Date.now() >= this.slateRetryAt) {
+        // The source finished before the schedule moved on, or the slate stopped
+        this.startSlate();
+      }
+      if (this.run) this.collectSegments(this.run);
+    } catch (error) {
+      console.error('📡 Live TV channel check failed:', error);
+    }
+  }
+
+  private switchTo(key: string): void {
+    this.targetKey = key;
+    this.failures = 0;
+    this.lastError = undefined;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    // Covers the gap while the next source is resolved and produces its first segment
+    this.startSlate();
+    if (key !== SLATE) this.startSource(key);
+  }
+
+  private startSlate(): void {
+    if (this.run?.key === SLATE) return;
+    this.spawnRun(SLATE, SLATE);
+  }
+
+  private async startSource(key: string): Promise<void> {
+    const data = readLiveTvData();
+    const source = data.sources.find(s => s.id === data.currentStreamId);
+    if (!source || this.streamKey(data) !== key) return;
+
+    try {
+      const input = source.type === 'youtube'
+        ? await ytdlpManager.getDirectUrl(`https://www.youtube.com/watch?v=${source.url}`)
+        : source.url;
+      // The broadcast moved on while yt-dlp was resolving
+      if (this.targetKey !== key) return;
+
+      // Join where the broadcast is now, the same position web players sync to. Live inputs can't seek.
+      const position = source.duration ? getPlaybackPosition(readLiveTvData()) : null;
+      console.log(`📡 Live TV channel: playing "${source.title}"${position ? ` from ${Math.floor(position)}s` : ''}`);
+      this.spawnRun(key, input, source.title, position || undefined);
+    } catch (error: any) {
+      this.handleFailure(key, error.message || String(error));
+    }
+  }
+
+  private spawnRun(key: string, input: string, title?: string, seekSeconds?: number): void {
+    const previous = this.run;
+    const id = `run${++this.runCounter}`;
+    const playlistPath = path.join(CHANNEL_DIR, `${id}.m3u8`);
+    const child = ffmpegService.startHlsSegmenter(input, playlistPath, path.join(CHANNEL_DIR, `${id}_%05d.ts`), {
+      seekSeconds,
+      segmentSeconds: SEGMENT_SECONDS
+    });
+
+    const run: Run = { id, key, title, process: child, playlistPath, consumed: 0, stopping: false, stderr: '' };
+    child.stderr?.on('data', chunk => {
+      run.stderr = (run.stderr + chunk).slice(-2000);
+    });
+    let exited = false;
+    const onExit = (code: number | null) => {
+      if (exited) return;
+      exited = true;
+      this.onRunExit(run, code);
+    };
+    child.on('error', error => {
+      run.stderr += error.message;
+      onExit(-1);
+    });
+    child.on('exit', onExit);
+
+    this.run = run;
+    if (previous) {
+      // Keep whatever the old run finished so the hand-over has no hole
+      this.collectSegments(previous);
+      this.stopRun(previous);
+    }
+  }
+
+  private stopRun(run: Run): void {
+    run.stopping = true;
+    if (run.process.exitCode === null) run.process.kill('SIGTERM');
+  }
+
+  private onRunExit(run: Run, code: number | null): void {
+    if (!run.stopping) this.collectSegments(run);
+    if (this.run === run) this.run = null;
+    this.removeOrphans();
+    if (run.stopping) return;
+
+    if (code === 0 && run.key !== SLATE) {
+      // Reached the end of the source; the slate runs until the schedule moves on
+      this.startSlate();
+      return;
+    }
+
+    const message = run.stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`;
+    if (run.key === SLATE) {
+      this.lastError = message;
+      this.slateRetryAt = Date.now() + MAX_BACKOFF_MS;
+      console.error(`📡 Live TV channel slate failed: ${message}`);
+    } else {
+      this.handleFailure(run.key, message);
+    }
+  }
+
+  private handleFailure(key: string, message: string): void {
+    this.failures += 1;
+    this.lastError = message;
+    console.error(`📡 Live TV channel source failed (${this.failures}/${MAX_RESTARTS}): ${message}`);
+    if (this.targetKey !== key) return;
+
+    this.startSlate();
+    if (this.failures >= MAX_RESTARTS) {
+      console.error('📡 Live TV channel gave up on the current source; showing the slate until the next item');
+      return;
+    }
+    const delay = Math.min(1000 * 2 ** (this.failures - 1), MAX_BACKOFF_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.targetKey === key) this.startSource(key);
+    }, delay);
+  }
+
+  // --- SEGMENTS ---
+
+  private collectSegments(run: Run): void {
+    let text: string;
+    try {
+      text = fs.readFileSync(run.playlistPath, 'utf-8');
+    } catch (error) {
+      return; // No segment finished yet
+    }
+
+    const fresh = parsePlaylist(text).slice(run.consumed);
+    if (fresh.length === 0) return;
+    fresh.forEach((entry, i) => {
+      this.segments.push({ file: entry.file, duration: entry.duration, discontinuity: run.consumed + i === 0 });
+    });
+    const wasRecovered = run.consumed >= RECOVERED_SEGMENTS;
+    run.consumed += fresh.length;
+    if (!wasRecovered && run.consumed >= RECOVERED_SEGMENTS && run.key === this.targetKey) this.failures = 0;
+
+    while (this.segments.length > WINDOW_SEGMENTS + GRACE_SEGMENTS) {
+      const dropped = this.segments.shift()!;
+      this.firstSequence += 1;
+      if (dropped.discontinuity) this.droppedDiscontinuities += 1;
+      removeFile(path.join(CHANNEL_DIR, dropped.file));
+    }
+    this.removeOrphans();
+  }
+
+  /**
+   * Remove finished runs' playlists and any segment a run was partway through when it ended
+   */
+  private removeOrphans(): void {
+    fs.readdir(CHANNEL_DIR, (error, files) => {
+      if (error) return;
+      const current = this.run?.id;
+      files
+        .filter(file => !(current && (file.startsWith(`${current}.`) || file.startsWith(`${current}_`))))
+        .filter(file => !this.segments.some(s => s.file === file))
+        .forEach(file => removeFile(path.join(CHANNEL_DIR, file)));
+    });
+  }
+}
+
+// Export singleton instance
+export const liveTvChannel = LiveTvChannel.getInstance();
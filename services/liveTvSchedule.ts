@@ -0,0 +1,451 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+    readLiveTvData,
+    writeLiveTvData,
+    LiveTvData,
+    LiveTvSource,
+    RecurringBlock,
+    ScheduledSlot
+} from './liveTvService';
+import { ffmpegService } from './ffmpegService';
+import { ytdlpManager } from './ytdlpBinaryManager';
+
+const execFileAsync = promisify(execFile);
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Times typed into the bot and weekly blocks are read in this offset (West Africa Time by default)
+export const SCHEDULE_UTC_OFFSET = process.env.LIVETV_UTC_OFFSET || '+01:00';
+// Slot length for a source whose duration is unknown and can't be probed (a 24/7 channel, say)
+const DEFAULT_SLOT_MINUTES = parseInt(process.env.LIVETV_DEFAULT_SLOT_MINUTES || '120', 10) || 120;
+const CHECK_INTERVAL_MS = 10 * 1000;
+const PROBE_TIMEOUT_MS = 30 * 1000;
+// A guide for a short default source on loop would otherwise run to thousands of entries
+const MAX_GUIDE_ENTRIES = 200;
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const offsetMs = (() => {
+    const match = SCHEDULE_UTC_OFFSET.match(/^([+-])(\d{2}):(\d{2})$/);
+    if (!match) return 60 * MINUTE_MS;
+    return (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10)) * MINUTE_MS;
+})();
+
+/**
+ * One airing on the timeline: a one-off slot, or one source of a weekly block on a given day
+ */
+export interface TimelineSlot {
+    id: string;
+    sourceId: string;
+    startsAt: number;
+    endsAt: number;
+    blockId?: string;
+    blockTitle?: string;
+}
+
+export interface GuideEntry {
+    id: string;
+    sourceId: string;
+    title: string;
+    type: LiveTvSource['type'];
+    description?: string;
+    poster?: string;
+    startsAt: string;
+    /** null while the end can't be known, e.g. a live channel with nothing scheduled after it */
+    endsAt: string | null;
+    /** Booked for this time rather than played from the queue */
+    scheduled: boolean;
+    blockTitle?: string;
+}
+
+export interface ProgramGuide {
+    now: string;
+    utcOffset: string;
+    current: GuideEntry | null;
+    next: GuideEntry | null;
+    entries: GuideEntry[];
+    weekly: { id: string; title: string; day: string; startTime: string }[];
+}
+
+export interface PlayoutChange {
+    reason: 'scheduled' | 'advanced' | 'ended';
+    source: LiveTvSource | null;
+    slot?: TimelineSlot;
+}
+
+const slotSeconds = (source: LiveTvSource | undefined) => source?.duration || DEFAULT_SLOT_MINUTES * 60;
+
+// --- TIMELINE ---
+
+/**
+ * Every scheduled airing overlapping [from, to): one-off slots plus weekly blocks expanded day by day
+ */
+export const getScheduledSlots = (data: LiveTvData, from: number, to: number): TimelineSlot[] => {
+    const sourcesById = new Map(data.sources.map(source => [source.id, source] as const));
+    const slots: TimelineSlot[] = (data.schedule || []).map(slot => {
+        const startsAt = Date.parse(slot.startsAt);
+        return { id: slot.id, sourceId: slot.sourceId, startsAt, endsAt: startsAt + slot.duration * 1000 };
+    });
+
+    // Start a week early so a long block that began before `from` is still found
+    const firstDay = Math.floor((from + offsetMs - WEEK_MS) / DAY_MS) * DAY_MS;
+    (data.blocks || []).forEach(block => {
+        const [hours, minutes] = block.startTime.split(':').map(part => parseInt(part, 10));
+        for (let localDay = firstDay; localDay - offsetMs < to; localDay += DAY_MS) {
+            if (new Date(localDay).getUTCDay() !== block.dayOfWeek) continue;
+            let startsAt = localDay - offsetMs + hours * HOUR_MS + minutes * MINUTE_MS;
+            block.sourceIds.forEach((sourceId, index) => {
+                const endsAt = startsAt + slotSeconds(sourcesById.get(sourceId)) * 1000;
+                slots.push({
+                    id: `${block.id}@${new Date(localDay).toISOString().slice(0, 10)}#${index}`,
+                    sourceId, startsAt, endsAt, blockId: block.id, blockTitle: block.title
+                });
+                startsAt = endsAt;
+            });
+        }
+    });
+
+    return slots
+        .filter(slot => slot.endsAt > from && slot.startsAt < to)
+        .sort((a, b) => a.startsAt - b.startsAt);
+};
+
+const findOverlap = (candidates: TimelineSlot[], existing: TimelineSlot[]) =>
+    existing.find(slot => candidates.some(candidate => candidate.startsAt < slot.endsAt && slot.startsAt < candidate.endsAt));
+
+/**
+ * Read a start time typed into the bot, e.g. "2025-12-24 20:00", in the schedule's offset
+ */
+export const parseScheduleTime = (text: string): number | null => {
+    const match = text.trim().match(/^(\d{4}-\d{2}-\d{2})[ t](\d{1,2}):(\d{2})$/i);
+    if (!match) return null;
+    const timestamp = Date.parse(`${match[1]}T${match[2].padStart(2, '0')}:${match[3]}:00${SCHEDULE_UTC_OFFSET}`);
+    return isNaN(timestamp) ? null : timestamp;
+};
+
+/**
+ * e.g. "Fri 24 Dec 20:00" in the schedule's offset
+ */
+export const formatScheduleTime = (timestamp: number) => {
+    const local = new Date(timestamp + offsetMs);
+    const month = local.toLocaleString('en-GB', { month: 'short', timeZone: 'UTC' });
+    return `${DAY_NAMES[local.getUTCDay()].slice(0, 3)} ${local.getUTCDate()} ${month} ${local.toISOString().slice(11, 16)}`;
+};
+
+// --- DURATIONS ---
+
+const probeAttempted = new Set<string>();
+
+/**
+ * Ask ffprobe (HLS) or yt-dlp (YouTube) how long a source runs. Live channels have no duration.
+ */
+export const probeSourceDuration = async (source: LiveTvSource): Promise<number | null> => {
+    try {
+        if (source.type === 'youtube') {
+            const info = await ytdlpManager.getVideoInfo(`https://www.youtube.com/watch?v=${source.url}`);
+            return info?.duration > 0 ? Math.round(info.duration) : null;
+        }
+        const { stdout } = await execFileAsync(ffmpegService.getFfprobePath(), [
+            '-v', 'quiet',
+            '-show_entries', 'format=duration',
+            '-of', 'json',
+            source.url
+        ], { timeout: PROBE_TIMEOUT_MS });
+        const duration = parseFloat(JSON.parse(stdout)?.format?.duration);
+        return duration > 0 ? Math.round(duration) : null;
+    } catch (error: any) {
+        console.error(`📺 Could not probe the duration of "${source.title}":`, error.message || error);
+        return null;
+    }
+};
+
+const saveDuration = (sourceId: string, duration: number) => {
+    const data = readLiveTvData();
+    [...data.sources, ...data.queue].filter(source => source.id === sourceId).forEach(source => { source.duration = duration; });
+    writeLiveTvData(data);
+};
+
+/**
+ * Probe the first source on air or in the queue whose duration is still unknown, one per check
+ */
+const probeNextUnknownDuration = (data: LiveTvData) => {
+    const current = data.sources.find(source => source.id === data.currentStreamId);
+    const candidate = [current, ...data.queue].find(source => source && !source.duration && !probeAttempted.has(source.id));
+    if (!candidate) return;
+    probeAttempted.add(candidate.id);
+    probeSourceDuration(candidate).then(duration => {
+        if (duration) {
+            console.log(`📺 "${candidate.title}" runs ${Math.round(duration / 60)} minutes`);
+            saveDuration(candidate.id, duration);
+        }
+    });
+};
+
+// --- SCHEDULE CHANGES ---
+
+/**
+ * Book a source for a set time. Its slot lasts as long as the source (probed if needed).
+ */
+export const scheduleSource = async (sourceId: string, startsAt: number, addedBy: string): Promise<{ slot: ScheduledSlot } | { error: string }> => {
+    const source = readLiveTvData().sources.find(s => s.id === sourceId);
+    if (!source) return { error: 'That source no longer exists.' };
+    if (startsAt <= Date.now()) return { error: 'That time has already passed.' };
+
+    const duration = source.duration || await probeSourceDuration(source) || DEFAULT_SLOT_MINUTES * 60;
+    const data = readLiveTvData();
+    const slot: ScheduledSlot = { id: `slot_${Date.now()}`, sourceId, startsAt: new Date(startsAt).toISOString(), duration, addedBy };
+    const candidate: TimelineSlot = { id: slot.id, sourceId, startsAt, endsAt: startsAt + duration * 1000 };
+    const clash = findOverlap([candidate], getScheduledSlots(data, candidate.startsAt, candidate.endsAt));
+    if (clash) {
+        const clashTitle = clash.blockTitle || data.sources.find(s => s.id === clash.sourceId)?.title || 'another slot';
+        return { error: `That overlaps "${clashTitle}" at ${formatScheduleTime(clash.startsAt)}.` };
+    }
+
+    data.schedule = [...(data.schedule || []), slot];
+    writeLiveTvData(data);
+    return { slot };
+};
+
+/**
+ * Add a weekly block, refused if any of its airings would overlap the existing schedule
+ */
+export const addRecurringBlock = (block: Omit<RecurringBlock, 'id'>): { block: RecurringBlock } | { error: string } => {
+    if (!/^\d{1,2}:\d{2}$/.test(block.startTime)) return { error: 'Use a time like 20:00.' };
+    const data = readLiveTvData();
+    const created: RecurringBlock = { ...block, id: `block_${Date.now()}` };
+
+    const now = Date.now();
+    const withBlock = { ...data, schedule: [], blocks: [created] };
+    const candidates = getScheduledSlots(withBlock, now, now + 2 * WEEK_MS);
+    const clash = findOverlap(candidates, getScheduledSlots(data, now, now + 2 * WEEK_MS));
+    if (clash) {
+        const clashTitle = clash.blockTitle || data.sources.find(s => s.id === clash.sourceId)?.title || 'another slot';
+        return { error: `That overlaps "${clashTitle}" at ${formatScheduleTime(clash.startsAt)}.` };
+    }
+
+    data.blocks = [...(data.blocks || []), created];
+    writeLiveTvData(data);
+    return { block: created };
+};
+
+export const removeScheduledSlot = (slotId: string): boolean => {
+    const data = readLiveTvData();
+    const schedule = data.schedule || [];
+    if (!schedule.some(slot => slot.id === slotId)) return false;
+    data.schedule = schedule.filter(slot => slot.id !== slotId);
+    writeLiveTvData(data);
+    return true;
+};
+
+export const removeRecurringBlock = (blockId: string): boolean => {
+    const data = readLiveTvData();
+    const blocks = data.blocks || [];
+    if (!blocks.some(block => block.id === blockId)) return false;
+    data.blocks = blocks.filter(block => block.id !== blockId);
+    writeLiveTvData(data);
+    return true;
+};
+
+// --- PLAYOUT ---
+
+const listeners: ((change: PlayoutChange) => void)[] = [];
+
+/**
+ * Subscribe to the scheduler changing what's on air. Returns an unsubscribe function.
+ */
+export const onPlayoutChange = (listener: (change: PlayoutChange) => void) => {
+    listeners.push(listener);
+    return () => {
+        const index = listeners.indexOf(listener);
+        if (index >= 0) listeners.splice(index, 1);
+    };
+};
+
+const putOnAir = (data: LiveTvData, source: LiveTvSource, startedAt: number, slotId: string | null) => {
+    data.sources.forEach(s => {
+        if (s.id === data.currentStreamId && s.id !== source.id) s.status = 'completed';
+        if (s.id === source.id) s.status = 'active';
+    });
+    data.queue = data.queue.filter(s => s.id !== source.id);
+    data.currentStreamId = source.id;
+    data.isLive = true;
+    data.startedAt = new Date(startedAt).toISOString();
+    data.currentSlotId = slotId;
+};
+
+/**
+ * Move on to the next queued source, or the default source, or go off air
+ */
+const advance = (data: LiveTvData, now: number): PlayoutChange => {
+    const next = data.queue[0] || data.sources.find(s => s.id === data.defaultSourceId);
+    if (next) {
+        putOnAir(data, next, now, null);
+        return { reason: 'advanced', source: next };
+    }
+    data.sources.forEach(s => {
+        if (s.id === data.currentStreamId) s.status = 'completed';
+    });
+    data.currentStreamId = null;
+    data.isLive = false;
+    data.startedAt = null;
+    data.currentSlotId = null;
+    return { reason: 'ended', source: null };
+};
+
+/**
+ * One scheduler step: start a slot whose time has come, or move on when the current item has
+ * run its length. Whatever a slot interrupts goes back to the front of the queue.
+ */
+export const runPlayout = (now = Date.now()): PlayoutChange | null => {
+    const data = readLiveTvData();
+    const slots = getScheduledSlots(data, now - DAY_MS, now + DAY_MS);
+    const active = slots.find(slot => slot.startsAt <= now && now < slot.endsAt && slot.id !== data.skippedSlotId);
+
+    // One-off slots are kept a day after they end, then dropped
+    const schedule = data.schedule || [];
+    const keep = schedule.filter(slot => Date.parse(slot.startsAt) + slot.duration * 1000 + DAY_MS > now);
+    let changed = keep.length !== schedule.length;
+    data.schedule = keep;
+
+    let change: PlayoutChange | null = null;
+    const current = data.sources.find(s => s.id === data.currentStreamId);
+
+    if (active) {
+        const source = data.sources.find(s => s.id === active.sourceId);
+        if (source && !(data.isLive && data.currentSlotId === active.id)) {
+            if (data.isLive && current && !data.currentSlotId && current.id !== data.defaultSourceId && current.id !== source.id) {
+                data.queue.unshift({ ...current, status: 'queued' });
+            }
+            putOnAir(data, source, active.startsAt, active.id);
+            change = { reason: 'scheduled', source, slot: active };
+        }
+    } else if (data.currentSlotId) {
+        // The slot has ended, or was removed while on air
+        change = advance(data, now);
+    } else if (data.isLive && current?.duration && data.startedAt && Date.parse(data.startedAt) + current.duration * 1000 <= now) {
+        change = advance(data, now);
+    }
+
+    if (change) changed = true;
+    if (changed) writeLiveTvData(data);
+    probeNextUnknownDuration(data);
+
+    if (change) {
+        const event = change;
+        console.log(`📺 Playout: ${event.source ? `now playing "${event.source.title}" (${event.reason})` : 'nothing left to play, off air'}`);
+        listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Playout listener failed:', error);
+            }
+        });
+    }
+    return change;
+};
+
+export const startLiveTvScheduler = (): NodeJS.Timeout => {
+    const run = () => {
+        try {
+            runPlayout();
+        } catch (error) {
+            console.error('📺 Live TV scheduler check failed:', error);
+        }
+    };
+    run();
+    return setInterval(run, CHECK_INTERVAL_MS);
+};
+
+// --- PROGRAM GUIDE ---
+
+const toEntry = (source: LiveTvSource, startsAt: number, endsAt: number | null, slot?: TimelineSlot): GuideEntry => ({
+    id: slot ? slot.id : `${source.id}@${startsAt}`,
+    sourceId: source.id,
+    title: source.title,
+    type: source.type,
+    description: source.description,
+    poster: source.poster,
+    startsAt: new Date(startsAt).toISOString(),
+    endsAt: endsAt === null ? null : new Date(endsAt).toISOString(),
+    scheduled: !!slot,
+    blockTitle: slot?.blockTitle
+});
+
+/**
+ * What's on now and what's expected over the next `hours`: booked slots at their times, with
+ * the queue (then the default source) filling the gaps the way the scheduler will play them.
+ */
+export const getProgramGuide = (hours = 24, now = Date.now()): ProgramGuide => {
+    const data = readLiveTvData();
+    const windowEnd = now + hours * HOUR_MS;
+    const sourcesById = new Map(data.sources.map(source => [source.id, source] as const));
+    const fixed = getScheduledSlots(data, now, windowEnd)
+        .filter(slot => slot.id !== data.skippedSlotId && sourcesById.has(slot.sourceId));
+    const queue = [...data.queue];
+    const fallback = data.defaultSourceId ? sourcesById.get(data.defaultSourceId) : undefined;
+    const entries: GuideEntry[] = [];
+
+    let cursor = now;
+    const current = data.isLive && data.currentStreamId ? sourcesById.get(data.currentStreamId) : undefined;
+    if (current) {
+        const startedAt = data.startedAt ? Date.parse(data.startedAt) : now;
+        const slot = fixed.find(s => s.id === data.currentSlotId);
+        let endsAt = slot ? slot.endsAt : current.duration ? startedAt + current.duration * 1000 : Infinity;
+        const interruptedBy = slot ? undefined : fixed.find(s => s.startsAt < endsAt);
+        if (interruptedBy) {
+            endsAt = interruptedBy.startsAt;
+            if (current.id !== data.defaultSourceId) queue.unshift(current);
+        }
+        entries.push(toEntry(current, startedAt, endsAt === Infinity ? null : endsAt, slot));
+        if (slot) fixed.splice(fixed.indexOf(slot), 1);
+        cursor = endsAt;
+    }
+
+    while (cursor < windowEnd && entries.length < MAX_GUIDE_ENTRIES) {
+        const nextSlot = fixed[0];
+        if (nextSlot && nextSlot.startsAt <= cursor) {
+            entries.push(toEntry(sourcesById.get(nextSlot.sourceId)!, nextSlot.startsAt, nextSlot.endsAt, nextSlot));
+            fixed.shift();
+            cursor = Math.max(cursor, nextSlot.endsAt);
+            continue;
+        }
+
+        const fromQueue = queue.length > 0;
+        const item = fromQueue ? queue.shift()! : fallback;
+        if (!item) {
+            // Off air until the next booked slot
+            if (!nextSlot) break;
+            cursor = nextSlot.startsAt;
+            continue;
+        }
+
+        const endsAt = item.duration ? cursor + item.duration * 1000 : Infinity;
+        if (nextSlot && nextSlot.startsAt < endsAt) {
+            entries.push(toEntry(item, cursor, nextSlot.startsAt));
+            if (fromQueue) queue.unshift(item);
+            cursor = nextSlot.startsAt;
+        } else {
+            entries.push(toEntry(item, cursor, endsAt === Infinity ? null : endsAt));
+            cursor = endsAt;
+        }
+    }
+
+    const onNow = entries[0] && Date.parse(entries[0].startsAt) <= now ? entries[0] : null;
+    return {
+        now: new Date(now).toISOString(),
+        utcOffset: SCHEDULE_UTC_OFFSET,
+        current: onNow,
+        next: entries[onNow ? 1 : 0] || null,
+        entries,
+        weekly: (data.blocks || []).map(block => ({
+            id: block.id,
+            title: block.title,
+            day: DAY_NAMES[block.dayOfWeek],
+            startTime: block.startTime
+        }))
+    };
+};
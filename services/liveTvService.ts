@@ -16,12 +16,48 @@ export interface LiveTvSource {
     status?: 'active' | 'queued' | 'completed';
 }
 
+/**
+ * A source booked to play at a set time, e.g. a premiere
+ */
+export interface ScheduledSlot {
+    id: string;
+    sourceId: string;
+    startsAt: string;
+    /** Seconds */
+    duration: number;
+    addedBy?: string;
+}
+
+/**
+ * A weekly show, e.g. "Nollywood Night" every Friday at 20:00. Its sources play back to back.
+ */
+export interface RecurringBlock {
+    id: string;
+    title: string;
+    /** 0 = Sunday, in the schedule's UTC offset */
+    dayOfWeek: number;
+    /** "HH:MM" in the schedule's UTC offset */
+    startTime: string;
+    sourceIds: string[];
+    addedBy?: string;
+}
+
 export interface LiveTvData {
     currentStreamId: string | null;
     isLive: boolean;
     queue: LiveTvSource[];
     sources: LiveTvSource[];
     defaultSourceId: string | null;
+    /** When the current stream started playing; a scheduled slot starts at its booked time */
+    startedAt?: string | null;
+    /** Set while a scheduled slot is on air */
+    currentSlotId?: string | null;
+    /** A slot an admin stopped or skipped, so the scheduler doesn't put it straight back on */
+    skippedSlotId?: string | null;
+    schedule?: ScheduledSlot[];
+    blocks?: RecurringBlock[];
+    /** Seconds a viewer waits between chat messages; unset uses LIVETV_CHAT_SLOW_MODE_SECONDS */
+    chatSlowMode?: number;
 }
 
 const atomicWrite = (filePath: string, content: string) => {
@@ -57,8 +93,33 @@ export const readLiveTvData = (): LiveTvData => {
     }
 };
 
+const changeListeners: ((previous: LiveTvData, next: LiveTvData) => void)[] = [];
+
+/**
+ * Subscribe to every write of the Live TV data, from the bot, the scheduler or the API.
+ * Returns an unsubscribe function.
+ */
+export const onLiveTvChange = (listener: (previous: LiveTvData, next: LiveTvData) => void) => {
+    changeListeners.push(listener);
+    return () => {
+        const index = changeListeners.indexOf(listener);
+        if (index >= 0) changeListeners.splice(index, 1);
+    };
+};
+
 export const writeLiveTvData = (data: LiveTvData) => {
+    const previous = changeListeners.length > 0 ? readLiveTvData() : null;
     atomicWrite(LIVETV_PATH, JSON.stringify(data, null, 2));
+    if (!previous) return;
+    // A copy, so a listener can't be affected by the caller changing its object afterwards
+    const next: LiveTvData = JSON.parse(JSON.stringify(data));
+    changeListeners.forEach(listener => {
+        try {
+            listener(previous, next);
+        } catch (error) {
+            console.error('Live TV change listener failed:', error);
+        }
+    });
 };
 
 export const getCurrentStream = (): LiveTvSource | null => {
@@ -68,6 +129,17 @@ export const getCurrentStream = (): LiveTvSource | null => {
     return data.sources.find(s => s.id === data.currentStreamId) || null;
 };
 
+/**
+ * How far into the current stream viewers should be, in seconds, so everyone watches the same
+ * moment. Null when nothing is on air or the start time is unknown.
+ */
+export const getPlaybackPosition = (data: LiveTvData, now = Date.now()): number | null => {
+    if (!data.isLive || !data.currentStreamId || !data.startedAt) return null;
+    const elapsed = Math.max(0, (now - Date.parse(data.startedAt)) / 1000);
+    const current = data.sources.find(s => s.id === data.currentStreamId);
+    return current?.duration ? Math.min(elapsed, current.duration) : elapsed;
+};
+
 export const addSourceToQueue = (source: LiveTvSource): boolean => {
     try {
         const data = readLiveTvData();
@@ -106,8 +178,12 @@ export const goLive = (sourceId?: string): LiveTvSource | null => {
         
         if (!streamToPlay) return null;
         
+        // Picking something by hand overrides a slot that's on air
+        if (data.currentSlotId) data.skippedSlotId = data.currentSlotId;
         data.currentStreamId = streamToPlay.id;
         data.isLive = true;
+        data.startedAt = new Date().toISOString();
+        data.currentSlotId = null;
         
         const sourceIndex = data.sources.findIndex(s => s.id === streamToPlay!.id);
         if (sourceIndex !== -1) {
@@ -135,8 +211,11 @@ export const stopBroadcast = (): boolean => {
             }
         }
         
+        if (data.currentSlotId) data.skippedSlotId = data.currentSlotId;
         data.currentStreamId = null;
         data.isLive = false;
+        data.startedAt = null;
+        data.currentSlotId = null;
         
         writeLiveTvData(data);
         return true;
@@ -169,14 +248,18 @@ export const setDefaultSource = (sourceId: string): boolean => {
 
 export const removeSource = (sourceId: string): boolean => {
     try {
-        const data = readLiveTvData();
-        
-        if (data.currentStreamId === sourceId) {
+        if (readLiveTvData().currentStreamId === sourceId) {
             stopBroadcast();
         }
+        // Read after stopping so the stop isn't overwritten
+        const data = readLiveTvData();
         
         data.sources = data.sources.filter(s => s.id !== sourceId);
         data.queue = data.queue.filter(s => s.id !== sourceId);
+        data.schedule = (data.schedule || []).filter(slot => slot.sourceId !== sourceId);
+        data.blocks = (data.blocks || [])
+            .map(block => ({ ...block, sourceIds: block.sourceIds.filter(id => id !== sourceId) }))
+            .filter(block => block.sourceIds.length > 0);
         
         if (data.defaultSourceId === sourceId) {
             data.defaultSourceId = null;
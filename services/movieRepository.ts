@@ -157,6 +157,19 @@ class MovieRepository {
     return result;
   }
 
+  /**
+   * Ranked full-text search on the server (handles Yoruba tone marks and typos)
+   */
+  async search(query: string, limit: number = 5, signal?: AbortSignal): Promise<Movie[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await fetch(`/api/movies/search?${params}`, { signal });
+    if (!response.ok) {
+      throw new Error('Failed to search movies');
+    }
+    const data: { results: Movie[] } = await response.json();
+    return data.results;
+  }
+
   /**
    * Preload next and previous pages for smooth navigation
    */
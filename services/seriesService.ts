@@ -0,0 +1,227 @@
+import { Movie, Series } from '../bot/types';
+import { moviesRepository, seriesRepository, withTransaction } from '../server/storage';
+import { foldText } from '../server/movieSearchIndex';
+
+const PART_SUFFIX = /\s*[-:(]?\s*part\s*\d+\s*\)?\s*$/i;
+
+/**
+ * Key used to decide whether two movies belong to the same series:
+ * "Ọ̀rọ̀ Ẹ̀san" and "Oro Esan" group together
+ */
+const seriesKey = (title: string): string => foldText(title.replace(PART_SUFFIX, '')).replace(/[^a-z0-9]+/g, ' ').trim();
+
+const slugify = (title: string): string =>
+    foldText(title).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+
+const sortByPart = (movies: Movie[]): Movie[] =>
+    [...movies].sort((a, b) => (a.partNumber || 1) - (b.partNumber || 1) || a.createdAt.localeCompare(b.createdAt));
+
+const createSeriesRecord = (title: string, parts: Movie[]): Series => {
+    const now = new Date().toISOString();
+    return {
+        id: `series-${slugify(title)}-${Date.now().toString().slice(-6)}`,
+        title,
+        poster: parts[0]?.poster || '',
+        partIds: parts.map(part => part.id),
+        createdAt: now,
+        updatedAt: now
+    };
+};
+
+/**
+ * Rewrite a series' parts so partNumber follows partIds order and every part
+ * points back at the series. Saves the series and any movie that changed.
+ */
+const saveSeriesWithParts = (series: Series, parts: Movie[]) => {
+    series.partIds = parts.map(part => part.id);
+    series.poster = parts[0]?.poster || series.poster;
+    series.updatedAt = new Date().toISOString();
+    seriesRepository.save(series);
+
+    parts.forEach((part, index) => {
+        if (part.seriesId === series.id && part.partNumber === index + 1 && part.seriesTitle === series.title) return;
+        moviesRepository.save({
+            ...part,
+            seriesId: series.id,
+            seriesTitle: series.title,
+            partNumber: index + 1,
+            updatedAt: new Date().toISOString()
+        });
+    });
+};
+
+const detachMovie = (movie: Movie) => {
+    const { seriesId, ...standalone } = movie;
+    moviesRepository.save({
+        ...standalone,
+        seriesTitle: movie.title.replace(PART_SUFFIX, '').trim() || movie.title,
+        partNumber: 1,
+        updatedAt: new Date().toISOString()
+    });
+};
+
+export const getAllSeries = (): Series[] => seriesRepository.all();
+
+export const getSeries = (seriesId: string): Series | undefined => seriesRepository.get(seriesId);
+
+/**
+ * Parts of a series in viewing order, skipping any that no longer exist
+ */
+export const getSeriesParts = (series: Series): Movie[] => {
+    const parts = new Map(moviesRepository.findBy('seriesId', series.id).map(movie => [movie.id, movie]));
+    return series.partIds
+        .map(id => parts.get(id))
+        .filter((movie): movie is Movie => !!movie);
+};
+
+/**
+ * Work out which series should exist for a catalogue: every seriesTitle shared by two
+ * or more movies becomes one series, ordered by partNumber. Pure, so the migration
+ * can preview it.
+ */
+export const planSeriesFromMovies = (movies: Movie[]): { title: string; parts: Movie[] }[] => {
+    const groups = new Map<string, Movie[]>();
+    movies.forEach(movie => {
+        const key = seriesKey(movie.seriesTitle || movie.title);
+        if (!key) return;
+        groups.set(key, [...(groups.get(key) || []), movie]);
+    });
+
+    return [...groups.values()]
+        .filter(parts => parts.length > 1)
+        .map(parts => {
+            const ordered = sortByPart(parts);
+            return { title: ordered[0].seriesTitle || ordered[0].title.replace(PART_SUFFIX, '').trim(), parts: ordered };
+        });
+};
+
+/**
+ * Put a newly imported movie into its series. Joins an existing series with the same
+ * (diacritic-insensitive) title, or starts one when another movie already shares the
+ * title, e.g. the finder importing "Koleoso Part 2" after "Koleoso" was added.
+ * Returns the series the movie ended up in, if any.
+ */
+export const groupMovieIntoSeries = (movie: Movie): Series | undefined => {
+    const key = seriesKey(movie.seriesTitle || movie.title);
+    if (!key) return undefined;
+
+    return withTransaction(() => {
+        const existing = getAllSeries().find(series => seriesKey(series.title) === key);
+        if (existing) {
+            if (existing.partIds.includes(movie.id)) return existing;
+            const parts = sortByPart([...getSeriesParts(existing), movie]);
+            saveSeriesWithParts(existing, parts);
+            return existing;
+        }
+
+        const siblings = moviesRepository.all().filter(other =>
+            other.id !== movie.id && !other.seriesId && seriesKey(other.seriesTitle || other.title) === key
+        );
+        if (siblings.length === 0) return undefined;
+
+        const parts = sortByPart([...siblings, movie]);
+        const series = createSeriesRecord(parts[0].seriesTitle || movie.seriesTitle || movie.title, parts);
+        saveSeriesWithParts(series, parts);
+        console.log(`📚 Grouped ${parts.length} parts into series "${series.title}"`);
+        return series;
+    });
+};
+
+/**
+ * Merge `movieId` (and its whole series, if it has one) into the series of
+ * `targetMovieId`, creating that series if the target is still standalone.
+ * New parts are appended after the target's parts.
+ */
+export const mergeIntoSeries = (movieId: string, targetMovieId: string): Series => {
+    return withTransaction(() => {
+        const movie = moviesRepository.get(movieId);
+        const target = moviesRepository.get(targetMovieId);
+        if (!movie || !target) throw new Error('Movie not found');
+        if (movie.id === target.id) throw new Error('Cannot merge a movie into itself');
+
+        const targetSeries = target.seriesId ? getSeries(target.seriesId) : undefined;
+        const sourceSeries = movie.seriesId ? getSeries(movie.seriesId) : undefined;
+        if (targetSeries && sourceSeries && targetSeries.id === sourceSeries.id) {
+            throw new Error('Both movies are already in the same series');
+        }
+
+        const incoming = sourceSeries ? getSeriesParts(sourceSeries) : [movie];
+        const series = targetSeries || createSeriesRecord(target.seriesTitle || target.title, [target]);
+        const existingParts = targetSeries ? getSeriesParts(targetSeries) : [target];
+
+        if (sourceSeries) seriesRepository.remove(sourceSeries.id);
+        saveSeriesWithParts(series, [...existingParts, ...incoming]);
+        return series;
+    });
+};
+
+/**
+ * Take one part out of its series so it stands alone again. The remaining parts are
+ * renumbered; a series left with a single part is dissolved.
+ */
+export const splitFromSeries = (movieId: string): { movie: Movie; series?: Series } => {
+    return withTransaction(() => {
+        const movie = moviesRepository.get(movieId);
+        if (!movie) throw new Error('Movie not found');
+        const series = movie.seriesId ? getSeries(movie.seriesId) : undefined;
+        if (!series) throw new Error('This movie is not part of a series');
+
+        const remaining = getSeriesParts(series).filter(part => part.id !== movieId);
+        detachMovie(movie);
+
+        if (remaining.length < 2) {
+            seriesRepository.remove(series.id);
+            remaining.forEach(detachMovie);
+            return { movie };
+        }
+        saveSeriesWithParts(series, remaining);
+        return { movie, series };
+    });
+};
+
+/**
+ * Move a part one step earlier or later in its series
+ */
+export const movePart = (movieId: string, direction: -1 | 1): Series => {
+    return withTransaction(() => {
+        const movie = moviesRepository.get(movieId);
+        const series = movie?.seriesId ? getSeries(movie.seriesId) : undefined;
+        if (!movie || !series) throw new Error('This movie is not part of a series');
+
+        const parts = getSeriesParts(series);
+        const index = parts.findIndex(part => part.id === movieId);
+        const swapWith = index + direction;
+        if (swapWith < 0 || swapWith >= parts.length) return series;
+
+        [parts[index], parts[swapWith]] = [parts[swapWith], parts[index]];
+        saveSeriesWithParts(series, parts);
+        return series;
+    });
+};
+
+/**
+ * Drop a deleted movie from whichever series referenced it
+ */
+export const removeMovieFromSeries = (movieId: string) => {
+    const series = getAllSeries().find(s => s.partIds.includes(movieId));
+    if (!series) return;
+
+    withTransaction(() => {
+        const remaining = getSeriesParts(series).filter(part => part.id !== movieId);
+        if (remaining.length < 2) {
+            seriesRepository.remove(series.id);
+            remaining.forEach(detachMovie);
+        } else {
+            saveSeriesWithParts(series, remaining);
+        }
+    });
+};
+
+/**
+ * Create a series record for every multi-part group, used by the schema migration
+ */
+export const createSeriesFromPlan = (plan: { title: string; parts: Movie[] }[]) => {
+    withTransaction(() => {
+        plan.forEach(({ title, parts }) => saveSeriesWithParts(createSeriesRecord(title, parts), parts));
+    });
+};
@@ -3,7 +3,7 @@
  * Handles user authentication, session storage, and data persistence
  */
 
-import { User } from './types';
+import { DeviceSession, LoginActivity, LoginResult, TwoFactorSetup, TwoFactorStatus, User } from './types';
 
 export interface UserSession {
   userId?: string;
@@ -121,9 +121,10 @@ export const getCurrentUserId = (): string | null => {
 };
 
 /**
- * Login user with email and password
+ * Login user with email and password. Accounts with two-factor authentication get a
+ * challenge back instead, to be finished with verifyTwoFactorLogin.
  */
-export const login = async (email: string, password: string): Promise<User | null> => {
+export const login = async (email: string, password: string): Promise<LoginResult> => {
   try {
     const response = await fetch('/api/users/login', {
       method: 'POST',
@@ -139,6 +140,9 @@ export const login = async (email: string, password: string): Promise<User | nul
     }
 
     const data = await response.json();
+    if (data.twoFactorRequired) {
+      return { twoFactorRequired: true, challengeToken: data.challengeToken };
+    }
     
     // Create session with returned data
     createSession({
@@ -154,6 +158,38 @@ export const login = async (email: string, password: string): Promise<User | nul
   }
 };
 
+/**
+ * Second login step: a code from the authenticator app, or a recovery code
+ */
+export const verifyTwoFactorLogin = async (challengeToken: string, code: string): Promise<User> => {
+  try {
+    const response = await fetch('/api/users/login/2fa', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Login failed');
+    }
+
+    const data = await response.json();
+    createSession({
+      user: data.user,
+      token: data.token,
+      csrfToken: data.csrfToken
+    });
+
+    return data.user;
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    throw error;
+  }
+};
+
 /**
  * Signup new user
  */
@@ -355,6 +391,251 @@ export const updateUserProfile = async (profileData: { name?: string; username?:
   }
 };
 
+/**
+ * Email a one-time password reset link. Resolves with the message to show, which is the same
+ * whether or not the account exists.
+ */
+export const requestPasswordReset = async (email: string): Promise<string> => {
+  try {
+    const response = await fetch('/api/users/forgot-password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send reset link');
+    }
+    return data.message;
+  } catch (error) {
+    console.error('Request password reset error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Set a new password with the token from a reset link. Every session of the account is signed out.
+ */
+export const confirmPasswordReset = async (token: string, newPassword: string): Promise<void> => {
+  try {
+    const response = await fetch('/api/users/forgot-password/confirm', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, newPassword }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to reset password');
+    }
+  } catch (error) {
+    console.error('Confirm password reset error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Recent successful and failed sign-ins to the current account, newest first
+ */
+export const getLoginActivity = async (): Promise<LoginActivity[]> => {
+  try {
+    const session = getSession();
+    if (!session) {
+      throw new Error('No active session');
+    }
+
+    const response = await fetch('/api/users/login-activity', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${session.token}`,
+        'X-CSRF-Token': session.csrfToken || '',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to load login activity');
+    }
+
+    const data = await response.json();
+    return data.activity;
+  } catch (error) {
+    console.error('Get login activity error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Devices signed in to the current account, most recently active first
+ */
+export const getSessions = async (): Promise<DeviceSession[]> => {
+  try {
+    const session = getSession();
+    if (!session) {
+      throw new Error('No active session');
+    }
+
+    const response = await fetch('/api/users/sessions', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${session.token}`,
+        'X-CSRF-Token': session.csrfToken || '',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to load devices');
+    }
+
+    const data = await response.json();
+    return data.sessions;
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Sign out one device by its session id
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  try {
+    const session = getSession();
+    if (!session) {
+      throw new Error('No active session');
+    }
+
+    const response = await fetch(`/api/users/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${session.token}`,
+        'X-CSRF-Token': session.csrfToken || '',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to sign out device');
+    }
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    throw error;
+  }
+};
+
+/**
+ * POST to one of the /api/users/2fa endpoints with the current session
+ */
+const postTwoFactor = async (path: string, body: object, fallbackError: string) => {
+  const session = getSession();
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const response = await fetch(`/api/users/2fa${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.token}`,
+      'X-CSRF-Token': session.csrfToken || '',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+  return response.json();
+};
+
+/**
+ * Whether two-factor authentication is on for the current account
+ */
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  try {
+    const session = getSession();
+    if (!session) {
+      throw new Error('No active session');
+    }
+
+    const response = await fetch('/api/users/2fa', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${session.token}`,
+        'X-CSRF-Token': session.csrfToken || '',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to load two-factor status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a new secret to scan into an authenticator app
+ */
+export const startTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  try {
+    return await postTwoFactor('/setup', {}, 'Failed to start two-factor setup');
+  } catch (error) {
+    console.error('Start two-factor setup error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Confirm the setup with a code from the app. Returns the recovery codes, which are only shown once.
+ */
+export const enableTwoFactor = async (code: string): Promise<{ recoveryCodes: string[]; user: User }> => {
+  try {
+    return await postTwoFactor('/enable', { code }, 'Failed to turn on two-factor authentication');
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    throw error;
+  }
+};
+
+export const disableTwoFactor = async (password: string, code: string): Promise<User> => {
+  try {
+    const data = await postTwoFactor('/disable', { password, code }, 'Failed to turn off two-factor authentication');
+    return data.user;
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace all recovery codes; the old ones stop working
+ */
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  try {
+    const data = await postTwoFactor('/recovery-codes', { code }, 'Failed to create new recovery codes');
+    return data.recoveryCodes;
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    throw error;
+  }
+};
+
 /**
  * Reset user password
  */
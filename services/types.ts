@@ -6,6 +6,35 @@ export interface User {
   profilePic?: string;
   passwordHash: string;
   role?: 'admin' | 'user';
+  twoFactorEnabled?: boolean;
+  /** Staff account that must turn on two-factor authentication before using staff features */
+  twoFactorSetupRequired?: boolean;
+}
+
+/**
+ * Returned by login instead of a user when the account has two-factor authentication on
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/** What the first login step gives back */
+export type LoginResult = User | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Staff account under the site's mandatory 2FA setting; it can't be turned off */
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+}
+
+export interface TwoFactorSetup {
+  /** Base32 secret for typing into an app by hand */
+  secret: string;
+  /** otpauth:// URI shown as a QR code */
+  otpauthUri: string;
 }
 
 export interface Comment {
@@ -20,8 +49,54 @@ export interface Comment {
   isAI?: boolean;
   userProfilePic?: string;
   userRole?: 'admin' | 'moderator' | 'user';
+  /** Only sent to the author (held/hidden) and to site staff */
+  status?: 'flagged' | 'held' | 'hidden';
+  reportedByMe?: boolean;
+  /** Staff only */
+  flags?: string[];
+  reportCount?: number;
+  /** Replies are loaded on demand; this is how many there are */
+  replyCount?: number;
+  editedAt?: string;
+  revisionCount?: number;
+  /** Only sent to the author while they can still edit it */
+  editableUntil?: string;
 }
 
+export interface LoginActivity {
+  at: string;
+  success: boolean;
+  /** Why a failed sign-in failed */
+  reason?: 'password' | 'two-factor' | 'delayed' | 'locked' | 'ip-locked';
+  ipAddress: string;
+  userAgent: string;
+  /** e.g. "Chrome on Android" */
+  device: string;
+}
+
+export interface DeviceSession {
+  /** Public id of the session; the token itself is never sent back */
+  id: string;
+  device: string;
+  browser: string;
+  os: string;
+  type: 'mobile' | 'tablet' | 'desktop';
+  ipAddress: string;
+  createdAt: string;
+  /** Coarse, e.g. "Active now" or "3 hours ago" */
+  lastSeen: string;
+  current: boolean;
+}
+
+export interface CommentRevision {
+  comment: string;
+  rating?: number;
+  date: string;
+}
+
+export type CommentReportReason = 'spam' | 'abuse' | 'spoiler' | 'other';
+export type CommentSort = 'newest' | 'top' | 'rating';
+
 export interface Upvote {
   commentId: string;
   userIds: string[];
@@ -44,8 +119,31 @@ export interface Movie {
   updatedAt: string;
   trailerId?: string;
   status?: 'coming-soon';
+  publishAt?: string;
   seriesTitle?: string;
   partNumber?: number;
+  seriesId?: string;
+  /** Stars readers left with their comments, added by the API */
+  audienceRating?: AudienceRating;
+}
+
+export interface AudienceRating {
+  count: number;
+  mean: number;
+  /** Mean weighted towards the site average while a movie has few ratings */
+  score: number;
+  /** How many 1★…5★ ratings, index 0 being 1★ */
+  distribution: number[];
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  poster: string;
+  partIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  parts?: Movie[];
 }
 
 export interface ChatMessage {
@@ -180,6 +180,25 @@ export class YtDlpBinaryManager {
     }
   }
 
+  /**
+   * Resolves a direct media URL FFmpeg can read, preferring a single file with both audio
+   * and video so it can be played without merging
+   */
+  public async getDirectUrl(url: string, format: string = 'best[height<=720][vcodec!=none][acodec!=none]/best'): Promise<string> {
+    const args = this.buildArgsWithAuth([
+      '-g',
+      '-f', format,
+      '--no-warnings'
+    ]);
+
+    const output = await this.execute([...args, url]);
+    const directUrl = output.split('\n').map(line => line.trim()).find(line => line.startsWith('http'));
+    if (!directUrl) {
+      throw new Error('yt-dlp did not return a media URL');
+    }
+    return directUrl;
+  }
+
   /**
    * Downloads a video with specified format and bot bypass
    */
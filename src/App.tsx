@@ -20,12 +20,14 @@ const TrendingPage = lazy(() => import('../pages/TrendingPage'));
 const StaticPage = lazy(() => import('../pages/StaticPage'));
 const YouTubeDownloaderPage = lazy(() => import('../pages/YouTubeDownloaderPage'));
 const LoginPage = lazy(() => import('../pages/LoginPage'));
+const ForgotPasswordPage = lazy(() => import('../pages/ForgotPasswordPage'));
 const SignUpPage = lazy(() => import('../pages/SignUpPage'));
 const ActorPage = lazy(() => import('../pages/ActorPage'));
 const WatchlistPage = lazy(() => import('../pages/WatchlistPage'));
 const CollectionsPage = lazy(() => import('../pages/CollectionsPage'));
 const ProfilePage = lazy(() => import('../pages/ProfilePage'));
 const LiveTvPage = lazy(() => import('../pages/LiveTvPage'));
+const SeriesPage = lazy(() => import('../pages/SeriesPage'));
 
 
 const App: React.FC = () => {
@@ -47,6 +49,7 @@ const App: React.FC = () => {
                   <Routes>
                     <Route path="/" element={<HomePage />} />
                     <Route path="/movie/:id" element={<MovieDetailsPage />} />
+                    <Route path="/series/:id" element={<SeriesPage />} />
                     <Route path="/trending" element={<TrendingPage />} />
                     <Route path="/youtube-downloader" element={<YouTubeDownloaderPage />} />
                     <Route path="/privacy-policy" element={<StaticPage page={STATIC_PAGES.privacy} />} />
@@ -55,6 +58,8 @@ const App: React.FC = () => {
                     <Route path="/advertise" element={<StaticPage page={STATIC_PAGES.advertise} />} />
                     <Route path="/login" element={<LoginPage />} />
                     <Route path="/signup" element={<SignUpPage />} />
+                    <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                    <Route path="/reset-password" element={<ForgotPasswordPage />} />
                     <Route path="/actor/:name" element={<ActorPage />} />
                     <Route path="/collections" element={<CollectionsPage />} />
                     <Route path="/live-tv" element={<LiveTvPage />} />
@@ -455,7 +455,7 @@ class CinemaxAIService {
     }
   }
 
-  async suggestNewMovies(existingMovies: Movie[]): Promise<string> {
+  async suggestNewMovies(existingMovies: Movie[], trendingTitles: string[] = []): Promise<string> {
     try {
       console.log('💡 Suggesting new movies...');
 
@@ -464,6 +464,7 @@ class CinemaxAIService {
         content: 'Suggest new Yoruba movies to add to the collection',
         context: {
           existingMovies: existingMovies.map(m => m.title),
+          trendingTitles,
           suggestionType: 'movie-acquisition'
         }
       };